@@ -19,14 +19,21 @@ import { lightTheme, darkTheme } from "styles/theme";
 import { Layout } from "components";
 import { Dashboard } from "pages/Dashboard";
 import { Send } from "pages/Send";
+import { BatchSend } from "pages/BatchSend";
 import { Receive } from "pages/Receive";
 import { Accounts } from "pages/Accounts";
+import { Contacts } from "pages/Contacts";
 import { Deploy } from "pages/Deploy";
+import { OfflineSigning } from "pages/OfflineSigning";
 import { IDE } from "pages/IDE";
 import { Settings } from "pages/Settings";
 import { KeyGenerator } from "pages/KeyGenerator";
+import { SignMessage } from "pages/SignMessage";
 import { Login } from "pages/Login";
 import { History } from "pages/History";
+import { Explorer } from "pages/Explorer";
+import { Staking } from "pages/Staking";
+import { Registry } from "pages/Registry";
 import { useIdleTimer, useDeepLink, useSessionGuard } from "hooks";
 import { ExistingAccountGuard } from "components/ExistingAccountGuard";
 import TransactionPollingService from "services/transactionPolling";
@@ -119,6 +126,17 @@ const AppContent: React.FC = () => {
                     }
                 />
 
+                <Route
+                    path="/batch-send"
+                    element={
+                        <ProtectedRoute>
+                            <Layout>
+                                <BatchSend />
+                            </Layout>
+                        </ProtectedRoute>
+                    }
+                />
+
                 <Route
                     path="/receive"
                     element={
@@ -130,6 +148,17 @@ const AppContent: React.FC = () => {
                     }
                 />
 
+                <Route
+                    path="/contacts"
+                    element={
+                        <ProtectedRoute>
+                            <Layout>
+                                <Contacts />
+                            </Layout>
+                        </ProtectedRoute>
+                    }
+                />
+
                 <Route
                     path="/history"
                     element={
@@ -152,6 +181,17 @@ const AppContent: React.FC = () => {
                     }
                 />
 
+                <Route
+                    path="/offline-signing"
+                    element={
+                        <ProtectedRoute>
+                            <Layout>
+                                <OfflineSigning />
+                            </Layout>
+                        </ProtectedRoute>
+                    }
+                />
+
                 <Route
                     path="/ide"
                     element={
@@ -163,6 +203,61 @@ const AppContent: React.FC = () => {
                     }
                 />
 
+                <Route
+                    path="/explorer"
+                    element={
+                        <ProtectedRoute>
+                            <Layout>
+                                <Explorer />
+                            </Layout>
+                        </ProtectedRoute>
+                    }
+                />
+
+                <Route
+                    path="/explorer/:kind/:id"
+                    element={
+                        <ProtectedRoute>
+                            <Layout>
+                                <Explorer />
+                            </Layout>
+                        </ProtectedRoute>
+                    }
+                />
+
+                <Route
+                    path="/registry"
+                    element={
+                        <ProtectedRoute>
+                            <Layout>
+                                <Registry />
+                            </Layout>
+                        </ProtectedRoute>
+                    }
+                />
+
+                <Route
+                    path="/registry/:uri"
+                    element={
+                        <ProtectedRoute>
+                            <Layout>
+                                <Registry />
+                            </Layout>
+                        </ProtectedRoute>
+                    }
+                />
+
+                <Route
+                    path="/staking"
+                    element={
+                        <ProtectedRoute>
+                            <Layout>
+                                <Staking />
+                            </Layout>
+                        </ProtectedRoute>
+                    }
+                />
+
                 <Route
                     path="/settings"
                     element={
@@ -185,6 +280,17 @@ const AppContent: React.FC = () => {
                     }
                 />
 
+                <Route
+                    path="/sign-message"
+                    element={
+                        <ProtectedRoute>
+                            <Layout>
+                                <SignMessage />
+                            </Layout>
+                        </ProtectedRoute>
+                    }
+                />
+
                 <Route
                     path="*"
                     element={
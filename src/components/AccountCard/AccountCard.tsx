@@ -5,6 +5,10 @@ import { RemoveAccountButton } from "components/RemoveAccountButton";
 import { DownloadIcon, LockPassIcon } from "components/Icons";
 import { buildUrlWithParams } from "utils/navigationUtils";
 import { AccountBalance } from "components/AccountBalance";
+import { TokenBalanceList } from "components/TokenBalanceList";
+import { BalanceSparkline } from "components/BalanceChart";
+import { FiatValue } from "components/FiatValue";
+import { useBalanceHistory } from "hooks/";
 import { useDispatch, useSelector } from "react-redux";
 import { exportAccountKeyfile } from "store/authSlice";
 import { selectAccount } from "store/walletSlice";
@@ -14,11 +18,13 @@ import { Card } from "components/Card";
 import { Account } from "types/wallet";
 import { ReactElement } from "react";
 import { RootState } from "store";
+import { TokenBalance } from "services/tokens";
 
 interface IAccountCardProps {
     account: Account;
     fullMode?: boolean;
     className?: string;
+    tokenBalances?: TokenBalance[];
 }
 
 const AccountCardWrapper = styled(Card)<{ $isSelected: boolean }>`
@@ -110,6 +116,23 @@ const ActionButton = styled(Button)<{ $isSelected: boolean }>`
     border-width: 2px;
 `;
 
+const FiatBalance = styled(FiatValue)<{ $isSelected: boolean }>`
+    display: block;
+    margin: -16px 0 16px;
+    font-size: 0.875rem;
+    color: ${({ $isSelected, theme }) =>
+        !$isSelected ? theme.text.primary : theme.colors.background.secondary};
+`;
+
+const SparklineWrapper = styled.div<{ $isSelected: boolean }>`
+    margin-bottom: 12px;
+
+    path {
+        stroke: ${({ $isSelected, theme }) =>
+            !$isSelected ? theme.primary : theme.colors.background.secondary};
+    }
+`;
+
 const AccountActions = styled.div`
     display: flex;
     gap: 16px;
@@ -120,11 +143,14 @@ export const AccountCard = ({
     account,
     fullMode = true,
     className = "",
+    tokenBalances = [],
 }: IAccountCardProps): ReactElement => {
     const dispatch = useDispatch();
     const navigate = useNavigate();
 
-    const { selectedAccount } = useSelector((state: RootState) => state.wallet);
+    const { selectedAccount, selectedNetwork } = useSelector(
+        (state: RootState) => state.wallet,
+    );
     const { unlockedAccounts } = useSelector((state: RootState) => state.auth);
 
     const handleSelectAccount = (accountId: string) => {
@@ -150,6 +176,11 @@ export const AccountCard = ({
         (unlockedAccount: Account) => unlockedAccount.id === account.id,
     );
     const isSelected = selectedAccount?.id === account.id;
+    const balanceHistory = useBalanceHistory(
+        selectedNetwork?.id,
+        [account.revAddress],
+        "7d",
+    );
 
     return (
         <AccountCardWrapper
@@ -166,6 +197,29 @@ export const AccountCard = ({
             </AccountHeader>
 
             <AccountBalance account={account} isSelected={isSelected} />
+            <FiatBalance amount={account.balance} $isSelected={isSelected} />
+            <TokenBalanceList
+                balances={tokenBalances}
+                isSelected={isSelected}
+            />
+            {balanceHistory.length > 1 && (
+                <SparklineWrapper
+                    $isSelected={isSelected}
+                    title="Balance over the last 7 days"
+                >
+                    <BalanceSparkline points={balanceHistory} />
+                </SparklineWrapper>
+            )}
+            {account.isWatchOnly && (
+                <LabelThird $isSelected={isSelected}>
+                    Watch-only · signing disabled
+                </LabelThird>
+            )}
+            {fullMode && account.derivationPath && (
+                <LabelThird $isSelected={isSelected}>
+                    {`Recovery phrase · ${account.derivationPath}`}
+                </LabelThird>
+            )}
 
             <AccountCardFooter>
                 <AccountAddress $isSelected={isSelected}>
@@ -187,7 +241,7 @@ export const AccountCard = ({
                     />
                 </AccountAddress>
 
-                {fullMode && (
+                {fullMode && !account.isWatchOnly && (
                     <AccountActions>
                         {!isUnlocked && (
                             <ActionButton
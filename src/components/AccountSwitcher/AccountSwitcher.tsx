@@ -8,7 +8,7 @@ import React, {
 import styled, { css } from "styled-components";
 import { useSelector, useDispatch } from "react-redux";
 import { RootState } from "store";
-import { selectAccount, fetchBalance } from "store/walletSlice";
+import { selectAccount, fetchBalances } from "store/walletSlice";
 import { truncateText } from "utils/textUtils";
 import { formatBalanceCompact } from "utils/balanceUtils";
 
@@ -324,18 +324,14 @@ export const AccountSwitcher: React.FC<IAccountSwitcherProps> = ({
 
         setIsLoadingBalances(true);
 
-        const balancePromises = filteredAccounts.map((account) =>
-            dispatch(
-                fetchBalance({
-                    account,
+        try {
+            await dispatch(
+                fetchBalances({
+                    accounts: filteredAccounts,
                     network: selectedNetwork,
                     forceRefresh,
                 }) as any,
-            ),
-        );
-
-        try {
-            await Promise.all(balancePromises);
+            );
         } catch (error) {
             console.error("Error fetching balances:", error);
         } finally {
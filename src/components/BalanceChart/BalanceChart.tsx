@@ -0,0 +1,159 @@
+import React from "react";
+import styled from "styled-components";
+import { BalancePoint } from "services/balanceHistory";
+import { Amount } from "utils/amount";
+
+const VIEW_WIDTH = 600;
+
+const ChartWrapper = styled.div`
+    position: relative;
+`;
+
+const ChartSvg = styled.svg`
+    display: block;
+    width: 100%;
+    overflow: visible;
+`;
+
+const Line = styled.path`
+    fill: none;
+    stroke: ${({ theme }) => theme.primary};
+    stroke-width: 2;
+    vector-effect: non-scaling-stroke;
+`;
+
+const Area = styled.path`
+    fill: ${({ theme }) => `${theme.primary}26`};
+    stroke: none;
+`;
+
+const AxisLabels = styled.div`
+    display: flex;
+    justify-content: space-between;
+    margin-top: 8px;
+    color: ${({ theme }) => theme.text.secondary};
+`;
+
+const ValueLabel = styled.span<{ $position: "top" | "bottom" }>`
+    position: absolute;
+    left: 0;
+    ${({ $position }) => ($position === "top" ? "top: 0;" : "bottom: 28px;")}
+    color: ${({ theme }) => theme.text.secondary};
+`;
+
+const EmptyState = styled.div<{ $height: number }>`
+    display: flex;
+    align-items: center;
+    justify-content: center;
+    height: ${({ $height }) => $height}px;
+    color: ${({ theme }) => theme.text.secondary};
+    text-align: center;
+`;
+
+// Balances only change at snapshots, so the line is drawn as steps
+const stepPath = (
+    points: BalancePoint[],
+    height: number,
+    padding: number,
+): string => {
+    const first = points[0].timestamp;
+    const span = points[points.length - 1].timestamp - first || 1;
+    const balances = points.map(({ balance }) => balance);
+    const min = Math.min(...balances);
+    const max = Math.max(...balances);
+    const x = (timestamp: number) => ((timestamp - first) / span) * VIEW_WIDTH;
+    const y = (balance: number) =>
+        max === min
+            ? height / 2
+            : padding +
+              (1 - (balance - min) / (max - min)) * (height - 2 * padding);
+
+    return points
+        .map(({ timestamp, balance }, index) =>
+            index === 0
+                ? `M ${x(timestamp)} ${y(balance)}`
+                : `H ${x(timestamp)} V ${y(balance)}`,
+        )
+        .join(" ");
+};
+
+const formatBalance = (balance: number): string =>
+    Amount.from(balance.toFixed(4)).format({
+        maxDecimals: 4,
+        showCurrency: true,
+    });
+
+interface BalanceChartProps {
+    points: BalancePoint[];
+    height?: number;
+}
+
+export const BalanceChart: React.FC<BalanceChartProps> = ({
+    points,
+    height = 180,
+}) => {
+    if (points.length < 2) {
+        return (
+            <EmptyState className="text-2" $height={height}>
+                No balance history yet. A point is recorded each time balances
+                are refreshed.
+            </EmptyState>
+        );
+    }
+
+    const path = stepPath(points, height, 8);
+    const balances = points.map(({ balance }) => balance);
+    const start = new Date(points[0].timestamp);
+    const end = new Date(points[points.length - 1].timestamp);
+
+    return (
+        <ChartWrapper>
+            <ValueLabel className="text-3" $position="top">
+                {formatBalance(Math.max(...balances))}
+            </ValueLabel>
+            <ValueLabel className="text-3" $position="bottom">
+                {formatBalance(Math.min(...balances))}
+            </ValueLabel>
+            <ChartSvg
+                viewBox={`0 0 ${VIEW_WIDTH} ${height}`}
+                height={height}
+                preserveAspectRatio="none"
+                role="img"
+                aria-label="Balance history"
+            >
+                <Area d={`${path} V ${height} H 0 Z`} />
+                <Line d={path} />
+            </ChartSvg>
+            <AxisLabels className="text-3">
+                <span>{start.toLocaleString()}</span>
+                <span>{end.toLocaleString()}</span>
+            </AxisLabels>
+        </ChartWrapper>
+    );
+};
+
+interface BalanceSparklineProps {
+    points: BalancePoint[];
+    width?: number;
+    height?: number;
+}
+
+export const BalanceSparkline: React.FC<BalanceSparklineProps> = ({
+    points,
+    width = 120,
+    height = 32,
+}) => {
+    if (points.length < 2) return null;
+
+    return (
+        <ChartSvg
+            viewBox={`0 0 ${VIEW_WIDTH} ${height}`}
+            height={height}
+            style={{ width }}
+            preserveAspectRatio="none"
+            aria-hidden
+        >
+            <Line d={stepPath(points, height, 2)} />
+        </ChartSvg>
+    );
+};
@@ -0,0 +1 @@
+export { BalanceChart, BalanceSparkline } from "./BalanceChart";
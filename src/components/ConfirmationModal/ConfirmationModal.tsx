@@ -2,7 +2,10 @@ import React, { useState } from "react";
 import styled from "styled-components";
 import { Button, Input } from "components";
 import { getTokenDisplayName } from "../../constants/token";
+import { GAS_FEE } from "../../constants/gas";
+import { Amount } from "utils/amount";
 import { useScreen } from "hooks";
+import { FiatValue } from "components/FiatValue";
 
 const Overlay = styled.div`
     position: fixed;
@@ -80,6 +83,13 @@ const AmountValue = styled(DetailValue)`
     font-weight: 700;
 `;
 
+const FiatNote = styled(FiatValue)`
+    display: block;
+    font-size: 12px;
+    font-weight: 400;
+    color: ${({ theme }) => theme.text.secondary};
+`;
+
 const AddressValue = styled(DetailValue)`
     font-size: 12px;
 `;
@@ -124,6 +134,8 @@ interface TransactionConfirmationProps {
     senderAddress: string;
     senderName: string;
     estimatedFee?: string;
+    // Set for custom token transfers, whose amount is not in ASI
+    tokenSymbol?: string;
     loading?: boolean;
     needsPassword?: boolean;
     requirePasswordForTransaction?: boolean;
@@ -139,6 +151,8 @@ export const TransactionConfirmationModal: React.FC<
     recipient,
     senderAddress,
     senderName,
+    estimatedFee = GAS_FEE.TRANSFER,
+    tokenSymbol,
     loading = false,
     needsPassword = false,
     requirePasswordForTransaction = false,
@@ -154,7 +168,9 @@ export const TransactionConfirmationModal: React.FC<
         return `${address.substring(0, 12)}...${address.substring(address.length - 10)}`;
     };
 
-    const totalAmount = (parseFloat(amount) + 0.0025).toFixed(8); // Use max fee for total calculation
+    const totalAmount = tokenSymbol
+        ? `${amount} ${tokenSymbol} + ${Amount.from(estimatedFee).toFixed()}`
+        : Amount.from(amount).add(estimatedFee).toFixed();
 
     const handleClose = () => {
         if (!loading) {
@@ -208,14 +224,15 @@ export const TransactionConfirmationModal: React.FC<
                     <DetailRow>
                         <DetailLabel>Amount:</DetailLabel>
                         <AmountValue>
-                            {amount} {getTokenDisplayName()}
+                            {amount} {tokenSymbol ?? getTokenDisplayName()}
+                            {!tokenSymbol && <FiatNote amount={amount} />}
                         </AmountValue>
                     </DetailRow>
 
                     <DetailRow>
-                        <DetailLabel>Commission amount can be :</DetailLabel>
+                        <DetailLabel>Estimated Fee (max):</DetailLabel>
                         <DetailValue>
-                            ~0.0017-0.0025 {getTokenDisplayName()}
+                            {estimatedFee} {getTokenDisplayName()}
                         </DetailValue>
                     </DetailRow>
 
@@ -223,6 +240,7 @@ export const TransactionConfirmationModal: React.FC<
                         <DetailLabel>Total Cost:</DetailLabel>
                         <AmountValue>
                             {totalAmount} {getTokenDisplayName()}
+                            {!tokenSymbol && <FiatNote amount={totalAmount} />}
                         </AmountValue>
                     </DetailRow>
                 </TransactionDetails>
@@ -1,12 +1,22 @@
 import React, { useEffect, useState } from "react";
 import styled from "styled-components";
 import { useDispatch, useSelector } from "react-redux";
-import { Input, Button } from "components";
+import { Input, Button, TextArea } from "components";
 import { PasswordSetup } from "components/PasswordSetup";
+import { PasswordModal } from "components/PasswordModal";
 import { PrivateKeyDisplay } from "components/PrivateKeyDisplay";
-import { createAccountWithPassword } from "store/authSlice";
+import { RecoveryPhraseDisplay } from "components/RecoveryPhraseDisplay";
+import { Select } from "components/Select";
+import { ISelectOption } from "components/Select/Select";
+import { createAccountWithPassword, createSeedAccount } from "store/authSlice";
 import { syncAccounts } from "store/walletSlice";
 import { SecureStorage } from "services/secureStorage";
+import {
+    generateMnemonic,
+    normalizeMnemonic,
+    SeedVault,
+    validateMnemonic,
+} from "services/hdWallet";
 import { RootState } from "store";
 import { useScreen, useValidAccountUpdating } from "hooks";
 
@@ -53,6 +63,13 @@ const FormContainer = styled.div`
     width: 100%;
 `;
 
+const KeySourceGroup = styled.div`
+    display: flex;
+    flex-direction: column;
+    gap: 8px;
+    margin-bottom: 16px;
+`;
+
 interface CreateAccountFormProps {
     onSuccess?: (accountName: string) => void;
     onCancel?: () => void;
@@ -61,7 +78,34 @@ interface CreateAccountFormProps {
     firstAccount?: boolean;
 }
 
-type Step = "form" | "password" | "privateKey";
+type Step = "form" | "password" | "privateKey" | "recoveryPhrase";
+
+// Where the new account's key comes from
+type KeySource = "random" | "newPhrase" | "importPhrase" | "nextFromSeed";
+
+const getKeySourceOptions = (hasSeed: boolean): ISelectOption[] =>
+    hasSeed
+        ? [
+              {
+                  id: "nextFromSeed",
+                  value: "nextFromSeed",
+                  label: "Next account from seed",
+              },
+              { id: "random", value: "random", label: "New random key" },
+          ]
+        : [
+              { id: "random", value: "random", label: "New random key" },
+              {
+                  id: "newPhrase",
+                  value: "newPhrase",
+                  label: "New recovery phrase",
+              },
+              {
+                  id: "importPhrase",
+                  value: "importPhrase",
+                  label: "Import recovery phrase",
+              },
+          ];
 
 export const CreateAccountForm: React.FC<CreateAccountFormProps> = ({
     onSuccess,
@@ -90,6 +134,28 @@ export const CreateAccountForm: React.FC<CreateAccountFormProps> = ({
     const [pendingAccountName, setPendingAccountName] = useState("");
     const [pendingPrivateKey, setPendingPrivateKey] = useState("");
     const [loading, setLoading] = useState(false);
+    const [hasSeed, setHasSeed] = useState(false);
+    const [keySource, setKeySource] = useState<KeySource>("random");
+    const [importedPhrase, setImportedPhrase] = useState("");
+    const [phraseError, setPhraseError] = useState("");
+    const [pendingMnemonic, setPendingMnemonic] = useState("");
+    const [seedPasswordError, setSeedPasswordError] = useState("");
+
+    useEffect(() => {
+        const userId = SecureStorage.getCurrentUserId();
+        if (!userId) {
+            return;
+        }
+        SeedVault.hasSeed(userId)
+            .then((seedExists) => {
+                setHasSeed(seedExists);
+                // The first-account flow skips the form, so keep its random key
+                if (seedExists && !customAccountName) {
+                    setKeySource("nextFromSeed");
+                }
+            })
+            .catch(() => setHasSeed(false));
+    }, []);
 
     const updateAccountName = (newName: string): void => {
         setAccountName(newName);
@@ -132,12 +198,75 @@ export const CreateAccountForm: React.FC<CreateAccountFormProps> = ({
             return;
         }
 
+        if (keySource === "importPhrase") {
+            const { valid, error } = validateMnemonic(importedPhrase);
+            if (!valid) {
+                setPhraseError(error || "Invalid recovery phrase");
+                return;
+            }
+            setPendingMnemonic(normalizeMnemonic(importedPhrase));
+        } else if (keySource === "newPhrase") {
+            setPendingMnemonic(generateMnemonic());
+        }
+
         setAccountNameError("");
         setPendingAccountName(trimmedName);
         setStep("password");
     };
 
+    const handleImportedPhraseChange = (
+        event: React.ChangeEvent<HTMLTextAreaElement>,
+    ) => {
+        setImportedPhrase(event.target.value);
+        setPhraseError("");
+    };
+
+    const handleKeySourceChange = (value: string) => {
+        setKeySource(value as KeySource);
+        setPhraseError("");
+    };
+
+    // Recovery phrase accounts; "nextFromSeed" reuses the stored phrase and its password
+    const createFromSeed = async (password: string): Promise<boolean> => {
+        setLoading(true);
+        const resultAction = await dispatch(
+            createSeedAccount({
+                name: pendingAccountName,
+                password,
+                networkId: selectedNetworkId,
+                mnemonic:
+                    keySource === "nextFromSeed" ? undefined : pendingMnemonic,
+            }) as any,
+        );
+        setLoading(false);
+
+        if (!createSeedAccount.fulfilled.match(resultAction)) {
+            setSeedPasswordError(
+                resultAction.error?.message || "Failed to create account",
+            );
+            return false;
+        }
+        return true;
+    };
+
+    const handleSeedPasswordConfirm = async (password: string) => {
+        if (await createFromSeed(password)) {
+            handlePrivateKeyAcknowledged();
+        }
+    };
+
     const handlePasswordSet = async (password: string) => {
+        if (keySource === "newPhrase" || keySource === "importPhrase") {
+            if (await createFromSeed(password)) {
+                if (keySource === "newPhrase") {
+                    setStep("recoveryPhrase");
+                } else {
+                    handlePrivateKeyAcknowledged();
+                }
+            }
+            return;
+        }
+
         setLoading(true);
 
         const resultAction = await dispatch(
@@ -177,6 +306,8 @@ export const CreateAccountForm: React.FC<CreateAccountFormProps> = ({
         setAccountNameError("");
         setPendingAccountName("");
         setPendingPrivateKey("");
+        setPendingMnemonic("");
+        setImportedPhrase("");
         onCancel?.();
     };
 
@@ -185,6 +316,24 @@ export const CreateAccountForm: React.FC<CreateAccountFormProps> = ({
         setPendingPrivateKey("");
     };
 
+    // Step: Password of the stored recovery phrase
+    if (step === "password" && keySource === "nextFromSeed") {
+        return (
+            <PasswordModal
+                isOpen
+                title="Unlock Recovery Phrase"
+                description="Enter the password of the account that created the recovery phrase. The new account uses the same password."
+                onConfirm={handleSeedPasswordConfirm}
+                onClose={() => {
+                    setSeedPasswordError("");
+                    setStep("form");
+                }}
+                loading={loading}
+                error={seedPasswordError}
+            />
+        );
+    }
+
     // Step: Password Setup
     if (step === "password" || (!!customAccountName && step === "form")) {
         return (
@@ -196,6 +345,17 @@ export const CreateAccountForm: React.FC<CreateAccountFormProps> = ({
         );
     }
 
+    // Step: Recovery Phrase Display
+    if (step === "recoveryPhrase") {
+        return (
+            <RecoveryPhraseDisplay
+                mnemonic={pendingMnemonic}
+                accountName={pendingAccountName}
+                onContinue={handlePrivateKeyAcknowledged}
+            />
+        );
+    }
+
     // Step: Private Key Display
     if (step === "privateKey") {
         return (
@@ -240,6 +400,31 @@ export const CreateAccountForm: React.FC<CreateAccountFormProps> = ({
                 disabled={loading}
             />
 
+            <KeySourceGroup>
+                <label className="text-2">Key</label>
+                <Select
+                    id="create-account-key-source-select"
+                    value={keySource}
+                    onChange={handleKeySourceChange}
+                    options={getKeySourceOptions(hasSeed)}
+                    disabled={loading}
+                />
+            </KeySourceGroup>
+
+            {keySource === "importPhrase" && (
+                <TextArea
+                    id="create-account-phrase-input"
+                    label="Recovery Phrase"
+                    value={importedPhrase}
+                    onChange={handleImportedPhraseChange}
+                    placeholder="12 or 24 words separated by spaces"
+                    error={phraseError}
+                    rows={3}
+                    autoComplete="off"
+                    spellCheck={false}
+                />
+            )}
+
             <ActionButtons>
                 <AdaptiveButton
                     id="create-account-button"
@@ -157,6 +157,21 @@ export const CustomNetworkCard: React.FC<CustomNetworkCardProps> = ({
                             {network.readOnlyUrl || "-"}
                         </UrlValue>
                     </div>
+                    <div>
+                        <UrlLabel className="text-5">Shard ID</UrlLabel>
+                        <UrlValue className="text-4">
+                            {network.shardId || "root"}
+                        </UrlValue>
+                    </div>
+                    {network.adminUrl && (
+                        <div>
+                            <UrlLabel className="text-5">Admin URL</UrlLabel>
+                            <UrlValue className="text-4">
+                                {network.adminUrl}
+                                {network.devnet && " (devnet)"}
+                            </UrlValue>
+                        </div>
+                    )}
                 </NetworkUrls>
             </NetworkItem>
             <EditCustomNetworkModal
@@ -1,6 +1,7 @@
 import React from "react";
 import styled from "styled-components";
 import { Button } from "components";
+import { getTokenDisplayName } from "../../constants/token";
 
 const Overlay = styled.div`
     position: fixed;
@@ -147,6 +148,7 @@ interface DeploymentConfirmationProps {
     phloPrice: string;
     accountName: string;
     accountAddress: string;
+    estimatedFee?: string;
     isExplore?: boolean;
     fileName?: string;
     loading?: boolean;
@@ -163,6 +165,7 @@ export const DeploymentConfirmationModal: React.FC<
     phloPrice,
     accountName,
     accountAddress,
+    estimatedFee,
     isExplore = false,
     fileName,
     loading = false,
@@ -245,6 +248,15 @@ export const DeploymentConfirmationModal: React.FC<
                                 <DetailLabel>Estimated Cost:</DetailLabel>
                                 <DetailValue>{estimatedCost} phlo</DetailValue>
                             </DetailRow>
+
+                            {estimatedFee && (
+                                <DetailRow>
+                                    <DetailLabel>Estimated Fee:</DetailLabel>
+                                    <DetailValue>
+                                        {estimatedFee} {getTokenDisplayName()}
+                                    </DetailValue>
+                                </DetailRow>
+                            )}
                         </>
                     )}
                 </DeploymentDetails>
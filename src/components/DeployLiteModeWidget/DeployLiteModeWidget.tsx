@@ -1,10 +1,19 @@
-import React, { createContext, useContext, useRef, useState } from "react";
+import React, {
+    createContext,
+    useContext,
+    useEffect,
+    useRef,
+    useState,
+} from "react";
 import { useSelector } from "react-redux";
 import styled from "styled-components";
 import { RootState } from "store";
 import { RChainService } from "services/rchain";
+import { formatRhoExprs } from "utils/rhoExpr";
 import { SecureStorage } from "services/secureStorage";
-import { getGasFeeAsNumber } from "../../constants/gas";
+import { getGasFeeAmount, phloToFee } from "../../constants/gas";
+import { Amount } from "utils/amount";
+import { isWatchOnlyAccount, WATCH_ONLY_SIGNING_ERROR } from "utils/watchOnly";
 import { Button, DeploymentConfirmationModal, PasswordModal } from "components";
 import { DeleteIcon, PreviewIcon } from "components/Icons";
 import { useScreen } from "hooks/";
@@ -196,6 +205,7 @@ interface DeployLiteModeContextValue {
     showPasswordModal: boolean;
     phloLimit: string;
     phloPrice: string;
+    estimatedFee?: string;
     selectedAccount: RootState["wallet"]["selectedAccount"];
     isAccountUnlocked: boolean;
     loadExample: () => void;
@@ -250,8 +260,42 @@ const DeployLiteModeWidgetRoot: React.FC<DeployLiteModeWidgetProps> = ({
     const [showExploreConfirmation, setShowExploreConfirmation] =
         useState(false);
 
+    const [estimatedFee, setEstimatedFee] = useState<string>();
+
     const accountPassword = useRef<string>("");
 
+    useEffect(() => {
+        if (!showDeployConfirmation || !selectedNetwork.url?.trim()) {
+            return;
+        }
+
+        let cancelled = false;
+        setEstimatedFee(undefined);
+
+        const rchain = new RChainService(
+            selectedNetwork.url.trim(),
+            selectedNetwork.readOnlyUrl,
+            selectedNetwork.adminUrl,
+            selectedNetwork.shardId,
+            selectedNetwork.graphqlUrl,
+            selectedNetwork,
+        );
+        rchain
+            .estimateDeployFee(code, parseInt(phloPrice) || undefined)
+            .then((estimate) => {
+                if (!cancelled) {
+                    setEstimatedFee(estimate.fee);
+                }
+            })
+            .catch((error) => {
+                console.warn("[Deploy] Fee estimation failed:", error);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [showDeployConfirmation]);
+
     const isAccountUnlocked = unlockedAccounts.some(
         (unlockedAcc) => unlockedAcc.id === selectedAccount?.id,
     );
@@ -261,6 +305,11 @@ const DeployLiteModeWidgetRoot: React.FC<DeployLiteModeWidgetProps> = ({
             return;
         }
 
+        if (isWatchOnlyAccount(selectedAccount)) {
+            setError(WATCH_ONLY_SIGNING_ERROR);
+            return;
+        }
+
         if (!isAccountUnlocked) {
             setShowPasswordModal(true);
 
@@ -320,18 +369,19 @@ const DeployLiteModeWidgetRoot: React.FC<DeployLiteModeWidgetProps> = ({
             return;
         }
 
-        const balance = parseFloat(selectedAccount.balance || "0");
+        const balance = Amount.from(selectedAccount.balance);
         const phloLimitNum = parseInt(phloLimit);
-        const minGasCost = (phloLimitNum * parseFloat(phloPrice)) / 1000000000;
 
-        if (balance <= 0 || balance < minGasCost) {
-            setError("Transaction aborted: Insufficient balance");
+        if (isNaN(phloLimitNum) || phloLimitNum <= 0) {
+            setError("Transaction aborted: Invalid phlo limit");
             setShowDeployConfirmation(false);
             return;
         }
 
-        if (isNaN(phloLimitNum) || phloLimitNum <= 0) {
-            setError("Transaction aborted: Invalid phlo limit");
+        const minGasCost = phloToFee(phloLimitNum, parseFloat(phloPrice) || 1);
+
+        if (!balance.isPositive() || balance.lt(minGasCost)) {
+            setError("Transaction aborted: Insufficient balance");
             setShowDeployConfirmation(false);
             return;
         }
@@ -353,6 +403,8 @@ const DeployLiteModeWidgetRoot: React.FC<DeployLiteModeWidgetProps> = ({
                 selectedNetwork.readOnlyUrl,
                 selectedNetwork.adminUrl,
                 selectedNetwork.shardId,
+                selectedNetwork.graphqlUrl,
+                selectedNetwork,
             );
 
             const unlockedAccount = unlockedAccounts.find(
@@ -374,10 +426,15 @@ const DeployLiteModeWidgetRoot: React.FC<DeployLiteModeWidgetProps> = ({
                     true,
                 );
                 const chainBalanceBefore =
-                    Number(atomicBalanceBefore) / 100000000;
-                const gasFee = getGasFeeAsNumber();
-                const expected = Math.max(0, chainBalanceBefore - gasFee);
-                expectedBalanceAfterConfirmation = expected.toFixed(8);
+                    Amount.fromAtomic(atomicBalanceBefore);
+                const gasFee = estimatedFee
+                    ? Amount.from(estimatedFee)
+                    : getGasFeeAmount();
+                const expected = Amount.max(
+                    Amount.zero,
+                    chainBalanceBefore.subtract(gasFee),
+                );
+                expectedBalanceAfterConfirmation = expected.toFixed();
 
                 accountPassword.current = "";
             } catch (error) {
@@ -440,6 +497,8 @@ const DeployLiteModeWidgetRoot: React.FC<DeployLiteModeWidgetProps> = ({
                 selectedNetwork.readOnlyUrl,
                 selectedNetwork.adminUrl,
                 selectedNetwork.shardId,
+                selectedNetwork.graphqlUrl,
+                selectedNetwork,
             );
             const exploreResult = await rchain.exploreDeployData(code);
             setResult({ type: "explore", data: exploreResult });
@@ -499,6 +558,7 @@ const DeployLiteModeWidgetRoot: React.FC<DeployLiteModeWidgetProps> = ({
         showPasswordModal,
         phloLimit,
         phloPrice,
+        estimatedFee,
         selectedAccount,
         isAccountUnlocked,
         loadExample,
@@ -550,6 +610,7 @@ const DeployLiteModeBoard: React.FC = () => {
         showPasswordModal,
         phloLimit,
         phloPrice,
+        estimatedFee,
         selectedAccount,
         clearCode,
         handlePasswordSubmit,
@@ -671,7 +732,9 @@ const DeployLiteModeBoard: React.FC = () => {
                             : "Deploy Result"}
                     </ResultTitle>
                     <ResultContent>
-                        {JSON.stringify(result.data || result, null, 2)}
+                        {result.type === "explore"
+                            ? formatRhoExprs(result.data)
+                            : JSON.stringify(result.data || result, null, 2)}
                     </ResultContent>
                 </ResultContainer>
             )}
@@ -685,6 +748,7 @@ const DeployLiteModeBoard: React.FC = () => {
                 phloPrice={phloPrice}
                 accountName={selectedAccount?.name || ""}
                 accountAddress={selectedAccount?.revAddress || ""}
+                estimatedFee={estimatedFee}
                 loading={isLoading}
             />
 
@@ -13,6 +13,7 @@ import Editor from "@monaco-editor/react";
 import * as monaco from "monaco-editor";
 import { RootState } from "store";
 import { RChainService } from "services/rchain";
+import { formatRhoExprs } from "utils/rhoExpr";
 import { Button, PasswordModal, DeploymentConfirmationModal } from "components";
 import {
     FileIcon,
@@ -37,8 +38,13 @@ import IDEStorageService, {
     IDEFolder,
 } from "services/ideStorage";
 import { SecureStorage } from "services/secureStorage";
-import { getGasFeeAsNumber } from "../../constants/gas";
+import { formatGasFee, getGasFeeAmount } from "../../constants/gas";
+import { Amount } from "utils/amount";
 import { useScreen } from "hooks/";
+import { ExplorerLink } from "components/ExplorerLink";
+import { RegistryLink } from "components/RegistryLink";
+import { readInsertedUri, REGISTRY_INSERT_TEMPLATE } from "services/registry";
+import { isWatchOnlyAccount, WATCH_ONLY_SIGNING_ERROR } from "utils/watchOnly";
 
 const PENDING_TRANSACTIONS_KEY = "asi_wallet_pending_transactions";
 
@@ -369,6 +375,10 @@ interface ConsoleMessage {
     type: "info" | "error" | "success";
     message: string;
     timestamp: Date;
+    // Shown as an Explorer link after the message
+    deployId?: string;
+    // Shown as a Registry link after the message
+    registryUri?: string;
 }
 
 enum DeployResultStatus {
@@ -408,6 +418,7 @@ interface DeployProModeContextValue {
     activeFile: IDEFile | undefined;
     phloLimit: string;
     phloPrice: string;
+    estimatedFee?: string;
     setActiveFileId: (id: string) => void;
     setOpenFiles: React.Dispatch<React.SetStateAction<string[]>>;
     setContextMenu: (
@@ -424,6 +435,7 @@ interface DeployProModeContextValue {
     handleEditorChange: (value: string | undefined) => void;
     handleNewFile: (folderId?: string) => void;
     handleNewFolder: (parentId?: string) => void;
+    handleNewRegistryInsert: () => void;
     handleCloseFile: (fileId: string) => void;
     handleDelete: (item: IDEItem) => void;
     handleRename: (item: IDEItem, newName: string) => void;
@@ -509,6 +521,7 @@ const DeployProModeWidgetRoot: React.FC<DeployProModeWidgetProps> = ({
         useState(false);
 
     const [isDeploying, setIsDeploying] = useState(false);
+    const [estimatedFee, setEstimatedFee] = useState<string>();
 
     // Console output
     const [consoleMessages, setConsoleMessages] = useState<ConsoleMessage[]>(
@@ -565,6 +578,46 @@ const DeployProModeWidgetRoot: React.FC<DeployProModeWidgetProps> = ({
         (f) => f.id === activeFileId && f.type === "file",
     ) as IDEFile | undefined;
 
+    // Estimate the deploy fee whenever the confirmation modal opens
+    useEffect(() => {
+        if (
+            !showDeployConfirmation ||
+            !activeFile ||
+            !selectedNetwork.url?.trim()
+        ) {
+            return;
+        }
+
+        let cancelled = false;
+        setEstimatedFee(undefined);
+
+        const rchain = new RChainService(
+            selectedNetwork.url.trim(),
+            selectedNetwork.readOnlyUrl,
+            selectedNetwork.adminUrl,
+            selectedNetwork.shardId,
+            selectedNetwork.graphqlUrl,
+            selectedNetwork,
+        );
+        rchain
+            .estimateDeployFee(
+                activeFile.content,
+                parseInt(phloPrice) || undefined,
+            )
+            .then((estimate) => {
+                if (!cancelled) {
+                    setEstimatedFee(estimate.fee);
+                }
+            })
+            .catch((error) => {
+                console.warn("[IDE] Fee estimation failed:", error);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [showDeployConfirmation]);
+
     // Close context menu when clicking outside
     useEffect(() => {
         const handleClick = () => setContextMenu(null);
@@ -575,6 +628,8 @@ const DeployProModeWidgetRoot: React.FC<DeployProModeWidgetProps> = ({
     const addConsoleMessage = (
         type: ConsoleMessage["type"],
         message: string,
+        deployId?: string,
+        registryUri?: string,
     ) => {
         setConsoleMessages((prev) => [
             ...prev,
@@ -583,6 +638,8 @@ const DeployProModeWidgetRoot: React.FC<DeployProModeWidgetProps> = ({
                 type,
                 message,
                 timestamp: new Date(),
+                deployId,
+                registryUri,
             },
         ]);
     };
@@ -604,13 +661,17 @@ const DeployProModeWidgetRoot: React.FC<DeployProModeWidgetProps> = ({
         );
     };
 
-    const handleNewFile = (folderId?: string) => {
+    const createFile = (
+        baseName: string,
+        content: string,
+        folderId?: string,
+    ) => {
         const now = new Date();
         const fileCount = items.filter((item) => item.type === "file").length;
         const newFile: IDEFile = {
             id: Date.now().toString(),
-            name: `untitled-${fileCount + 1}.rho`,
-            content: "// New Rholang contract\n",
+            name: `${baseName}-${fileCount + 1}.rho`,
+            content,
             folderId,
             type: "file",
             modified: false,
@@ -622,6 +683,13 @@ const DeployProModeWidgetRoot: React.FC<DeployProModeWidgetProps> = ({
         setActiveFileId(newFile.id);
     };
 
+    const handleNewFile = (folderId?: string) =>
+        createFile("untitled", "// New Rholang contract\n", folderId);
+
+    // A file whose deploy publishes a contract and reports its rho:id URI
+    const handleNewRegistryInsert = () =>
+        createFile("registry-insert", REGISTRY_INSERT_TEMPLATE);
+
     const handleNewFolder = (parentId?: string) => {
         const now = new Date();
         const folderCount = items.filter(
@@ -743,6 +811,11 @@ const DeployProModeWidgetRoot: React.FC<DeployProModeWidgetProps> = ({
             return;
         }
 
+        if (isWatchOnlyAccount(selectedAccount)) {
+            addConsoleMessage("error", WATCH_ONLY_SIGNING_ERROR);
+            return;
+        }
+
         // Check if account is unlocked
         if (!isAccountUnlocked(selectedAccount)) {
             // Show password modal
@@ -760,7 +833,10 @@ const DeployProModeWidgetRoot: React.FC<DeployProModeWidgetProps> = ({
             if (result.blockHash)
                 addConsoleMessage("info", `Block Hash: ${result.blockHash}`);
             if (result.cost)
-                addConsoleMessage("info", `Gas Cost: ${result.cost}`);
+                addConsoleMessage(
+                    "info",
+                    `Gas Cost: ${formatGasFee(result.cost)}`,
+                );
             return;
         }
 
@@ -789,6 +865,26 @@ const DeployProModeWidgetRoot: React.FC<DeployProModeWidgetProps> = ({
         );
     };
 
+    // Registry inserts send their new URI to the deployId channel
+    const logRegisteredUri = async (
+        rchain: RChainService,
+        deployId: string,
+    ) => {
+        try {
+            const uri = await readInsertedUri(rchain, deployId);
+            if (uri) {
+                addConsoleMessage(
+                    "success",
+                    "Inserted into registry at",
+                    undefined,
+                    uri,
+                );
+            }
+        } catch (error) {
+            console.warn("[IDE] Failed to read deployId channel:", error);
+        }
+    };
+
     const waitForDeployAndLog = async (
         rchain: RChainService,
         deployId: string,
@@ -800,6 +896,9 @@ const DeployProModeWidgetRoot: React.FC<DeployProModeWidgetProps> = ({
             );
             const result = await rchain.waitForDeployResult(deployId);
             logDeployResult(result);
+            if (result.status === DeployResultStatus.Completed) {
+                await logRegisteredUri(rchain, deployId);
+            }
         } catch {
             addConsoleMessage(
                 "info",
@@ -831,6 +930,8 @@ const DeployProModeWidgetRoot: React.FC<DeployProModeWidgetProps> = ({
                 selectedNetwork.readOnlyUrl,
                 selectedNetwork.adminUrl,
                 selectedNetwork.shardId,
+                selectedNetwork.graphqlUrl,
+                selectedNetwork,
             );
             let privateKey = selectedAccount.privateKey;
 
@@ -855,10 +956,15 @@ const DeployProModeWidgetRoot: React.FC<DeployProModeWidgetProps> = ({
                     true,
                 );
                 const chainBalanceBefore =
-                    Number(atomicBalanceBefore) / 100000000;
-                const gasFee = getGasFeeAsNumber();
-                const expected = Math.max(0, chainBalanceBefore - gasFee);
-                expectedBalanceAfterConfirmation = expected.toFixed(8);
+                    Amount.fromAtomic(atomicBalanceBefore);
+                const gasFee = estimatedFee
+                    ? Amount.from(estimatedFee)
+                    : getGasFeeAmount();
+                const expected = Amount.max(
+                    Amount.zero,
+                    chainBalanceBefore.subtract(gasFee),
+                );
+                expectedBalanceAfterConfirmation = expected.toFixed();
             } catch (error) {
                 console.warn(
                     "[IDE] Failed to fetch balance before deploy for pending metadata:",
@@ -874,7 +980,8 @@ const DeployProModeWidgetRoot: React.FC<DeployProModeWidgetProps> = ({
 
             addConsoleMessage(
                 "success",
-                `Deploy submitted successfully! Deploy ID: ${deployId}`,
+                "Deploy submitted successfully! Deploy ID:",
+                deployId,
             );
 
             savePendingDeploy(
@@ -915,6 +1022,8 @@ const DeployProModeWidgetRoot: React.FC<DeployProModeWidgetProps> = ({
                 selectedNetwork.readOnlyUrl,
                 selectedNetwork.adminUrl,
                 selectedNetwork.shardId,
+                selectedNetwork.graphqlUrl,
+                selectedNetwork,
             );
 
             // Find the private key from unlocked accounts
@@ -936,10 +1045,15 @@ const DeployProModeWidgetRoot: React.FC<DeployProModeWidgetProps> = ({
                     true,
                 );
                 const chainBalanceBefore =
-                    Number(atomicBalanceBefore) / 100000000;
-                const gasFee = getGasFeeAsNumber();
-                const expected = Math.max(0, chainBalanceBefore - gasFee);
-                expectedBalanceAfterConfirmation = expected.toFixed(8);
+                    Amount.fromAtomic(atomicBalanceBefore);
+                const gasFee = estimatedFee
+                    ? Amount.from(estimatedFee)
+                    : getGasFeeAmount();
+                const expected = Amount.max(
+                    Amount.zero,
+                    chainBalanceBefore.subtract(gasFee),
+                );
+                expectedBalanceAfterConfirmation = expected.toFixed();
             } catch (error) {
                 console.warn(
                     "[IDE] Failed to fetch balance before deploy for pending metadata:",
@@ -955,7 +1069,8 @@ const DeployProModeWidgetRoot: React.FC<DeployProModeWidgetProps> = ({
 
             addConsoleMessage(
                 "success",
-                `Deploy submitted successfully! Deploy ID: ${deployId}`,
+                "Deploy submitted successfully! Deploy ID:",
+                deployId,
             );
 
             savePendingDeploy(
@@ -997,12 +1112,14 @@ const DeployProModeWidgetRoot: React.FC<DeployProModeWidgetProps> = ({
                 selectedNetwork.readOnlyUrl,
                 selectedNetwork.adminUrl,
                 selectedNetwork.shardId,
+                selectedNetwork.graphqlUrl,
+                selectedNetwork,
             );
             const result = await rchain.exploreDeployData(activeFile.content);
 
             addConsoleMessage(
                 "success",
-                `Explore result: ${JSON.stringify(result, null, 2)}`,
+                `Explore result: ${formatRhoExprs(result)}`,
             );
         } catch (error: any) {
             addConsoleMessage("error", `Explore failed: ${error.message}`);
@@ -1052,6 +1169,7 @@ const DeployProModeWidgetRoot: React.FC<DeployProModeWidgetProps> = ({
         activeFile,
         phloLimit,
         phloPrice,
+        estimatedFee,
         setActiveFileId,
         setOpenFiles,
         setContextMenu,
@@ -1064,6 +1182,7 @@ const DeployProModeWidgetRoot: React.FC<DeployProModeWidgetProps> = ({
         handleEditorChange,
         handleNewFile,
         handleNewFolder,
+        handleNewRegistryInsert,
         handleCloseFile,
         handleDelete,
         handleRename,
@@ -1091,7 +1210,8 @@ const defaultButtonStyle: CSSProperties = {
 };
 
 const DeployProModeActions: React.FC = () => {
-    const { items, workspaceInputRef } = useDeployProMode();
+    const { items, workspaceInputRef, handleNewRegistryInsert } =
+        useDeployProMode();
     const { isTablet } = useScreen();
 
     const adaptiveButtonLabelStyle: CSSProperties = useMemo(
@@ -1117,6 +1237,15 @@ const DeployProModeActions: React.FC = () => {
             >
                 <h3 style={adaptiveButtonLabelStyle}>Export Workspace</h3>
             </Button>
+            <Button
+                id="ide-registry-insert-button"
+                style={defaultButtonStyle}
+                fullWidth={isTablet}
+                onClick={handleNewRegistryInsert}
+                title="New file that inserts a contract into the registry"
+            >
+                <h3 style={adaptiveButtonLabelStyle}>Insert into Registry</h3>
+            </Button>
         </ToolbarActions>
     );
 };
@@ -1143,6 +1272,7 @@ const DeployProModeBoard: React.FC = () => {
         activeFile,
         phloLimit,
         phloPrice,
+        estimatedFee,
         setActiveFileId,
         setOpenFiles,
         setContextMenu,
@@ -1453,6 +1583,22 @@ const DeployProModeBoard: React.FC = () => {
                             <span>
                                 [{msg.timestamp.toLocaleTimeString()}]{" "}
                                 {msg.message}
+                                {msg.deployId && (
+                                    <>
+                                        {" "}
+                                        <ExplorerLink
+                                            kind="deploy"
+                                            value={msg.deployId}
+                                            full
+                                        />
+                                    </>
+                                )}
+                                {msg.registryUri && (
+                                    <>
+                                        {" "}
+                                        <RegistryLink uri={msg.registryUri} />
+                                    </>
+                                )}
                             </span>
                         </ConsoleEntry>
                     ))}
@@ -1537,6 +1683,7 @@ const DeployProModeBoard: React.FC = () => {
                 accountName={selectedAccount?.name || ""}
                 accountAddress={selectedAccount?.revAddress || ""}
                 fileName={activeFile?.name}
+                estimatedFee={estimatedFee}
                 loading={isDeploying}
             />
 
@@ -1,8 +1,16 @@
 import React, { useState, useEffect, CSSProperties } from "react";
 import styled from "styled-components";
-import { Input, Button } from "components";
+import { Input, Button, Switch } from "components";
 import { Network } from "types/wallet";
 import { FileIcon } from "components/Icons";
+import { EndpointListEditor } from "components/EndpointListEditor";
+import { NetworkStatusSummary } from "components/NetworkStatusSummary";
+import {
+    isVerificationFor,
+    NetworkVerification,
+    NetworkVerificationTarget,
+    verifyNetwork,
+} from "services/networkVerification";
 import { useScreen } from "hooks";
 
 const Overlay = styled.div`
@@ -149,6 +157,18 @@ const InlineButton = styled(Button)`
     height: 44px;
 `;
 
+const BackupEndpoints = styled.div`
+    margin-top: 16px;
+`;
+
+const DevnetToggle = styled.div`
+    display: flex;
+    align-items: center;
+    gap: 12px;
+    margin-top: 16px;
+    color: ${({ theme }) => theme.text.secondary};
+`;
+
 const CustomNetworkActionsButtons = styled.div`
     display: flex;
     align-items: center;
@@ -187,10 +207,18 @@ export const EditCustomNetworkModal: React.FC<EditCustomNetworkModalProps> = ({
     const [readOnlyHost, setReadOnlyHost] = useState("localhost");
     const [readOnlyHttpPort, setReadOnlyHttpPort] = useState("40453");
     const [readOnlyGrpcPort, setReadOnlyGrpcPort] = useState("40451");
+    const [validatorUrls, setValidatorUrls] = useState<string[]>([]);
+    const [readOnlyUrls, setReadOnlyUrls] = useState<string[]>([]);
+    const [adminUrl, setAdminUrl] = useState("");
+    const [devnet, setDevnet] = useState(false);
+    const [verification, setVerification] =
+        useState<NetworkVerification | null>(null);
+    const [isVerifying, setIsVerifying] = useState(false);
 
     useEffect(() => {
         if (network && isOpen) {
             setNetworkName(network.name);
+            setVerification(null);
 
             // Parse validator URL
             if (network.url) {
@@ -222,6 +250,11 @@ export const EditCustomNetworkModal: React.FC<EditCustomNetworkModalProps> = ({
                     }
                 }
             }
+
+            setValidatorUrls(network.validatorUrls || []);
+            setReadOnlyUrls(network.readOnlyUrls || []);
+            setAdminUrl(network.adminUrl || "");
+            setDevnet(!!network.devnet);
         }
     }, [network, isOpen]);
 
@@ -230,14 +263,54 @@ export const EditCustomNetworkModal: React.FC<EditCustomNetworkModalProps> = ({
     const readOnlyGrpcUrl = `${readOnlyHost}:${readOnlyGrpcPort}`;
     const readOnlyHttpUrl = `http://${readOnlyHost}:${readOnlyHttpPort}`;
 
-    const handleSave = () => {
+    const verificationTarget: NetworkVerificationTarget = {
+        validatorUrl: validatorHttpUrl,
+        readOnlyUrl: readOnlyHttpUrl,
+        graphqlUrl: network?.graphqlUrl,
+    };
+    const hasCurrentWarnings =
+        isVerificationFor(verification, verificationTarget) &&
+        verification.warnings.length > 0;
+
+    const runVerification = async (): Promise<NetworkVerification> => {
+        setIsVerifying(true);
+        try {
+            const result = await verifyNetwork(verificationTarget);
+            setVerification(result);
+            return result;
+        } finally {
+            setIsVerifying(false);
+        }
+    };
+
+    const handleCheckNodes = () => {
+        runVerification().catch((error) =>
+            console.error("Failed to verify network:", error),
+        );
+    };
+
+    const handleSave = async () => {
         if (!network) return;
 
+        let result = verification;
+        if (!isVerificationFor(result, verificationTarget)) {
+            result = await runVerification();
+            // Show fresh warnings first; saving again keeps this result
+            if (result.warnings.length > 0) {
+                return;
+            }
+        }
+
         const updatedNetwork: Network = {
             ...network,
             name: networkName,
+            shardId: result?.shardId ?? network.shardId ?? "root",
+            adminUrl: adminUrl.trim() || undefined,
+            devnet: !!adminUrl.trim() && devnet,
             url: `http://${validatorHost}:${validatorHttpPort}`,
             readOnlyUrl: `http://${readOnlyHost}:${readOnlyHttpPort}`,
+            validatorUrls,
+            readOnlyUrls,
         };
 
         onSave(updatedNetwork);
@@ -335,6 +408,16 @@ export const EditCustomNetworkModal: React.FC<EditCustomNetworkModalProps> = ({
                                 HTTP: {validatorHttpUrl}
                             </LastLink>
                         </DirectLinks>
+
+                        <BackupEndpoints>
+                            <Label>Backup validator endpoints:</Label>
+                            <EndpointListEditor
+                                idPrefix="edit-validator-backup"
+                                urls={validatorUrls}
+                                onChange={setValidatorUrls}
+                                placeholder="http://validator2.example.com:40403"
+                            />
+                        </BackupEndpoints>
                     </ConfigSection>
 
                     <ConfigSection>
@@ -400,18 +483,62 @@ export const EditCustomNetworkModal: React.FC<EditCustomNetworkModalProps> = ({
                                 HTTP: {readOnlyHttpUrl}
                             </Link>
                         </DirectLinks>
+
+                        <BackupEndpoints>
+                            <Label>Backup read-only endpoints:</Label>
+                            <EndpointListEditor
+                                idPrefix="edit-readonly-backup"
+                                urls={readOnlyUrls}
+                                onChange={setReadOnlyUrls}
+                                placeholder="http://observer2.example.com:40453"
+                            />
+                        </BackupEndpoints>
+                    </ConfigSection>
+
+                    <ConfigSection>
+                        <ConfigTitle>Admin Node (optional)</ConfigTitle>
+                        <Label>Admin HTTP URL:</Label>
+                        <InlineInput
+                            id="edit-admin-url-input"
+                            className="text-2"
+                            value={adminUrl}
+                            onChange={(
+                                e: React.ChangeEvent<HTMLInputElement>,
+                            ) => setAdminUrl(e.target.value)}
+                            placeholder="http://localhost:40405"
+                        />
+                        {adminUrl.trim() && (
+                            <DevnetToggle className="text-2">
+                                <Switch checked={devnet} onChange={setDevnet} />
+                                Devnet: propose a block after every deploy
+                            </DevnetToggle>
+                        )}
                     </ConfigSection>
 
+                    {verification && (
+                        <NetworkStatusSummary verification={verification} />
+                    )}
+
                     <CustomNetworkActionsButtons>
                         <InlineButton
                             variant="primary"
                             onClick={handleSave}
-                            loading={loading}
+                            loading={loading || isVerifying}
                             style={saveCustomNetworkButtonStyle}
                         >
-                            Save Custom Network
+                            {hasCurrentWarnings
+                                ? "Save anyway"
+                                : "Save Custom Network"}
                             <FileIcon />
                         </InlineButton>
+                        <InlineButton
+                            variant="secondary"
+                            onClick={handleCheckNodes}
+                            disabled={loading || isVerifying}
+                            style={{ flex: "1" }}
+                        >
+                            Check nodes
+                        </InlineButton>
                         <InlineButton
                             variant="secondary"
                             onClick={handleClose}
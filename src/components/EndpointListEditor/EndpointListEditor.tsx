@@ -0,0 +1,168 @@
+import React, { useState } from "react";
+import styled from "styled-components";
+import { Button, Input } from "components";
+import { DeleteIcon } from "components/Icons";
+import { NodeHealth, normalizeEndpoints } from "services/nodePool";
+
+const EndpointList = styled.div`
+    display: flex;
+    flex-direction: column;
+    gap: 8px;
+    margin-bottom: 12px;
+`;
+
+const EndpointRow = styled.div`
+    display: flex;
+    align-items: center;
+    justify-content: space-between;
+    gap: 12px;
+    padding: 8px 16px;
+    border: 1px solid ${({ theme }) => theme.border};
+    border-radius: 8px;
+`;
+
+const EndpointUrl = styled.div`
+    font-family: monospace;
+    font-size: 12px;
+    word-break: break-all;
+`;
+
+const EndpointStatus = styled.span<{ $healthy: boolean }>`
+    margin-left: 8px;
+    font-size: 12px;
+    color: ${({ theme, $healthy }) =>
+        $healthy ? theme.success : theme.error};
+`;
+
+const AddRow = styled.div`
+    display: flex;
+    gap: 12px;
+    align-items: flex-start;
+
+    @media (max-width: 768px) {
+        flex-direction: column;
+        align-items: stretch;
+    }
+`;
+
+const AddButton = styled(Button)`
+    height: 44px;
+`;
+
+const EmptyText = styled.div`
+    color: ${({ theme }) => theme.text.secondary};
+    margin-bottom: 12px;
+`;
+
+interface EndpointListEditorProps {
+    urls: string[];
+    onChange: (urls: string[]) => void;
+    placeholder?: string;
+    health?: NodeHealth[];
+    idPrefix?: string;
+}
+
+const formatHealth = (health: NodeHealth): string => {
+    if (!health.healthy) {
+        return "unreachable";
+    }
+    return health.latencyMs === null ? "unknown" : `${health.latencyMs} ms`;
+};
+
+export const EndpointListEditor: React.FC<EndpointListEditorProps> = ({
+    urls,
+    onChange,
+    placeholder = "http://node.example.com:40403",
+    health,
+    idPrefix = "endpoint",
+}) => {
+    const [newUrl, setNewUrl] = useState<string>("");
+    const [error, setError] = useState<string>("");
+
+    const handleAdd = () => {
+        try {
+            const parsed = new URL(newUrl.trim());
+            if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+                setError("Only http and https endpoints are supported");
+                return;
+            }
+        } catch {
+            setError("Enter a full URL, e.g. http://host:40403");
+            return;
+        }
+
+        onChange(normalizeEndpoints([...urls, newUrl]));
+        setNewUrl("");
+        setError("");
+    };
+
+    const handleRemove = (url: string) => {
+        onChange(urls.filter((existing) => existing !== url));
+    };
+
+    return (
+        <div>
+            {urls.length === 0 ? (
+                <EmptyText className="text-4">No backup endpoints</EmptyText>
+            ) : (
+                <EndpointList>
+                    {urls.map((url) => {
+                        const nodeHealth = health?.find(
+                            (item) => item.url === url,
+                        );
+                        return (
+                            <EndpointRow key={url}>
+                                <EndpointUrl className="text-4">
+                                    {url}
+                                    {nodeHealth && (
+                                        <EndpointStatus
+                                            $healthy={nodeHealth.healthy}
+                                            title={nodeHealth.lastError}
+                                        >
+                                            ({formatHealth(nodeHealth)})
+                                        </EndpointStatus>
+                                    )}
+                                </EndpointUrl>
+                                <Button
+                                    title="Remove endpoint"
+                                    size="small"
+                                    variant="icon-button"
+                                    onClick={() => handleRemove(url)}
+                                    dangerHover
+                                >
+                                    <DeleteIcon />
+                                </Button>
+                            </EndpointRow>
+                        );
+                    })}
+                </EndpointList>
+            )}
+            <AddRow>
+                <Input
+                    id={`${idPrefix}-new-input`}
+                    className="text-2"
+                    value={newUrl}
+                    onChange={(e) => {
+                        setNewUrl(e.target.value);
+                        setError("");
+                    }}
+                    onKeyDown={(e) => {
+                        if (e.key === "Enter") {
+                            handleAdd();
+                        }
+                    }}
+                    placeholder={placeholder}
+                    error={error}
+                    fullWidth
+                />
+                <AddButton
+                    variant="secondary"
+                    onClick={handleAdd}
+                    disabled={!newUrl.trim()}
+                >
+                    Add
+                </AddButton>
+            </AddRow>
+        </div>
+    );
+};
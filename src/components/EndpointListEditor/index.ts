@@ -0,0 +1 @@
+export { EndpointListEditor } from "./EndpointListEditor";
@@ -0,0 +1,43 @@
+import React from "react";
+import styled from "styled-components";
+import { Link } from "react-router-dom";
+import { ExplorerQueryKind } from "services/explorer";
+
+const StyledLink = styled(Link)`
+    color: ${({ theme }) => theme.primary};
+    font-family: monospace;
+    word-break: break-all;
+    text-decoration: none;
+
+    &:hover {
+        text-decoration: underline;
+    }
+`;
+
+export const explorerPath = (kind: ExplorerQueryKind, value: string): string =>
+    `/explorer/${kind}/${encodeURIComponent(value)}`;
+
+// Shortens long hashes to their first characters unless `full` is set
+const shorten = (value: string, full: boolean): string =>
+    full || value.length <= 20 ? value : `${value.substring(0, 16)}…`;
+
+interface ExplorerLinkProps {
+    kind: ExplorerQueryKind;
+    value: string;
+    full?: boolean;
+    children?: React.ReactNode;
+}
+
+export const ExplorerLink: React.FC<ExplorerLinkProps> = ({
+    kind,
+    value,
+    full = false,
+    children,
+}) => (
+    <StyledLink
+        to={explorerPath(kind, value)}
+        title={`Open ${kind} in Explorer`}
+    >
+        {children ?? shorten(value, full)}
+    </StyledLink>
+);
@@ -0,0 +1 @@
+export { ExplorerLink, explorerPath } from "./ExplorerLink";
@@ -0,0 +1,30 @@
+import React, { CSSProperties } from "react";
+import { useFiatPrice } from "hooks/";
+import { AmountLike } from "utils/amount";
+
+interface FiatValueProps {
+    amount: AmountLike | null | undefined;
+    className?: string;
+    style?: CSSProperties;
+}
+
+// "≈ $12.34" next to a token amount; renders nothing while fiat display is off
+export const FiatValue: React.FC<FiatValueProps> = ({
+    amount,
+    className,
+    style,
+}) => {
+    const { quote, toFiat } = useFiatPrice();
+    const value = toFiat(amount);
+    if (!value || !quote) return null;
+
+    return (
+        <span
+            className={className}
+            style={style}
+            title={`${quote.source} price as of ${new Date(quote.timestamp).toLocaleString()}`}
+        >
+            ≈ {value}
+        </span>
+    );
+};
@@ -0,0 +1 @@
+export { FiatValue } from "./FiatValue";
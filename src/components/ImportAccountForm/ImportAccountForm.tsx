@@ -56,8 +56,8 @@ interface PendingImport {
 
 const importTypeOptions = [
     { id: "private", value: "private", label: "Private Key" },
-    { id: "eth", value: "eth", label: "Ethereum Address" },
-    { id: "rev", value: "rev", label: getAddressLabel() },
+    { id: "eth", value: "eth", label: "Ethereum Address (watch-only)" },
+    { id: "rev", value: "rev", label: `${getAddressLabel()} (watch-only)` },
 ];
 
 interface ImportAccountFormProps {
@@ -66,6 +66,8 @@ interface ImportAccountFormProps {
     hideCancelButton?: boolean;
     customAccountName?: string;
     firstAccount?: boolean;
+    // A key generated in the wallet, e.g. by the vanity generator
+    initialPrivateKey?: string;
 }
 
 type Step = "form" | "password";
@@ -76,6 +78,7 @@ export const ImportAccountForm: React.FC<ImportAccountFormProps> = ({
     hideCancelButton = false,
     customAccountName,
     firstAccount = false,
+    initialPrivateKey,
 }) => {
     const dispatch = useDispatch();
 
@@ -89,7 +92,7 @@ export const ImportAccountForm: React.FC<ImportAccountFormProps> = ({
 
     const [step, setStep] = useState<Step>("form");
     const [importName, setImportName] = useState("");
-    const [importValue, setImportValue] = useState("");
+    const [importValue, setImportValue] = useState(initialPrivateKey ?? "");
     const [importType, setImportType] = useState<
         "private" | "public" | "eth" | "rev"
     >("private");
@@ -303,21 +306,27 @@ export const ImportAccountForm: React.FC<ImportAccountFormProps> = ({
                 />
             </FormGroup>
 
-            <FormGroup>
-                <Label style={{ marginBottom: "8px" }}>Mode</Label>
+            {!initialPrivateKey && (
+                <FormGroup>
+                    <Label style={{ marginBottom: "8px" }}>Mode</Label>
 
-                <AdaptiveSelect
-                    value={importType}
-                    onChange={(value) => setImportType(value as any)}
-                    options={importTypeOptions}
-                    placeholder="Select import type"
-                />
-            </FormGroup>
+                    <AdaptiveSelect
+                        value={importType}
+                        onChange={(value) => setImportType(value as any)}
+                        options={importTypeOptions}
+                        placeholder="Select import type"
+                    />
+                </FormGroup>
+            )}
 
             <FormGroup>
                 <Input
                     id="import-account-value-input"
-                    label="Private Key"
+                    label={
+                        importType === "private"
+                            ? "Private Key"
+                            : "Address to watch"
+                    }
                     value={importValue}
                     onChange={(e) => {
                         setImportValue(e.target.value);
@@ -327,6 +336,8 @@ export const ImportAccountForm: React.FC<ImportAccountFormProps> = ({
                     }}
                     placeholder={getImportPlaceholder()}
                     error={importValueError}
+                    type={initialPrivateKey ? "password" : "text"}
+                    readOnly={!!initialPrivateKey}
                     disabled={loading}
                 />
             </FormGroup>
@@ -64,12 +64,14 @@ interface ImportAccountModalProps {
     isOpen: boolean;
     onClose: () => void;
     onSuccess?: () => void;
+    initialPrivateKey?: string;
 }
 
 export const ImportAccountModal: React.FC<ImportAccountModalProps> = ({
     isOpen,
     onClose,
     onSuccess,
+    initialPrivateKey,
 }) => {
     if (!isOpen) return null;
 
@@ -85,6 +87,7 @@ export const ImportAccountModal: React.FC<ImportAccountModalProps> = ({
                             <ImportAccountForm
                                 onSuccess={onSuccess}
                                 onCancel={onClose}
+                                initialPrivateKey={initialPrivateKey}
                             />
                         </StyledCardContent>
                     </StyledCard>
@@ -14,10 +14,17 @@ export const useNavItems = (accounts: any[] | undefined): NavItem[] => {
         return [
             { path: "/", label: "Wallet" },
             { path: "/send", label: "Send" },
+            { path: "/batch-send", label: "Batch Send" },
             { path: "/receive", label: "Receive" },
             { path: "/accounts", label: "Accounts" },
+            { path: "/contacts", label: "Contacts" },
             { path: "/history", label: "Transactions" },
+            { path: "/explorer", label: "Explorer" },
             { path: "/deploy", label: "Deploy" },
+            { path: "/registry", label: "Registry" },
+            { path: "/staking", label: "Staking" },
+            { path: "/offline-signing", label: "Offline Signing" },
+            { path: "/sign-message", label: "Sign Message" },
             { path: "/settings", label: "Network Settings" },
         ];
     }, [accounts]);
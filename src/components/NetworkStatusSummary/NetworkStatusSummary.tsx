@@ -0,0 +1,126 @@
+import React from "react";
+import styled from "styled-components";
+import {
+    EndpointVerification,
+    getEndpointRoleLabel,
+    NetworkVerification,
+} from "services/networkVerification";
+
+const Summary = styled.div`
+    margin: 24px 0;
+    padding: 16px 23px;
+    background: ${({ theme }) => theme.surface};
+    border-radius: 8px;
+    border: 1px solid ${({ theme }) => theme.border};
+`;
+
+const SummaryTitle = styled.div`
+    color: ${({ theme }) => theme.text.primary};
+    font-weight: 500;
+    margin-bottom: 12px;
+`;
+
+const EndpointBlock = styled.div`
+    margin-bottom: 12px;
+
+    &:last-of-type {
+        margin-bottom: 0;
+    }
+`;
+
+const EndpointHeader = styled.div<{ $reachable: boolean }>`
+    color: ${({ theme, $reachable }) =>
+        $reachable ? theme.text.primary : theme.error};
+    margin-bottom: 4px;
+    word-break: break-all;
+`;
+
+const StatusGrid = styled.dl`
+    display: grid;
+    grid-template-columns: max-content 1fr;
+    gap: 4px 16px;
+    margin: 0;
+    font-size: 13px;
+
+    dt {
+        color: ${({ theme }) => theme.text.secondary};
+    }
+
+    dd {
+        margin: 0;
+        word-break: break-all;
+    }
+`;
+
+const Warnings = styled.ul`
+    margin: 12px 0 0;
+    padding-left: 20px;
+    color: ${({ theme }) => theme.warning};
+`;
+
+const ResolvedShard = styled.div`
+    margin-top: 12px;
+    color: ${({ theme }) => theme.text.primary};
+`;
+
+const EndpointStatus: React.FC<{ endpoint: EndpointVerification }> = ({
+    endpoint,
+}) => {
+    const { status } = endpoint;
+
+    return (
+        <EndpointBlock>
+            <EndpointHeader $reachable={endpoint.reachable}>
+                {getEndpointRoleLabel(endpoint.role)}: {endpoint.url}
+                {!endpoint.reachable && ` (${endpoint.error})`}
+            </EndpointHeader>
+            {status && (
+                <StatusGrid>
+                    {endpoint.role !== "indexer" && (
+                        <>
+                            <dt>Version</dt>
+                            <dd>{status.version || "unknown"}</dd>
+                        </>
+                    )}
+                    <dt>Shard ID</dt>
+                    <dd>{status.shardId || "unknown"}</dd>
+                    {endpoint.role !== "indexer" && (
+                        <>
+                            <dt>Network ID</dt>
+                            <dd>{status.networkId || "unknown"}</dd>
+                            <dt>Peers</dt>
+                            <dd>{status.peers ?? "unknown"}</dd>
+                        </>
+                    )}
+                </StatusGrid>
+            )}
+        </EndpointBlock>
+    );
+};
+
+interface NetworkStatusSummaryProps {
+    verification: NetworkVerification;
+}
+
+export const NetworkStatusSummary: React.FC<NetworkStatusSummaryProps> = ({
+    verification,
+}) => (
+    <Summary>
+        <SummaryTitle>Node status</SummaryTitle>
+        {verification.endpoints.map((endpoint) => (
+            <EndpointStatus key={endpoint.role} endpoint={endpoint} />
+        ))}
+        <ResolvedShard className="text-2">
+            {verification.shardId
+                ? `Deploys will be signed for shard "${verification.shardId}".`
+                : "Shard could not be verified; the previous shard ID is kept."}
+        </ResolvedShard>
+        {verification.warnings.length > 0 && (
+            <Warnings>
+                {verification.warnings.map((warning) => (
+                    <li key={warning}>{warning}</li>
+                ))}
+            </Warnings>
+        )}
+    </Summary>
+);
@@ -0,0 +1 @@
+export { NetworkStatusSummary } from "./NetworkStatusSummary";
@@ -0,0 +1,87 @@
+import React, { useState } from "react";
+import styled from "styled-components";
+import { useSelector } from "react-redux";
+import { RootState } from "store";
+import { Button } from "components";
+import { RChainService } from "services/rchain";
+import DeployLifecycleService from "services/deployLifecycle";
+
+const ProposeControl = styled.div`
+    display: flex;
+    align-items: center;
+    gap: 12px;
+    white-space: nowrap;
+`;
+
+const ProposeStatus = styled.span<{ $isError: boolean }>`
+    font-size: 12px;
+    color: ${({ theme, $isError }) =>
+        $isError ? theme.error : theme.text.secondary};
+    white-space: normal;
+`;
+
+// The node answers e.g. "Success! Block 1a2b... created and added."
+const describeProposeResult = (result: any): string => {
+    if (typeof result === "string") {
+        return result;
+    }
+    return "Block proposed";
+};
+
+// Manual propose for networks with an admin node; renders nothing otherwise
+export const ProposeBlockButton: React.FC = () => {
+    const { selectedNetwork } = useSelector((state: RootState) => state.wallet);
+    const [isProposing, setIsProposing] = useState(false);
+    const [status, setStatus] = useState<{
+        message: string;
+        isError: boolean;
+    } | null>(null);
+
+    if (!selectedNetwork?.adminUrl) {
+        return null;
+    }
+
+    const handlePropose = async () => {
+        setIsProposing(true);
+        setStatus(null);
+        try {
+            const rchain = new RChainService(
+                selectedNetwork.url,
+                selectedNetwork.readOnlyUrl,
+                selectedNetwork.adminUrl,
+                selectedNetwork.shardId,
+                selectedNetwork.graphqlUrl,
+                selectedNetwork,
+            );
+            const waiting = DeployLifecycleService.getActive(selectedNetwork.id)
+                .filter((lifecycle) => lifecycle.state === "submitted")
+                .map((lifecycle) => lifecycle.deployId);
+            const result = await rchain.proposeAndTrack(waiting);
+            setStatus({
+                message: describeProposeResult(result),
+                isError: false,
+            });
+        } catch (error: any) {
+            setStatus({ message: error.message, isError: true });
+        } finally {
+            setIsProposing(false);
+        }
+    };
+
+    return (
+        <ProposeControl>
+            <Button
+                variant="secondary"
+                onClick={handlePropose}
+                loading={isProposing}
+            >
+                Propose block
+            </Button>
+            {status && (
+                <ProposeStatus $isError={status.isError}>
+                    {status.message}
+                </ProposeStatus>
+            )}
+        </ProposeControl>
+    );
+};
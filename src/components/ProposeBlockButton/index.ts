@@ -0,0 +1 @@
+export { ProposeBlockButton } from "./ProposeBlockButton";
@@ -0,0 +1,111 @@
+import React, { useState } from "react";
+import styled from "styled-components";
+import { Button } from "components/Button";
+import { Card, CardContent } from "components/Card";
+
+const Container = styled.div`
+    max-width: 600px;
+    margin: 0 auto;
+`;
+
+const SecurityWarning = styled.div`
+    background: ${({ theme }) => `${theme.error}15`};
+    border: 2px solid ${({ theme }) => theme.error};
+    border-radius: 12px;
+    padding: 20px;
+    margin-bottom: 24px;
+    text-align: center;
+`;
+
+const WarningTitle = styled.h3`
+    color: ${({ theme }) => theme.error};
+    margin: 0 0 12px 0;
+    font-weight: 700;
+`;
+
+const WordGrid = styled.ol<{ $isVisible: boolean }>`
+    display: grid;
+    grid-template-columns: repeat(3, 1fr);
+    gap: 8px 16px;
+    margin: 0 0 16px;
+    padding: 16px 16px 16px 40px;
+    background: ${({ theme }) => theme.surface};
+    border: 2px solid ${({ theme }) => theme.border};
+    border-radius: 8px;
+    font-family: monospace;
+    filter: ${({ $isVisible }) => ($isVisible ? "none" : "blur(8px)")};
+    transition: filter 0.3s ease;
+    user-select: ${({ $isVisible }) => ($isVisible ? "text" : "none")};
+
+    @media (max-width: 768px) {
+        grid-template-columns: repeat(2, 1fr);
+    }
+`;
+
+const ActionButtons = styled.div`
+    display: flex;
+    gap: 12px;
+    margin-top: 24px;
+    align-items: center;
+`;
+
+interface RecoveryPhraseDisplayProps {
+    mnemonic: string;
+    accountName: string;
+    onContinue: () => void;
+}
+
+// Shown once after a new recovery phrase is created, like PrivateKeyDisplay
+export const RecoveryPhraseDisplay: React.FC<RecoveryPhraseDisplayProps> = ({
+    mnemonic,
+    accountName,
+    onContinue,
+}) => {
+    const [isVisible, setIsVisible] = useState(false);
+
+    return (
+        <Container>
+            <SecurityWarning>
+                <WarningTitle>
+                    IMPORTANT: Write Down Your Recovery Phrase
+                </WarningTitle>
+                <span className="text-2">
+                    These words restore {accountName} and every account you add
+                    from this phrase later.
+                    <strong>
+                        {" "}
+                        Write them down in order and keep them offline.
+                    </strong>{" "}
+                    Anyone who has them controls your funds.
+                </span>
+            </SecurityWarning>
+
+            <Card>
+                <CardContent>
+                    <WordGrid className="text-2" $isVisible={isVisible}>
+                        {mnemonic.split(" ").map((word, index) => (
+                            <li key={index}>{word}</li>
+                        ))}
+                    </WordGrid>
+                    <Button
+                        variant="secondary"
+                        size="small"
+                        onClick={() => setIsVisible(!isVisible)}
+                    >
+                        {isVisible ? "Hide" : "Show"}
+                    </Button>
+
+                    <ActionButtons>
+                        <Button
+                            onClick={onContinue}
+                            disabled={!isVisible}
+                            style={{ flex: 1, height: "auto" }}
+                        >
+                            <h3>I've Written Down My Recovery Phrase</h3>
+                        </Button>
+                    </ActionButtons>
+                </CardContent>
+            </Card>
+        </Container>
+    );
+};
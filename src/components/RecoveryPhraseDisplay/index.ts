@@ -0,0 +1 @@
+export { RecoveryPhraseDisplay } from './RecoveryPhraseDisplay';
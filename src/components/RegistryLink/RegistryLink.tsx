@@ -0,0 +1,31 @@
+import React from "react";
+import styled from "styled-components";
+import { Link } from "react-router-dom";
+
+const StyledLink = styled(Link)`
+    color: ${({ theme }) => theme.primary};
+    font-family: monospace;
+    word-break: break-all;
+    text-decoration: none;
+
+    &:hover {
+        text-decoration: underline;
+    }
+`;
+
+export const registryPath = (uri: string): string =>
+    `/registry/${encodeURIComponent(uri)}`;
+
+interface RegistryLinkProps {
+    uri: string;
+    children?: React.ReactNode;
+}
+
+export const RegistryLink: React.FC<RegistryLinkProps> = ({
+    uri,
+    children,
+}) => (
+    <StyledLink to={registryPath(uri)} title="Look up in Registry">
+        {children ?? uri}
+    </StyledLink>
+);
@@ -0,0 +1 @@
+export { RegistryLink, registryPath } from "./RegistryLink";
@@ -0,0 +1,51 @@
+import { ReactElement } from "react";
+import styled from "styled-components";
+import { formatTokenAmount, TokenBalance } from "services/tokens";
+
+interface ITokenBalanceListProps {
+    balances: TokenBalance[];
+    isSelected?: boolean;
+}
+
+const List = styled.ul<{ $isSelected: boolean }>`
+    list-style: none;
+    margin: -12px 0 24px;
+    padding: 0;
+    display: flex;
+    flex-wrap: wrap;
+    gap: 8px 24px;
+    color: ${({ $isSelected, theme }) =>
+        !$isSelected ? theme.text.primary : theme.colors.background.secondary};
+`;
+
+const TokenAmount = styled.span`
+    font-weight: 700;
+    margin-right: 4px;
+`;
+
+export const TokenBalanceList = ({
+    balances,
+    isSelected = false,
+}: ITokenBalanceListProps): ReactElement | null => {
+    if (balances.length === 0) {
+        return null;
+    }
+
+    return (
+        <List className="token-balance-list text-2" $isSelected={isSelected}>
+            {balances.map(({ token, balance }) => (
+                <li
+                    key={token.id}
+                    title={`${token.name} (${token.registryUri})`}
+                >
+                    <TokenAmount>
+                        {balance === undefined
+                            ? "…"
+                            : formatTokenAmount(balance, token.decimals)}
+                    </TokenAmount>
+                    {token.symbol}
+                </li>
+            ))}
+        </List>
+    );
+};
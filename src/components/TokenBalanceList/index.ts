@@ -0,0 +1 @@
+export { TokenBalanceList } from "./TokenBalanceList";
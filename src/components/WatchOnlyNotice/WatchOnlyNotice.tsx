@@ -0,0 +1,42 @@
+import React from "react";
+import { useNavigate } from "react-router-dom";
+import styled from "styled-components";
+import { Button } from "components/Button";
+
+const Notice = styled.div`
+    border: 2px solid ${({ theme }) => theme.warning};
+    border-radius: 8px;
+    padding: 16px;
+    margin-bottom: 24px;
+`;
+
+const Text = styled.p`
+    margin: 0 0 12px;
+`;
+
+interface WatchOnlyNoticeProps {
+    accountName: string;
+    // What the page would do, e.g. "send funds"
+    action: string;
+}
+
+// Replaces signing actions for accounts imported from an address alone
+export const WatchOnlyNotice: React.FC<WatchOnlyNoticeProps> = ({
+    accountName,
+    action,
+}) => {
+    const navigate = useNavigate();
+
+    return (
+        <Notice className="text-2">
+            <Text>
+                <strong>{accountName}</strong> is a watch-only account, so it
+                cannot {action} here. Prepare the deploy under Offline Signing
+                and sign it on the device that holds the key.
+            </Text>
+            <Button size="small" onClick={() => navigate("/offline-signing")}>
+                Go to Offline Signing
+            </Button>
+        </Notice>
+    );
+};
@@ -9,4 +9,5 @@ export { DeploymentConfirmationModal } from './DeployConfirmationModal';
 export { AccountSwitcher } from './AccountSwitcher';
 export { AIHint } from './AIHint';
 export { Switch } from './Switch';
-export { PrivateKeyDisplay } from './PrivateKeyDisplay';
\ No newline at end of file
+export { PrivateKeyDisplay } from './PrivateKeyDisplay';
+export { RecoveryPhraseDisplay } from './RecoveryPhraseDisplay';
\ No newline at end of file
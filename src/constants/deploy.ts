@@ -0,0 +1,2 @@
+// A deploy can only be included within this many blocks after validAfterBlockNumber
+export const DEPLOY_LIFESPAN_BLOCKS = 50;
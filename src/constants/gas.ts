@@ -1,22 +1,36 @@
+import { Amount } from '../utils/amount';
+
 export const GAS_FEE = {
   BASE_FEE: 0.0025,
-  VARIATION_RANGE: 0.1,
   LABEL: 'ASI',
   TRANSFER: '0.0025',
   DEPLOY: '0.0025',
+  PHLO_PRICE: 1,
+  PHLO_LIMIT: 500000,
+  // Multiplier applied to measured phlo usage before it is shown as a fee
+  SAFETY_MARGIN: 1.2,
 } as const;
 
-export const generateRandomGasFee = (): string => {
-  const variation = (Math.random() - 0.5) * 2 * GAS_FEE.VARIATION_RANGE;
-  const randomFee = GAS_FEE.BASE_FEE * (1 + variation);
-  return randomFee.toFixed(4);
+export const getGasFeeAmount = (): Amount => {
+  return Amount.parse(GAS_FEE.TRANSFER);
+};
+
+// Convert a phlo amount into an ASI fee string (phlo * phloPrice atomic units)
+export const phloToFee = (
+  phlo: number,
+  phloPrice: number = GAS_FEE.PHLO_PRICE
+): string => {
+  return Amount.fromAtomic(Math.ceil(phlo * phloPrice)).toFixed();
 };
 
-export const getGasFeeAsNumber = (): number => {
-  return GAS_FEE.BASE_FEE;
+// Phlo equivalent of the static base fee, used when no measurement is available
+export const getDefaultPhloCost = (
+  phloPrice: number = GAS_FEE.PHLO_PRICE
+): number => {
+  return Math.ceil(Number(getGasFeeAmount().toAtomic()) / phloPrice);
 };
 
 export const formatGasFee = (fee?: string): string => {
-  const feeValue = fee || generateRandomGasFee();
+  const feeValue = fee || GAS_FEE.TRANSFER;
   return `${feeValue} ${GAS_FEE.LABEL}`;
 };
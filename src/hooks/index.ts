@@ -3,3 +3,7 @@ export { useDeepLink } from "./useDeepLink";
 export { useSessionGuard } from "./useSessionGuard";
 export { useScreen } from "./useScreen";
 export { useValidAccountUpdating } from "./useValidAccountUpdating";
+export { useTokenBalances } from "./useTokenBalances";
+export { useContacts } from "./useContacts";
+export { useBalanceHistory } from "./useBalanceHistory";
+export { useFiatPrice } from "./useFiatPrice";
@@ -0,0 +1,69 @@
+import { useEffect, useState } from "react";
+import {
+    BalanceHistoryRange,
+    BalanceHistoryService,
+    BalancePoint,
+    balanceAccountKey,
+} from "services/balanceHistory";
+
+/**
+ * Balance history for one address, or the summed portfolio of several.
+ * Reloads whenever a new snapshot is recorded for any of them.
+ */
+export const useBalanceHistory = (
+    networkId: string | undefined,
+    revAddresses: string[],
+    range: BalanceHistoryRange,
+): BalancePoint[] => {
+    const [points, setPoints] = useState<BalancePoint[]>([]);
+    const addressesKey = revAddresses.join(",");
+
+    useEffect(() => {
+        const addresses = addressesKey ? addressesKey.split(",") : [];
+        if (!networkId || addresses.length === 0) {
+            setPoints([]);
+            return;
+        }
+
+        let isCurrent = true;
+        const load = () => {
+            const request =
+                addresses.length === 1
+                    ? BalanceHistoryService.getSeries(
+                          networkId,
+                          addresses[0],
+                          range,
+                      )
+                    : BalanceHistoryService.getPortfolio(
+                          networkId,
+                          addresses,
+                          range,
+                      );
+            request
+                .then((loaded) => {
+                    if (isCurrent) setPoints(loaded);
+                })
+                .catch((error) =>
+                    console.error(
+                        "[BalanceHistory] Failed to load history:",
+                        error,
+                    ),
+                );
+        };
+
+        const watched = new Set(
+            addresses.map((address) => balanceAccountKey(networkId, address)),
+        );
+        const unsubscribe = BalanceHistoryService.subscribe((accountKeys) => {
+            if (accountKeys.some((key) => watched.has(key))) load();
+        });
+        load();
+
+        return () => {
+            isCurrent = false;
+            unsubscribe();
+        };
+    }, [networkId, addressesKey, range]);
+
+    return points;
+};
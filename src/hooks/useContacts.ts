@@ -0,0 +1,33 @@
+import { useCallback, useEffect, useState } from "react";
+import { ContactsService } from "services/contacts";
+import { Contact } from "types/wallet";
+
+interface IUseContactsResponse {
+    contacts: Contact[];
+    findByAddress: (address?: string) => Contact | undefined;
+}
+
+// Address book contents, kept in sync with saves made anywhere in the app
+export const useContacts = (): IUseContactsResponse => {
+    const [contacts, setContacts] = useState<Contact[]>(
+        ContactsService.getAll(),
+    );
+
+    useEffect(() => {
+        const unsubscribe = ContactsService.subscribe(setContacts);
+        ContactsService.load()
+            .then(setContacts)
+            .catch((error) =>
+                console.error("[Contacts] Failed to load contacts:", error),
+            );
+        return unsubscribe;
+    }, []);
+
+    const findByAddress = useCallback(
+        (address?: string) =>
+            address ? ContactsService.findByAddress(address) : undefined,
+        [contacts],
+    );
+
+    return { contacts, findByAddress };
+};
@@ -1,5 +1,6 @@
 import { useEffect } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
+import { serializePaymentUri } from 'utils/paymentUri';
 
 export const useDeepLink = () => {
   const navigate = useNavigate();
@@ -8,7 +9,15 @@ export const useDeepLink = () => {
   useEffect(() => {
     // Check URL parameters on mount and location change
     const params = new URLSearchParams(location.search);
-    
+
+    // Payment request URI, e.g. ?pay=asi:1111...?amount=5 (also web+asi: from the protocol handler)
+    const paymentUri = params.get('pay');
+    if (paymentUri) {
+      openPaymentRequest(paymentUri);
+      window.history.replaceState({}, document.title, window.location.pathname);
+      return;
+    }
+
     // Handle custom actions
     const action = params.get('action');
     if (action) {
@@ -19,22 +28,36 @@ export const useDeepLink = () => {
     }
   }, [location, navigate]);
 
+  // The Send page parses the request and asks before filling anything in
+  const openPaymentRequest = (uri: string) => {
+    navigate('/send', { state: { paymentUri: uri } });
+  };
+
   const handleCustomAction = (action: string) => {
     // Parse action string (e.g., "send?to=address&amount=100")
     const [actionType, actionParams] = action.split('?');
     const params = new URLSearchParams(actionParams || '');
     
     switch (actionType) {
-      case 'send':
-        navigate('/send', { 
-          state: { 
-            to: params.get('to'), 
-            amount: params.get('amount') 
-          } 
-        });
+      case 'send': {
+        const to = params.get('to');
+        if (!to) {
+          navigate('/send');
+          break;
+        }
+        // Legacy links go through the same confirmation as payment URIs
+        try {
+          openPaymentRequest(
+            serializePaymentUri({ address: to, amount: params.get('amount') || undefined })
+          );
+        } catch (error) {
+          console.warn('Ignoring invalid send link:', error);
+          navigate('/send');
+        }
         break;
+      }
       default:
         console.info('Unknown action:', actionType);
     }
   };
-};
\ No newline at end of file
+};
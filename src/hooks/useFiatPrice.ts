@@ -0,0 +1,65 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+    FiatCurrency,
+    PriceFeedService,
+    PriceQuote,
+    formatFiat,
+} from "services/priceFeed";
+import { Amount, AmountLike } from "utils/amount";
+
+const REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+
+interface IUseFiatPriceResponse {
+    currency: FiatCurrency | null;
+    quote: PriceQuote | null;
+    // Formatted fiat value of a token amount; null while fiat display is off
+    toFiat: (amount: AmountLike | null | undefined) => string | null;
+}
+
+// Current price in the fiat display currency, refreshed in the background
+export const useFiatPrice = (): IUseFiatPriceResponse => {
+    const [currency, setCurrency] = useState<FiatCurrency | null>(
+        () => PriceFeedService.getConfig().currency,
+    );
+    const [quote, setQuote] = useState<PriceQuote | null>(() =>
+        currency ? PriceFeedService.getCachedPrice(currency) : null,
+    );
+
+    useEffect(() => {
+        let isCurrent = true;
+        const load = () => {
+            const next = PriceFeedService.getConfig().currency;
+            setCurrency(next);
+            if (!next) {
+                setQuote(null);
+                return;
+            }
+            setQuote(PriceFeedService.getCachedPrice(next));
+            PriceFeedService.getPrice(next).then((loaded) => {
+                if (isCurrent) setQuote(loaded);
+            });
+        };
+
+        const unsubscribe = PriceFeedService.subscribe(load);
+        const interval = setInterval(load, REFRESH_INTERVAL_MS);
+        load();
+        return () => {
+            isCurrent = false;
+            unsubscribe();
+            clearInterval(interval);
+        };
+    }, []);
+
+    const toFiat = useCallback(
+        (amount: AmountLike | null | undefined) =>
+            currency && quote
+                ? formatFiat(
+                      Amount.from(amount).toNumber() * quote.price,
+                      currency,
+                  )
+                : null,
+        [currency, quote],
+    );
+
+    return { currency, quote, toFiat };
+};
@@ -0,0 +1,98 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useSelector } from "react-redux";
+import { RootState } from "store";
+import { RChainService } from "services/rchain";
+import TokenRegistryService from "services/tokenRegistry";
+import { fetchTokenBalances, TokenBalance } from "services/tokens";
+import { CustomToken } from "types/wallet";
+
+const REFRESH_INTERVAL_MS = 30000;
+
+interface IUseTokenBalancesResponse {
+    tokens: CustomToken[];
+    balancesFor: (address: string) => TokenBalance[];
+    isLoading: boolean;
+    refresh: () => void;
+}
+
+// Custom token balances of the given addresses on the selected network,
+// one explore-deploy per token, refreshed alongside the ASI balances
+export const useTokenBalances = (
+    addresses: string[],
+): IUseTokenBalancesResponse => {
+    const { selectedNetwork } = useSelector((state: RootState) => state.wallet);
+
+    const [tokens, setTokens] = useState<CustomToken[]>([]);
+    // tokenId -> address -> smallest units
+    const [balances, setBalances] = useState<
+        Record<string, Record<string, string>>
+    >({});
+    const [isLoading, setIsLoading] = useState(false);
+
+    const addressKey = addresses.join(",");
+
+    useEffect(() => {
+        setTokens(TokenRegistryService.getAll(selectedNetwork.id));
+        setBalances({});
+    }, [selectedNetwork.id]);
+
+    const refresh = useCallback(async () => {
+        const targets = addressKey ? addressKey.split(",") : [];
+        if (tokens.length === 0 || targets.length === 0) {
+            return;
+        }
+
+        const rchain = new RChainService(
+            selectedNetwork.url,
+            selectedNetwork.readOnlyUrl,
+            selectedNetwork.adminUrl,
+            selectedNetwork.shardId,
+            selectedNetwork.graphqlUrl,
+            selectedNetwork,
+        );
+
+        setIsLoading(true);
+        const results = await Promise.all(
+            tokens.map((token) =>
+                fetchTokenBalances(rchain, token, targets).catch((error) => {
+                    console.warn(
+                        `[Tokens] Failed to load ${token.symbol} balances:`,
+                        error.message,
+                    );
+                    return null;
+                }),
+            ),
+        );
+        setBalances((previous) => {
+            const next = { ...previous };
+            tokens.forEach((token, index) => {
+                const loaded = results[index];
+                if (loaded) {
+                    next[token.id] = { ...next[token.id], ...loaded };
+                }
+            });
+            return next;
+        });
+        setIsLoading(false);
+    }, [tokens, addressKey, selectedNetwork]);
+
+    useEffect(() => {
+        refresh();
+        const interval = setInterval(refresh, REFRESH_INTERVAL_MS);
+        return () => clearInterval(interval);
+    }, [refresh]);
+
+    const balancesFor = useCallback(
+        (address: string): TokenBalance[] =>
+            tokens.map((token) => ({
+                token,
+                balance: balances[token.id]?.[address],
+            })),
+        [tokens, balances],
+    );
+
+    return useMemo(
+        () => ({ tokens, balancesFor, isLoading, refresh }),
+        [tokens, balancesFor, isLoading, refresh],
+    );
+};
@@ -2,7 +2,7 @@ import React, { useState, useEffect, useMemo, Fragment } from "react";
 import { useSelector, useDispatch } from "react-redux";
 import styled from "styled-components";
 import { RootState } from "store";
-import { fetchBalance } from "store/walletSlice";
+import { fetchBalances } from "store/walletSlice";
 import { Card, CardHeader, CardTitle, CardContent, Button } from "components";
 import { ReloadIcon } from "components/Icons";
 import { AccountCard } from "components/AccountCard";
@@ -11,7 +11,7 @@ import { FirstAccountCreatingWidget } from "components/FirstAccountCreatingWidge
 import { useSearchParams } from "react-router-dom";
 import { CreateAccountModal } from "components/CreateAccountModal";
 import { ImportAccountModal } from "components/ImportAccountModal";
-import { useScreen } from "hooks/";
+import { useScreen, useTokenBalances } from "hooks/";
 
 const AccountsContainer = styled.div``;
 
@@ -86,6 +86,13 @@ export const Accounts: React.FC = () => {
         [accounts, selectedNetworkId],
     );
 
+    const filteredAddresses = useMemo(
+        () => filteredAccounts.map((account: Account) => account.revAddress),
+        [filteredAccounts],
+    );
+    const { balancesFor, refresh: refreshTokenBalances } =
+        useTokenBalances(filteredAddresses);
+
     const [showCreateModal, setShowCreateModal] = useState(
         actionParam === "create-account",
     );
@@ -99,14 +106,12 @@ export const Accounts: React.FC = () => {
     useEffect(() => {
         if (filteredAccounts.length > 0 && selectedNetwork) {
             const timeoutId = setTimeout(() => {
-                filteredAccounts.forEach((account: Account) => {
-                    dispatch(
-                        fetchBalance({
-                            account,
-                            network: selectedNetwork,
-                        }) as any,
-                    );
-                });
+                dispatch(
+                    fetchBalances({
+                        accounts: filteredAccounts,
+                        network: selectedNetwork,
+                    }) as any,
+                );
             }, 100);
 
             return () => clearTimeout(timeoutId);
@@ -117,14 +122,12 @@ export const Accounts: React.FC = () => {
     useEffect(() => {
         if (filteredAccounts.length > 0 && selectedNetwork) {
             const interval = setInterval(() => {
-                filteredAccounts.forEach((account: Account) => {
-                    dispatch(
-                        fetchBalance({
-                            account,
-                            network: selectedNetwork,
-                        }) as any,
-                    );
-                });
+                dispatch(
+                    fetchBalances({
+                        accounts: filteredAccounts,
+                        network: selectedNetwork,
+                    }) as any,
+                );
             }, 30000);
             return () => clearInterval(interval);
         }
@@ -133,15 +136,14 @@ export const Accounts: React.FC = () => {
 
     const handleRefreshBalances = () => {
         if (filteredAccounts.length > 0 && selectedNetwork) {
-            filteredAccounts.forEach((account: Account) => {
-                dispatch(
-                    fetchBalance({
-                        account,
-                        network: selectedNetwork,
-                        forceRefresh: true,
-                    }) as any,
-                );
-            });
+            dispatch(
+                fetchBalances({
+                    accounts: filteredAccounts,
+                    network: selectedNetwork,
+                    forceRefresh: true,
+                }) as any,
+            );
+            refreshTokenBalances();
         }
     };
 
@@ -173,6 +175,9 @@ export const Accounts: React.FC = () => {
                                     <AccountCard
                                         key={account.id}
                                         account={account}
+                                        tokenBalances={balancesFor(
+                                            account.revAddress,
+                                        )}
                                     />
                                 ))}
                             </AccountsGrid>
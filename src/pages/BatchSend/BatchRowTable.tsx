@@ -0,0 +1,95 @@
+import React from "react";
+import styled from "styled-components";
+import { BatchPaymentRow, BatchRowOutcome } from "services/batchPayments";
+
+const TableWrapper = styled.div`
+    max-height: 420px;
+    overflow: auto;
+`;
+
+const Table = styled.table`
+    width: 100%;
+    border-collapse: collapse;
+
+    th,
+    td {
+        text-align: left;
+        padding: 8px 12px;
+        border-bottom: 1px solid ${({ theme }) => theme.border};
+        vertical-align: top;
+    }
+
+    th {
+        color: ${({ theme }) => theme.text.secondary};
+        font-weight: 500;
+    }
+`;
+
+const Address = styled.span`
+    font-family: monospace;
+    word-break: break-all;
+`;
+
+const Status = styled.span<{ $tone: "success" | "error" | "muted" }>`
+    color: ${({ theme, $tone }) =>
+        $tone === "success"
+            ? theme.success
+            : $tone === "error"
+              ? theme.error
+              : theme.text.secondary};
+`;
+
+interface BatchRowTableProps {
+    rows: BatchPaymentRow[];
+    // Per-row results once the batch deploy has been read back
+    outcomes?: BatchRowOutcome[];
+}
+
+const renderStatus = (row: BatchPaymentRow, outcome?: BatchRowOutcome) => {
+    if (row.error) {
+        return <Status $tone="error">{row.error}</Status>;
+    }
+    if (!outcome) {
+        return <Status $tone="muted">Ready</Status>;
+    }
+    if (outcome.status === "success") {
+        return <Status $tone="success">Sent</Status>;
+    }
+    return (
+        <Status $tone="error">
+            Failed{outcome.reason ? `: ${outcome.reason}` : ""}
+        </Status>
+    );
+};
+
+export const BatchRowTable: React.FC<BatchRowTableProps> = ({
+    rows,
+    outcomes,
+}) => (
+    <TableWrapper>
+        <Table className="text-3">
+            <thead>
+                <tr>
+                    <th>Line</th>
+                    <th>Recipient</th>
+                    <th>Amount</th>
+                    <th>Note</th>
+                    <th>Status</th>
+                </tr>
+            </thead>
+            <tbody>
+                {rows.map((row, index) => (
+                    <tr key={row.line}>
+                        <td>{row.line}</td>
+                        <td>
+                            <Address>{row.address}</Address>
+                        </td>
+                        <td>{row.amount}</td>
+                        <td>{row.note}</td>
+                        <td>{renderStatus(row, outcomes?.[index])}</td>
+                    </tr>
+                ))}
+            </tbody>
+        </Table>
+    </TableWrapper>
+);
@@ -0,0 +1,493 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { useDispatch, useSelector } from "react-redux";
+import { useNavigate } from "react-router-dom";
+import styled from "styled-components";
+import { AppDispatch, RootState } from "store";
+import {
+    Card,
+    CardHeader,
+    CardTitle,
+    CardContent,
+    Button,
+    TextArea,
+    PasswordModal,
+} from "components";
+import { ExplorerLink } from "components/ExplorerLink";
+import { WatchOnlyNotice } from "components/WatchOnlyNotice";
+import { RChainService } from "services/rchain";
+import { SecureStorage } from "services/secureStorage";
+import DeployLifecycleService from "services/deployLifecycle";
+import {
+    BatchFeeEstimate,
+    BatchPaymentRow,
+    BatchRowOutcome,
+    batchTotal,
+    downloadBatchCsv,
+    estimateBatchFee,
+    MAX_BATCH_ROWS,
+    parseBatchCsv,
+    parseBatchResults,
+    readBatchCsvFile,
+} from "services/batchPayments";
+import { fetchBalance, sendBatchPayment } from "store/walletSlice";
+import { DeployLifecycle } from "types/wallet";
+import { formatBalance } from "utils/balanceUtils";
+import { isWatchOnlyAccount } from "utils/watchOnly";
+import { BatchRowTable } from "./BatchRowTable";
+
+const BatchSendContainer = styled.div`
+    display: flex;
+    flex-direction: column;
+    gap: 24px;
+`;
+
+const HeaderRow = styled.div`
+    display: flex;
+    justify-content: space-between;
+    align-items: center;
+    gap: 12px;
+    width: 100%;
+`;
+
+const FileInput = styled.input`
+    display: none;
+`;
+
+const SummaryGrid = styled.dl`
+    display: grid;
+    grid-template-columns: max-content 1fr;
+    gap: 8px 16px;
+    margin: 0 0 16px;
+
+    dt {
+        color: ${({ theme }) => theme.text.secondary};
+    }
+
+    dd {
+        margin: 0;
+        word-break: break-all;
+    }
+`;
+
+const ButtonRow = styled.div`
+    display: flex;
+    flex-wrap: wrap;
+    gap: 12px;
+    margin-top: 16px;
+`;
+
+const Message = styled.div<{ $isError?: boolean }>`
+    color: ${({ theme, $isError }) =>
+        $isError ? theme.error : theme.text.secondary};
+    margin-bottom: 16px;
+    word-break: break-word;
+`;
+
+const CSV_PLACEHOLDER = `address,amount,note
+1111...,10,March payroll
+1111...,2.5`;
+
+// Deploy states in which the deployId channel can be read
+const READABLE_STATES = new Set(["included", "finalized", "errored"]);
+
+export const BatchSend: React.FC = () => {
+    const navigate = useNavigate();
+    const dispatch = useDispatch<AppDispatch>();
+    const { selectedAccount, selectedNetwork } = useSelector(
+        (state: RootState) => state.wallet,
+    );
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const [csvText, setCsvText] = useState("");
+    const [rows, setRows] = useState<BatchPaymentRow[]>([]);
+    const [formError, setFormError] = useState("");
+    const [estimate, setEstimate] = useState<BatchFeeEstimate>();
+    const [isChecking, setIsChecking] = useState(false);
+
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [showPasswordModal, setShowPasswordModal] = useState(false);
+    const [passwordError, setPasswordError] = useState("");
+    const [submitted, setSubmitted] = useState<{
+        deployId: string;
+        rows: BatchPaymentRow[];
+    } | null>(null);
+    const [lifecycle, setLifecycle] = useState<DeployLifecycle>();
+    const [outcomes, setOutcomes] = useState<BatchRowOutcome[]>();
+
+    const rchain = useMemo(
+        () =>
+            new RChainService(
+                selectedNetwork.url,
+                selectedNetwork.readOnlyUrl,
+                selectedNetwork.adminUrl,
+                selectedNetwork.shardId,
+                selectedNetwork.graphqlUrl,
+                selectedNetwork,
+            ),
+        [selectedNetwork],
+    );
+
+    // Follow the batch deploy and read the per-row results once it is in a block
+    useEffect(() => {
+        if (!submitted) {
+            setLifecycle(undefined);
+            return;
+        }
+
+        const readResults = async (updated: DeployLifecycle) => {
+            if (!READABLE_STATES.has(updated.state)) {
+                return;
+            }
+            try {
+                const values = await rchain.getDeployChannelData(
+                    submitted.deployId,
+                );
+                const parsed = parseBatchResults(values, submitted.rows.length);
+                if (parsed) {
+                    setOutcomes(parsed);
+                }
+            } catch (error: any) {
+                console.warn(
+                    "[Batch Send] Could not read batch results:",
+                    error.message,
+                );
+            }
+        };
+
+        const current = DeployLifecycleService.get(submitted.deployId);
+        setLifecycle(current);
+        if (current) {
+            readResults(current);
+        }
+        return DeployLifecycleService.subscribe((updated) => {
+            if (updated.deployId !== submitted.deployId) {
+                return;
+            }
+            setLifecycle(updated);
+            readResults(updated);
+        });
+    }, [submitted, rchain]);
+
+    if (!selectedAccount) {
+        return (
+            <Card>
+                <CardContent>
+                    <p>Please select an account first.</p>
+                    <Button onClick={() => navigate("/accounts")}>
+                        Select Account
+                    </Button>
+                </CardContent>
+            </Card>
+        );
+    }
+
+    const invalidCount = rows.filter((row) => row.error).length;
+    const total = batchTotal(rows.filter((row) => !row.error));
+    const required = estimate ? total.add(estimate.fee) : total;
+    const isAffordable = !required.gt(selectedAccount.balance);
+    const isWatchOnly = isWatchOnlyAccount(selectedAccount);
+    const canSend =
+        !isWatchOnly &&
+        rows.length > 0 &&
+        invalidCount === 0 &&
+        !!estimate &&
+        isAffordable;
+
+    const resetCheck = () => {
+        setRows([]);
+        setEstimate(undefined);
+        setFormError("");
+    };
+
+    const handleCsvChange = (event: React.ChangeEvent<HTMLTextAreaElement>) => {
+        setCsvText(event.target.value);
+        resetCheck();
+    };
+
+    const handleFileSelected = async (
+        event: React.ChangeEvent<HTMLInputElement>,
+    ) => {
+        const file = event.target.files?.[0];
+        event.target.value = "";
+        if (!file) {
+            return;
+        }
+        try {
+            setCsvText(await readBatchCsvFile(file));
+            resetCheck();
+        } catch (error: any) {
+            setFormError(error.message);
+        }
+    };
+
+    const handleCheck = async () => {
+        resetCheck();
+        let parsed: BatchPaymentRow[];
+        try {
+            parsed = parseBatchCsv(csvText, selectedAccount.revAddress);
+        } catch (error: any) {
+            setFormError(error.message);
+            return;
+        }
+        setRows(parsed);
+        if (parsed.some((row) => row.error)) {
+            return;
+        }
+
+        setIsChecking(true);
+        try {
+            setEstimate(
+                await estimateBatchFee(
+                    rchain,
+                    selectedAccount.revAddress,
+                    parsed,
+                ),
+            );
+        } catch (error: any) {
+            setFormError(`Could not estimate the fee: ${error.message}`);
+        } finally {
+            setIsChecking(false);
+        }
+    };
+
+    const submit = async (password?: string) => {
+        if (!estimate) {
+            return;
+        }
+        setIsSubmitting(true);
+        setFormError("");
+        const resultAction = await dispatch(
+            sendBatchPayment({
+                from: selectedAccount,
+                rows,
+                phloLimit: estimate.phloLimit,
+                password,
+                network: selectedNetwork,
+            }),
+        );
+        setIsSubmitting(false);
+
+        if (sendBatchPayment.fulfilled.match(resultAction)) {
+            setSubmitted({ deployId: resultAction.payload.deployId, rows });
+            setOutcomes(undefined);
+            setEstimate(undefined);
+            dispatch(
+                fetchBalance({
+                    account: selectedAccount,
+                    network: selectedNetwork,
+                }),
+            );
+        } else {
+            setFormError(
+                resultAction.error.message || "Failed to send the batch",
+            );
+        }
+    };
+
+    const handleConfirm = () => {
+        const unlocked = SecureStorage.getUnlockedAccount(selectedAccount.id);
+        if (unlocked?.privateKey) {
+            submit();
+        } else {
+            setPasswordError("");
+            setShowPasswordModal(true);
+        }
+    };
+
+    const handlePasswordConfirm = async (password: string) => {
+        const unlocked = await SecureStorage.unlockAccount(
+            selectedAccount.id,
+            password,
+        );
+        if (!unlocked?.privateKey) {
+            setPasswordError("Invalid password");
+            return;
+        }
+        setShowPasswordModal(false);
+        submit(password);
+    };
+
+    const handleNewBatch = () => {
+        setSubmitted(null);
+        setOutcomes(undefined);
+        setCsvText("");
+        resetCheck();
+    };
+
+    const failedCount =
+        outcomes?.filter((outcome) => outcome.status === "failed").length ?? 0;
+
+    return (
+        <BatchSendContainer>
+            <FileInput
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,text/csv"
+                onChange={handleFileSelected}
+            />
+
+            {!submitted && (
+                <Card>
+                    <CardHeader>
+                        <HeaderRow>
+                            <CardTitle>Batch Send</CardTitle>
+                            <Button
+                                variant="secondary"
+                                size="small"
+                                onClick={() => fileInputRef.current?.click()}
+                            >
+                                Import CSV
+                            </Button>
+                        </HeaderRow>
+                    </CardHeader>
+                    <CardContent>
+                        {isWatchOnly && (
+                            <WatchOnlyNotice
+                                accountName={selectedAccount.name}
+                                action="send payments"
+                            />
+                        )}
+                        <Message className="text-2">
+                            One payment per line as address,amount and an
+                            optional note, up to {MAX_BATCH_ROWS} rows. All
+                            transfers from {selectedAccount.name} go out in a
+                            single deploy.
+                        </Message>
+                        <TextArea
+                            id="batch-csv-input"
+                            label="Payments"
+                            value={csvText}
+                            onChange={handleCsvChange}
+                            placeholder={CSV_PLACEHOLDER}
+                            rows={8}
+                            fullWidth
+                        />
+
+                        {formError && <Message $isError>{formError}</Message>}
+
+                        <ButtonRow>
+                            <Button
+                                variant="primary"
+                                onClick={handleCheck}
+                                loading={isChecking}
+                                disabled={!csvText.trim()}
+                            >
+                                Check rows
+                            </Button>
+                        </ButtonRow>
+                    </CardContent>
+                </Card>
+            )}
+
+            {rows.length > 0 && !submitted && (
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Review</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                        <SummaryGrid className="text-2">
+                            <dt>Payments</dt>
+                            <dd>
+                                {rows.length}
+                                {invalidCount > 0 &&
+                                    ` (${invalidCount} to fix before sending)`}
+                            </dd>
+                            <dt>Total</dt>
+                            <dd>{formatBalance(total)}</dd>
+                            <dt>Estimated fee</dt>
+                            <dd>
+                                {estimate ? formatBalance(estimate.fee) : "—"}
+                            </dd>
+                            <dt>Total with fee</dt>
+                            <dd>{formatBalance(required)}</dd>
+                            <dt>Available</dt>
+                            <dd>{formatBalance(selectedAccount.balance)}</dd>
+                        </SummaryGrid>
+
+                        {!isAffordable && (
+                            <Message $isError>
+                                Insufficient balance for this batch.
+                            </Message>
+                        )}
+
+                        <BatchRowTable rows={rows} />
+
+                        <ButtonRow>
+                            <Button
+                                variant="primary"
+                                onClick={handleConfirm}
+                                loading={isSubmitting}
+                                disabled={!canSend}
+                            >
+                                Sign and send
+                            </Button>
+                            <Button
+                                variant="secondary"
+                                onClick={() => downloadBatchCsv(rows)}
+                            >
+                                Export CSV
+                            </Button>
+                        </ButtonRow>
+                    </CardContent>
+                </Card>
+            )}
+
+            {submitted && (
+                <Card>
+                    <CardHeader>
+                        <HeaderRow>
+                            <CardTitle>Batch Results</CardTitle>
+                            <Button
+                                variant="secondary"
+                                size="small"
+                                onClick={handleNewBatch}
+                            >
+                                New batch
+                            </Button>
+                        </HeaderRow>
+                    </CardHeader>
+                    <CardContent>
+                        <Message className="text-2">
+                            Batch deploy{" "}
+                            <ExplorerLink
+                                kind="deploy"
+                                value={submitted.deployId}
+                            />{" "}
+                            is {lifecycle?.state ?? "submitted"}
+                            {lifecycle?.error && `: ${lifecycle.error}`}
+                            {outcomes &&
+                                `. ${outcomes.length - failedCount} of ${submitted.rows.length} payments sent`}
+                            .
+                        </Message>
+
+                        <BatchRowTable
+                            rows={submitted.rows}
+                            outcomes={outcomes}
+                        />
+
+                        <ButtonRow>
+                            <Button
+                                variant="secondary"
+                                onClick={() =>
+                                    downloadBatchCsv(submitted.rows, outcomes)
+                                }
+                            >
+                                Export results
+                            </Button>
+                        </ButtonRow>
+                    </CardContent>
+                </Card>
+            )}
+
+            {showPasswordModal && (
+                <PasswordModal
+                    isOpen={showPasswordModal}
+                    title="Enter Password to Sign Batch Payment"
+                    error={passwordError}
+                    onConfirm={handlePasswordConfirm}
+                    onClose={() => setShowPasswordModal(false)}
+                />
+            )}
+        </BatchSendContainer>
+    );
+};
@@ -0,0 +1 @@
+export { BatchSend } from "./BatchSend";
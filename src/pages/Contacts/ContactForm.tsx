@@ -0,0 +1,144 @@
+import React, { useState } from "react";
+import styled from "styled-components";
+import { Button, Input, TextArea } from "components";
+import { ContactInput, ContactsService } from "services/contacts";
+import { Contact } from "types/wallet";
+
+const FormRow = styled.div`
+    display: grid;
+    grid-template-columns: 1fr 1fr;
+    gap: 16px;
+
+    @media (max-width: 768px) {
+        display: block;
+    }
+`;
+
+const ButtonRow = styled.div`
+    display: flex;
+    gap: 12px;
+    margin-top: 16px;
+`;
+
+const Message = styled.div`
+    color: ${({ theme }) => theme.error};
+    margin-bottom: 16px;
+    word-break: break-word;
+`;
+
+interface ContactFormProps {
+    // Contact being edited; a new contact is created when omitted
+    contact?: Contact;
+    onSaved: (contact: Contact) => void;
+    onCancel: () => void;
+}
+
+export const ContactForm: React.FC<ContactFormProps> = ({
+    contact,
+    onSaved,
+    onCancel,
+}) => {
+    const [name, setName] = useState(contact?.name ?? "");
+    const [revAddress, setRevAddress] = useState(contact?.revAddress ?? "");
+    const [ethAddress, setEthAddress] = useState(contact?.ethAddress ?? "");
+    const [tags, setTags] = useState(contact?.tags.join(", ") ?? "");
+    const [notes, setNotes] = useState(contact?.notes ?? "");
+    const [error, setError] = useState("");
+    const [isSaving, setIsSaving] = useState(false);
+
+    const handleFieldChange =
+        (setter: (value: string) => void) =>
+        (event: React.ChangeEvent<HTMLInputElement>) => {
+            setter(event.target.value);
+            setError("");
+        };
+
+    const handleNotesChange = (
+        event: React.ChangeEvent<HTMLTextAreaElement>,
+    ) => {
+        setNotes(event.target.value);
+    };
+
+    const handleSave = async () => {
+        const input: ContactInput = {
+            name,
+            revAddress,
+            ethAddress,
+            notes,
+            tags: tags.split(","),
+        };
+        setIsSaving(true);
+        try {
+            onSaved(await ContactsService.save(input, contact?.id));
+        } catch (err: any) {
+            setError(err.message || "Failed to save the contact");
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div>
+            <FormRow>
+                <Input
+                    id="contact-name-input"
+                    className="text-2"
+                    label="Name"
+                    value={name}
+                    onChange={handleFieldChange(setName)}
+                    placeholder="Alice"
+                />
+                <Input
+                    id="contact-tags-input"
+                    className="text-2"
+                    label="Tags"
+                    value={tags}
+                    onChange={handleFieldChange(setTags)}
+                    placeholder="payroll, exchange"
+                />
+            </FormRow>
+            <Input
+                id="contact-address-input"
+                className="text-2"
+                label="ASI address"
+                value={revAddress}
+                onChange={handleFieldChange(setRevAddress)}
+                placeholder="1111..."
+                fullWidth
+            />
+            <Input
+                id="contact-eth-address-input"
+                className="text-2"
+                label="Ethereum address (optional)"
+                value={ethAddress}
+                onChange={handleFieldChange(setEthAddress)}
+                placeholder="0x..."
+                fullWidth
+            />
+            <TextArea
+                id="contact-notes-input"
+                label="Notes"
+                value={notes}
+                onChange={handleNotesChange}
+                rows={3}
+                fullWidth
+            />
+
+            {error && <Message>{error}</Message>}
+
+            <ButtonRow>
+                <Button
+                    id="contact-save-button"
+                    onClick={handleSave}
+                    loading={isSaving}
+                    disabled={!name.trim() || !revAddress.trim()}
+                >
+                    {contact ? "Save changes" : "Add contact"}
+                </Button>
+                <Button variant="secondary" onClick={onCancel}>
+                    Cancel
+                </Button>
+            </ButtonRow>
+        </div>
+    );
+};
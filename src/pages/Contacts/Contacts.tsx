@@ -0,0 +1,237 @@
+import React, { useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import styled from "styled-components";
+import { Card, CardHeader, CardTitle, CardContent, Button } from "components";
+import CopyButton from "components/CopyButton";
+import { Search } from "components/Search";
+import { useContacts } from "hooks/";
+import { ContactsService } from "services/contacts";
+import { Contact } from "types/wallet";
+import { ContactForm } from "./ContactForm";
+
+const ContactsContainer = styled.div`
+    display: flex;
+    flex-direction: column;
+    gap: 24px;
+`;
+
+const HeaderRow = styled.div`
+    display: flex;
+    justify-content: space-between;
+    align-items: center;
+    gap: 12px;
+    width: 100%;
+`;
+
+const ContactList = styled.ul`
+    list-style: none;
+    margin: 16px 0 0;
+    padding: 0;
+`;
+
+const ContactItem = styled.li`
+    display: flex;
+    justify-content: space-between;
+    align-items: flex-start;
+    gap: 12px;
+    padding: 12px 0;
+    border-bottom: 1px solid ${({ theme }) => theme.border};
+`;
+
+const ContactDetails = styled.div`
+    min-width: 0;
+`;
+
+const Address = styled.div`
+    display: flex;
+    align-items: center;
+    gap: 8px;
+    font-family: monospace;
+    font-size: 12px;
+    word-break: break-all;
+`;
+
+const Tags = styled.div`
+    display: flex;
+    flex-wrap: wrap;
+    gap: 6px;
+    margin-top: 6px;
+`;
+
+const Tag = styled.span`
+    padding: 2px 8px;
+    border-radius: 10px;
+    border: 1px solid ${({ theme }) => theme.border};
+    font-size: 12px;
+`;
+
+const Notes = styled.div`
+    margin-top: 6px;
+    color: ${({ theme }) => theme.text.secondary};
+    white-space: pre-wrap;
+`;
+
+const ItemActions = styled.div`
+    display: flex;
+    gap: 8px;
+    flex-shrink: 0;
+`;
+
+const Message = styled.div`
+    color: ${({ theme }) => theme.text.secondary};
+    margin-top: 16px;
+`;
+
+const matchesQuery = (contact: Contact, query: string): boolean => {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return true;
+    return (
+        contact.name.toLowerCase().includes(needle) ||
+        contact.revAddress.toLowerCase().includes(needle) ||
+        !!contact.ethAddress?.toLowerCase().includes(needle) ||
+        contact.tags.some((tag) => tag.includes(needle))
+    );
+};
+
+export const Contacts: React.FC = () => {
+    const navigate = useNavigate();
+    const { contacts } = useContacts();
+
+    const [query, setQuery] = useState("");
+    // null: no form; "new": adding; otherwise the contact being edited
+    const [editing, setEditing] = useState<Contact | "new" | null>(null);
+
+    const visibleContacts = useMemo(
+        () => contacts.filter((contact) => matchesQuery(contact, query)),
+        [contacts, query],
+    );
+
+    const handleRemove = async (contact: Contact) => {
+        if (!window.confirm(`Remove ${contact.name} from your contacts?`)) {
+            return;
+        }
+        try {
+            await ContactsService.remove(contact.id);
+        } catch (error) {
+            console.error("[Contacts] Failed to remove contact:", error);
+        }
+    };
+
+    return (
+        <ContactsContainer>
+            {editing && (
+                <Card>
+                    <CardHeader>
+                        <CardTitle>
+                            {editing === "new"
+                                ? "New Contact"
+                                : `Edit ${editing.name}`}
+                        </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                        <ContactForm
+                            key={editing === "new" ? "new" : editing.id}
+                            contact={editing === "new" ? undefined : editing}
+                            onSaved={() => setEditing(null)}
+                            onCancel={() => setEditing(null)}
+                        />
+                    </CardContent>
+                </Card>
+            )}
+
+            <Card>
+                <CardHeader>
+                    <HeaderRow>
+                        <CardTitle>Contacts</CardTitle>
+                        <Button
+                            id="contact-new-button"
+                            size="small"
+                            onClick={() => setEditing("new")}
+                        >
+                            Add contact
+                        </Button>
+                    </HeaderRow>
+                </CardHeader>
+                <CardContent>
+                    <Search
+                        value={query}
+                        onChange={setQuery}
+                        placeholder="Search by name, address or tag"
+                    />
+
+                    {contacts.length === 0 && (
+                        <Message className="text-2">
+                            No contacts yet. Saved contacts are suggested as
+                            recipients on the Send page and shown by name in
+                            your transaction history.
+                        </Message>
+                    )}
+                    {contacts.length > 0 && visibleContacts.length === 0 && (
+                        <Message className="text-2">
+                            No contacts match "{query}".
+                        </Message>
+                    )}
+
+                    <ContactList>
+                        {visibleContacts.map((contact) => (
+                            <ContactItem key={contact.id}>
+                                <ContactDetails className="text-2">
+                                    <div>{contact.name}</div>
+                                    <Address>
+                                        {contact.revAddress}
+                                        <CopyButton
+                                            dataToCopy={contact.revAddress}
+                                            size={14}
+                                        />
+                                    </Address>
+                                    {contact.ethAddress && (
+                                        <Address>{contact.ethAddress}</Address>
+                                    )}
+                                    {contact.tags.length > 0 && (
+                                        <Tags>
+                                            {contact.tags.map((tag) => (
+                                                <Tag key={tag}>{tag}</Tag>
+                                            ))}
+                                        </Tags>
+                                    )}
+                                    {contact.notes && (
+                                        <Notes>{contact.notes}</Notes>
+                                    )}
+                                </ContactDetails>
+                                <ItemActions>
+                                    <Button
+                                        size="small"
+                                        onClick={() =>
+                                            navigate("/send", {
+                                                state: {
+                                                    recipient:
+                                                        contact.revAddress,
+                                                },
+                                            })
+                                        }
+                                    >
+                                        Send
+                                    </Button>
+                                    <Button
+                                        variant="secondary"
+                                        size="small"
+                                        onClick={() => setEditing(contact)}
+                                    >
+                                        Edit
+                                    </Button>
+                                    <Button
+                                        variant="secondary"
+                                        size="small"
+                                        onClick={() => handleRemove(contact)}
+                                    >
+                                        Remove
+                                    </Button>
+                                </ItemActions>
+                            </ContactItem>
+                        ))}
+                    </ContactList>
+                </CardContent>
+            </Card>
+        </ContactsContainer>
+    );
+};
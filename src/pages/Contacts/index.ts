@@ -0,0 +1 @@
+export { Contacts } from "./Contacts";
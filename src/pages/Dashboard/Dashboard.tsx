@@ -1,4 +1,4 @@
-import React, { useEffect, useMemo } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import { useSelector, useDispatch } from "react-redux";
 import styled from "styled-components";
 import { RootState } from "store";
@@ -9,9 +9,13 @@ import TransactionHistoryService from "../../services/transactionHistory";
 import { AccountCard } from "components/AccountCard";
 import { buildUrlWithParams } from "utils/navigationUtils";
 import { HistoryIcon, VectorIcon } from "components/Icons";
-import { useScreen } from "hooks/";
+import { useBalanceHistory, useScreen, useTokenBalances } from "hooks/";
+import { BalanceChart } from "components/BalanceChart";
+import { FiatValue } from "components/FiatValue";
+import { BalanceHistoryRange } from "services/balanceHistory";
 
 import { AccountSelector } from "components/AccountSelector";
+import { Amount } from "utils/amount";
 
 const DashboardContainer = styled.div`
     display: block;
@@ -50,6 +54,47 @@ const ActionsToolbar = styled.div`
     gap: 16px;
 `;
 
+const PortfolioCard = styled(Card)`
+    margin-top: 24px;
+`;
+
+const PortfolioHeader = styled.div`
+    display: flex;
+    align-items: center;
+    justify-content: space-between;
+    flex-wrap: wrap;
+    gap: 16px;
+    margin-bottom: 16px;
+`;
+
+const RangeButtons = styled.div`
+    display: flex;
+    gap: 8px;
+`;
+
+const PortfolioTotal = styled.div`
+    margin-top: 4px;
+    font-weight: 600;
+`;
+
+const PortfolioFiat = styled(FiatValue)`
+    margin-left: 8px;
+    font-weight: 400;
+    color: ${({ theme }) => theme.text.secondary};
+`;
+
+const PortfolioChange = styled.span<{ $isNegative: boolean }>`
+    color: ${({ theme, $isNegative }) =>
+        $isNegative ? theme.error : theme.success};
+`;
+
+const historyRanges: { value: BalanceHistoryRange; label: string }[] = [
+    { value: "24h", label: "24h" },
+    { value: "7d", label: "7d" },
+    { value: "30d", label: "30d" },
+    { value: "all", label: "All" },
+];
+
 const CustomAccountCard = styled(AccountCard)`
     @media (max-width: 1023px) {
         margin-bottom: 25px;
@@ -65,6 +110,31 @@ export const Dashboard: React.FC = () => {
     const { unlockedAccounts } = useSelector((state: RootState) => state.auth);
 
     const { isLaptop } = useScreen();
+    const [historyRange, setHistoryRange] = useState<BalanceHistoryRange>("7d");
+    const portfolioAddresses = useMemo(
+        () => accounts.map((account) => account.revAddress),
+        [accounts],
+    );
+    const portfolio = useBalanceHistory(
+        selectedNetwork?.id,
+        portfolioAddresses,
+        historyRange,
+    );
+    const portfolioTotal = useMemo(
+        () =>
+            accounts.reduce(
+                (total, account) => total.add(account.balance),
+                Amount.zero,
+            ),
+        [accounts],
+    );
+    const portfolioChange =
+        portfolio.length > 1
+            ? portfolio[portfolio.length - 1].balance - portfolio[0].balance
+            : 0;
+    const { balancesFor } = useTokenBalances(
+        selectedAccount ? [selectedAccount.revAddress] : [],
+    );
 
     const isAccountUnlocked = useMemo(() => {
         if (!selectedAccount) return false;
@@ -114,7 +184,7 @@ export const Dashboard: React.FC = () => {
                     if (result.payload) {
                         const newBalance = result.payload.balance;
 
-                        if (parseFloat(newBalance) > parseFloat(oldBalance)) {
+                        if (Amount.from(newBalance).gt(oldBalance)) {
                             try {
                                 TransactionHistoryService.detectReceivedTransaction(
                                     selectedAccount.revAddress,
@@ -157,7 +227,7 @@ export const Dashboard: React.FC = () => {
                             const newBalance = result.payload.balance;
 
                             if (
-                                parseFloat(newBalance) > parseFloat(oldBalance)
+                                Amount.from(newBalance).gt(oldBalance)
                             ) {
                                 try {
                                     TransactionHistoryService.detectReceivedTransaction(
@@ -226,7 +296,11 @@ export const Dashboard: React.FC = () => {
     return (
         <div>
             <DashboardContainer>
-                <CustomAccountCard account={selectedAccount} fullMode={false} />
+                <CustomAccountCard
+                    account={selectedAccount}
+                    fullMode={false}
+                    tokenBalances={balancesFor(selectedAccount.revAddress)}
+                />
                 <Card>
                     <CardContent>
                         <ContentHeader>
@@ -286,6 +360,55 @@ export const Dashboard: React.FC = () => {
                     </CardContent>
                 </Card>
             </DashboardContainer>
+            <PortfolioCard>
+                <CardContent>
+                    <PortfolioHeader>
+                        <div>
+                            <CardTitle>Portfolio</CardTitle>
+                            <PortfolioTotal>
+                                {portfolioTotal.format({
+                                    maxDecimals: 4,
+                                    showCurrency: true,
+                                })}
+                                <PortfolioFiat amount={portfolioTotal} />
+                            </PortfolioTotal>
+                            {portfolio.length > 1 && (
+                                <PortfolioChange
+                                    className="text-2"
+                                    $isNegative={portfolioChange < 0}
+                                >
+                                    {portfolioChange < 0 ? "" : "+"}
+                                    {Amount.from(
+                                        portfolioChange.toFixed(4),
+                                    ).format({
+                                        maxDecimals: 4,
+                                        showCurrency: true,
+                                    })}{" "}
+                                    over this period
+                                </PortfolioChange>
+                            )}
+                        </div>
+                        <RangeButtons>
+                            {historyRanges.map(({ value, label }) => (
+                                <Button
+                                    key={value}
+                                    id={`portfolio-range-${value}-button`}
+                                    size="small"
+                                    variant={
+                                        historyRange === value
+                                            ? "primary"
+                                            : "secondary"
+                                    }
+                                    onClick={() => setHistoryRange(value)}
+                                >
+                                    {label}
+                                </Button>
+                            ))}
+                        </RangeButtons>
+                    </PortfolioHeader>
+                    <BalanceChart points={portfolio} />
+                </CardContent>
+            </PortfolioCard>
         </div>
     );
 };
@@ -15,6 +15,9 @@ import { Select } from "components/Select";
 import { ISelectOption } from "components/Select/Select";
 import { DeployLiteModeWidget } from "components/DeployLiteModeWidget";
 import { DeployProModeWidget } from "components/DeployProModeWidget";
+import { ProposeBlockButton } from "components/ProposeBlockButton";
+import { WatchOnlyNotice } from "components/WatchOnlyNotice";
+import { isWatchOnlyAccount } from "utils/watchOnly";
 import { DefaultTheme } from "styled-components/dist/types";
 import { useScreen } from "hooks/";
 
@@ -126,6 +129,12 @@ export const Deploy: React.FC = () => {
                         <CardTitle>Deploy Rholang Contract</CardTitle>
                     </CardHeader>
                     <CardContent>
+                        {isWatchOnlyAccount(selectedAccount) && (
+                            <WatchOnlyNotice
+                                accountName={selectedAccount.name}
+                                action="deploy contracts"
+                            />
+                        )}
                         <DeployHeader>
                             <FormRow>
                                 <FormGroup>
@@ -189,6 +198,7 @@ export const Deploy: React.FC = () => {
                                 />
                             </FormRow>
                             <ModeWidget.Actions />
+                            <ProposeBlockButton />
                         </DeployHeader>
                         <ModeWidget.Board />
                     </CardContent>
@@ -0,0 +1,83 @@
+import React from "react";
+import styled from "styled-components";
+import { ExplorerTransfer } from "services/explorer";
+import { ExplorerLink } from "components/ExplorerLink";
+import { formatBalance } from "utils/balanceUtils";
+
+const TransferRow = styled.div`
+    display: grid;
+    grid-template-columns: 1fr auto;
+    gap: 4px 16px;
+    padding: 12px 0;
+    border-bottom: 1px solid ${({ theme }) => theme.border};
+`;
+
+const Direction = styled.span<{ $incoming: boolean }>`
+    color: ${({ theme, $incoming }) =>
+        $incoming ? theme.success : theme.text.primary};
+`;
+
+const Counterparty = styled.div`
+    color: ${({ theme }) => theme.text.secondary};
+    word-break: break-all;
+`;
+
+interface AddressTransfersViewProps {
+    address: string;
+    transfers: ExplorerTransfer[];
+}
+
+export const AddressTransfersView: React.FC<AddressTransfersViewProps> = ({
+    address,
+    transfers,
+}) => {
+    if (transfers.length === 0) {
+        return (
+            <p className="text-2">
+                The indexer has no transfers for this address.
+            </p>
+        );
+    }
+
+    return (
+        <div>
+            {transfers.map((transfer) => {
+                const incoming = transfer.to === address;
+                return (
+                    <TransferRow
+                        key={`${transfer.deployId}-${transfer.from}-${transfer.to}`}
+                        className="text-3"
+                    >
+                        <div>
+                            <Direction $incoming={incoming}>
+                                {incoming ? "Received" : "Sent"}{" "}
+                                {formatBalance(transfer.amount)}
+                            </Direction>
+                            <Counterparty>
+                                {incoming
+                                    ? `from ${transfer.from}`
+                                    : `to ${transfer.to}`}
+                            </Counterparty>
+                        </div>
+                        <div style={{ textAlign: "right" }}>
+                            {transfer.blockNumber !== undefined && (
+                                <div>
+                                    <ExplorerLink
+                                        kind="block"
+                                        value={String(transfer.blockNumber)}
+                                    >
+                                        #{transfer.blockNumber}
+                                    </ExplorerLink>
+                                </div>
+                            )}
+                            <ExplorerLink
+                                kind="deploy"
+                                value={transfer.deployId}
+                            />
+                        </div>
+                    </TransferRow>
+                );
+            })}
+        </div>
+    );
+};
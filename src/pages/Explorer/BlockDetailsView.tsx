@@ -0,0 +1,106 @@
+import React from "react";
+import styled from "styled-components";
+import { ExplorerBlockDetails } from "services/explorer";
+import { ExplorerLink } from "components/ExplorerLink";
+
+const DetailGrid = styled.dl`
+    display: grid;
+    grid-template-columns: max-content 1fr;
+    gap: 8px 16px;
+    margin: 0 0 24px;
+
+    dt {
+        color: ${({ theme }) => theme.text.secondary};
+    }
+
+    dd {
+        margin: 0;
+        word-break: break-all;
+    }
+`;
+
+const SectionTitle = styled.h3`
+    margin: 0 0 12px;
+    color: ${({ theme }) => theme.text.primary};
+`;
+
+const DeployRow = styled.div`
+    display: flex;
+    justify-content: space-between;
+    gap: 12px;
+    padding: 8px 0;
+    border-bottom: 1px solid ${({ theme }) => theme.border};
+`;
+
+const DeployState = styled.span<{ $errored: boolean }>`
+    color: ${({ theme, $errored }) => ($errored ? theme.error : theme.success)};
+    white-space: nowrap;
+`;
+
+interface BlockDetailsViewProps {
+    details: ExplorerBlockDetails;
+}
+
+export const BlockDetailsView: React.FC<BlockDetailsViewProps> = ({
+    details,
+}) => {
+    const { block, deploys, finalized } = details;
+
+    return (
+        <div>
+            <DetailGrid className="text-2">
+                <dt>Block number</dt>
+                <dd>{block.blockNumber}</dd>
+                <dt>Block hash</dt>
+                <dd>{block.blockHash}</dd>
+                <dt>Status</dt>
+                <dd>{finalized ? "Finalized" : "Not finalized yet"}</dd>
+                <dt>Proposer</dt>
+                <dd>{block.proposer || "-"}</dd>
+                <dt>Time</dt>
+                <dd>
+                    {block.timestamp
+                        ? new Date(block.timestamp).toLocaleString()
+                        : "-"}
+                </dd>
+                {block.shardId && (
+                    <>
+                        <dt>Shard</dt>
+                        <dd>{block.shardId}</dd>
+                    </>
+                )}
+                <dt>Parents</dt>
+                <dd>
+                    {block.parents.length === 0
+                        ? "-"
+                        : block.parents.map((parent) => (
+                              <div key={parent}>
+                                  <ExplorerLink
+                                      kind="block"
+                                      value={parent}
+                                      full
+                                  />
+                              </div>
+                          ))}
+                </dd>
+            </DetailGrid>
+
+            <SectionTitle>Deploys ({deploys.length})</SectionTitle>
+            {deploys.length === 0 && (
+                <p className="text-2">This block contains no user deploys.</p>
+            )}
+            {deploys.map((deploy) => (
+                <DeployRow key={deploy.deployId} className="text-3">
+                    <ExplorerLink kind="deploy" value={deploy.deployId} />
+                    <span>
+                        {deploy.phloCost !== undefined &&
+                            `${deploy.phloCost.toLocaleString()} phlo · `}
+                        <DeployState $errored={deploy.errored}>
+                            {deploy.errored ? "Failed" : "OK"}
+                        </DeployState>
+                    </span>
+                </DeployRow>
+            ))}
+        </div>
+    );
+};
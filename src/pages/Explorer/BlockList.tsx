@@ -0,0 +1,78 @@
+import React from "react";
+import styled from "styled-components";
+import { ExplorerBlock } from "services/explorer";
+import { ExplorerLink } from "components/ExplorerLink";
+
+const Table = styled.table`
+    width: 100%;
+    border-collapse: collapse;
+
+    th,
+    td {
+        text-align: left;
+        padding: 8px 12px;
+        border-bottom: 1px solid ${({ theme }) => theme.border};
+    }
+
+    th {
+        color: ${({ theme }) => theme.text.secondary};
+        font-weight: 500;
+    }
+
+    @media (max-width: 768px) {
+        .hide-mobile {
+            display: none;
+        }
+    }
+`;
+
+interface BlockListProps {
+    blocks: ExplorerBlock[];
+}
+
+export const BlockList: React.FC<BlockListProps> = ({ blocks }) => {
+    if (blocks.length === 0) {
+        return <p className="text-2">The node returned no blocks.</p>;
+    }
+
+    return (
+        <Table className="text-3">
+            <thead>
+                <tr>
+                    <th>Block</th>
+                    <th>Hash</th>
+                    <th className="hide-mobile">Proposer</th>
+                    <th>Deploys</th>
+                    <th className="hide-mobile">Time</th>
+                </tr>
+            </thead>
+            <tbody>
+                {blocks.map((block) => (
+                    <tr key={block.blockHash}>
+                        <td>
+                            <ExplorerLink
+                                kind="block"
+                                value={String(block.blockNumber)}
+                            />
+                        </td>
+                        <td>
+                            <ExplorerLink
+                                kind="block"
+                                value={block.blockHash}
+                            />
+                        </td>
+                        <td className="hide-mobile">
+                            {block.proposer.substring(0, 16)}…
+                        </td>
+                        <td>{block.deployCount}</td>
+                        <td className="hide-mobile">
+                            {block.timestamp
+                                ? new Date(block.timestamp).toLocaleString()
+                                : "-"}
+                        </td>
+                    </tr>
+                ))}
+            </tbody>
+        </Table>
+    );
+};
@@ -0,0 +1,121 @@
+import React from "react";
+import styled from "styled-components";
+import { ExplorerDeployDetails } from "services/explorer";
+import { ExplorerLink } from "components/ExplorerLink";
+import { getTokenDisplayName } from "../../constants/token";
+
+const DetailGrid = styled.dl`
+    display: grid;
+    grid-template-columns: max-content 1fr;
+    gap: 8px 16px;
+    margin: 0 0 24px;
+
+    dt {
+        color: ${({ theme }) => theme.text.secondary};
+    }
+
+    dd {
+        margin: 0;
+        word-break: break-all;
+    }
+`;
+
+const ErrorText = styled.dd`
+    color: ${({ theme }) => theme.error};
+`;
+
+const Term = styled.pre`
+    max-height: 360px;
+    overflow: auto;
+    padding: 12px;
+    border-radius: 8px;
+    border: 1px solid ${({ theme }) => theme.border};
+    font-size: 12px;
+    white-space: pre-wrap;
+`;
+
+interface DeployDetailsViewProps {
+    details: ExplorerDeployDetails;
+}
+
+export const DeployDetailsView: React.FC<DeployDetailsViewProps> = ({
+    details,
+}) => {
+    const { deploy, block, finalized } = details;
+    const blockHash = block?.blockHash ?? deploy.blockHash;
+    const blockNumber = block?.blockNumber ?? deploy.blockNumber;
+
+    let status = deploy.errored ? "Failed" : "Included";
+    if (!deploy.errored && finalized) {
+        status = "Finalized";
+    }
+
+    return (
+        <div>
+            <DetailGrid className="text-2">
+                <dt>Deploy ID</dt>
+                <dd>{deploy.deployId}</dd>
+                <dt>Status</dt>
+                <dd>{status}</dd>
+                {deploy.error && (
+                    <>
+                        <dt>Error</dt>
+                        <ErrorText>{deploy.error}</ErrorText>
+                    </>
+                )}
+                <dt>Deployer</dt>
+                <dd>{deploy.deployer || "-"}</dd>
+                <dt>Block</dt>
+                <dd>
+                    {blockHash ? (
+                        <ExplorerLink kind="block" value={blockHash}>
+                            {blockNumber !== undefined
+                                ? `#${blockNumber} `
+                                : ""}
+                            {blockHash.substring(0, 16)}…
+                        </ExplorerLink>
+                    ) : (
+                        "-"
+                    )}
+                </dd>
+                {deploy.timestamp !== undefined && (
+                    <>
+                        <dt>Signed at</dt>
+                        <dd>{new Date(deploy.timestamp).toLocaleString()}</dd>
+                    </>
+                )}
+                <dt>Phlo cost</dt>
+                <dd>
+                    {deploy.phloCost !== undefined
+                        ? deploy.phloCost.toLocaleString()
+                        : "-"}
+                    {deploy.phloLimit !== undefined &&
+                        ` of ${deploy.phloLimit.toLocaleString()} limit`}
+                    {deploy.phloPrice !== undefined &&
+                        ` at ${deploy.phloPrice} per phlo`}
+                </dd>
+                {deploy.fee && (
+                    <>
+                        <dt>Fee</dt>
+                        <dd>
+                            {deploy.fee} {getTokenDisplayName()}
+                        </dd>
+                    </>
+                )}
+                {deploy.validAfterBlockNumber !== undefined && (
+                    <>
+                        <dt>Valid after block</dt>
+                        <dd>{deploy.validAfterBlockNumber}</dd>
+                    </>
+                )}
+            </DetailGrid>
+
+            {deploy.term && (
+                <>
+                    <h3>Rholang term</h3>
+                    <Term>{deploy.term}</Term>
+                </>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,247 @@
+import React, { useEffect, useMemo, useState } from "react";
+import styled from "styled-components";
+import { useSelector } from "react-redux";
+import { useNavigate, useParams } from "react-router-dom";
+import { RootState } from "store";
+import {
+    Card,
+    CardHeader,
+    CardTitle,
+    CardContent,
+    Button,
+    Input,
+} from "components";
+import { explorerPath } from "components/ExplorerLink";
+import { RChainService } from "services/rchain";
+import {
+    classifyExplorerQuery,
+    ExplorerBlock,
+    ExplorerBlockDetails,
+    ExplorerDeployDetails,
+    ExplorerNotFoundError,
+    ExplorerQueryKind,
+    ExplorerTransfer,
+    loadAddressTransfers,
+    loadBlock,
+    loadDeploy,
+    loadRecentBlocks,
+} from "services/explorer";
+import { BlockList } from "./BlockList";
+import { BlockDetailsView } from "./BlockDetailsView";
+import { DeployDetailsView } from "./DeployDetailsView";
+import { AddressTransfersView } from "./AddressTransfersView";
+
+const ExplorerContainer = styled.div``;
+
+const SearchForm = styled.form`
+    display: flex;
+    gap: 12px;
+    align-items: flex-start;
+    margin-bottom: 24px;
+
+    @media (max-width: 768px) {
+        flex-direction: column;
+        align-items: stretch;
+    }
+`;
+
+const SearchButton = styled(Button)`
+    height: 44px;
+`;
+
+const Message = styled.div<{ $isError?: boolean }>`
+    color: ${({ theme, $isError }) =>
+        $isError ? theme.error : theme.text.secondary};
+    margin-bottom: 16px;
+    word-break: break-word;
+`;
+
+const HeaderRow = styled.div`
+    display: flex;
+    justify-content: space-between;
+    align-items: center;
+    gap: 12px;
+    width: 100%;
+`;
+
+const RECENT_BLOCKS = 20;
+
+type ExplorerResult =
+    | { kind: "recent"; blocks: ExplorerBlock[] }
+    | { kind: "block"; details: ExplorerBlockDetails }
+    | { kind: "deploy"; details: ExplorerDeployDetails }
+    | { kind: "address"; address: string; transfers: ExplorerTransfer[] };
+
+const isExplorerKind = (kind?: string): kind is ExplorerQueryKind =>
+    kind === "block" || kind === "deploy" || kind === "address";
+
+const titles: Record<ExplorerResult["kind"], string> = {
+    recent: "Recent Blocks",
+    block: "Block",
+    deploy: "Deploy",
+    address: "Address Transfers",
+};
+
+export const Explorer: React.FC = () => {
+    const navigate = useNavigate();
+    const { kind, id } = useParams<{ kind?: string; id?: string }>();
+    const { selectedNetwork } = useSelector((state: RootState) => state.wallet);
+
+    const [search, setSearch] = useState(id ?? "");
+    const [searchError, setSearchError] = useState("");
+    const [result, setResult] = useState<ExplorerResult | null>(null);
+    const [error, setError] = useState("");
+    const [isLoading, setIsLoading] = useState(false);
+    const [refreshKey, setRefreshKey] = useState(0);
+
+    const rchain = useMemo(
+        () =>
+            new RChainService(
+                selectedNetwork.url,
+                selectedNetwork.readOnlyUrl,
+                selectedNetwork.adminUrl,
+                selectedNetwork.shardId,
+                selectedNetwork.graphqlUrl,
+                selectedNetwork,
+            ),
+        [selectedNetwork],
+    );
+
+    useEffect(() => {
+        setSearch(id ?? "");
+    }, [id]);
+
+    useEffect(() => {
+        let cancelled = false;
+
+        const load = async (): Promise<ExplorerResult> => {
+            if (!isExplorerKind(kind) || !id) {
+                return {
+                    kind: "recent",
+                    blocks: await loadRecentBlocks(rchain, RECENT_BLOCKS),
+                };
+            }
+            switch (kind) {
+                case "block":
+                    return { kind, details: await loadBlock(rchain, id) };
+                case "deploy":
+                    return { kind, details: await loadDeploy(rchain, id) };
+                case "address":
+                    return {
+                        kind,
+                        address: id,
+                        transfers: await loadAddressTransfers(rchain, id),
+                    };
+            }
+        };
+
+        setIsLoading(true);
+        setError("");
+        load()
+            .then((loaded) => {
+                if (!cancelled) setResult(loaded);
+            })
+            .catch((err: any) => {
+                if (cancelled) return;
+                setResult(null);
+                setError(
+                    err instanceof ExplorerNotFoundError
+                        ? err.message
+                        : `Could not load data from ${selectedNetwork.name}: ${err.message}`,
+                );
+            })
+            .finally(() => {
+                if (!cancelled) setIsLoading(false);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [kind, id, rchain, selectedNetwork.name, refreshKey]);
+
+    const handleSearch = (event: React.FormEvent) => {
+        event.preventDefault();
+        const query = classifyExplorerQuery(search);
+        if (!query) {
+            setSearchError(
+                "Enter a block hash, block number, deploy ID or ASI address.",
+            );
+            return;
+        }
+        setSearchError("");
+        navigate(explorerPath(query.kind, query.value));
+    };
+
+    const handleSearchChange = (event: React.ChangeEvent<HTMLInputElement>) =>
+        setSearch(event.target.value);
+
+    const currentKind: ExplorerResult["kind"] =
+        isExplorerKind(kind) && id ? kind : "recent";
+
+    return (
+        <ExplorerContainer>
+            <Card>
+                <CardHeader>
+                    <HeaderRow>
+                        <CardTitle>Explorer · {titles[currentKind]}</CardTitle>
+                        {currentKind === "recent" ? (
+                            <Button
+                                variant="secondary"
+                                size="small"
+                                onClick={() => setRefreshKey((key) => key + 1)}
+                                loading={isLoading}
+                            >
+                                Refresh
+                            </Button>
+                        ) : (
+                            <Button
+                                variant="secondary"
+                                size="small"
+                                onClick={() => navigate("/explorer")}
+                            >
+                                Recent blocks
+                            </Button>
+                        )}
+                    </HeaderRow>
+                </CardHeader>
+                <CardContent>
+                    <SearchForm onSubmit={handleSearch}>
+                        <Input
+                            id="explorer-search-input"
+                            className="text-2"
+                            value={search}
+                            onChange={handleSearchChange}
+                            placeholder="Block hash or number, deploy ID, or ASI address"
+                            fullWidth
+                            wrapperStyle={{ marginBottom: 0, flex: 1 }}
+                            style={{ height: "44px" }}
+                        />
+                        <SearchButton type="submit" variant="primary">
+                            Search
+                        </SearchButton>
+                    </SearchForm>
+                    {searchError && <Message $isError>{searchError}</Message>}
+
+                    {isLoading && <Message>Loading…</Message>}
+                    {error && <Message $isError>{error}</Message>}
+
+                    {!error && result?.kind === "recent" && (
+                        <BlockList blocks={result.blocks} />
+                    )}
+                    {!error && result?.kind === "block" && (
+                        <BlockDetailsView details={result.details} />
+                    )}
+                    {!error && result?.kind === "deploy" && (
+                        <DeployDetailsView details={result.details} />
+                    )}
+                    {!error && result?.kind === "address" && (
+                        <AddressTransfersView
+                            address={result.address}
+                            transfers={result.transfers}
+                        />
+                    )}
+                </CardContent>
+            </Card>
+        </ExplorerContainer>
+    );
+};
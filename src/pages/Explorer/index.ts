@@ -0,0 +1 @@
+export { Explorer } from "./Explorer";
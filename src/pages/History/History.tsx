@@ -8,11 +8,17 @@ import TransactionHistoryService, {
     TransactionFilter,
 } from "services/transactionHistory";
 import { RChainService } from "services/rchain";
+import DeployLifecycleService from "services/deployLifecycle";
+import { Amount } from "utils/amount";
+import { DeployLifecycleState } from "types/wallet";
 import { ContentPasteIcon, DownloadIcon } from "components/Icons";
 import { AdaptiveSelect } from "components/Select";
 import { Search } from "components/Search";
 import { AccountSelector } from "components/AccountSelector";
+import { ExplorerLink } from "components/ExplorerLink";
+import { FiatValue } from "components/FiatValue";
 import { getTokenDisplayName } from "constants/token";
+import { useContacts } from "hooks/";
 import { DefaultTheme } from "styled-components/dist/types";
 
 const HistoryContainer = styled.div`
@@ -146,25 +152,38 @@ const TableHeaderCell = styled.th<{ $align?: string; $width?: string }>`
     width: ${({ $width }) => $width || "auto"};
 `;
 
+type StatusBadgeStatus =
+    | "pending"
+    | "confirmed"
+    | "failed"
+    | DeployLifecycleState;
+
+const getStatusColor = (status: StatusBadgeStatus, theme: DefaultTheme) => {
+    switch (status) {
+        case "confirmed":
+        case "finalized":
+            return theme.success;
+        case "included":
+            return theme.info;
+        case "failed":
+        case "errored":
+        case "expired":
+            return theme.danger;
+        default:
+            return theme.warning;
+    }
+};
+
 const StatusBadge = styled.span<{
-    $status: "pending" | "confirmed" | "failed";
+    $status: StatusBadgeStatus;
 }>`
     padding: 4px 8px;
     border-radius: 4px;
     font-size: 12px;
     font-weight: 600;
     background: ${({ $status, theme }) =>
-        $status === "confirmed"
-            ? theme.success + "20"
-            : $status === "failed"
-              ? theme.danger + "20"
-              : theme.warning + "20"};
-    color: ${({ $status, theme }) =>
-        $status === "confirmed"
-            ? theme.success
-            : $status === "failed"
-              ? theme.danger
-              : theme.warning};
+        getStatusColor($status, theme) + "20"};
+    color: ${({ $status, theme }) => getStatusColor($status, theme)};
 `;
 
 const TypeBadge = styled.span<{ $type: "send" | "receive" | "deploy" }>`
@@ -242,13 +261,16 @@ const formatAddress = (address: string): string => {
     )}`;
 };
 
+const AmountFiat = styled(FiatValue)`
+    display: block;
+    font-size: 12px;
+    color: ${({ theme }) => theme.text.secondary};
+`;
+
 const formatAmount = (amount?: string): string => {
     if (!amount) return "-";
     try {
-        const amountNum = parseFloat(amount);
-        if (isNaN(amountNum)) return `${amount} ${getTokenDisplayName()}`;
-
-        return `${amountNum.toFixed(8)} ${getTokenDisplayName()}`;
+        return Amount.from(amount).format({ showCurrency: true });
     } catch (error) {
         return `${amount} ${getTokenDisplayName()}`;
     }
@@ -258,6 +280,17 @@ const formatDate = (date: Date): string => {
     return new Date(date).toLocaleString();
 };
 
+// Timestamped lifecycle steps, e.g. "submitted: 1/2/2025, 10:00:00 AM"
+const formatLifecycleSteps = (tx: Transaction): string | undefined => {
+    if (!tx.lifecycle) {
+        return undefined;
+    }
+    const steps = tx.lifecycle.steps.map(
+        (step) => `${step.state}: ${formatDate(new Date(step.timestamp))}`,
+    );
+    return [...steps, tx.lifecycle.error].filter(Boolean).join("\n");
+};
+
 const typeOptions = [
     { id: "all", value: "all", label: "All Types" },
     { id: "send", value: "send", label: "Send" },
@@ -287,6 +320,11 @@ export const History: React.FC = () => {
     const [filter, setFilter] = useState<TransactionFilter>({});
     const [_stats, setStats] = useState<any>({});
     const [lastRefresh, setLastRefresh] = useState<Date>(new Date());
+    const { findByAddress } = useContacts();
+
+    // Contact name when the address is in the address book
+    const displayAddress = (address: string): string =>
+        findByAddress(address)?.name ?? formatAddress(address);
 
     const handleCopy = useCallback(async (text: string) => {
         try {
@@ -307,6 +345,7 @@ export const History: React.FC = () => {
             selectedNetwork.adminUrl,
             selectedNetwork.shardId,
             selectedNetwork.graphqlUrl,
+            selectedNetwork,
         );
 
         // Optional: lightweight pending status check disabled to avoid heavy polling
@@ -434,6 +473,11 @@ export const History: React.FC = () => {
         selectedNetwork,
     ]);
 
+    useEffect(
+        () => DeployLifecycleService.subscribe(() => loadTransactions()),
+        [loadTransactions],
+    );
+
     useEffect(() => {
         const interval = setInterval(() => {
             loadTransactions();
@@ -643,9 +687,17 @@ export const History: React.FC = () => {
                                                 </TableCell>
                                                 <TableCell>
                                                     <StatusBadge
-                                                        $status={tx.status}
+                                                        $status={
+                                                            tx.lifecycle
+                                                                ?.state ||
+                                                            tx.status
+                                                        }
+                                                        title={formatLifecycleSteps(
+                                                            tx,
+                                                        )}
                                                     >
-                                                        {tx.status}
+                                                        {tx.lifecycle?.state ||
+                                                            tx.status}
                                                     </StatusBadge>
                                                 </TableCell>
                                                 <TableCell>
@@ -661,11 +713,12 @@ export const History: React.FC = () => {
                                                     ) : (
                                                         <AddressLink
                                                             href="#"
+                                                            title={tx.from}
                                                             onClick={(e) =>
                                                                 e.preventDefault()
                                                             }
                                                         >
-                                                            {formatAddress(
+                                                            {displayAddress(
                                                                 tx.from,
                                                             )}
                                                         </AddressLink>
@@ -675,11 +728,12 @@ export const History: React.FC = () => {
                                                     {tx.to ? (
                                                         <AddressLink
                                                             href="#"
+                                                            title={tx.to}
                                                             onClick={(e) =>
                                                                 e.preventDefault()
                                                             }
                                                         >
-                                                            {formatAddress(
+                                                            {displayAddress(
                                                                 tx.to,
                                                             )}
                                                         </AddressLink>
@@ -689,6 +743,11 @@ export const History: React.FC = () => {
                                                 </TableCell>
                                                 <TableCell>
                                                     {formatAmount(tx.amount)}
+                                                    {tx.amount && (
+                                                        <AmountFiat
+                                                            amount={tx.amount}
+                                                        />
+                                                    )}
                                                 </TableCell>
                                                 <TableCell>
                                                     {tx.note && (
@@ -703,6 +762,22 @@ export const History: React.FC = () => {
                                                             {tx.note}
                                                         </div>
                                                     )}
+                                                    {tx.lifecycle?.error && (
+                                                        <div
+                                                            className="text-danger"
+                                                            style={{
+                                                                fontSize:
+                                                                    "12px",
+                                                                marginBottom:
+                                                                    "4px",
+                                                            }}
+                                                        >
+                                                            {
+                                                                tx.lifecycle
+                                                                    .error
+                                                            }
+                                                        </div>
+                                                    )}
                                                     {tx.deployId && (
                                                         <div
                                                             style={{
@@ -716,11 +791,12 @@ export const History: React.FC = () => {
                                                                     "center",
                                                             }}
                                                         >
-                                                            {tx.deployId.substring(
-                                                                0,
-                                                                16,
-                                                            )}
-                                                            …
+                                                            <ExplorerLink
+                                                                kind="deploy"
+                                                                value={
+                                                                    tx.deployId
+                                                                }
+                                                            />
                                                             {/* eslint-disable-next-line jsx-a11y/anchor-is-valid */}
                                                             <a
                                                                 title="Copy Deploy ID"
@@ -753,11 +829,12 @@ export const History: React.FC = () => {
                                                             }}
                                                         >
                                                             Block:{" "}
-                                                            {tx.blockHash.substring(
-                                                                0,
-                                                                16,
-                                                            )}
-                                                            ...
+                                                            <ExplorerLink
+                                                                kind="block"
+                                                                value={
+                                                                    tx.blockHash
+                                                                }
+                                                            />
                                                         </div>
                                                     )}
                                                 </TableCell>
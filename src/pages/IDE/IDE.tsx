@@ -1,9 +1,18 @@
 import React, { useState } from "react";
+import { useSelector } from "react-redux";
 import styled from "styled-components";
+import { RootState } from "store";
 import { DeployProModeWidget } from "components/DeployProModeWidget";
+import { ProposeBlockButton } from "components/ProposeBlockButton";
+import { WatchOnlyNotice } from "components/WatchOnlyNotice";
+import { isWatchOnlyAccount } from "utils/watchOnly";
 
 const IDEPage = styled.div``;
 
+const NoticeWrapper = styled.div`
+    padding: 12px 16px 0;
+`;
+
 const IDEToolbar = styled.div`
     display: flex;
     align-items: center;
@@ -36,15 +45,25 @@ const SettingInput = styled.input`
 `;
 
 export const IDE: React.FC = () => {
+    const { selectedAccount } = useSelector((state: RootState) => state.wallet);
     const [phloLimit, setPhloLimit] = useState("100000000");
     const [phloPrice, setPhloPrice] = useState("1");
 
     return (
         <IDEPage>
+            {selectedAccount && isWatchOnlyAccount(selectedAccount) && (
+                <NoticeWrapper>
+                    <WatchOnlyNotice
+                        accountName={selectedAccount.name}
+                        action="deploy contracts"
+                    />
+                </NoticeWrapper>
+            )}
             <DeployProModeWidget phloLimit={phloLimit} phloPrice={phloPrice}>
                 <IDEToolbar>
                     <DeployProModeWidget.Actions />
                     <PhloSettings>
+                        <ProposeBlockButton />
                         <SettingLabel>
                             <h4>Phlo Limit:</h4>
                             <SettingInput
@@ -3,6 +3,7 @@ import styled from 'styled-components';
 import { generateKeyPair, importPrivateKey } from 'utils/crypto';
 import { Card, CardHeader, CardTitle, CardContent, Button, Input } from 'components';
 import { getAddressLabel } from '../../constants/token';
+import { VanityGenerator } from './VanityGenerator';
 
 const KeyGeneratorContainer = styled.div`
   max-width: 800px;
@@ -269,6 +270,10 @@ export const KeyGenerator: React.FC = () => {
         </Card>
       </Section>
 
+      <Section>
+        <VanityGenerator />
+      </Section>
+
       <Section>
         <Card>
           <CardHeader>
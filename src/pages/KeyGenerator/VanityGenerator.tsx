@@ -0,0 +1,349 @@
+import React, { useEffect, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import styled from "styled-components";
+import {
+    Card,
+    CardHeader,
+    CardTitle,
+    CardContent,
+    Button,
+    Input,
+    Switch,
+} from "components";
+import { Select } from "components/Select";
+import { ISelectOption } from "components/Select/Select";
+import { ImportAccountModal } from "components/ImportAccountModal";
+import { KeyPair } from "utils/crypto";
+import {
+    ASI_ADDRESS_HEADER,
+    MAX_VANITY_PATTERN_LENGTH,
+    VanityAddressType,
+    VanityCriteria,
+    VanityPosition,
+    expectedVanityAttempts,
+    validateVanityCriteria,
+    vanityMatchProbability,
+} from "utils/vanityAddress";
+import {
+    VanitySearch,
+    VanitySearchProgress,
+    defaultVanityWorkerCount,
+} from "services/vanitySearch";
+
+const Description = styled.p`
+    margin: 0 0 20px;
+`;
+
+const Fields = styled.div`
+    display: grid;
+    grid-template-columns: 1fr 1fr;
+    gap: 16px;
+    margin-bottom: 16px;
+
+    @media (max-width: 768px) {
+        display: block;
+    }
+`;
+
+const FieldLabel = styled.div`
+    margin-bottom: 8px;
+    font-weight: 500;
+`;
+
+const Toggle = styled.label`
+    display: flex;
+    align-items: center;
+    gap: 12px;
+    margin-bottom: 16px;
+`;
+
+const Stats = styled.dl`
+    display: grid;
+    grid-template-columns: max-content 1fr;
+    gap: 6px 16px;
+    margin: 16px 0;
+
+    dt {
+        color: ${({ theme }) => theme.text.secondary};
+    }
+
+    dd {
+        margin: 0;
+        word-break: break-all;
+    }
+`;
+
+const ErrorMessage = styled.div`
+    color: ${({ theme }) => theme.error};
+    margin-bottom: 16px;
+`;
+
+const ButtonRow = styled.div`
+    display: flex;
+    gap: 12px;
+`;
+
+const addressTypeOptions: ISelectOption[] = [
+    { id: "asi", value: "asi", label: "ASI address" },
+    { id: "eth", value: "eth", label: "ETH address" },
+];
+
+const positionOptions: ISelectOption[] = [
+    { id: "prefix", value: "prefix", label: "Starts with" },
+    { id: "suffix", value: "suffix", label: "Ends with" },
+];
+
+const formatDuration = (seconds: number): string => {
+    if (!isFinite(seconds)) return "unknown";
+    if (seconds < 60) return `${Math.ceil(seconds)} s`;
+    if (seconds < 3600) return `${Math.round(seconds / 60)} min`;
+    if (seconds < 86400) return `${(seconds / 3600).toFixed(1)} h`;
+    if (seconds < 365 * 86400) return `${(seconds / 86400).toFixed(1)} days`;
+    return `${(seconds / (365 * 86400)).toFixed(1)} years`;
+};
+
+export const VanityGenerator: React.FC = () => {
+    const navigate = useNavigate();
+    const searchRef = useRef<VanitySearch | null>(null);
+
+    const [pattern, setPattern] = useState("");
+    const [addressType, setAddressType] = useState<VanityAddressType>("asi");
+    const [position, setPosition] = useState<VanityPosition>("prefix");
+    const [caseSensitive, setCaseSensitive] = useState(false);
+    const [isSearching, setIsSearching] = useState(false);
+    const [progress, setProgress] = useState<VanitySearchProgress | null>(null);
+    const [match, setMatch] = useState<KeyPair | null>(null);
+    const [error, setError] = useState("");
+    const [isImportOpen, setIsImportOpen] = useState(false);
+
+    const criteria: VanityCriteria = {
+        pattern: pattern.trim(),
+        position,
+        addressType,
+        caseSensitive,
+    };
+    const criteriaError = pattern ? validateVanityCriteria(criteria) : null;
+    const expectedAttempts = criteriaError
+        ? 0
+        : expectedVanityAttempts(criteria);
+
+    // Workers keep running after navigation unless they are stopped
+    useEffect(() => () => searchRef.current?.cancel(), []);
+
+    const handlePatternChange = (
+        event: React.ChangeEvent<HTMLInputElement>,
+    ) => {
+        setPattern(event.target.value);
+        setError("");
+    };
+
+    const handleStart = () => {
+        const validationError = validateVanityCriteria(criteria);
+        if (validationError) {
+            setError(validationError);
+            return;
+        }
+
+        setError("");
+        setMatch(null);
+        setProgress(null);
+        setIsSearching(true);
+
+        const search = new VanitySearch(criteria, {
+            onProgress: setProgress,
+            onFound: (keyPair, finalProgress) => {
+                setProgress(finalProgress);
+                setMatch(keyPair);
+                setIsSearching(false);
+            },
+            onError: (message) => {
+                setError(message);
+                setIsSearching(false);
+            },
+        });
+        searchRef.current = search;
+        search.start();
+    };
+
+    const handleCancel = () => {
+        searchRef.current?.cancel();
+        setIsSearching(false);
+    };
+
+    const handleDiscard = () => {
+        setMatch(null);
+        setProgress(null);
+    };
+
+    const handleImported = () => {
+        setIsImportOpen(false);
+        setMatch(null);
+        navigate("/accounts");
+    };
+
+    const rate = progress?.attemptsPerSecond ?? 0;
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle>Vanity Address</CardTitle>
+            </CardHeader>
+            <CardContent>
+                <Description>
+                    Search random keys for an address that starts or ends with
+                    chosen characters. The search runs on{" "}
+                    {defaultVanityWorkerCount()} background threads and never
+                    leaves this device; each extra character makes it about 58
+                    times longer for ASI addresses and 16 times for ETH.
+                </Description>
+
+                <Fields>
+                    <div>
+                        <FieldLabel>Address</FieldLabel>
+                        <Select
+                            id="vanity-address-type-select"
+                            value={addressType}
+                            onChange={(value) =>
+                                setAddressType(value as VanityAddressType)
+                            }
+                            options={addressTypeOptions}
+                        />
+                    </div>
+                    <div>
+                        <FieldLabel>Match</FieldLabel>
+                        <Select
+                            id="vanity-position-select"
+                            value={position}
+                            onChange={(value) =>
+                                setPosition(value as VanityPosition)
+                            }
+                            options={positionOptions}
+                        />
+                    </div>
+                </Fields>
+
+                <Input
+                    id="vanity-pattern-input"
+                    label={
+                        addressType === "asi" && position === "prefix"
+                            ? `Characters after the fixed ${ASI_ADDRESS_HEADER}`
+                            : "Characters"
+                    }
+                    value={pattern}
+                    onChange={handlePatternChange}
+                    maxLength={MAX_VANITY_PATTERN_LENGTH}
+                    placeholder={
+                        addressType === "asi" ? "e.g. ASi" : "e.g. cafe"
+                    }
+                    error={criteriaError || undefined}
+                    disabled={isSearching}
+                />
+
+                {addressType === "asi" && (
+                    <Toggle className="text-2">
+                        <Switch
+                            checked={caseSensitive}
+                            onChange={setCaseSensitive}
+                            disabled={isSearching}
+                        />
+                        Case-sensitive
+                    </Toggle>
+                )}
+
+                {(expectedAttempts > 0 || progress) && (
+                    <Stats className="text-2">
+                        {expectedAttempts > 0 && (
+                            <>
+                                <dt>Expected attempts</dt>
+                                <dd>
+                                    {Math.round(
+                                        expectedAttempts,
+                                    ).toLocaleString()}
+                                </dd>
+                            </>
+                        )}
+                        {progress && (
+                            <>
+                                <dt>Attempts</dt>
+                                <dd>{progress.attempts.toLocaleString()}</dd>
+                                <dt>Speed</dt>
+                                <dd>{`${Math.round(rate).toLocaleString()} keys/s`}</dd>
+                            </>
+                        )}
+                        {isSearching && progress && rate > 0 && (
+                            <>
+                                <dt>Estimated time</dt>
+                                <dd>
+                                    {formatDuration(expectedAttempts / rate)}
+                                </dd>
+                                <dt>Chance so far</dt>
+                                <dd>
+                                    {`${(
+                                        vanityMatchProbability(
+                                            expectedAttempts,
+                                            progress.attempts,
+                                        ) * 100
+                                    ).toFixed(1)}%`}
+                                </dd>
+                            </>
+                        )}
+                        {match && (
+                            <>
+                                <dt>Found</dt>
+                                <dd>
+                                    {addressType === "asi"
+                                        ? match.revAddress
+                                        : match.ethAddress}
+                                </dd>
+                            </>
+                        )}
+                    </Stats>
+                )}
+
+                {error && (
+                    <ErrorMessage className="text-2">{error}</ErrorMessage>
+                )}
+
+                <ButtonRow>
+                    {isSearching ? (
+                        <Button
+                            id="vanity-cancel-button"
+                            variant="secondary"
+                            onClick={handleCancel}
+                        >
+                            Cancel
+                        </Button>
+                    ) : (
+                        <Button
+                            id="vanity-start-button"
+                            onClick={handleStart}
+                            disabled={!pattern.trim() || !!criteriaError}
+                        >
+                            {match ? "Search Again" : "Start Search"}
+                        </Button>
+                    )}
+                    {match && !isSearching && (
+                        <>
+                            <Button
+                                id="vanity-import-button"
+                                onClick={() => setIsImportOpen(true)}
+                            >
+                                Import as Account
+                            </Button>
+                            <Button variant="secondary" onClick={handleDiscard}>
+                                Discard
+                            </Button>
+                        </>
+                    )}
+                </ButtonRow>
+
+                <ImportAccountModal
+                    isOpen={isImportOpen && !!match}
+                    onClose={() => setIsImportOpen(false)}
+                    onSuccess={handleImported}
+                    initialPrivateKey={match?.privateKey}
+                />
+            </CardContent>
+        </Card>
+    );
+};
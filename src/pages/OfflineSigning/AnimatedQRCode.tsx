@@ -0,0 +1,55 @@
+import React, { useEffect, useMemo, useState } from "react";
+import styled from "styled-components";
+import { QRCodeCanvas } from "qrcode.react";
+import { encodeQrFrames } from "services/offlineDeploy";
+
+const FRAME_INTERVAL_MS = 400;
+
+const QRCodeContainer = styled.div`
+    width: 288px;
+    padding: 16px;
+    background: white;
+    border-radius: 12px;
+    margin: 16px auto;
+    text-align: center;
+    color: #000000;
+    font-size: 12px;
+`;
+
+interface AnimatedQRCodeProps {
+    payload: string;
+}
+
+// Plays the payload as a loop of QR frames for the other device's camera
+export const AnimatedQRCode: React.FC<AnimatedQRCodeProps> = ({ payload }) => {
+    const frames = useMemo(() => encodeQrFrames(payload), [payload]);
+    const [frameIndex, setFrameIndex] = useState(0);
+
+    useEffect(() => {
+        setFrameIndex(0);
+        if (frames.length < 2) {
+            return;
+        }
+        const interval = setInterval(() => {
+            setFrameIndex((index) => (index + 1) % frames.length);
+        }, FRAME_INTERVAL_MS);
+        return () => clearInterval(interval);
+    }, [frames]);
+
+    return (
+        <QRCodeContainer>
+            <QRCodeCanvas
+                value={frames[frameIndex] ?? frames[0]}
+                size={256}
+                bgColor="#ffffff"
+                fgColor="#000000"
+                level="L"
+                includeMargin={false}
+            />
+            <div>
+                Frame {Math.min(frameIndex, frames.length - 1) + 1} of{" "}
+                {frames.length}
+            </div>
+        </QRCodeContainer>
+    );
+};
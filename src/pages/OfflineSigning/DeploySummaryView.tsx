@@ -0,0 +1,135 @@
+import React from "react";
+import styled from "styled-components";
+import { Deploy, SignedDeploy } from "services/rchain";
+import { DeployCheckIssue, summarizeDeploy } from "services/offlineDeploy";
+import { getTokenDisplayName } from "../../constants/token";
+
+const SummaryGrid = styled.dl`
+    display: grid;
+    grid-template-columns: max-content 1fr;
+    gap: 8px 16px;
+    margin: 0 0 16px;
+
+    dt {
+        color: ${({ theme }) => theme.text.secondary};
+    }
+
+    dd {
+        margin: 0;
+        word-break: break-all;
+    }
+`;
+
+const TermDetails = styled.details`
+    margin-bottom: 16px;
+
+    pre {
+        max-height: 240px;
+        overflow: auto;
+        padding: 12px;
+        border-radius: 8px;
+        border: 1px solid ${({ theme }) => theme.border};
+        font-size: 12px;
+        white-space: pre-wrap;
+    }
+`;
+
+const CustomTermWarning = styled.p`
+    color: ${({ theme }) => theme.warning};
+    margin: 0 0 8px;
+`;
+
+const IssueList = styled.ul`
+    margin: 0 0 16px;
+    padding-left: 20px;
+`;
+
+const Issue = styled.li<{ $level: DeployCheckIssue["level"] }>`
+    color: ${({ theme, $level }) =>
+        $level === "error" ? theme.danger : theme.warning};
+    margin-bottom: 4px;
+`;
+
+interface DeploySummaryViewProps {
+    deploy: Deploy | SignedDeploy;
+    issues: DeployCheckIssue[];
+}
+
+export const DeploySummaryView: React.FC<DeploySummaryViewProps> = ({
+    deploy,
+    issues,
+}) => {
+    const summary = summarizeDeploy(deploy);
+    const token = getTokenDisplayName();
+
+    return (
+        <div>
+            <SummaryGrid>
+                <dt>Type</dt>
+                <dd>{summary.transfer ? "Transfer" : "Custom Rholang"}</dd>
+                {summary.transfer && (
+                    <>
+                        <dt>From</dt>
+                        <dd>{summary.transfer.from}</dd>
+                        <dt>To</dt>
+                        <dd>{summary.transfer.to}</dd>
+                        <dt>Amount</dt>
+                        <dd>
+                            {summary.transfer.amount} {token}
+                        </dd>
+                    </>
+                )}
+                {summary.signer && (
+                    <>
+                        <dt>Signed by</dt>
+                        <dd>{summary.signer}</dd>
+                    </>
+                )}
+                {summary.deployId && (
+                    <>
+                        <dt>Deploy ID</dt>
+                        <dd>{summary.deployId}</dd>
+                    </>
+                )}
+                <dt>Shard</dt>
+                <dd>{summary.shardId || "(none)"}</dd>
+                <dt>Phlo limit / price</dt>
+                <dd>
+                    {summary.phloLimit.toLocaleString()} / {summary.phloPrice}
+                </dd>
+                <dt>Max fee</dt>
+                <dd>
+                    {summary.maxFee} {token}
+                </dd>
+                <dt>Valid blocks</dt>
+                <dd>
+                    {summary.validAfterBlockNumber} –{" "}
+                    {summary.lastValidBlockNumber}
+                </dd>
+                <dt>Prepared</dt>
+                <dd>{summary.createdAt.toLocaleString()}</dd>
+            </SummaryGrid>
+
+            {!summary.transfer && (
+                <CustomTermWarning>
+                    Not a standard transfer, so nothing above describes what it
+                    does. Read the whole term below: it is what runs on chain.
+                </CustomTermWarning>
+            )}
+            <TermDetails open={!summary.transfer}>
+                <summary>Rholang term</summary>
+                <pre>{deploy.term}</pre>
+            </TermDetails>
+
+            {issues.length > 0 && (
+                <IssueList>
+                    {issues.map((issue) => (
+                        <Issue key={issue.message} $level={issue.level}>
+                            {issue.message}
+                        </Issue>
+                    ))}
+                </IssueList>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,686 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { useSelector } from "react-redux";
+import styled from "styled-components";
+import { RootState } from "store";
+import {
+    Card,
+    CardHeader,
+    CardTitle,
+    CardContent,
+    Button,
+    Input,
+    TextArea,
+    PasswordModal,
+} from "components";
+import { Select } from "components/Select";
+import { ISelectOption } from "components/Select/Select";
+import { RChainService, SignedDeploy } from "services/rchain";
+import { SecureStorage } from "services/secureStorage";
+import {
+    checkDeploySignature,
+    checkDeployWindow,
+    createSignedDeployFile,
+    createUnsignedDeployFile,
+    DeployCheckIssue,
+    downloadOfflineDeploy,
+    isSameDeployData,
+    OfflineDeployKind,
+    parseOfflineDeploy,
+    readOfflineDeployFile,
+    serializeOfflineDeploy,
+    SignedDeployFile,
+    summarizeDeploy,
+    UnsignedDeployFile,
+} from "services/offlineDeploy";
+import { signDeploy } from "utils/crypto";
+import { Amount } from "utils/amount";
+import { isWatchOnlyAccount } from "utils/watchOnly";
+import { GAS_FEE } from "../../constants/gas";
+import { getTokenDisplayName } from "../../constants/token";
+import { AnimatedQRCode } from "./AnimatedQRCode";
+import { DeploySummaryView } from "./DeploySummaryView";
+import { QRFrameScanner } from "./QRFrameScanner";
+
+type Step = "prepare" | "sign" | "broadcast";
+type DeployType = "transfer" | "custom";
+
+const STEPS: { value: Step; label: string }[] = [
+    { value: "prepare", label: "1. Prepare (online)" },
+    { value: "sign", label: "2. Sign (offline)" },
+    { value: "broadcast", label: "3. Broadcast (online)" },
+];
+
+const DEPLOY_TYPE_OPTIONS: ISelectOption[] = [
+    { id: "transfer", value: "transfer", label: "Transfer" },
+    { id: "custom", value: "custom", label: "Custom Rholang" },
+];
+
+const OfflineSigningContainer = styled.div`
+    max-width: 800px;
+    margin: 0 auto;
+`;
+
+const StepTabs = styled.div`
+    display: flex;
+    gap: 8px;
+    margin-bottom: 24px;
+    flex-wrap: wrap;
+`;
+
+const Description = styled.p`
+    color: ${({ theme }) => theme.text.secondary};
+    margin: 0 0 16px;
+`;
+
+const FormGroup = styled.div`
+    margin-bottom: 16px;
+`;
+
+const ButtonRow = styled.div`
+    display: flex;
+    gap: 12px;
+    flex-wrap: wrap;
+    margin-bottom: 16px;
+`;
+
+const ErrorText = styled.div`
+    color: ${({ theme }) => theme.danger};
+    margin-bottom: 16px;
+`;
+
+const SuccessText = styled.div`
+    color: ${({ theme }) => theme.success};
+    margin-bottom: 16px;
+    word-break: break-all;
+`;
+
+const FileInput = styled.input`
+    display: none;
+`;
+
+const hasErrors = (issues: DeployCheckIssue[]): boolean =>
+    issues.some((issue) => issue.level === "error");
+
+export const OfflineSigning: React.FC = () => {
+    const { selectedAccount, selectedNetwork } = useSelector(
+        (state: RootState) => state.wallet,
+    );
+    const shardId = selectedNetwork.shardId || "root";
+
+    const rchain = useMemo(
+        () =>
+            new RChainService(
+                selectedNetwork.url,
+                selectedNetwork.readOnlyUrl,
+                selectedNetwork.adminUrl,
+                selectedNetwork.shardId,
+                selectedNetwork.graphqlUrl,
+                selectedNetwork,
+            ),
+        [selectedNetwork],
+    );
+
+    const [step, setStep] = useState<Step>("prepare");
+    const [scanTarget, setScanTarget] = useState<OfflineDeployKind | null>(
+        null,
+    );
+    const unsignedInputRef = useRef<HTMLInputElement>(null);
+    const signedInputRef = useRef<HTMLInputElement>(null);
+
+    // Prepare
+    const [deployType, setDeployType] = useState<DeployType>("transfer");
+    const [recipient, setRecipient] = useState("");
+    const [amount, setAmount] = useState("");
+    const [customTerm, setCustomTerm] = useState("");
+    const [phloLimit, setPhloLimit] = useState(String(GAS_FEE.PHLO_LIMIT));
+    const [prepared, setPrepared] = useState<UnsignedDeployFile | null>(null);
+    const [isPreparing, setIsPreparing] = useState(false);
+    const [prepareError, setPrepareError] = useState("");
+
+    // Sign
+    const [toSign, setToSign] = useState<UnsignedDeployFile | null>(null);
+    const [signed, setSigned] = useState<SignedDeployFile | null>(null);
+    const [showPasswordModal, setShowPasswordModal] = useState(false);
+    const [signError, setSignError] = useState("");
+
+    // Broadcast
+    const [toBroadcast, setToBroadcast] = useState<SignedDeployFile | null>(
+        null,
+    );
+    const [latestBlockNumber, setLatestBlockNumber] = useState<number>();
+    const [isBroadcasting, setIsBroadcasting] = useState(false);
+    const [broadcastError, setBroadcastError] = useState("");
+    const [broadcastDeployId, setBroadcastDeployId] = useState("");
+
+    // The block window can only be checked against a reachable node
+    useEffect(() => {
+        setLatestBlockNumber(undefined);
+        if (!toBroadcast) {
+            return;
+        }
+        let cancelled = false;
+        rchain
+            .getLatestBlockNumber()
+            .then((blockNumber) => {
+                if (!cancelled && blockNumber > 0) {
+                    setLatestBlockNumber(blockNumber);
+                }
+            })
+            .catch((error) => {
+                console.warn(
+                    "[Offline Signing] Could not fetch latest block:",
+                    error.message,
+                );
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [toBroadcast, rchain]);
+
+    const preparedIssues = useMemo(
+        () =>
+            prepared
+                ? checkDeployWindow(prepared.deploy, {
+                      shardId,
+                      latestBlockNumber:
+                          prepared.deploy.validAfterBlockNumber,
+                  })
+                : [],
+        [prepared, shardId],
+    );
+
+    const signIssues = useMemo(() => {
+        if (!toSign) {
+            return [];
+        }
+        const issues = checkDeployWindow(toSign.deploy, { shardId });
+        const transfer = summarizeDeploy(toSign.deploy).transfer;
+        if (
+            transfer &&
+            selectedAccount &&
+            transfer.from !== selectedAccount.revAddress
+        ) {
+            issues.push({
+                level: "error",
+                message: `Transfer is from ${transfer.from}, but the selected account is ${selectedAccount.revAddress}`,
+            });
+        }
+        return issues;
+    }, [toSign, shardId, selectedAccount]);
+
+    const broadcastIssues = useMemo(() => {
+        if (!toBroadcast) {
+            return [];
+        }
+        const issues = [
+            ...checkDeploySignature(toBroadcast.deploy),
+            ...checkDeployWindow(toBroadcast.deploy, {
+                shardId,
+                latestBlockNumber,
+            }),
+        ];
+        if (latestBlockNumber === undefined) {
+            issues.push({
+                level: "warning",
+                message:
+                    "Could not reach the network to check the deploy's block window",
+            });
+        }
+        if (prepared && !isSameDeployData(prepared.deploy, toBroadcast.deploy)) {
+            issues.push({
+                level: "warning",
+                message:
+                    "This signed deploy differs from the one last prepared on this device",
+            });
+        }
+        return issues;
+    }, [toBroadcast, shardId, latestBlockNumber, prepared]);
+
+    const handlePrepare = async () => {
+        setPrepareError("");
+        setPrepared(null);
+
+        const limit = Number(phloLimit);
+        if (!Number.isSafeInteger(limit) || limit <= 0) {
+            setPrepareError("Phlo limit must be a positive integer");
+            return;
+        }
+
+        setIsPreparing(true);
+        try {
+            let term: string;
+            if (deployType === "transfer") {
+                if (!selectedAccount) {
+                    throw new Error("Select the account to send from");
+                }
+                const transferAmount = Amount.parse(amount);
+                if (!transferAmount.isPositive()) {
+                    throw new Error("Enter an amount greater than zero");
+                }
+                term = rchain.buildTransferTerm(
+                    selectedAccount.revAddress,
+                    recipient.trim(),
+                    transferAmount.toAtomicString(),
+                );
+            } else {
+                if (!customTerm.trim()) {
+                    throw new Error("Enter the Rholang term to deploy");
+                }
+                term = customTerm;
+            }
+
+            const deploy = await rchain.buildDeploy(term, limit);
+            setPrepared(createUnsignedDeployFile(deploy, selectedNetwork.name));
+        } catch (error: any) {
+            setPrepareError(error.message || "Failed to prepare deploy");
+        } finally {
+            setIsPreparing(false);
+        }
+    };
+
+    const importDeploy = (file: ReturnType<typeof parseOfflineDeploy>) => {
+        if (file.kind === "unsigned") {
+            setToSign(file);
+            setSigned(null);
+            setSignError("");
+        } else {
+            setToBroadcast(file);
+            setBroadcastDeployId("");
+            setBroadcastError("");
+        }
+    };
+
+    const reportImportError = (kind: OfflineDeployKind, message: string) => {
+        if (kind === "unsigned") {
+            setSignError(message);
+        } else {
+            setBroadcastError(message);
+        }
+    };
+
+    const handleFileSelected =
+        (kind: OfflineDeployKind) =>
+        async (event: React.ChangeEvent<HTMLInputElement>) => {
+            const file = event.target.files?.[0];
+            event.target.value = "";
+            if (!file) {
+                return;
+            }
+            try {
+                importDeploy(await readOfflineDeployFile(file, kind));
+            } catch (error: any) {
+                reportImportError(kind, error.message);
+            }
+        };
+
+    const handleScanned = (payload: string) => {
+        const kind = scanTarget;
+        setScanTarget(null);
+        if (!kind) {
+            return;
+        }
+        try {
+            importDeploy(parseOfflineDeploy(payload, kind));
+        } catch (error: any) {
+            reportImportError(kind, error.message);
+        }
+    };
+
+    const signWithKey = (privateKey: string) => {
+        if (!toSign) {
+            return;
+        }
+        const signedDeploy: SignedDeploy = signDeploy(
+            toSign.deploy,
+            privateKey,
+        );
+        setSigned(createSignedDeployFile(signedDeploy, toSign.network));
+    };
+
+    const handleSign = () => {
+        if (!selectedAccount) {
+            setSignError("Select the account to sign with");
+            return;
+        }
+        if (isWatchOnlyAccount(selectedAccount)) {
+            setSignError(
+                `${selectedAccount.name} is watch-only; sign on the device that holds its key`,
+            );
+            return;
+        }
+        setSignError("");
+        const unlocked = SecureStorage.getUnlockedAccount(selectedAccount.id);
+        if (unlocked?.privateKey) {
+            signWithKey(unlocked.privateKey);
+        } else {
+            setShowPasswordModal(true);
+        }
+    };
+
+    const handlePasswordConfirm = async (password: string) => {
+        if (!selectedAccount) {
+            return;
+        }
+        const unlocked = await SecureStorage.unlockAccount(
+            selectedAccount.id,
+            password,
+        );
+        if (!unlocked?.privateKey) {
+            setSignError("Invalid password");
+            return;
+        }
+        setShowPasswordModal(false);
+        signWithKey(unlocked.privateKey);
+    };
+
+    const handleBroadcast = async () => {
+        if (!toBroadcast) {
+            return;
+        }
+        setBroadcastError("");
+        setIsBroadcasting(true);
+        try {
+            const deployId = await rchain.broadcastSignedDeploy(
+                toBroadcast.deploy,
+            );
+            setBroadcastDeployId(deployId);
+        } catch (error: any) {
+            setBroadcastError(error.message || "Failed to broadcast deploy");
+        } finally {
+            setIsBroadcasting(false);
+        }
+    };
+
+    const renderExport = (file: UnsignedDeployFile | SignedDeployFile) => (
+        <>
+            <AnimatedQRCode payload={serializeOfflineDeploy(file, false)} />
+            <ButtonRow>
+                <Button
+                    variant="secondary"
+                    onClick={() => downloadOfflineDeploy(file)}
+                >
+                    Download file
+                </Button>
+            </ButtonRow>
+        </>
+    );
+
+    const renderImportButtons = (kind: OfflineDeployKind) => (
+        <ButtonRow>
+            <Button
+                variant="secondary"
+                onClick={() =>
+                    (kind === "unsigned"
+                        ? unsignedInputRef
+                        : signedInputRef
+                    ).current?.click()
+                }
+            >
+                Open file
+            </Button>
+            <Button variant="secondary" onClick={() => setScanTarget(kind)}>
+                Scan QR code
+            </Button>
+        </ButtonRow>
+    );
+
+    return (
+        <OfflineSigningContainer>
+            <FileInput
+                ref={unsignedInputRef}
+                type="file"
+                accept=".json"
+                onChange={handleFileSelected("unsigned")}
+            />
+            <FileInput
+                ref={signedInputRef}
+                type="file"
+                accept=".json"
+                onChange={handleFileSelected("signed")}
+            />
+
+            <StepTabs>
+                {STEPS.map(({ value, label }) => (
+                    <Button
+                        key={value}
+                        variant={step === value ? "primary" : "secondary"}
+                        onClick={() => setStep(value)}
+                    >
+                        {label}
+                    </Button>
+                ))}
+            </StepTabs>
+
+            {step === "prepare" && (
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Prepare unsigned deploy</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                        <Description>
+                            Build the deploy on this connected device, then
+                            move it to the offline wallet as a file or by
+                            scanning the animated QR code.
+                        </Description>
+
+                        <FormGroup>
+                            <Select
+                                id="offline-deploy-type-select"
+                                value={deployType}
+                                onChange={(value) =>
+                                    setDeployType(value as DeployType)
+                                }
+                                options={DEPLOY_TYPE_OPTIONS}
+                            />
+                        </FormGroup>
+
+                        {deployType === "transfer" ? (
+                            <>
+                                <FormGroup>
+                                    <Input
+                                        label="From"
+                                        value={
+                                            selectedAccount?.revAddress || ""
+                                        }
+                                        readOnly
+                                        fullWidth
+                                    />
+                                </FormGroup>
+                                <FormGroup>
+                                    <Input
+                                        label="To"
+                                        value={recipient}
+                                        onChange={(e) =>
+                                            setRecipient(e.target.value)
+                                        }
+                                        fullWidth
+                                    />
+                                </FormGroup>
+                                <FormGroup>
+                                    <Input
+                                        label={`Amount (${getTokenDisplayName()})`}
+                                        type="number"
+                                        value={amount}
+                                        onChange={(e) =>
+                                            setAmount(e.target.value)
+                                        }
+                                        fullWidth
+                                    />
+                                </FormGroup>
+                            </>
+                        ) : (
+                            <FormGroup>
+                                <TextArea
+                                    label="Rholang term"
+                                    value={customTerm}
+                                    onChange={(e) =>
+                                        setCustomTerm(e.target.value)
+                                    }
+                                    rows={8}
+                                    fullWidth
+                                />
+                            </FormGroup>
+                        )}
+
+                        <FormGroup>
+                            <Input
+                                label="Phlo limit"
+                                type="number"
+                                value={phloLimit}
+                                onChange={(e) => setPhloLimit(e.target.value)}
+                                fullWidth
+                            />
+                        </FormGroup>
+
+                        {prepareError && <ErrorText>{prepareError}</ErrorText>}
+
+                        <ButtonRow>
+                            <Button
+                                onClick={handlePrepare}
+                                loading={isPreparing}
+                                disabled={isPreparing}
+                            >
+                                Prepare deploy
+                            </Button>
+                        </ButtonRow>
+
+                        {prepared && (
+                            <>
+                                <DeploySummaryView
+                                    deploy={prepared.deploy}
+                                    issues={preparedIssues}
+                                />
+                                {renderExport(prepared)}
+                            </>
+                        )}
+                    </CardContent>
+                </Card>
+            )}
+
+            {step === "sign" && (
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Sign deploy</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                        <Description>
+                            On the offline wallet, load the unsigned deploy,
+                            check the summary and sign it with the selected
+                            account. Nothing is sent to the network here.
+                        </Description>
+
+                        {renderImportButtons("unsigned")}
+
+                        {signError && <ErrorText>{signError}</ErrorText>}
+
+                        {toSign && (
+                            <>
+                                <DeploySummaryView
+                                    deploy={toSign.deploy}
+                                    issues={signIssues}
+                                />
+                                {!signed && (
+                                    <ButtonRow>
+                                        <Button
+                                            onClick={handleSign}
+                                            disabled={
+                                                hasErrors(signIssues) ||
+                                                !selectedAccount
+                                            }
+                                        >
+                                            Sign with{" "}
+                                            {selectedAccount?.name ||
+                                                "selected account"}
+                                        </Button>
+                                    </ButtonRow>
+                                )}
+                            </>
+                        )}
+
+                        {signed && (
+                            <>
+                                <SuccessText>
+                                    Deploy signed. Move it back to the online
+                                    wallet to broadcast it.
+                                </SuccessText>
+                                {renderExport(signed)}
+                            </>
+                        )}
+                    </CardContent>
+                </Card>
+            )}
+
+            {step === "broadcast" && (
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Broadcast signed deploy</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                        <Description>
+                            Load the signed deploy from the offline wallet and
+                            submit it to {selectedNetwork.name}.
+                        </Description>
+
+                        {renderImportButtons("signed")}
+
+                        {broadcastError && (
+                            <ErrorText>{broadcastError}</ErrorText>
+                        )}
+
+                        {toBroadcast && (
+                            <>
+                                <DeploySummaryView
+                                    deploy={toBroadcast.deploy}
+                                    issues={broadcastIssues}
+                                />
+                                {!broadcastDeployId && (
+                                    <ButtonRow>
+                                        <Button
+                                            onClick={handleBroadcast}
+                                            loading={isBroadcasting}
+                                            disabled={
+                                                isBroadcasting ||
+                                                hasErrors(broadcastIssues)
+                                            }
+                                        >
+                                            Broadcast deploy
+                                        </Button>
+                                    </ButtonRow>
+                                )}
+                            </>
+                        )}
+
+                        {broadcastDeployId && (
+                            <SuccessText>
+                                Deploy submitted. Deploy ID:{" "}
+                                {broadcastDeployId}
+                            </SuccessText>
+                        )}
+                    </CardContent>
+                </Card>
+            )}
+
+            {scanTarget && (
+                <QRFrameScanner
+                    title={
+                        scanTarget === "unsigned"
+                            ? "Scan unsigned deploy"
+                            : "Scan signed deploy"
+                    }
+                    onScan={handleScanned}
+                    onClose={() => setScanTarget(null)}
+                />
+            )}
+
+            {showPasswordModal && (
+                <PasswordModal
+                    isOpen={showPasswordModal}
+                    title="Enter Password to Sign Deploy"
+                    error={signError}
+                    onConfirm={handlePasswordConfirm}
+                    onClose={() => setShowPasswordModal(false)}
+                />
+            )}
+        </OfflineSigningContainer>
+    );
+};
@@ -0,0 +1,168 @@
+import React, { useEffect, useRef, useState } from "react";
+import styled from "styled-components";
+import QrScanner from "qr-scanner";
+import { isQrFrame, QrFrameCollector } from "services/offlineDeploy";
+
+const ScannerOverlay = styled.div`
+    display: flex;
+    position: fixed;
+    top: 0;
+    left: 0;
+    right: 0;
+    bottom: 0;
+    background: rgba(0, 0, 0, 0.8);
+    z-index: 1000;
+    align-items: center;
+    justify-content: center;
+`;
+
+const ScannerContent = styled.div`
+    background: ${({ theme }) => theme.background};
+    border-radius: 16px;
+    padding: 24px;
+    max-width: 500px;
+    width: 90%;
+    max-height: 80vh;
+    overflow: auto;
+`;
+
+const ScannerHeader = styled.div`
+    display: flex;
+    justify-content: space-between;
+    align-items: center;
+    margin-bottom: 20px;
+`;
+
+const ScannerTitle = styled.h3`
+    margin: 0;
+    color: ${({ theme }) => theme.text.primary};
+`;
+
+const CloseButton = styled.button`
+    background: none;
+    border: none;
+    font-size: 24px;
+    cursor: pointer;
+    color: ${({ theme }) => theme.text.secondary};
+
+    &:hover {
+        color: ${({ theme }) => theme.text.primary};
+    }
+`;
+
+const VideoContainer = styled.div`
+    width: 100%;
+    max-width: 400px;
+    margin: 0 auto;
+    border-radius: 8px;
+    overflow: hidden;
+    background: ${({ theme }) => theme.surface};
+`;
+
+const Video = styled.video`
+    width: 100%;
+    height: auto;
+    display: block;
+`;
+
+const ScannerStatus = styled.div<{ $isError?: boolean }>`
+    margin-top: 16px;
+    text-align: center;
+    color: ${({ theme, $isError }) =>
+        $isError ? theme.danger : theme.text.secondary};
+`;
+
+interface QRFrameScannerProps {
+    title: string;
+    onScan: (payload: string) => void;
+    onClose: () => void;
+}
+
+// Scans an animated deploy QR (or a single plain QR) until the payload is complete
+export const QRFrameScanner: React.FC<QRFrameScannerProps> = ({
+    title,
+    onScan,
+    onClose,
+}) => {
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const collectorRef = useRef(new QrFrameCollector());
+    const onScanRef = useRef(onScan);
+    const [progress, setProgress] = useState<{
+        received: number;
+        total: number;
+    } | null>(null);
+    const [scanError, setScanError] = useState("");
+
+    onScanRef.current = onScan;
+
+    useEffect(() => {
+        if (!videoRef.current) {
+            return;
+        }
+        const collector = collectorRef.current;
+        collector.reset();
+
+        let finished = false;
+        const qrScanner = new QrScanner(
+            videoRef.current,
+            (result) => {
+                if (finished) {
+                    return;
+                }
+                try {
+                    if (!isQrFrame(result.data)) {
+                        finished = true;
+                        onScanRef.current(result.data);
+                        return;
+                    }
+                    setProgress(collector.add(result.data));
+                    if (collector.isComplete()) {
+                        finished = true;
+                        onScanRef.current(collector.getPayload());
+                    }
+                } catch (error: any) {
+                    setScanError(error.message);
+                }
+            },
+            {
+                returnDetailedScanResult: true,
+                highlightScanRegion: true,
+                highlightCodeOutline: true,
+            },
+        );
+
+        qrScanner.start().catch((err) => {
+            console.error("Failed to start QR scanner:", err);
+            setScanError("Failed to access camera. Please check permissions.");
+        });
+
+        return () => {
+            qrScanner.stop();
+            qrScanner.destroy();
+        };
+    }, []);
+
+    return (
+        <ScannerOverlay>
+            <ScannerContent>
+                <ScannerHeader>
+                    <ScannerTitle>{title}</ScannerTitle>
+                    <CloseButton onClick={onClose}>×</CloseButton>
+                </ScannerHeader>
+
+                <VideoContainer>
+                    <Video ref={videoRef} />
+                </VideoContainer>
+
+                <ScannerStatus $isError={!!scanError}>
+                    <small>
+                        {scanError ||
+                            (progress
+                                ? `Scanned ${progress.received} of ${progress.total} frames`
+                                : "Point the camera at the animated QR code")}
+                    </small>
+                </ScannerStatus>
+            </ScannerContent>
+        </ScannerOverlay>
+    );
+};
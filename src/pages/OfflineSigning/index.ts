@@ -0,0 +1 @@
+export { OfflineSigning } from "./OfflineSigning";
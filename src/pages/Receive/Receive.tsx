@@ -25,7 +25,9 @@ import {
     QRIconSecond,
 } from "components/Icons";
 import { Panel } from "components/Panel";
-import { useScreen } from "hooks/";
+import { useContacts, useScreen } from "hooks/";
+import { Amount } from "utils/amount";
+import { serializePaymentUri } from "utils/paymentUri";
 
 const ReceiveContainer = styled.div`
     max-width: 600px;
@@ -135,6 +137,26 @@ enum AddressFormats {
     ETHEREUM = "ethereum",
 }
 
+const HOUR_MS = 60 * 60 * 1000;
+
+const expiryOptions: ISelectOption[] = [
+    { id: "none", value: "0", label: "No expiry" },
+    { id: "1h", value: String(HOUR_MS), label: "1 hour" },
+    { id: "24h", value: String(24 * HOUR_MS), label: "24 hours" },
+    { id: "7d", value: String(7 * 24 * HOUR_MS), label: "7 days" },
+];
+
+const RequestFields = styled.div`
+    display: grid;
+    grid-template-columns: 1fr 1fr;
+    gap: 16px;
+    padding: 16px 0 0;
+
+    @media (max-width: 768px) {
+        display: block;
+    }
+`;
+
 const formatOptions: ISelectOption[] = [
     {
         id: AddressFormats.ASI,
@@ -155,11 +177,66 @@ export const Receive: React.FC = () => {
     );
 
     const { isLaptop } = useScreen();
+    const { findByAddress } = useContacts();
 
     const [addressFormat, setAddressFormat] = useState<AddressFormats>(
         AddressFormats.ASI,
     );
     const [copyMessage, setCopyMessage] = useState("");
+    const [requestAmount, setRequestAmount] = useState("");
+    const [requestMemo, setRequestMemo] = useState("");
+    const [requestExpiry, setRequestExpiry] = useState("0");
+
+    const requestAmountError =
+        requestAmount.trim() && !Amount.tryParse(requestAmount)?.isPositive()
+            ? "Enter a positive amount with at most 8 decimals"
+            : "";
+
+    // Name of this account in the address book, if it was saved there
+    const contactName = findByAddress(selectedAccount?.address)?.name;
+
+    // asi: payment URI for the QR code once an amount or memo is entered
+    const paymentUri = useMemo(() => {
+        if (
+            !selectedAccount ||
+            addressFormat !== AddressFormats.ASI ||
+            requestAmountError ||
+            (!requestAmount.trim() && !requestMemo.trim())
+        ) {
+            return "";
+        }
+        const expiresIn = Number(requestExpiry);
+        return serializePaymentUri({
+            address: selectedAccount.address,
+            amount: requestAmount.trim() || undefined,
+            memo: requestMemo.trim() || undefined,
+            label: contactName,
+            shardId: selectedNetwork.shardId,
+            networkId: selectedNetwork.id,
+            expiresAt: expiresIn ? Date.now() + expiresIn : undefined,
+        });
+    }, [
+        selectedAccount,
+        selectedNetwork,
+        addressFormat,
+        requestAmount,
+        requestAmountError,
+        requestMemo,
+        requestExpiry,
+        contactName,
+    ]);
+
+    const handleRequestAmountChange = (
+        event: React.ChangeEvent<HTMLInputElement>,
+    ) => {
+        setRequestAmount(event.target.value);
+    };
+
+    const handleRequestMemoChange = (
+        event: React.ChangeEvent<HTMLInputElement>,
+    ) => {
+        setRequestMemo(event.target.value);
+    };
 
     const copyToClipboard = (text: string) => {
         navigator.clipboard.writeText(text).then(() => {
@@ -258,6 +335,15 @@ export const Receive: React.FC = () => {
                             CustomCopyIcon={FileCopyIcon}
                         />
 
+                        {contactName && (
+                            <TextSecondaryBlock
+                                id="receive-contact-label"
+                                style={{ fontSize: "0.75rem" }}
+                            >
+                                Saved in your address book as {contactName}
+                            </TextSecondaryBlock>
+                        )}
+
                         <TextSecondaryBlock
                             style={{
                                 marginBottom: "36px",
@@ -268,10 +354,68 @@ export const Receive: React.FC = () => {
                             the field or click the Paste button
                         </TextSecondaryBlock>
 
+                        {addressFormat === AddressFormats.ASI && (
+                            <Panel
+                                header="Request a Payment"
+                                style={{ marginBottom: "16px" }}
+                            >
+                                <RequestFields>
+                                    <Input
+                                        id="receive-request-amount-input"
+                                        className="text-3"
+                                        label={`Amount (${getTokenDisplayName()})`}
+                                        value={requestAmount}
+                                        onChange={handleRequestAmountChange}
+                                        error={requestAmountError}
+                                        placeholder="0.0"
+                                    />
+                                    <FilterGroup>
+                                        <FilterLabel>
+                                            <h4 className="light">Expires</h4>
+                                        </FilterLabel>
+                                        <Select
+                                            id="receive-request-expiry-select"
+                                            value={requestExpiry}
+                                            onChange={setRequestExpiry}
+                                            options={expiryOptions}
+                                        />
+                                    </FilterGroup>
+                                </RequestFields>
+                                <Input
+                                    id="receive-request-memo-input"
+                                    className="text-3"
+                                    label="Memo"
+                                    value={requestMemo}
+                                    onChange={handleRequestMemoChange}
+                                    placeholder="Invoice 42"
+                                    fullWidth
+                                />
+                                {paymentUri && (
+                                    <Input
+                                        id="receive-request-uri-input"
+                                        className="text-3"
+                                        label="Payment request"
+                                        value={paymentUri}
+                                        readOnly
+                                        copyable
+                                        CustomCopyIcon={FileCopyIcon}
+                                        fullWidth
+                                    />
+                                )}
+                                <TextSecondaryBlock
+                                    style={{ fontSize: "0.75rem" }}
+                                >
+                                    With an amount or memo, the QR code below
+                                    encodes this payment request instead of the
+                                    bare address.
+                                </TextSecondaryBlock>
+                            </Panel>
+                        )}
+
                         <Panel header="Show QR Code">
                             <QRCodeContainer>
                                 <QRCodeCanvas
-                                    value={currentAddress}
+                                    value={paymentUri || currentAddress}
                                     size={224}
                                     bgColor="#ffffff"
                                     fgColor="#000000"
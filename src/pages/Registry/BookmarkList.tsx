@@ -0,0 +1,72 @@
+import React from "react";
+import styled from "styled-components";
+import { Button } from "components";
+import { RegistryLink } from "components/RegistryLink";
+import { RegistryBookmark } from "services/registryBookmarks";
+
+const List = styled.ul`
+    list-style: none;
+    margin: 0;
+    padding: 0;
+`;
+
+const Item = styled.li`
+    display: flex;
+    justify-content: space-between;
+    align-items: center;
+    gap: 12px;
+    padding: 8px 0;
+    border-bottom: 1px solid ${({ theme }) => theme.border};
+
+    &:last-child {
+        border-bottom: none;
+    }
+`;
+
+const Details = styled.div`
+    min-width: 0;
+`;
+
+const Name = styled.div`
+    color: ${({ theme }) => theme.text.primary};
+    margin-bottom: 2px;
+`;
+
+interface BookmarkListProps {
+    bookmarks: RegistryBookmark[];
+    onRemove: (uri: string) => void;
+}
+
+export const BookmarkList: React.FC<BookmarkListProps> = ({
+    bookmarks,
+    onRemove,
+}) => {
+    if (bookmarks.length === 0) {
+        return (
+            <p className="text-2">
+                No bookmarks for this network yet. Look up a URI and save it to
+                find it here.
+            </p>
+        );
+    }
+
+    return (
+        <List>
+            {bookmarks.map((bookmark) => (
+                <Item key={bookmark.uri}>
+                    <Details>
+                        <Name className="text-2">{bookmark.name}</Name>
+                        <RegistryLink uri={bookmark.uri} />
+                    </Details>
+                    <Button
+                        variant="secondary"
+                        size="small"
+                        onClick={() => onRemove(bookmark.uri)}
+                    >
+                        Remove
+                    </Button>
+                </Item>
+            ))}
+        </List>
+    );
+};
@@ -0,0 +1,243 @@
+import React, { useEffect, useMemo, useState } from "react";
+import styled from "styled-components";
+import { useSelector } from "react-redux";
+import { useNavigate, useParams } from "react-router-dom";
+import { RootState } from "store";
+import {
+    Card,
+    CardHeader,
+    CardTitle,
+    CardContent,
+    Button,
+    Input,
+} from "components";
+import { registryPath } from "components/RegistryLink";
+import { RChainService } from "services/rchain";
+import {
+    lookupRegistryUri,
+    normalizeRegistryUri,
+    RegistryError,
+    RegistryLookupResult,
+} from "services/registry";
+import RegistryBookmarkService, {
+    RegistryBookmark,
+} from "services/registryBookmarks";
+import { BookmarkList } from "./BookmarkList";
+import { RegistryValueView } from "./RegistryValueView";
+
+const RegistryContainer = styled.div`
+    display: flex;
+    flex-direction: column;
+    gap: 24px;
+`;
+
+const InlineForm = styled.form`
+    display: flex;
+    gap: 12px;
+    align-items: flex-start;
+    margin-bottom: 24px;
+
+    @media (max-width: 768px) {
+        flex-direction: column;
+        align-items: stretch;
+    }
+`;
+
+const FormButton = styled(Button)`
+    height: 44px;
+`;
+
+const Message = styled.div<{ $isError?: boolean }>`
+    color: ${({ theme, $isError }) =>
+        $isError ? theme.error : theme.text.secondary};
+    margin-bottom: 16px;
+    word-break: break-word;
+`;
+
+const ResultUri = styled.div`
+    font-family: monospace;
+    word-break: break-all;
+    margin-bottom: 16px;
+`;
+
+export const Registry: React.FC = () => {
+    const navigate = useNavigate();
+    const { uri } = useParams<{ uri?: string }>();
+    const { selectedNetwork } = useSelector((state: RootState) => state.wallet);
+
+    const [search, setSearch] = useState(uri ?? "");
+    const [searchError, setSearchError] = useState("");
+    const [result, setResult] = useState<RegistryLookupResult | null>(null);
+    const [error, setError] = useState("");
+    const [isLoading, setIsLoading] = useState(false);
+    const [bookmarks, setBookmarks] = useState<RegistryBookmark[]>([]);
+    const [bookmarkName, setBookmarkName] = useState("");
+
+    const rchain = useMemo(
+        () =>
+            new RChainService(
+                selectedNetwork.url,
+                selectedNetwork.readOnlyUrl,
+                selectedNetwork.adminUrl,
+                selectedNetwork.shardId,
+                selectedNetwork.graphqlUrl,
+                selectedNetwork,
+            ),
+        [selectedNetwork],
+    );
+
+    useEffect(() => {
+        setBookmarks(RegistryBookmarkService.getAll(selectedNetwork.id));
+    }, [selectedNetwork.id]);
+
+    useEffect(() => {
+        setSearch(uri ?? "");
+    }, [uri]);
+
+    useEffect(() => {
+        if (!uri) {
+            setResult(null);
+            setError("");
+            return;
+        }
+
+        let cancelled = false;
+        setIsLoading(true);
+        setError("");
+        lookupRegistryUri(rchain, uri)
+            .then((loaded) => {
+                if (cancelled) return;
+                setResult(loaded);
+                setBookmarkName(
+                    bookmarks.find((bookmark) => bookmark.uri === loaded.uri)
+                        ?.name ?? "",
+                );
+            })
+            .catch((err: any) => {
+                if (cancelled) return;
+                setResult(null);
+                setError(
+                    err instanceof RegistryError
+                        ? err.message
+                        : `Lookup on ${selectedNetwork.name} failed: ${err.message}`,
+                );
+            })
+            .finally(() => {
+                if (!cancelled) setIsLoading(false);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [uri, rchain, selectedNetwork.name]);
+
+    const handleSearch = (event: React.FormEvent) => {
+        event.preventDefault();
+        try {
+            const normalized = normalizeRegistryUri(search);
+            setSearchError("");
+            navigate(registryPath(normalized));
+        } catch (err: any) {
+            setSearchError(err.message);
+        }
+    };
+
+    const handleSearchChange = (event: React.ChangeEvent<HTMLInputElement>) =>
+        setSearch(event.target.value);
+
+    const handleBookmarkNameChange = (
+        event: React.ChangeEvent<HTMLInputElement>,
+    ) => setBookmarkName(event.target.value);
+
+    const handleSaveBookmark = (event: React.FormEvent) => {
+        event.preventDefault();
+        if (!result) return;
+        setBookmarks(
+            RegistryBookmarkService.save(
+                selectedNetwork.id,
+                bookmarkName,
+                result.uri,
+            ),
+        );
+    };
+
+    const handleRemoveBookmark = (bookmarkUri: string) =>
+        setBookmarks(
+            RegistryBookmarkService.remove(selectedNetwork.id, bookmarkUri),
+        );
+
+    const isBookmarked =
+        !!result && bookmarks.some((bookmark) => bookmark.uri === result.uri);
+
+    return (
+        <RegistryContainer>
+            <Card>
+                <CardHeader>
+                    <CardTitle>Registry</CardTitle>
+                </CardHeader>
+                <CardContent>
+                    <InlineForm onSubmit={handleSearch}>
+                        <Input
+                            id="registry-search-input"
+                            className="text-2"
+                            value={search}
+                            onChange={handleSearchChange}
+                            placeholder="rho:id:…"
+                            fullWidth
+                            wrapperStyle={{ marginBottom: 0, flex: 1 }}
+                            style={{ height: "44px" }}
+                        />
+                        <FormButton type="submit" variant="primary">
+                            Look up
+                        </FormButton>
+                    </InlineForm>
+                    {searchError && <Message $isError>{searchError}</Message>}
+
+                    {isLoading && <Message>Loading…</Message>}
+                    {error && <Message $isError>{error}</Message>}
+
+                    {!error && !isLoading && result && (
+                        <>
+                            <ResultUri className="text-2">
+                                {result.uri}
+                            </ResultUri>
+                            <RegistryValueView result={result} />
+                            <InlineForm
+                                onSubmit={handleSaveBookmark}
+                                style={{ marginTop: 16, marginBottom: 0 }}
+                            >
+                                <Input
+                                    id="registry-bookmark-name-input"
+                                    className="text-2"
+                                    value={bookmarkName}
+                                    onChange={handleBookmarkNameChange}
+                                    placeholder="Bookmark name"
+                                    fullWidth
+                                    wrapperStyle={{ marginBottom: 0, flex: 1 }}
+                                    style={{ height: "44px" }}
+                                />
+                                <FormButton type="submit" variant="secondary">
+                                    {isBookmarked
+                                        ? "Rename bookmark"
+                                        : "Save bookmark"}
+                                </FormButton>
+                            </InlineForm>
+                        </>
+                    )}
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Bookmarks · {selectedNetwork.name}</CardTitle>
+                </CardHeader>
+                <CardContent>
+                    <BookmarkList
+                        bookmarks={bookmarks}
+                        onRemove={handleRemoveBookmark}
+                    />
+                </CardContent>
+            </Card>
+        </RegistryContainer>
+    );
+};
@@ -0,0 +1,93 @@
+import React from "react";
+import styled from "styled-components";
+import { isUnbound, RegistryLookupResult } from "services/registry";
+import { formatRhoValue, RhoValue } from "utils/rhoExpr";
+
+const ValueBlock = styled.div`
+    margin-bottom: 12px;
+`;
+
+const ValueType = styled.div`
+    color: ${({ theme }) => theme.text.secondary};
+    margin-bottom: 4px;
+`;
+
+const ValueSource = styled.pre`
+    margin: 0;
+    padding: 12px;
+    border-radius: 8px;
+    border: 1px solid ${({ theme }) => theme.border};
+    font-size: 12px;
+    white-space: pre-wrap;
+    word-break: break-all;
+`;
+
+const Warning = styled.div`
+    color: ${({ theme }) => theme.warning};
+    margin-bottom: 8px;
+`;
+
+const TYPE_LABELS: Record<RhoValue["type"], string> = {
+    nil: "Nil",
+    int: "Integer",
+    string: "String",
+    bool: "Boolean",
+    uri: "URI",
+    bytes: "Byte array",
+    tuple: "Tuple",
+    list: "List",
+    set: "Set",
+    map: "Map",
+    par: "Process",
+    unforgeable: "Unforgeable name",
+};
+
+const describeValue = (value: RhoValue): string =>
+    value.type === "unforgeable"
+        ? `${TYPE_LABELS.unforgeable} (${value.kind}), e.g. a contract bundle`
+        : value.type === "tuple" ||
+            value.type === "list" ||
+            value.type === "set" ||
+            value.type === "map"
+          ? `${TYPE_LABELS[value.type]} of ${value.value.length}`
+          : TYPE_LABELS[value.type];
+
+interface RegistryValueViewProps {
+    result: RegistryLookupResult;
+}
+
+export const RegistryValueView: React.FC<RegistryValueViewProps> = ({
+    result,
+}) => {
+    if (!result.values) {
+        return (
+            <>
+                <Warning className="text-2">
+                    Unable to decode the bound value: {result.decodeError}
+                </Warning>
+                <ValueSource>{JSON.stringify(result.raw, null, 2)}</ValueSource>
+            </>
+        );
+    }
+
+    if (result.values.length === 0 || isUnbound(result)) {
+        return (
+            <p className="text-2">
+                Nothing is bound at this URI on the selected network.
+            </p>
+        );
+    }
+
+    return (
+        <>
+            {result.values.map((value, index) => (
+                <ValueBlock key={index}>
+                    <ValueType className="text-3">
+                        {describeValue(value)}
+                    </ValueType>
+                    <ValueSource>{formatRhoValue(value)}</ValueSource>
+                </ValueBlock>
+            ))}
+        </>
+    );
+};
@@ -0,0 +1 @@
+export { Registry } from "./Registry";
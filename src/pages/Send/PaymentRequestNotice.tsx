@@ -0,0 +1,106 @@
+import React from "react";
+import styled from "styled-components";
+import { Button } from "components";
+import { getTokenDisplayName } from "constants/token";
+import { PaymentRequest } from "utils/paymentUri";
+
+const Notice = styled.div<{ $hasWarnings: boolean }>`
+    border: 2px solid
+        ${({ theme, $hasWarnings }) =>
+            $hasWarnings ? theme.warning : theme.border};
+    border-radius: 8px;
+    padding: 16px;
+    margin-bottom: 24px;
+`;
+
+const Details = styled.dl`
+    display: grid;
+    grid-template-columns: max-content 1fr;
+    gap: 6px 16px;
+    margin: 8px 0 12px;
+
+    dt {
+        color: ${({ theme }) => theme.text.secondary};
+    }
+
+    dd {
+        margin: 0;
+        word-break: break-all;
+    }
+`;
+
+const Warnings = styled.ul`
+    margin: 0 0 12px;
+    padding-left: 20px;
+    color: ${({ theme }) => theme.warning};
+`;
+
+const ButtonRow = styled.div`
+    display: flex;
+    gap: 12px;
+`;
+
+interface PaymentRequestNoticeProps {
+    request: PaymentRequest;
+    // Label shown for the recipient, e.g. a contact name
+    recipientName?: string;
+    warnings: string[];
+    onAccept: () => void;
+    onDismiss: () => void;
+}
+
+// Asks before a scanned or linked payment request fills in the form
+export const PaymentRequestNotice: React.FC<PaymentRequestNoticeProps> = ({
+    request,
+    recipientName,
+    warnings,
+    onAccept,
+    onDismiss,
+}) => (
+    <Notice className="text-2" $hasWarnings={warnings.length > 0}>
+        <strong>Payment request</strong>
+        <Details>
+            <dt>Pay to</dt>
+            <dd>
+                {recipientName || request.label
+                    ? `${recipientName || request.label} (${request.address})`
+                    : request.address}
+            </dd>
+            {request.amount && (
+                <>
+                    <dt>Amount</dt>
+                    <dd>
+                        {request.amount} {getTokenDisplayName()}
+                    </dd>
+                </>
+            )}
+            {request.memo && (
+                <>
+                    <dt>Memo</dt>
+                    <dd>{request.memo}</dd>
+                </>
+            )}
+            {request.expiresAt && (
+                <>
+                    <dt>Expires</dt>
+                    <dd>{new Date(request.expiresAt).toLocaleString()}</dd>
+                </>
+            )}
+        </Details>
+        {warnings.length > 0 && (
+            <Warnings>
+                {warnings.map((warning) => (
+                    <li key={warning}>{warning}</li>
+                ))}
+            </Warnings>
+        )}
+        <ButtonRow>
+            <Button size="small" onClick={onAccept}>
+                {warnings.length > 0 ? "Fill in anyway" : "Fill in"}
+            </Button>
+            <Button size="small" variant="secondary" onClick={onDismiss}>
+                Dismiss
+            </Button>
+        </ButtonRow>
+    </Notice>
+);
@@ -1,11 +1,12 @@
 import React, { useState, useEffect, useRef } from "react";
 import { useSelector, useDispatch } from "react-redux";
-import { useNavigate } from "react-router-dom";
+import { useLocation, useNavigate } from "react-router-dom";
 import styled from "styled-components";
 import QrScanner from "qr-scanner";
 import { AppDispatch, RootState } from "store";
 import {
     sendTransaction,
+    sendTokenTransfer,
     fetchBalance,
     updateAccountBalance,
 } from "store/walletSlice";
@@ -18,9 +19,12 @@ import {
     Input,
     TransactionConfirmationModal,
 } from "components";
-import { getTokenDisplayName } from "../../constants/token";
-import { generateRandomGasFee, getGasFeeAsNumber } from "../../constants/gas";
+import { getTokenDisplayName, TOKEN_CONFIG } from "../../constants/token";
+import { GAS_FEE, getGasFeeAmount } from "../../constants/gas";
+import { Amount } from "utils/amount";
+import { RChainService } from "services/rchain";
 import addressValidation from "utils/AddressValidation";
+import { isWatchOnlyAccount } from "utils/watchOnly";
 import { AccountSelector } from "components/AccountSelector";
 import { AccountSelectorLabelMods } from "components/AccountSelector/AccountSelector";
 import { TextSecondaryBlock } from "styles/sharedStyledComponents";
@@ -33,6 +37,23 @@ import {
     VectorIcon,
 } from "components/Icons";
 import { unlockAccount } from "store/authSlice";
+import { ExplorerLink } from "components/ExplorerLink";
+import { WatchOnlyNotice } from "components/WatchOnlyNotice";
+import { Select } from "components/Select";
+import { ISelectOption } from "components/Select/Select";
+import { useContacts, useTokenBalances } from "hooks/";
+import {
+    getPaymentRequestWarnings,
+    isPaymentUri,
+    parsePaymentUri,
+    PaymentRequest,
+} from "utils/paymentUri";
+import { PaymentRequestNotice } from "./PaymentRequestNotice";
+import {
+    buildTokenTransferTerm,
+    formatTokenAmount,
+    parseTokenAmount,
+} from "services/tokens";
 
 const SendContainer = styled.div`
     max-width: 600px;
@@ -210,6 +231,9 @@ const ButtonGroup = styled.div`
     gap: 8px;
     margin-bottom: 0;
 `;
+// Asset selector value for the native token; custom tokens use their id
+const ASI_ASSET = "asi";
+
 const AccountSelectorWithMarginBottom = styled(AccountSelector)`
     margin-bottom: 36px;
 
@@ -221,6 +245,7 @@ const AccountSelectorWithMarginBottom = styled(AccountSelector)`
 export const Send: React.FC = () => {
     const dispatch = useDispatch<AppDispatch>();
     const navigate = useNavigate();
+    const location = useLocation();
     const { selectedAccount, selectedNetwork, isLoading, error } = useSelector(
         (state: RootState) => state.wallet,
     );
@@ -228,7 +253,14 @@ export const Send: React.FC = () => {
         (state: RootState) => state.auth,
     );
 
-    const [recipient, setRecipient] = useState("");
+    // Prefilled from the address book; payment URIs from links are confirmed first
+    const navigationState = location.state as {
+        recipient?: string;
+        paymentUri?: string;
+    } | null;
+    const [recipient, setRecipient] = useState(
+        navigationState?.recipient ?? "",
+    );
     const [amount, setAmount] = useState("");
     const [password, setPassword] = useState("");
     const [passwordError, setPasswordError] = useState("");
@@ -239,16 +271,185 @@ export const Send: React.FC = () => {
     const [showQRScanner, setShowQRScanner] = useState(false);
     const [scanError, setScanError] = useState("");
     const [showConfirmation, setShowConfirmation] = useState(false);
-    const [estimatedFee, setEstimatedFee] = useState(generateRandomGasFee());
+    const [estimatedFee, setEstimatedFee] = useState<string>(
+        GAS_FEE.TRANSFER,
+    );
     const [copied, setCopied] = useState(false);
+    const [assetId, setAssetId] = useState(ASI_ASSET);
+    const [pendingRequest, setPendingRequest] = useState<PaymentRequest | null>(
+        null,
+    );
+    const [paymentMemo, setPaymentMemo] = useState("");
+    const { contacts, findByAddress } = useContacts();
+    const recipientContact = findByAddress(recipient);
+
+    const parsedFee = Amount.tryParse(estimatedFee);
+    const feeAmount = parsedFee?.isPositive() ? parsedFee : getGasFeeAmount();
+
+    const { tokens, balancesFor, refresh: refreshTokenBalances } =
+        useTokenBalances(selectedAccount ? [selectedAccount.revAddress] : []);
+    const selectedToken = tokens.find((token) => token.id === assetId);
+    const selectedTokenBalance =
+        selectedToken && selectedAccount
+            ? balancesFor(selectedAccount.revAddress).find(
+                  ({ token }) => token.id === selectedToken.id,
+              )?.balance
+            : undefined;
+
+    const assetOptions: ISelectOption[] = [
+        { id: ASI_ASSET, value: ASI_ASSET, label: getTokenDisplayName() },
+        ...tokens.map((token) => ({
+            id: token.id,
+            value: token.id,
+            label: `${token.symbol} · ${token.name}`,
+        })),
+    ];
+
+    // Error for a custom token amount, or "" when it can be sent
+    const validateTokenAmount = (value: string): string => {
+        if (!selectedToken) {
+            return "";
+        }
+        let units: bigint;
+        try {
+            units = parseTokenAmount(value, selectedToken.decimals);
+        } catch (err: any) {
+            return err.message;
+        }
+        if (units <= BigInt(0)) {
+            return "Valid amount is required";
+        }
+        if (
+            selectedTokenBalance !== undefined &&
+            units > BigInt(selectedTokenBalance)
+        ) {
+            return `Insufficient balance. You have ${formatTokenAmount(selectedTokenBalance, selectedToken.decimals)} ${selectedToken.symbol}`;
+        }
+        if (feeAmount.gt(Amount.from(selectedAccount?.balance))) {
+            return `Insufficient ${getTokenDisplayName()} balance for the fee (${feeAmount.toFixed()} ${getTokenDisplayName()})`;
+        }
+        return "";
+    };
 
-    const updateEstimatedFee = () => {
-        setEstimatedFee(generateRandomGasFee());
+    const handleAssetChange = (value: string) => {
+        setAssetId(value);
+        setAmount("");
+        setValidationError("");
+    };
+
+    // Re-estimate the transfer fee against the node once input settles
+    useEffect(() => {
+        if (!selectedAccount || !selectedNetwork?.url?.trim()) {
+            return;
+        }
+
+        const trimmedRecipient = recipient.trim();
+        const estimateRecipient =
+            trimmedRecipient && addressValidation(trimmedRecipient).isValid
+                ? trimmedRecipient
+                : selectedAccount.revAddress;
+        const amountValue = Amount.tryParse(amount);
+        const estimateAmount = amountValue?.isPositive()
+            ? amountValue.toAtomicString()
+            : "0";
+        let tokenUnits = BigInt(1);
+        if (selectedToken) {
+            try {
+                const parsed = parseTokenAmount(
+                    amount,
+                    selectedToken.decimals,
+                );
+                tokenUnits = parsed > tokenUnits ? parsed : tokenUnits;
+            } catch {}
+        }
+
+        let cancelled = false;
+        const timer = setTimeout(async () => {
+            try {
+                const rchain = new RChainService(
+                    selectedNetwork.url,
+                    selectedNetwork.readOnlyUrl,
+                    selectedNetwork.adminUrl,
+                    selectedNetwork.shardId,
+                    selectedNetwork.graphqlUrl,
+                    selectedNetwork,
+                );
+                const estimate = selectedToken
+                    ? await rchain.estimateDeployFee(
+                          buildTokenTransferTerm(
+                              selectedToken,
+                              estimateRecipient,
+                              tokenUnits,
+                          ),
+                      )
+                    : await rchain.estimateTransferFee(
+                          selectedAccount.revAddress,
+                          estimateRecipient,
+                          estimateAmount,
+                      );
+                if (!cancelled) {
+                    setEstimatedFee(estimate.fee);
+                }
+            } catch (error) {
+                console.warn("[Send] Fee estimation failed:", error);
+            }
+        }, 500);
+
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [
+        selectedAccount?.revAddress,
+        selectedNetwork,
+        recipient,
+        amount,
+        selectedToken,
+    ]);
+
+    const applyPaymentRequest = (request: PaymentRequest) => {
+        setPendingRequest(null);
+        setAssetId(ASI_ASSET);
+        handleRecipientChange(request.address);
+        if (request.amount) {
+            if (selectedToken) {
+                setAmount(request.amount);
+                setValidationError("");
+            } else {
+                handleAmountChange(request.amount);
+            }
+        }
+        setPaymentMemo(request.memo ?? "");
+    };
+
+    // Scanned or pasted requests fill in directly unless something needs a look;
+    // requests opened from a link are always confirmed
+    const handlePaymentUri = (uri: string, alwaysConfirm = false) => {
+        let request: PaymentRequest;
+        try {
+            request = parsePaymentUri(uri);
+        } catch (err: any) {
+            setScanError(err.message);
+            setTimeout(() => setScanError(""), 5000);
+            return;
+        }
+        if (
+            alwaysConfirm ||
+            getPaymentRequestWarnings(request, selectedNetwork).length > 0
+        ) {
+            setPendingRequest(request);
+        } else {
+            applyPaymentRequest(request);
+        }
     };
 
     const handleRecipientChange = (value: string) => {
+        if (isPaymentUri(value)) {
+            handlePaymentUri(value);
+            return;
+        }
+
         setRecipient(value);
-        updateEstimatedFee();
 
         if (!value.trim()) {
             setAddressError("");
@@ -270,39 +471,45 @@ export const Send: React.FC = () => {
 
     const handleAmountChange = (value: string) => {
         setAmount(value);
-        updateEstimatedFee();
 
         if (!value.trim()) {
             setValidationError("");
             return;
         }
 
-        const amountValue = parseFloat(value);
-        if (isNaN(amountValue) || amountValue <= 0) {
+        if (selectedToken) {
+            setValidationError(validateTokenAmount(value));
+            return;
+        }
+
+        const amountValue = Amount.tryParse(value);
+        if (!amountValue) {
+            setValidationError(
+                `Enter a number with at most ${TOKEN_CONFIG.DECIMALS} decimal places`,
+            );
+            return;
+        }
+        if (!amountValue.isPositive()) {
             return;
         }
 
-        const balance = parseFloat(selectedAccount?.balance || "0");
+        const balance = Amount.from(selectedAccount?.balance);
 
-        if (amountValue > balance) {
+        if (amountValue.gt(balance)) {
             setValidationError(
-                `Insufficient balance. You have ${balance.toFixed(
-                    8,
-                )} ${getTokenDisplayName()}`,
+                `Insufficient balance. You have ${balance.toFixed()} ${getTokenDisplayName()}`,
             );
             return;
         }
 
-        const totalRequired = amountValue + getGasFeeAsNumber();
-        if (totalRequired > balance) {
-            const maxSendable = Math.max(0, balance - getGasFeeAsNumber());
-            const maxRounded = Math.floor(maxSendable * 100000000) / 100000000;
+        const totalRequired = amountValue.add(feeAmount);
+        if (totalRequired.gt(balance)) {
+            const maxSendable = Amount.max(
+                Amount.zero,
+                balance.subtract(feeAmount),
+            );
             setValidationError(
-                `Amount + fee (${totalRequired.toFixed(
-                    8,
-                )}) exceeds balance. Max: ${maxRounded.toFixed(
-                    8,
-                )} ${getTokenDisplayName()}`,
+                `Amount + fee (${totalRequired.toFixed()}) exceeds balance. Max: ${maxSendable.toFixed()} ${getTokenDisplayName()}`,
             );
             return;
         }
@@ -310,6 +517,12 @@ export const Send: React.FC = () => {
         setValidationError("");
     };
 
+    useEffect(() => {
+        if (navigationState?.paymentUri) {
+            handlePaymentUri(navigationState.paymentUri, true);
+        }
+    }, [navigationState?.paymentUri]);
+
     const videoRef = useRef<HTMLVideoElement>(null);
     const qrScannerRef = useRef<QrScanner | null>(null);
 
@@ -463,7 +676,9 @@ export const Send: React.FC = () => {
     const isAccountUnlocked =
         selectedAccount &&
         unlockedAccounts.some((a) => a.id === selectedAccount.id);
-    const needsPassword = !isAccountUnlocked || requirePasswordForTransaction;
+    const isWatchOnly = isWatchOnlyAccount(selectedAccount);
+    const needsPassword =
+        !isWatchOnly && (!isAccountUnlocked || requirePasswordForTransaction);
 
     if (!selectedAccount) {
         return (
@@ -514,36 +729,43 @@ export const Send: React.FC = () => {
             return false;
         }
 
-        if (
-            !amount.trim() ||
-            isNaN(parseFloat(amount)) ||
-            parseFloat(amount) <= 0
-        ) {
+        if (selectedToken) {
+            const tokenError = validateTokenAmount(amount);
+            if (tokenError) {
+                setValidationError(tokenError);
+                return false;
+            }
+            if (needsPassword && !password.trim()) {
+                setValidationError("Password is required");
+                return false;
+            }
+            setValidationError("");
+            return true;
+        }
+
+        const amountToSend = Amount.tryParse(amount);
+        if (!amountToSend?.isPositive()) {
             setValidationError("Valid amount is required");
             return false;
         }
 
-        const balance = parseFloat(selectedAccount?.balance || "0");
-        const amountToSend = parseFloat(amount);
+        const balance = Amount.from(selectedAccount?.balance);
 
-        if (amountToSend > balance) {
+        if (amountToSend.gt(balance)) {
             setValidationError(
-                `Insufficient balance. You have ${balance.toFixed(
-                    8,
-                )} ${getTokenDisplayName()}`,
+                `Insufficient balance. You have ${balance.toFixed()} ${getTokenDisplayName()}`,
             );
             return false;
         }
 
-        const totalRequired = amountToSend + getGasFeeAsNumber();
-        if (totalRequired > balance) {
-            const maxSendable = Math.max(0, balance - getGasFeeAsNumber());
+        const totalRequired = amountToSend.add(feeAmount);
+        if (totalRequired.gt(balance)) {
+            const maxSendable = Amount.max(
+                Amount.zero,
+                balance.subtract(feeAmount),
+            );
             setValidationError(
-                `Insufficient balance for transaction + fee. Maximum sendable: ${maxSendable.toFixed(
-                    8,
-                )} ${getTokenDisplayName()} (${balance.toFixed(
-                    8,
-                )} - ${getGasFeeAsNumber().toFixed(8)} fee)`,
+                `Insufficient balance for transaction + fee. Maximum sendable: ${maxSendable.toFixed()} ${getTokenDisplayName()} (${balance.toFixed()} - ${feeAmount.toFixed()} fee)`,
             );
             return false;
         }
@@ -597,6 +819,28 @@ export const Send: React.FC = () => {
         setTxHash("");
         setIsWaitingForBalance(false);
 
+        if (selectedToken) {
+            const resultAction = await dispatch(
+                sendTokenTransfer({
+                    from: selectedAccount,
+                    to: recipient,
+                    token: selectedToken,
+                    amount,
+                    password: passwordFromModal,
+                    network: selectedNetwork,
+                }),
+            );
+            if (sendTokenTransfer.fulfilled.match(resultAction)) {
+                setTxHash(resultAction.payload.deployId);
+                setRecipient("");
+                setAmount("");
+                handlePasswordChange("");
+                // Token balances change once the deploy is in a block
+                setTimeout(refreshTokenBalances, 5000);
+            }
+            return;
+        }
+
         try {
             const resultAction = await dispatch(
                 sendTransaction({
@@ -670,19 +914,18 @@ export const Send: React.FC = () => {
                                     console.info(
                                         "[Send] Balance update timeout - transaction may still be processing",
                                     );
-                                    const sentAmount = parseFloat(amount);
-                                    const fee = getGasFeeAsNumber();
-                                    const expectedNewBalance =
-                                        parseFloat(initialBalance) -
-                                        sentAmount -
-                                        fee;
-
-                                    if (expectedNewBalance >= 0) {
+                                    const expectedNewBalance = Amount.from(
+                                        initialBalance,
+                                    )
+                                        .subtract(amount)
+                                        .subtract(feeAmount);
+
+                                    if (!expectedNewBalance.isNegative()) {
                                         dispatch(
                                             updateAccountBalance({
                                                 accountId: selectedAccount.id,
                                                 balance:
-                                                    expectedNewBalance.toString(),
+                                                    expectedNewBalance.toFixed(),
                                             }),
                                         );
                                     }
@@ -693,16 +936,17 @@ export const Send: React.FC = () => {
                                 "[Send] Balance fetch failed, but transaction was sent successfully",
                             );
 
-                            const sentAmount = parseFloat(amount);
-                            const fee = getGasFeeAsNumber();
-                            const expectedNewBalance =
-                                parseFloat(initialBalance) - sentAmount - fee;
+                            const expectedNewBalance = Amount.from(
+                                initialBalance,
+                            )
+                                .subtract(amount)
+                                .subtract(feeAmount);
 
-                            if (expectedNewBalance >= 0) {
+                            if (!expectedNewBalance.isNegative()) {
                                 dispatch(
                                     updateAccountBalance({
                                         accountId: selectedAccount.id,
-                                        balance: expectedNewBalance.toString(),
+                                        balance: expectedNewBalance.toFixed(),
                                     }),
                                 );
                             }
@@ -730,8 +974,11 @@ export const Send: React.FC = () => {
     };
 
     const handleClearAll = (): void => {
+        setAssetId(ASI_ASSET);
         setRecipient("");
         setAmount("");
+        setPaymentMemo("");
+        setPendingRequest(null);
         setPassword("");
         setPasswordError("");
         setValidationError("");
@@ -741,19 +988,27 @@ export const Send: React.FC = () => {
         setScanError("");
         setShowConfirmation(false);
         setCopied(false);
-        setEstimatedFee(generateRandomGasFee());
     };
 
     const maxAmount = () => {
-        const balance = parseFloat(selectedAccount?.balance || "0");
-        const max = Math.max(0, balance - getGasFeeAsNumber());
+        if (selectedToken) {
+            const max = formatTokenAmount(
+                selectedTokenBalance ?? "0",
+                selectedToken.decimals,
+            );
+            setAmount(max);
+            setValidationError(validateTokenAmount(max));
+            return;
+        }
+
+        const balance = Amount.from(selectedAccount?.balance);
+        const max = balance.subtract(feeAmount);
 
-        if (max <= 0) {
+        if (!max.isPositive()) {
             setValidationError("Insufficient balance to cover gas fees");
             setAmount("0");
         } else {
-            const maxRounded = Math.floor(max * 100000000) / 100000000;
-            setAmount(maxRounded.toFixed(8));
+            setAmount(max.toFixed());
             setValidationError("");
         }
     };
@@ -762,9 +1017,31 @@ export const Send: React.FC = () => {
         <SendContainer>
             <Card style={{ paddingBottom: "36px" }}>
                 <CardHeader>
-                    <CardTitle>Send ASI</CardTitle>
+                    <CardTitle>
+                        Send {selectedToken?.symbol ?? getTokenDisplayName()}
+                    </CardTitle>
                 </CardHeader>
                 <CardContent>
+                    {isWatchOnly && (
+                        <WatchOnlyNotice
+                            accountName={selectedAccount.name}
+                            action="send funds"
+                        />
+                    )}
+                    {pendingRequest && (
+                        <PaymentRequestNotice
+                            request={pendingRequest}
+                            recipientName={
+                                findByAddress(pendingRequest.address)?.name
+                            }
+                            warnings={getPaymentRequestWarnings(
+                                pendingRequest,
+                                selectedNetwork,
+                            )}
+                            onAccept={() => applyPaymentRequest(pendingRequest)}
+                            onDismiss={() => setPendingRequest(null)}
+                        />
+                    )}
                     {txHash && !isWaitingForBalance && (
                         <SuccessMessage>
                             <div
@@ -781,7 +1058,12 @@ export const Send: React.FC = () => {
                                         Transaction completed successfully!
                                     </div>
                                     <div className="deploy-id">
-                                        Deploy ID: {txHash}
+                                        Deploy ID:{" "}
+                                        <ExplorerLink
+                                            kind="deploy"
+                                            value={txHash}
+                                            full
+                                        />
                                     </div>
                                 </div>
                                 <Button
@@ -857,7 +1139,12 @@ export const Send: React.FC = () => {
                                     wordBreak: "break-all",
                                 }}
                             >
-                                Deploy ID: {txHash}
+                                Deploy ID:{" "}
+                                <ExplorerLink
+                                    kind="deploy"
+                                    value={txHash}
+                                    full
+                                />
                             </div>
                         </LoadingMessage>
                     )}
@@ -905,6 +1192,8 @@ export const Send: React.FC = () => {
                                         handleRecipientChange(e.target.value)
                                     }
                                     onPaste={handleInputPaste}
+                                    list="send-recipient-contacts"
+                                    autoComplete="off"
                                     placeholder={`Enter ${getTokenDisplayName()} address or paste QR code image`}
                                     wrapperStyle={{
                                         marginBottom: "0",
@@ -941,6 +1230,35 @@ export const Send: React.FC = () => {
                                 </Button>
                             </ButtonGroup>
                         </InputWithButton>
+                        <datalist id="send-recipient-contacts">
+                            {contacts.map((contact) => (
+                                <option
+                                    key={contact.id}
+                                    value={contact.revAddress}
+                                    label={contact.name}
+                                />
+                            ))}
+                        </datalist>
+                        {recipientContact && !addressError && (
+                            <TextSecondaryBlock
+                                style={{
+                                    marginTop: "8px",
+                                    fontSize: "14px",
+                                }}
+                            >
+                                Sending to {recipientContact.name}
+                            </TextSecondaryBlock>
+                        )}
+                        {paymentMemo && (
+                            <TextSecondaryBlock
+                                style={{
+                                    marginTop: "8px",
+                                    fontSize: "14px",
+                                }}
+                            >
+                                Payment request memo: {paymentMemo}
+                            </TextSecondaryBlock>
+                        )}
                         {addressError && (
                             <div
                                 style={{
@@ -974,6 +1292,41 @@ export const Send: React.FC = () => {
                         </TextSecondaryBlock>
                     </RecipientAddressFormGroup>
 
+                    {tokens.length > 0 && (
+                        <FormGroup>
+                            <label
+                                style={{
+                                    display: "block",
+                                    marginBottom: "4px",
+                                    fontWeight: "500",
+                                }}
+                            >
+                                Asset
+                            </label>
+                            <Select
+                                id="send-asset-select"
+                                value={assetId}
+                                onChange={handleAssetChange}
+                                options={assetOptions}
+                            />
+                            {selectedToken && (
+                                <TextSecondaryBlock
+                                    style={{
+                                        marginTop: "4px",
+                                        fontSize: "12px",
+                                    }}
+                                >
+                                    Balance:{" "}
+                                    {selectedTokenBalance === undefined
+                                        ? "loading…"
+                                        : `${formatTokenAmount(selectedTokenBalance, selectedToken.decimals)} ${selectedToken.symbol}`}
+                                    . The fee is paid in{" "}
+                                    {getTokenDisplayName()}.
+                                </TextSecondaryBlock>
+                            )}
+                        </FormGroup>
+                    )}
+
                     <InputWithButton
                         className="input-with-button"
                         style={{ marginBottom: "36px" }}
@@ -999,9 +1352,20 @@ export const Send: React.FC = () => {
                             value={amount}
                             onChange={(e) => handleAmountChange(e.target.value)}
                             placeholder="Enter amount"
-                            step="0.00000001"
+                            step={
+                                selectedToken
+                                    ? formatTokenAmount(
+                                          BigInt(1),
+                                          selectedToken.decimals,
+                                      )
+                                    : "0.00000001"
+                            }
                             min="0"
-                            max={selectedAccount.balance}
+                            max={
+                                selectedToken
+                                    ? undefined
+                                    : selectedAccount.balance
+                            }
                             copyable
                             CustomCopyIcon={ContentPasteIcon}
                         />
@@ -1054,6 +1418,7 @@ export const Send: React.FC = () => {
                             onClick={handleSendClick}
                             loading={isLoading}
                             disabled={
+                                isWatchOnly ||
                                 !recipient ||
                                 !amount ||
                                 (needsPassword && !password) ||
@@ -1136,6 +1501,7 @@ export const Send: React.FC = () => {
                 senderAddress={selectedAccount?.revAddress || ""}
                 senderName={selectedAccount?.name || ""}
                 estimatedFee={estimatedFee}
+                tokenSymbol={selectedToken?.symbol}
                 loading={isLoading}
                 requirePasswordForTransaction={requirePasswordForTransaction}
             />
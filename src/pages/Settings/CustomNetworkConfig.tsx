@@ -10,10 +10,21 @@ import {
     CardContent,
     Button,
     Input,
+    Switch,
 } from "components";
 import { Network } from "types/wallet";
 import { FileIcon } from "components/Icons";
 import { CustomNetworkCard } from "components/CustomNetworkCard";
+import { EndpointListEditor } from "components/EndpointListEditor";
+import { RChainService } from "services/rchain";
+import { NodeHealth } from "services/nodePool";
+import {
+    isVerificationFor,
+    NetworkVerification,
+    NetworkVerificationTarget,
+    verifyNetwork,
+} from "services/networkVerification";
+import { NetworkStatusSummary } from "components/NetworkStatusSummary";
 
 const ConfigSection = styled.div`
     margin-bottom: 36px;
@@ -144,6 +155,18 @@ const InlineButton = styled(Button)`
     height: 44px;
 `;
 
+const BackupEndpoints = styled.div`
+    margin-top: 16px;
+`;
+
+const DevnetToggle = styled.div`
+    display: flex;
+    align-items: center;
+    gap: 12px;
+    margin-top: 16px;
+    color: ${({ theme }) => theme.text.secondary};
+`;
+
 const initialNetworkSettings = {
     host: "localhost",
     validatorHost: "localhost",
@@ -183,6 +206,16 @@ export const CustomNetworkConfig: React.FC = () => {
         initialNetworkSettings.readOnlyGrpcPort,
     );
 
+    const [validatorUrls, setValidatorUrls] = useState<string[]>([]);
+    const [readOnlyUrls, setReadOnlyUrls] = useState<string[]>([]);
+    const [adminUrl, setAdminUrl] = useState("");
+    const [devnet, setDevnet] = useState(false);
+    const [nodeHealth, setNodeHealth] = useState<NodeHealth[]>([]);
+    const [isCheckingNodes, setIsCheckingNodes] = useState<boolean>(false);
+    const [verification, setVerification] =
+        useState<NetworkVerification | null>(null);
+    const [isSaving, setIsSaving] = useState<boolean>(false);
+
     const [activeCustomId, setActiveCustomId] = useState<string>("custom");
 
     const customNetworks = networks.filter((n) => n.id?.startsWith("custom"));
@@ -205,14 +238,54 @@ export const CustomNetworkConfig: React.FC = () => {
                 setReadOnlyHttpPort(readOnlyUrl.port || "40453");
             } catch {}
         }
+        setValidatorUrls(existing.validatorUrls || []);
+        setReadOnlyUrls(existing.readOnlyUrls || []);
+        setAdminUrl(existing.adminUrl || "");
+        setDevnet(!!existing.devnet);
     }, [activeCustomId, customNetworks]);
 
-    const handleSave = () => {
+    const validatorGrpcUrl = `${validatorHost}:${validatorGrpcPort}`;
+    const validatorHttpUrl = `http://${validatorHost}:${validatorHttpPort}`;
+    const readOnlyGrpcUrl = `${readOnlyHost}:${readOnlyGrpcPort}`;
+    const readOnlyHttpUrl = `http://${readOnlyHost}:${readOnlyHttpPort}`;
+
+    const existingNetwork = customNetworks.find((n) => n.id === activeCustomId);
+    const verificationTarget: NetworkVerificationTarget = {
+        validatorUrl: validatorHttpUrl,
+        readOnlyUrl: readOnlyHttpUrl,
+        graphqlUrl: existingNetwork?.graphqlUrl,
+    };
+    const hasCurrentWarnings =
+        isVerificationFor(verification, verificationTarget) &&
+        verification.warnings.length > 0;
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        let result = verification;
+        try {
+            if (!isVerificationFor(result, verificationTarget)) {
+                result = await verifyNetwork(verificationTarget);
+                setVerification(result);
+                // Show fresh warnings first; saving again keeps this result
+                if (result.warnings.length > 0) {
+                    return;
+                }
+            }
+        } finally {
+            setIsSaving(false);
+        }
+
         const data: Network = {
             name: networkName || "Custom Network",
             id: activeCustomId || "custom",
             url: `http://${validatorHost}:${validatorHttpPort}`,
             readOnlyUrl: `http://${readOnlyHost}:${readOnlyHttpPort}`,
+            graphqlUrl: existingNetwork?.graphqlUrl,
+            shardId: result?.shardId ?? existingNetwork?.shardId ?? "root",
+            adminUrl: adminUrl.trim() || undefined,
+            devnet: !!adminUrl.trim() && devnet,
+            validatorUrls,
+            readOnlyUrls,
         };
 
         const exists = customNetworks.some((n) => n.id === data.id);
@@ -231,6 +304,12 @@ export const CustomNetworkConfig: React.FC = () => {
         setReadOnlyHost("localhost");
         setReadOnlyHttpPort("40453");
         setReadOnlyGrpcPort("40451");
+        setValidatorUrls([]);
+        setReadOnlyUrls([]);
+        setAdminUrl("");
+        setDevnet(false);
+        setNodeHealth([]);
+        setVerification(null);
         setActiveCustomId("custom");
     };
 
@@ -242,6 +321,36 @@ export const CustomNetworkConfig: React.FC = () => {
         setReadOnlyHost(initialNetworkSettings.readOnlyHost);
         setReadOnlyHttpPort(initialNetworkSettings.readOnlyHttpPort);
         setReadOnlyGrpcPort(initialNetworkSettings.readOnlyGrpcPort);
+        setValidatorUrls([]);
+        setReadOnlyUrls([]);
+        setAdminUrl("");
+        setDevnet(false);
+        setNodeHealth([]);
+        setVerification(null);
+    };
+
+    const handleCheckNodes = async () => {
+        setIsCheckingNodes(true);
+        try {
+            const rchain = new RChainService(
+                validatorHttpUrl,
+                readOnlyHttpUrl,
+                undefined,
+                existingNetwork?.shardId || "root",
+                undefined,
+                { validatorUrls, readOnlyUrls },
+            );
+            const [{ validator, readOnly }, result] = await Promise.all([
+                rchain.getNodeHealth(true),
+                verifyNetwork(verificationTarget),
+            ]);
+            setNodeHealth([...validator, ...readOnly]);
+            setVerification(result);
+        } catch (error) {
+            console.error("Failed to check node health:", error);
+        } finally {
+            setIsCheckingNodes(false);
+        }
     };
 
     const handleAfterCustomNetworkDelete = (id: string) => {
@@ -251,11 +360,6 @@ export const CustomNetworkConfig: React.FC = () => {
         }
     };
 
-    const validatorGrpcUrl = `${validatorHost}:${validatorGrpcPort}`;
-    const validatorHttpUrl = `http://${validatorHost}:${validatorHttpPort}`;
-    const readOnlyGrpcUrl = `${readOnlyHost}:${readOnlyGrpcPort}`;
-    const readOnlyHttpUrl = `http://${readOnlyHost}:${readOnlyHttpPort}`;
-
     return (
         <Fragment>
             <Card style={{ marginBottom: "43px" }}>
@@ -373,6 +477,19 @@ export const CustomNetworkConfig: React.FC = () => {
                                 HTTP: {validatorHttpUrl}
                             </LastLink>
                         </DirectLinks>
+
+                        <BackupEndpoints>
+                            <Label>
+                                <h4>Backup validator endpoints:</h4>
+                            </Label>
+                            <EndpointListEditor
+                                idPrefix="network-validator-backup"
+                                urls={validatorUrls}
+                                onChange={setValidatorUrls}
+                                health={nodeHealth}
+                                placeholder="http://validator2.example.com:40403"
+                            />
+                        </BackupEndpoints>
                     </ConfigSection>
 
                     <ConfigSection>
@@ -445,13 +562,67 @@ export const CustomNetworkConfig: React.FC = () => {
                                 HTTP: {readOnlyHttpUrl}
                             </Link>
                         </DirectLinks>
+
+                        <BackupEndpoints>
+                            <Label>
+                                <h4>Backup read-only endpoints:</h4>
+                            </Label>
+                            <EndpointListEditor
+                                idPrefix="network-readonly-backup"
+                                urls={readOnlyUrls}
+                                onChange={setReadOnlyUrls}
+                                health={nodeHealth}
+                                placeholder="http://observer2.example.com:40453"
+                            />
+                        </BackupEndpoints>
                     </ConfigSection>
 
+                    <ConfigSection>
+                        <ConfigTitle>Admin Node (optional)</ConfigTitle>
+                        <Label>
+                            <h4>Admin HTTP URL:</h4>
+                        </Label>
+                        <InlineInput
+                            id="network-admin-url-input"
+                            className="network-admin-url-input text-2"
+                            value={adminUrl}
+                            onChange={(
+                                e: React.ChangeEvent<HTMLInputElement>,
+                            ) => setAdminUrl(e.target.value)}
+                            placeholder="http://localhost:40405"
+                        />
+                        {adminUrl.trim() && (
+                            <DevnetToggle className="text-2">
+                                <Switch checked={devnet} onChange={setDevnet} />
+                                Devnet: propose a block after every deploy
+                            </DevnetToggle>
+                        )}
+                    </ConfigSection>
+
+                    {verification && (
+                        <NetworkStatusSummary verification={verification} />
+                    )}
+
                     <ActionButtons>
-                        <InlineButton variant="primary" onClick={handleSave}>
-                            <h3>Save Custom Network</h3>
+                        <InlineButton
+                            variant="primary"
+                            onClick={handleSave}
+                            loading={isSaving}
+                        >
+                            <h3>
+                                {hasCurrentWarnings
+                                    ? "Save anyway"
+                                    : "Save Custom Network"}
+                            </h3>
                             <FileIcon />
                         </InlineButton>
+                        <InlineButton
+                            variant="secondary"
+                            onClick={handleCheckNodes}
+                            loading={isCheckingNodes}
+                        >
+                            <h3>Check nodes</h3>
+                        </InlineButton>
                         <InlineButton
                             variant="secondary"
                             onClick={handleRestoreToDefault}
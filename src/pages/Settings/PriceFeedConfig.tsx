@@ -0,0 +1,284 @@
+import React, { useState } from "react";
+import styled from "styled-components";
+import {
+    Card,
+    CardHeader,
+    CardTitle,
+    CardContent,
+    Button,
+    Input,
+} from "components";
+import { AdaptiveSelect } from "components/Select";
+import {
+    FIAT_CURRENCIES,
+    FiatCurrency,
+    HttpJsonPriceProvider,
+    PriceFeedConfig as PriceFeedSettings,
+    PriceFeedService,
+    StaticPriceProvider,
+    formatFiat,
+} from "services/priceFeed";
+import { getTokenDisplayName } from "constants/token";
+
+const FormRow = styled.div`
+    display: grid;
+    grid-template-columns: 1fr 1fr;
+    gap: 16px;
+    margin-bottom: 16px;
+
+    @media (max-width: 768px) {
+        display: block;
+    }
+`;
+
+const FieldLabel = styled.label`
+    display: block;
+    margin-bottom: 8px;
+`;
+
+const Message = styled.div<{ $isError?: boolean }>`
+    color: ${({ theme, $isError }) =>
+        $isError ? theme.error : theme.text.secondary};
+    margin-bottom: 16px;
+    word-break: break-word;
+`;
+
+const ActionButtons = styled.div`
+    display: flex;
+    gap: 12px;
+    justify-content: center;
+`;
+
+const currencyOptions = [
+    { id: "off", value: "off", label: "Off" },
+    ...FIAT_CURRENCIES.map((currency) => ({
+        id: currency,
+        value: currency,
+        label: currency,
+    })),
+];
+
+const providerOptions = [
+    { id: "http", value: "http", label: "HTTP JSON" },
+    { id: "static", value: "static", label: "Static prices" },
+];
+
+const toPriceInput = (price: number | undefined): string =>
+    price === undefined ? "" : String(price);
+
+export const PriceFeedConfig: React.FC = () => {
+    const [config, setConfig] = useState<PriceFeedSettings>(() =>
+        PriceFeedService.getConfig(),
+    );
+    const [staticPrices, setStaticPrices] = useState<
+        Record<FiatCurrency, string>
+    >(() => ({
+        USD: toPriceInput(config.staticPrices.USD),
+        EUR: toPriceInput(config.staticPrices.EUR),
+    }));
+    const [message, setMessage] = useState("");
+    const [isError, setIsError] = useState(false);
+    const [isTesting, setIsTesting] = useState(false);
+
+    const showMessage = (text: string, error = false) => {
+        setMessage(text);
+        setIsError(error);
+    };
+
+    const handleHttpChange =
+        (field: keyof PriceFeedSettings["http"]) =>
+        (event: React.ChangeEvent<HTMLInputElement>) => {
+            setConfig({
+                ...config,
+                http: { ...config.http, [field]: event.target.value },
+            });
+            setMessage("");
+        };
+
+    const handleStaticPriceChange =
+        (currency: FiatCurrency) =>
+        (event: React.ChangeEvent<HTMLInputElement>) => {
+            setStaticPrices({
+                ...staticPrices,
+                [currency]: event.target.value,
+            });
+            setMessage("");
+        };
+
+    // Blank fields are left unset; anything else must be a non-negative number
+    const buildConfig = (): PriceFeedSettings | null => {
+        const prices: PriceFeedSettings["staticPrices"] = {};
+        for (const currency of FIAT_CURRENCIES) {
+            const input = staticPrices[currency].trim();
+            if (!input) continue;
+            const price = Number(input);
+            if (!isFinite(price) || price < 0) {
+                showMessage(`Invalid ${currency} price`, true);
+                return null;
+            }
+            prices[currency] = price;
+        }
+        if (config.provider === "http" && !config.http.url.trim()) {
+            showMessage("Enter the price URL", true);
+            return null;
+        }
+        return { ...config, staticPrices: prices };
+    };
+
+    const handleTest = async () => {
+        const draft = buildConfig();
+        if (!draft) return;
+        const currency = draft.currency ?? "USD";
+        const provider =
+            draft.provider === "static"
+                ? new StaticPriceProvider(draft.staticPrices)
+                : new HttpJsonPriceProvider(draft.http);
+
+        setIsTesting(true);
+        try {
+            const quote = await provider.getPrice(currency);
+            showMessage(
+                `1 ${getTokenDisplayName()} = ${formatFiat(quote.price, currency)}`,
+            );
+        } catch (err: any) {
+            showMessage(err.message, true);
+        } finally {
+            setIsTesting(false);
+        }
+    };
+
+    const handleSave = () => {
+        const draft = buildConfig();
+        if (!draft) return;
+        PriceFeedService.saveConfig(draft);
+        showMessage(
+            draft.currency
+                ? `Showing values in ${draft.currency}`
+                : "Fiat values are off",
+        );
+    };
+
+    return (
+        <Card style={{ marginTop: "24px" }}>
+            <CardHeader>
+                <CardTitle>Fiat Prices</CardTitle>
+            </CardHeader>
+            <CardContent>
+                <Message className="text-2">
+                    Shows balances and transactions in USD or EUR. While the
+                    display currency is Off, prices are only requested by Test.
+                </Message>
+
+                <FormRow>
+                    <div>
+                        <FieldLabel className="text-2">
+                            Display currency
+                        </FieldLabel>
+                        <AdaptiveSelect
+                            id="price-feed-currency-select"
+                            value={config.currency ?? "off"}
+                            onChange={(value) =>
+                                setConfig({
+                                    ...config,
+                                    currency:
+                                        value === "off"
+                                            ? null
+                                            : (value as FiatCurrency),
+                                })
+                            }
+                            options={currencyOptions}
+                        />
+                    </div>
+                    <div>
+                        <FieldLabel className="text-2">Price source</FieldLabel>
+                        <AdaptiveSelect
+                            id="price-feed-provider-select"
+                            value={config.provider}
+                            onChange={(value) =>
+                                setConfig({
+                                    ...config,
+                                    provider:
+                                        value as PriceFeedSettings["provider"],
+                                })
+                            }
+                            options={providerOptions}
+                        />
+                    </div>
+                </FormRow>
+
+                {config.provider === "http" ? (
+                    <>
+                        <Message className="text-3">
+                            URLs and paths may use {"{currency}"}; history URLs
+                            also {"{unix}"}, {"{yyyy}"}, {"{mm}"} and {"{dd}"}.
+                            Paths are dot-separated keys into the JSON response.
+                        </Message>
+                        <Input
+                            id="price-feed-url-input"
+                            className="text-2"
+                            label="Price URL"
+                            value={config.http.url}
+                            onChange={handleHttpChange("url")}
+                            fullWidth
+                        />
+                        <Input
+                            id="price-feed-path-input"
+                            className="text-2"
+                            label="Price path"
+                            value={config.http.pricePath}
+                            onChange={handleHttpChange("pricePath")}
+                            fullWidth
+                        />
+                        <Input
+                            id="price-feed-history-url-input"
+                            className="text-2"
+                            label="Historical price URL (optional)"
+                            value={config.http.historyUrl ?? ""}
+                            onChange={handleHttpChange("historyUrl")}
+                            fullWidth
+                        />
+                        <Input
+                            id="price-feed-history-path-input"
+                            className="text-2"
+                            label="Historical price path (optional)"
+                            value={config.http.historyPricePath ?? ""}
+                            onChange={handleHttpChange("historyPricePath")}
+                            fullWidth
+                        />
+                    </>
+                ) : (
+                    <FormRow>
+                        {FIAT_CURRENCIES.map((currency) => (
+                            <Input
+                                key={currency}
+                                id={`price-feed-static-${currency.toLowerCase()}-input`}
+                                className="text-2"
+                                label={`${currency} per ${getTokenDisplayName()}`}
+                                type="number"
+                                min="0"
+                                value={staticPrices[currency]}
+                                onChange={handleStaticPriceChange(currency)}
+                            />
+                        ))}
+                    </FormRow>
+                )}
+
+                {message && <Message $isError={isError}>{message}</Message>}
+
+                <ActionButtons>
+                    <Button
+                        id="price-feed-test-button"
+                        variant="secondary"
+                        onClick={handleTest}
+                        loading={isTesting}
+                    >
+                        Test
+                    </Button>
+                    <Button id="price-feed-save-button" onClick={handleSave}>
+                        Save
+                    </Button>
+                </ActionButtons>
+            </CardContent>
+        </Card>
+    );
+};
@@ -4,6 +4,8 @@ import styled from "styled-components";
 import { RootState } from "store";
 import { PrivateKeyDisplay, PasswordModal } from "components";
 import { CustomNetworkConfig } from "./CustomNetworkConfig";
+import { TokenRegistryConfig } from "./TokenRegistryConfig";
+import { PriceFeedConfig } from "./PriceFeedConfig";
 import { SecureStorage } from "services/secureStorage";
 
 const SettingsContainer = styled.div`
@@ -49,6 +51,8 @@ export const Settings: React.FC = () => {
     return (
         <SettingsContainer>
             <CustomNetworkConfig />
+            <TokenRegistryConfig />
+            <PriceFeedConfig />
 
             {/* Password Modal for Private Key */}
             {showPasswordModal && selectedAccountForPrivateKey && (
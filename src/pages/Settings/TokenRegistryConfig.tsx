@@ -0,0 +1,232 @@
+import React, { useEffect, useState } from "react";
+import styled from "styled-components";
+import { useSelector } from "react-redux";
+import { RootState } from "store";
+import {
+    Card,
+    CardHeader,
+    CardTitle,
+    CardContent,
+    Button,
+    Input,
+} from "components";
+import { RegistryLink } from "components/RegistryLink";
+import { RChainService } from "services/rchain";
+import TokenRegistryService, { NewCustomToken } from "services/tokenRegistry";
+import { fetchTokenBalances } from "services/tokens";
+import { CustomToken } from "types/wallet";
+
+const FormRow = styled.div`
+    display: grid;
+    grid-template-columns: 2fr 1fr 1fr;
+    gap: 16px;
+
+    @media (max-width: 768px) {
+        display: block;
+    }
+`;
+
+const TokenList = styled.ul`
+    list-style: none;
+    margin: 0 0 24px;
+    padding: 0;
+`;
+
+const TokenItem = styled.li`
+    display: flex;
+    justify-content: space-between;
+    align-items: center;
+    gap: 12px;
+    padding: 8px 0;
+    border-bottom: 1px solid ${({ theme }) => theme.border};
+`;
+
+const TokenDetails = styled.div`
+    min-width: 0;
+`;
+
+const Message = styled.div<{ $isError?: boolean }>`
+    color: ${({ theme, $isError }) =>
+        $isError ? theme.error : theme.text.secondary};
+    margin-bottom: 16px;
+    word-break: break-word;
+`;
+
+const ActionButtons = styled.div`
+    display: flex;
+    gap: 12px;
+    justify-content: center;
+`;
+
+export const TokenRegistryConfig: React.FC = () => {
+    const { selectedNetwork, selectedAccount } = useSelector(
+        (state: RootState) => state.wallet,
+    );
+
+    const [tokens, setTokens] = useState<CustomToken[]>([]);
+    const [name, setName] = useState("");
+    const [symbol, setSymbol] = useState("");
+    const [decimals, setDecimals] = useState("8");
+    const [registryUri, setRegistryUri] = useState("");
+    const [error, setError] = useState("");
+    const [checkFailed, setCheckFailed] = useState(false);
+    const [isChecking, setIsChecking] = useState(false);
+
+    useEffect(() => {
+        setTokens(TokenRegistryService.getAll(selectedNetwork.id));
+    }, [selectedNetwork.id]);
+
+    const resetForm = () => {
+        setName("");
+        setSymbol("");
+        setDecimals("8");
+        setRegistryUri("");
+        setError("");
+        setCheckFailed(false);
+    };
+
+    const handleFieldChange =
+        (setter: (value: string) => void) =>
+        (event: React.ChangeEvent<HTMLInputElement>) => {
+            setter(event.target.value);
+            setCheckFailed(false);
+        };
+
+    // The contract is queried once before saving; a failed query can be overridden
+    const handleAdd = async () => {
+        let token: NewCustomToken;
+        try {
+            token = TokenRegistryService.validate({
+                networkId: selectedNetwork.id,
+                name,
+                symbol,
+                decimals: Number(decimals),
+                registryUri,
+            });
+        } catch (err: any) {
+            setError(err.message);
+            return;
+        }
+
+        if (!checkFailed && selectedAccount) {
+            setIsChecking(true);
+            try {
+                const rchain = new RChainService(
+                    selectedNetwork.url,
+                    selectedNetwork.readOnlyUrl,
+                    selectedNetwork.adminUrl,
+                    selectedNetwork.shardId,
+                    selectedNetwork.graphqlUrl,
+                    selectedNetwork,
+                );
+                await fetchTokenBalances(rchain, { ...token, id: "check" }, [
+                    selectedAccount.revAddress,
+                ]);
+            } catch (err: any) {
+                setError(
+                    `The token contract did not answer balanceOf: ${err.message}`,
+                );
+                setCheckFailed(true);
+                return;
+            } finally {
+                setIsChecking(false);
+            }
+        }
+
+        TokenRegistryService.add(token);
+        setTokens(TokenRegistryService.getAll(selectedNetwork.id));
+        resetForm();
+    };
+
+    const handleRemove = (tokenId: string) => {
+        TokenRegistryService.remove(tokenId);
+        setTokens(TokenRegistryService.getAll(selectedNetwork.id));
+    };
+
+    return (
+        <Card style={{ marginTop: "24px" }}>
+            <CardHeader>
+                <CardTitle>Tokens · {selectedNetwork.name}</CardTitle>
+            </CardHeader>
+            <CardContent>
+                {tokens.length === 0 ? (
+                    <Message className="text-2">
+                        No custom tokens on this network. Add a token contract
+                        by its registry URI to show its balances next to ASI.
+                    </Message>
+                ) : (
+                    <TokenList>
+                        {tokens.map((token) => (
+                            <TokenItem key={token.id}>
+                                <TokenDetails className="text-2">
+                                    <div>
+                                        {token.name} ({token.symbol},{" "}
+                                        {token.decimals} decimals)
+                                    </div>
+                                    <RegistryLink uri={token.registryUri} />
+                                </TokenDetails>
+                                <Button
+                                    variant="secondary"
+                                    size="small"
+                                    onClick={() => handleRemove(token.id)}
+                                >
+                                    Remove
+                                </Button>
+                            </TokenItem>
+                        ))}
+                    </TokenList>
+                )}
+
+                <FormRow>
+                    <Input
+                        id="token-name-input"
+                        className="text-2"
+                        label="Name"
+                        value={name}
+                        onChange={handleFieldChange(setName)}
+                        placeholder="My Token"
+                    />
+                    <Input
+                        id="token-symbol-input"
+                        className="text-2"
+                        label="Symbol"
+                        value={symbol}
+                        onChange={handleFieldChange(setSymbol)}
+                        placeholder="MTK"
+                    />
+                    <Input
+                        id="token-decimals-input"
+                        className="text-2"
+                        label="Decimals"
+                        type="number"
+                        min="0"
+                        value={decimals}
+                        onChange={handleFieldChange(setDecimals)}
+                    />
+                </FormRow>
+                <Input
+                    id="token-registry-uri-input"
+                    className="text-2"
+                    label="Registry URI"
+                    value={registryUri}
+                    onChange={handleFieldChange(setRegistryUri)}
+                    placeholder="rho:id:…"
+                    fullWidth
+                />
+
+                {error && <Message $isError>{error}</Message>}
+
+                <ActionButtons>
+                    <Button
+                        id="token-add-button"
+                        onClick={handleAdd}
+                        loading={isChecking}
+                        disabled={!name || !symbol || !registryUri}
+                    >
+                        {checkFailed ? "Add anyway" : "Add token"}
+                    </Button>
+                </ActionButtons>
+            </CardContent>
+        </Card>
+    );
+};
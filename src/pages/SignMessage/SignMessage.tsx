@@ -0,0 +1,292 @@
+import React, { useState } from "react";
+import { useDispatch, useSelector } from "react-redux";
+import styled from "styled-components";
+import { AppDispatch, RootState } from "store";
+import { signAccountMessage } from "store/walletSlice";
+import {
+    Card,
+    CardHeader,
+    CardTitle,
+    CardContent,
+    Button,
+    Input,
+    TextArea,
+} from "components";
+import { AccountSelector } from "components/AccountSelector";
+import CopyButton from "components/CopyButton";
+import { WatchOnlyNotice } from "components/WatchOnlyNotice";
+import {
+    MessageVerification,
+    serializeSignedMessage,
+    verifySignedMessage,
+} from "services/messageSigning";
+import { isWatchOnlyAccount } from "utils/watchOnly";
+
+const SignMessageContainer = styled.div`
+    display: flex;
+    flex-direction: column;
+    gap: 24px;
+`;
+
+const Description = styled.p`
+    margin: 0 0 16px;
+    color: ${({ theme }) => theme.text.secondary};
+`;
+
+const ButtonRow = styled.div`
+    display: flex;
+    gap: 12px;
+    margin-bottom: 16px;
+`;
+
+const Message = styled.div<{ $tone: "error" | "success" }>`
+    color: ${({ theme, $tone }) => theme[$tone]};
+    margin-bottom: 16px;
+    word-break: break-word;
+`;
+
+const SignatureHeader = styled.div`
+    display: flex;
+    align-items: center;
+    justify-content: space-between;
+`;
+
+export const SignMessage: React.FC = () => {
+    const dispatch = useDispatch<AppDispatch>();
+    const { selectedAccount } = useSelector((state: RootState) => state.wallet);
+    const { unlockedAccounts } = useSelector((state: RootState) => state.auth);
+
+    const [message, setMessage] = useState("");
+    const [password, setPassword] = useState("");
+    const [signature, setSignature] = useState("");
+    const [signError, setSignError] = useState("");
+    const [isSigning, setIsSigning] = useState(false);
+
+    const [verifyMessage, setVerifyMessage] = useState("");
+    const [verifySignature, setVerifySignature] = useState("");
+    const [expectedAddress, setExpectedAddress] = useState("");
+    const [verification, setVerification] =
+        useState<MessageVerification | null>(null);
+
+    const isWatchOnly = isWatchOnlyAccount(selectedAccount);
+    const isAccountUnlocked =
+        !!selectedAccount &&
+        unlockedAccounts.some((a) => a.id === selectedAccount.id);
+
+    const handleMessageChange = (
+        event: React.ChangeEvent<HTMLTextAreaElement>,
+    ) => {
+        setMessage(event.target.value);
+        setSignature("");
+        setSignError("");
+    };
+
+    const handlePasswordChange = (
+        event: React.ChangeEvent<HTMLInputElement>,
+    ) => {
+        setPassword(event.target.value);
+        setSignError("");
+    };
+
+    const handleVerifyFieldChange =
+        (setter: (value: string) => void) =>
+        (event: React.ChangeEvent<HTMLTextAreaElement | HTMLInputElement>) => {
+            setter(event.target.value);
+            setVerification(null);
+        };
+
+    const handleSign = async () => {
+        if (!selectedAccount) return;
+        setIsSigning(true);
+        setSignError("");
+        try {
+            const blob = await dispatch(
+                signAccountMessage({
+                    from: selectedAccount,
+                    message,
+                    password: password || undefined,
+                }),
+            ).unwrap();
+            setSignature(serializeSignedMessage(blob));
+            setPassword("");
+        } catch (err: any) {
+            setSignError(err.message || "Failed to sign the message");
+        } finally {
+            setIsSigning(false);
+        }
+    };
+
+    // Copies the signed message over so it can be checked right away
+    const handleVerifyOwn = () => {
+        setVerifyMessage(message);
+        setVerifySignature(signature);
+        setExpectedAddress("");
+        setVerification(null);
+    };
+
+    const handleVerify = () => {
+        setVerification(
+            verifySignedMessage(
+                verifyMessage,
+                verifySignature,
+                expectedAddress,
+            ),
+        );
+    };
+
+    return (
+        <SignMessageContainer>
+            <Card>
+                <CardHeader>
+                    <CardTitle>Sign Message</CardTitle>
+                </CardHeader>
+                <CardContent>
+                    <Description className="text-2">
+                        Prove that you control an address, for example to an
+                        exchange or a service login. The message is signed with
+                        the account key under an ASI-specific prefix, so the
+                        signature cannot be replayed as a deploy.
+                    </Description>
+
+                    <AccountSelector
+                        fullWidth
+                        wrapperStyle={{ marginBottom: "16px" }}
+                    />
+                    <TextArea
+                        id="sign-message-input"
+                        label="Message"
+                        value={message}
+                        onChange={handleMessageChange}
+                        rows={4}
+                        fullWidth
+                    />
+                    {selectedAccount && isWatchOnly && (
+                        <WatchOnlyNotice
+                            accountName={selectedAccount.name}
+                            action="sign messages"
+                        />
+                    )}
+                    {!isAccountUnlocked && !isWatchOnly && (
+                        <Input
+                            id="sign-message-password-input"
+                            className="text-2"
+                            label="Account Password"
+                            type="password"
+                            value={password}
+                            onChange={handlePasswordChange}
+                            autoComplete="current-password"
+                            placeholder="Enter password"
+                            fullWidth
+                        />
+                    )}
+
+                    {signError && (
+                        <Message className="text-2" $tone="error">
+                            {signError}
+                        </Message>
+                    )}
+
+                    <ButtonRow>
+                        <Button
+                            id="sign-message-button"
+                            onClick={handleSign}
+                            loading={isSigning}
+                            disabled={
+                                !selectedAccount ||
+                                isWatchOnly ||
+                                !message ||
+                                (!isAccountUnlocked && !password)
+                            }
+                        >
+                            Sign
+                        </Button>
+                        {signature && (
+                            <Button
+                                variant="secondary"
+                                onClick={handleVerifyOwn}
+                            >
+                                Verify this signature
+                            </Button>
+                        )}
+                    </ButtonRow>
+
+                    {signature && (
+                        <>
+                            <SignatureHeader className="text-2">
+                                Signature
+                                <CopyButton dataToCopy={signature} size={16} />
+                            </SignatureHeader>
+                            <TextArea
+                                id="sign-message-signature-output"
+                                value={signature}
+                                rows={8}
+                                readOnly
+                                fullWidth
+                            />
+                        </>
+                    )}
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Verify Signature</CardTitle>
+                </CardHeader>
+                <CardContent>
+                    <Description className="text-2">
+                        Paste the exact message and its signature. The signer's
+                        address is recovered from the signature and checked
+                        against the expected address, or the one named in the
+                        signature.
+                    </Description>
+
+                    <TextArea
+                        id="verify-message-input"
+                        label="Message"
+                        value={verifyMessage}
+                        onChange={handleVerifyFieldChange(setVerifyMessage)}
+                        rows={4}
+                        fullWidth
+                    />
+                    <TextArea
+                        id="verify-signature-input"
+                        label="Signature"
+                        value={verifySignature}
+                        onChange={handleVerifyFieldChange(setVerifySignature)}
+                        rows={6}
+                        placeholder="Signature blob or 65-byte hex signature"
+                        fullWidth
+                    />
+                    <Input
+                        id="verify-address-input"
+                        className="text-2"
+                        label="Expected address (optional)"
+                        value={expectedAddress}
+                        onChange={handleVerifyFieldChange(setExpectedAddress)}
+                        placeholder="1111... or 0x..."
+                        fullWidth
+                    />
+
+                    {verification && (
+                        <Message
+                            className="text-2"
+                            $tone={verification.valid ? "success" : "error"}
+                        >
+                            {verification.valid
+                                ? `Valid signature by ${verification.signer}`
+                                : verification.error}
+                        </Message>
+                    )}
+
+                    <Button
+                        id="verify-signature-button"
+                        onClick={handleVerify}
+                        disabled={!verifyMessage || !verifySignature.trim()}
+                    >
+                        Verify
+                    </Button>
+                </CardContent>
+            </Card>
+        </SignMessageContainer>
+    );
+};
@@ -0,0 +1 @@
+export { SignMessage } from "./SignMessage";
@@ -0,0 +1,495 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { useSelector } from "react-redux";
+import { useNavigate } from "react-router-dom";
+import styled from "styled-components";
+import { RootState } from "store";
+import {
+    Card,
+    CardHeader,
+    CardTitle,
+    CardContent,
+    Button,
+    Input,
+    PasswordModal,
+} from "components";
+import { ExplorerLink } from "components/ExplorerLink";
+import { WatchOnlyNotice } from "components/WatchOnlyNotice";
+import { RChainService } from "services/rchain";
+import { SecureStorage } from "services/secureStorage";
+import DeployLifecycleService from "services/deployLifecycle";
+import {
+    buildBondTerm,
+    buildWithdrawTerm,
+    fetchValidatorSet,
+    findBond,
+    StakingAction,
+    ValidatorBond,
+} from "services/staking";
+import { DeployLifecycle } from "types/wallet";
+import { Amount, AmountParseError } from "utils/amount";
+import { formatBalance } from "utils/balanceUtils";
+import { isWatchOnlyAccount } from "utils/watchOnly";
+import { ValidatorTable } from "./ValidatorTable";
+
+const PENDING_TRANSACTIONS_KEY = "asi_wallet_pending_transactions";
+
+const savePendingDeploy = (
+    deployId: string,
+    accountId: string,
+    revAddress: string,
+) => {
+    try {
+        const existing = localStorage.getItem(PENDING_TRANSACTIONS_KEY);
+        const pendingTxs: any[] = existing ? JSON.parse(existing) : [];
+        if (!pendingTxs.some((t: any) => t.deployId === deployId)) {
+            pendingTxs.push({
+                deployId,
+                from: revAddress,
+                timestamp: new Date().toISOString(),
+                accountId,
+                type: "deploy",
+            });
+        }
+        localStorage.setItem(
+            PENDING_TRANSACTIONS_KEY,
+            JSON.stringify(pendingTxs),
+        );
+    } catch (error) {
+        console.error("Failed to save pending deploy to localStorage:", error);
+    }
+};
+
+const StakingContainer = styled.div`
+    display: flex;
+    flex-direction: column;
+    gap: 24px;
+`;
+
+const HeaderRow = styled.div`
+    display: flex;
+    justify-content: space-between;
+    align-items: center;
+    gap: 12px;
+    width: 100%;
+`;
+
+const ActionTabs = styled.div`
+    display: flex;
+    gap: 12px;
+    margin-bottom: 16px;
+`;
+
+const SummaryGrid = styled.dl`
+    display: grid;
+    grid-template-columns: max-content 1fr;
+    gap: 8px 16px;
+    margin: 0 0 16px;
+
+    dt {
+        color: ${({ theme }) => theme.text.secondary};
+    }
+
+    dd {
+        margin: 0;
+        word-break: break-all;
+    }
+`;
+
+const Term = styled.pre`
+    max-height: 240px;
+    overflow: auto;
+    padding: 12px;
+    border-radius: 8px;
+    border: 1px solid ${({ theme }) => theme.border};
+    font-size: 12px;
+    white-space: pre-wrap;
+`;
+
+const ButtonRow = styled.div`
+    display: flex;
+    gap: 12px;
+    margin-top: 16px;
+`;
+
+const Message = styled.div<{ $isError?: boolean }>`
+    color: ${({ theme, $isError }) =>
+        $isError ? theme.error : theme.text.secondary};
+    margin-bottom: 16px;
+    word-break: break-word;
+`;
+
+interface StakingReview {
+    action: StakingAction;
+    term: string;
+    amount?: Amount;
+    fee: Amount;
+}
+
+const ACTION_LABELS: Record<StakingAction, string> = {
+    bond: "Bond",
+    withdraw: "Withdraw bond",
+};
+
+export const Staking: React.FC = () => {
+    const navigate = useNavigate();
+    const { selectedAccount, selectedNetwork, accounts } = useSelector(
+        (state: RootState) => state.wallet,
+    );
+
+    const [validators, setValidators] = useState<ValidatorBond[]>([]);
+    const [loadError, setLoadError] = useState("");
+    const [isLoading, setIsLoading] = useState(false);
+
+    const [action, setAction] = useState<StakingAction>("bond");
+    const [amount, setAmount] = useState("");
+    const [formError, setFormError] = useState("");
+    const [review, setReview] = useState<StakingReview | null>(null);
+    const [isReviewing, setIsReviewing] = useState(false);
+
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [showPasswordModal, setShowPasswordModal] = useState(false);
+    const [passwordError, setPasswordError] = useState("");
+    const [submitted, setSubmitted] = useState<{
+        deployId: string;
+        action: StakingAction;
+    } | null>(null);
+    const [lifecycle, setLifecycle] = useState<DeployLifecycle>();
+
+    const rchain = useMemo(
+        () =>
+            new RChainService(
+                selectedNetwork.url,
+                selectedNetwork.readOnlyUrl,
+                selectedNetwork.adminUrl,
+                selectedNetwork.shardId,
+                selectedNetwork.graphqlUrl,
+                selectedNetwork,
+            ),
+        [selectedNetwork],
+    );
+
+    const ownKeys = useMemo(
+        () =>
+            new Set(
+                accounts.map((account) =>
+                    account.publicKey?.toLowerCase().replace(/^0x/, ""),
+                ),
+            ),
+        [accounts],
+    );
+
+    const loadValidators = useCallback(async () => {
+        setIsLoading(true);
+        setLoadError("");
+        try {
+            setValidators(await fetchValidatorSet(rchain));
+        } catch (error: any) {
+            setLoadError(`Could not read the validator set: ${error.message}`);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [rchain]);
+
+    useEffect(() => {
+        loadValidators();
+    }, [loadValidators]);
+
+    // Follow the submitted deploy through the shared lifecycle tracking
+    useEffect(() => {
+        if (!submitted) {
+            setLifecycle(undefined);
+            return;
+        }
+        setLifecycle(DeployLifecycleService.get(submitted.deployId));
+        return DeployLifecycleService.subscribe((updated) => {
+            if (updated.deployId !== submitted.deployId) {
+                return;
+            }
+            setLifecycle(updated);
+            if (updated.state === "finalized") {
+                loadValidators();
+            }
+        });
+    }, [submitted, loadValidators]);
+
+    if (!selectedAccount) {
+        return (
+            <Card>
+                <CardContent>
+                    <p>Please select an account first.</p>
+                    <Button onClick={() => navigate("/accounts")}>
+                        Select Account
+                    </Button>
+                </CardContent>
+            </Card>
+        );
+    }
+
+    const ownBond = findBond(validators, selectedAccount.publicKey);
+
+    const handleActionChange = (next: StakingAction) => {
+        setAction(next);
+        setReview(null);
+        setFormError("");
+    };
+
+    const handleAmountChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+        setAmount(event.target.value);
+        setReview(null);
+    };
+
+    const handleReview = async () => {
+        setFormError("");
+        setReview(null);
+
+        let bondAmount: Amount | undefined;
+        let term: string;
+        try {
+            if (action === "bond") {
+                bondAmount = Amount.parse(amount);
+                term = buildBondTerm(bondAmount);
+            } else {
+                if (!ownBond) {
+                    setFormError("This account has no bond to withdraw.");
+                    return;
+                }
+                term = buildWithdrawTerm();
+            }
+        } catch (error: any) {
+            setFormError(
+                error instanceof AmountParseError
+                    ? "Enter a valid amount"
+                    : error.message,
+            );
+            return;
+        }
+
+        setIsReviewing(true);
+        const estimate = await rchain.estimateDeployFee(term);
+        const fee = Amount.parse(estimate.fee);
+        setIsReviewing(false);
+
+        const required = bondAmount ? bondAmount.add(fee) : fee;
+        if (required.gt(selectedAccount.balance)) {
+            setFormError(
+                `Insufficient balance: ${formatBalance(required)} needed including the fee.`,
+            );
+            return;
+        }
+
+        setReview({ action, term, amount: bondAmount, fee });
+    };
+
+    const submitWithKey = async (privateKey: string) => {
+        if (!review) {
+            return;
+        }
+        setIsSubmitting(true);
+        setFormError("");
+        try {
+            const deployId = await rchain.sendDeploy(review.term, privateKey);
+            savePendingDeploy(
+                deployId,
+                selectedAccount.id,
+                selectedAccount.revAddress,
+            );
+            setSubmitted({ deployId, action: review.action });
+            setReview(null);
+            setAmount("");
+        } catch (error: any) {
+            setFormError(error.message || "Failed to send the deploy");
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleConfirm = () => {
+        const unlocked = SecureStorage.getUnlockedAccount(selectedAccount.id);
+        if (unlocked?.privateKey) {
+            submitWithKey(unlocked.privateKey);
+        } else {
+            setPasswordError("");
+            setShowPasswordModal(true);
+        }
+    };
+
+    const handlePasswordConfirm = async (password: string) => {
+        const unlocked = await SecureStorage.unlockAccount(
+            selectedAccount.id,
+            password,
+        );
+        if (!unlocked?.privateKey) {
+            setPasswordError("Invalid password");
+            return;
+        }
+        setShowPasswordModal(false);
+        submitWithKey(unlocked.privateKey);
+    };
+
+    return (
+        <StakingContainer>
+            <Card>
+                <CardHeader>
+                    <CardTitle>Your Stake</CardTitle>
+                </CardHeader>
+                <CardContent>
+                    <SummaryGrid className="text-2">
+                        <dt>Account</dt>
+                        <dd>{selectedAccount.name}</dd>
+                        <dt>Bond</dt>
+                        <dd>
+                            {ownBond
+                                ? `${formatBalance(ownBond.stake)}${ownBond.active ? " (active validator)" : ""}`
+                                : "Not bonded"}
+                        </dd>
+                        <dt>Available</dt>
+                        <dd>{formatBalance(selectedAccount.balance)}</dd>
+                    </SummaryGrid>
+
+                    {isWatchOnlyAccount(selectedAccount) && (
+                        <WatchOnlyNotice
+                            accountName={selectedAccount.name}
+                            action="bond or withdraw stake"
+                        />
+                    )}
+
+                    <ActionTabs>
+                        {(Object.keys(ACTION_LABELS) as StakingAction[]).map(
+                            (value) => (
+                                <Button
+                                    key={value}
+                                    size="small"
+                                    variant={
+                                        action === value
+                                            ? "primary"
+                                            : "secondary"
+                                    }
+                                    onClick={() => handleActionChange(value)}
+                                >
+                                    {ACTION_LABELS[value]}
+                                </Button>
+                            ),
+                        )}
+                    </ActionTabs>
+
+                    {action === "bond" && (
+                        <Input
+                            id="staking-amount-input"
+                            className="text-2"
+                            label="Amount to bond"
+                            value={amount}
+                            onChange={handleAmountChange}
+                            placeholder="0.0"
+                        />
+                    )}
+                    {action === "withdraw" && (
+                        <Message className="text-2">
+                            Withdrawing returns the whole bond to this account's
+                            vault once the PoS contract releases it.
+                        </Message>
+                    )}
+
+                    {formError && <Message $isError>{formError}</Message>}
+
+                    {!review && (
+                        <Button
+                            variant="primary"
+                            onClick={handleReview}
+                            loading={isReviewing}
+                            disabled={isWatchOnlyAccount(selectedAccount)}
+                        >
+                            Review
+                        </Button>
+                    )}
+
+                    {review && (
+                        <div>
+                            <SummaryGrid className="text-2">
+                                <dt>Action</dt>
+                                <dd>{ACTION_LABELS[review.action]}</dd>
+                                {review.amount && (
+                                    <>
+                                        <dt>Amount</dt>
+                                        <dd>{formatBalance(review.amount)}</dd>
+                                    </>
+                                )}
+                                <dt>Estimated fee</dt>
+                                <dd>{formatBalance(review.fee)}</dd>
+                                <dt>Signed by</dt>
+                                <dd>{selectedAccount.revAddress}</dd>
+                            </SummaryGrid>
+                            <details>
+                                <summary>Rholang term</summary>
+                                <Term>{review.term.trim()}</Term>
+                            </details>
+                            <ButtonRow>
+                                <Button
+                                    variant="primary"
+                                    onClick={handleConfirm}
+                                    loading={isSubmitting}
+                                >
+                                    Sign and send
+                                </Button>
+                                <Button
+                                    variant="secondary"
+                                    onClick={() => setReview(null)}
+                                    disabled={isSubmitting}
+                                >
+                                    Edit
+                                </Button>
+                            </ButtonRow>
+                        </div>
+                    )}
+
+                    {submitted && (
+                        <Message className="text-2" style={{ marginTop: 16 }}>
+                            {ACTION_LABELS[submitted.action]} deploy{" "}
+                            <ExplorerLink
+                                kind="deploy"
+                                value={submitted.deployId}
+                            />{" "}
+                            is {lifecycle?.state ?? "submitted"}
+                            {lifecycle?.error && `: ${lifecycle.error}`}
+                        </Message>
+                    )}
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardHeader>
+                    <HeaderRow>
+                        <CardTitle>Validator Set</CardTitle>
+                        <Button
+                            variant="secondary"
+                            size="small"
+                            onClick={loadValidators}
+                            loading={isLoading}
+                        >
+                            Refresh
+                        </Button>
+                    </HeaderRow>
+                </CardHeader>
+                <CardContent>
+                    {loadError ? (
+                        <Message $isError>{loadError}</Message>
+                    ) : (
+                        <ValidatorTable
+                            validators={validators}
+                            ownKeys={ownKeys}
+                        />
+                    )}
+                </CardContent>
+            </Card>
+
+            {showPasswordModal && (
+                <PasswordModal
+                    isOpen={showPasswordModal}
+                    title="Enter Password to Sign Staking Deploy"
+                    error={passwordError}
+                    onConfirm={handlePasswordConfirm}
+                    onClose={() => setShowPasswordModal(false)}
+                />
+            )}
+        </StakingContainer>
+    );
+};
@@ -0,0 +1,83 @@
+import React from "react";
+import styled from "styled-components";
+import { ValidatorBond } from "services/staking";
+import { formatBalance } from "utils/balanceUtils";
+
+const Table = styled.table`
+    width: 100%;
+    border-collapse: collapse;
+
+    th,
+    td {
+        text-align: left;
+        padding: 8px 12px;
+        border-bottom: 1px solid ${({ theme }) => theme.border};
+    }
+
+    th {
+        color: ${({ theme }) => theme.text.secondary};
+        font-weight: 500;
+    }
+`;
+
+const PublicKey = styled.span`
+    font-family: monospace;
+    word-break: break-all;
+`;
+
+const OwnBadge = styled.span`
+    margin-left: 8px;
+    color: ${({ theme }) => theme.primary};
+`;
+
+const Status = styled.span<{ $active: boolean }>`
+    color: ${({ theme, $active }) =>
+        $active ? theme.success : theme.text.secondary};
+`;
+
+interface ValidatorTableProps {
+    validators: ValidatorBond[];
+    // Public keys of the wallet's own accounts, lowercase hex
+    ownKeys: Set<string>;
+}
+
+export const ValidatorTable: React.FC<ValidatorTableProps> = ({
+    validators,
+    ownKeys,
+}) => {
+    if (validators.length === 0) {
+        return <p className="text-2">No validators are bonded.</p>;
+    }
+
+    return (
+        <Table className="text-3">
+            <thead>
+                <tr>
+                    <th>Validator</th>
+                    <th>Stake</th>
+                    <th>Status</th>
+                </tr>
+            </thead>
+            <tbody>
+                {validators.map((validator) => (
+                    <tr key={validator.publicKey}>
+                        <td>
+                            <PublicKey title={validator.publicKey}>
+                                {validator.publicKey.substring(0, 20)}…
+                            </PublicKey>
+                            {ownKeys.has(validator.publicKey) && (
+                                <OwnBadge>(your account)</OwnBadge>
+                            )}
+                        </td>
+                        <td>{formatBalance(validator.stake)}</td>
+                        <td>
+                            <Status $active={validator.active}>
+                                {validator.active ? "Active" : "Bonded"}
+                            </Status>
+                        </td>
+                    </tr>
+                ))}
+            </tbody>
+        </Table>
+    );
+};
@@ -0,0 +1 @@
+export { Staking } from "./Staking";
@@ -51,6 +51,7 @@ export function toStoredRecord(account: SecureAccount): StoredAccountRecord {
         userId: account.userId,
         derivationPath: account.derivationPath,
         isHardwareWallet: account.isHardwareWallet,
+        isWatchOnly: account.isWatchOnly,
         createdAt:
             account.createdAt instanceof Date
                 ? account.createdAt.toISOString()
@@ -73,6 +74,7 @@ export function fromStoredRecord(record: StoredAccountRecord): SecureAccount {
         userId: record.userId,
         derivationPath: record.derivationPath,
         isHardwareWallet: record.isHardwareWallet,
+        isWatchOnly: record.isWatchOnly,
         createdAt: new Date(record.createdAt),
     };
 }
@@ -200,6 +202,29 @@ export class AccountsVault {
         return secureAccount;
     }
 
+    // Address-only account; there is no key to encrypt
+    static async saveWatchOnlyAccount(
+        account: Account,
+        userId: string,
+    ): Promise<SecureAccount> {
+        if (account.privateKey) {
+            throw new Error("Watch-only accounts must not have a private key");
+        }
+        const { privateKey: _key, ...rest } = account;
+        const secureAccount: SecureAccount = {
+            ...rest,
+            isWatchOnly: true,
+            userId,
+        };
+
+        this.save([
+            ...this.accounts.filter((a) => a.id !== account.id),
+            secureAccount,
+        ]);
+        await this.flush();
+        return secureAccount;
+    }
+
     static async unlockAccount(
         accountId: string,
         password: string,
@@ -2,6 +2,16 @@ import { SecureStorage, SecureAccount } from './secureStorage';
 import { sealV2, openV2 } from 'utils/encryptedPayload';
 import { legacyDecrypt } from 'utils/legacyCrypto';
 import { hashValue } from 'utils/encryption';
+import { Contact } from 'types/wallet';
+import { ContactsService } from './contacts';
+import {
+  SeedVault,
+  StoredSeed,
+  generateMnemonic,
+  normalizeMnemonic,
+  validateMnemonic,
+} from './hdWallet';
+import { ethers } from 'ethers';
 
 // Backup format version: V1 = legacy CryptoJS, V2 = Web Crypto (AES-GCM)
 enum BackupFormatVersion {
@@ -16,6 +26,9 @@ export interface BackupData {
   settings: WalletSettings;
   multisigWallets?: MultisigWalletEntry[];
   twoFactorBackup?: string;
+  contacts?: Contact[];
+  // Recovery phrase, still sealed with the password it was stored under
+  hdSeed?: StoredSeed;
   checksum: string;
 }
 
@@ -53,16 +66,23 @@ export interface BackupOptions {
   includeSettings: boolean;
   includeMultisig: boolean;
   includeTwoFactor: boolean;
+  // Address book; included unless set to false
+  includeContacts?: boolean;
   password?: string;
+  // Includes the sealed recovery phrase when the wallet has one
   recoveryPhrase?: boolean;
 }
 
 export interface RecoveryOptions {
+  // Password the backed-up recovery phrase was sealed with, if not the backup password
   password?: string;
+  // Phrase to store as the wallet seed, sealed with the backup password
   recoveryPhrase?: string;
   restoreSettings: boolean;
   restoreMultisig: boolean;
   restoreTwoFactor: boolean;
+  // Merges backed-up contacts into the address book unless set to false
+  restoreContacts?: boolean;
 }
 
 export interface BackupMetadata {
@@ -108,6 +128,10 @@ export class BackupRecoveryService {
       const twoFactorBackup = options.includeTwoFactor
         ? await this.getTwoFactorBackupData(password)
         : undefined;
+      const contacts = options.includeContacts !== false ? await this.getContactsForBackup() : undefined;
+      const userId = SecureStorage.getCurrentUserId();
+      const hdSeed =
+        options.recoveryPhrase && userId ? (await SeedVault.getStoredSeed(userId)) ?? undefined : undefined;
 
       const dataForChecksum: Omit<BackupData, 'checksum'> = {
         version: this.BACKUP_VERSION,
@@ -116,6 +140,8 @@ export class BackupRecoveryService {
         settings,
         multisigWallets,
         twoFactorBackup,
+        contacts,
+        hdSeed,
       };
 
       // Checksum over the data-without-checksum string (consistent with restore)
@@ -176,6 +202,18 @@ export class BackupRecoveryService {
       if (options.restoreTwoFactor && backupData.twoFactorBackup) {
         await this.restoreTwoFactorData(backupData.twoFactorBackup, password);
       }
+      if (options.restoreContacts !== false && backupData.contacts) {
+        await ContactsService.importContacts(backupData.contacts);
+      }
+      // The seed goes to the signed-in user, sealed with the password given here
+      const seedUserId = SecureStorage.getCurrentUserId() ?? SecureStorage.generateUserIdFromPassword(password);
+      if (options.recoveryPhrase) {
+        if (!(await SeedVault.hasSeed(seedUserId))) {
+          await SeedVault.storeSeed(seedUserId, options.recoveryPhrase, password);
+        }
+      } else if (backupData.hdSeed) {
+        await SeedVault.restoreStoredSeed(seedUserId, backupData.hdSeed, password, options.password ?? password);
+      }
 
       return { success: true, restoredData: backupData };
     } catch (error) {
@@ -185,19 +223,17 @@ export class BackupRecoveryService {
 
   static generateRecoveryPhrase(): { success: boolean; phrase?: RecoveryPhrase; error?: string } {
     try {
-      const entropy = crypto.getRandomValues(new Uint8Array(16));
-      const entropyHex = Array.from(entropy).map(b => b.toString(16).padStart(2, '0')).join('');
-      const words = this.entropyToMnemonic(entropy);
-      const checksum = hashValue(words.join(' '));
-      return { success: true, phrase: { words, entropy: entropyHex, checksum } };
+      const mnemonic = generateMnemonic();
+      const entropy = ethers.utils.mnemonicToEntropy(mnemonic).replace(/^0x/, '');
+      const checksum = hashValue(mnemonic);
+      return { success: true, phrase: { words: mnemonic.split(' '), entropy, checksum } };
     } catch (error) {
       return { success: false, error: error instanceof Error ? error.message : 'Failed to generate recovery phrase' };
     }
   }
 
   static validateRecoveryPhrase(words: string[]): { valid: boolean; error?: string } {
-    if (words.length !== 12) return { valid: false, error: 'Recovery phrase must be exactly 12 words' };
-    return { valid: true };
+    return validateMnemonic(normalizeMnemonic(words.join(' ')));
   }
 
   static async exportBackupToFile(
@@ -334,6 +370,14 @@ export class BackupRecoveryService {
     }
   }
 
+  private static async getContactsForBackup(): Promise<Contact[]> {
+    try {
+      return await ContactsService.load();
+    } catch {
+      return [];
+    }
+  }
+
   private static async getTwoFactorBackupData(password: string): Promise<string | undefined> {
     const twoFactorData = await SecureStorage.getItem('twofa_settings');
     if (!twoFactorData) return undefined;
@@ -395,18 +439,6 @@ export class BackupRecoveryService {
       // Non-critical
     }
   }
-
-  private static entropyToMnemonic(entropy: Uint8Array): string[] {
-    const wordList = this.getBasicWordList();
-    return Array.from({ length: 12 }, (_, i) => wordList[entropy[i] % wordList.length]);
-  }
-
-  private static getBasicWordList(): string[] {
-    return [
-      'abandon', 'ability', 'able', 'about', 'above', 'absent', 'absorb', 'abstract',
-      'absurd', 'abuse', 'access', 'accident', 'account', 'accuse', 'achieve', 'acid',
-    ];
-  }
 }
 
 export default BackupRecoveryService;
\ No newline at end of file
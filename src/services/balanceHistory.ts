@@ -0,0 +1,250 @@
+/**
+ * Timestamped balance snapshots per account and network, recorded by the
+ * fetchBalance/fetchBalances thunks, so every refresh path (Dashboard, balance
+ * polling, the transaction poller) feeds it. The last day is kept as fetched;
+ * older snapshots are thinned to one per hour, and past 30 days to one per
+ * day. Without IndexedDB nothing is recorded.
+ */
+import { Amount } from "utils/amount";
+import { BalanceSnapshotRecord, StorageProvider } from "./storage";
+
+export type BalanceHistoryRange = "24h" | "7d" | "30d" | "all";
+
+export interface BalancePoint {
+    timestamp: number;
+    balance: number;
+}
+
+type BalanceHistoryListener = (accountKeys: string[]) => void;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export const BALANCE_HISTORY_RANGES: Record<BalanceHistoryRange, number> = {
+    "24h": DAY_MS,
+    "7d": 7 * DAY_MS,
+    "30d": 30 * DAY_MS,
+    all: Infinity,
+};
+
+// An unchanged balance is written again at most this often
+const UNCHANGED_SNAPSHOT_INTERVAL_MS = HOUR_MS;
+const COMPACTION_INTERVAL_MS = HOUR_MS;
+
+// Oldest tier first; snapshots younger than every tier are left alone
+const DOWNSAMPLING_TIERS = [
+    { olderThan: 30 * DAY_MS, bucketMs: DAY_MS },
+    { olderThan: DAY_MS, bucketMs: HOUR_MS },
+];
+
+export const balanceAccountKey = (
+    networkId: string,
+    revAddress: string,
+): string => `${networkId}:${revAddress}`;
+
+// Timestamps to delete so that each bucket keeps only its latest snapshot
+const timestampsToDrop = (
+    snapshots: BalanceSnapshotRecord[],
+    now: number,
+): number[] => {
+    const latestInBucket = new Map<string, number>();
+    const tiered = snapshots.filter((snapshot) => {
+        const tier = DOWNSAMPLING_TIERS.find(
+            ({ olderThan }) => now - snapshot.timestamp > olderThan,
+        );
+        if (!tier) return false;
+        const bucket = Math.floor(snapshot.timestamp / tier.bucketMs);
+        latestInBucket.set(`${tier.bucketMs}:${bucket}`, snapshot.timestamp);
+        return true;
+    });
+    const kept = new Set(latestInBucket.values());
+    return tiered
+        .map(({ timestamp }) => timestamp)
+        .filter((timestamp) => !kept.has(timestamp));
+};
+
+// Step series for one account over the range, starting from the last known balance
+const toSeries = (
+    snapshots: BalanceSnapshotRecord[],
+    from: number,
+    now: number,
+): BalancePoint[] => {
+    if (snapshots.length === 0) return [];
+
+    const points: BalancePoint[] = [];
+    let baseline: BalanceSnapshotRecord | undefined;
+    for (const snapshot of snapshots) {
+        if (snapshot.timestamp <= from) {
+            baseline = snapshot;
+            continue;
+        }
+        points.push({
+            timestamp: snapshot.timestamp,
+            balance: Amount.from(snapshot.balance).toNumber(),
+        });
+    }
+    if (baseline) {
+        points.unshift({
+            timestamp: from,
+            balance: Amount.from(baseline.balance).toNumber(),
+        });
+    }
+    // Unchanged balances are not written every time; extend to the present
+    const last = snapshots[snapshots.length - 1];
+    points.push({
+        timestamp: now,
+        balance: Amount.from(last.balance).toNumber(),
+    });
+    return points;
+};
+
+export class BalanceHistoryService {
+    private static latest = new Map<string, BalanceSnapshotRecord | null>();
+    private static lastCompactedAt = new Map<string, number>();
+    private static listeners: Set<BalanceHistoryListener> = new Set();
+
+    static async record(
+        networkId: string,
+        balances: { revAddress: string; balance: string }[],
+    ): Promise<void> {
+        await StorageProvider.init();
+        const adapter = StorageProvider.getAdapter();
+        if (!adapter) return;
+
+        const now = Date.now();
+        const snapshots: BalanceSnapshotRecord[] = [];
+        for (const { revAddress, balance } of balances) {
+            const accountKey = balanceAccountKey(networkId, revAddress);
+            const previous = await this.getLatest(accountKey);
+            if (
+                previous &&
+                Amount.from(previous.balance).eq(balance) &&
+                now - previous.timestamp < UNCHANGED_SNAPSHOT_INTERVAL_MS
+            ) {
+                continue;
+            }
+            snapshots.push({
+                accountKey,
+                networkId,
+                revAddress,
+                timestamp: now,
+                balance,
+            });
+        }
+        if (snapshots.length === 0) return;
+
+        await adapter.putBalanceSnapshots(snapshots);
+        snapshots.forEach((snapshot) =>
+            this.latest.set(snapshot.accountKey, snapshot),
+        );
+        for (const { accountKey } of snapshots) {
+            await this.compactIfDue(accountKey, now);
+        }
+        this.notify(snapshots.map(({ accountKey }) => accountKey));
+    }
+
+    static async getSeries(
+        networkId: string,
+        revAddress: string,
+        range: BalanceHistoryRange,
+    ): Promise<BalancePoint[]> {
+        const now = Date.now();
+        const snapshots = await this.read(
+            balanceAccountKey(networkId, revAddress),
+        );
+        return toSeries(snapshots, now - BALANCE_HISTORY_RANGES[range], now);
+    }
+
+    // Sum of all accounts at every time any of them changed; for display only
+    static async getPortfolio(
+        networkId: string,
+        revAddresses: string[],
+        range: BalanceHistoryRange,
+    ): Promise<BalancePoint[]> {
+        const series = await Promise.all(
+            revAddresses.map((revAddress) =>
+                this.getSeries(networkId, revAddress, range),
+            ),
+        );
+        const timestamps = Array.from(
+            new Set(
+                ([] as number[]).concat(
+                    ...series.map((points) =>
+                        points.map(({ timestamp }) => timestamp),
+                    ),
+                ),
+            ),
+        ).sort((a, b) => a - b);
+
+        const cursors = series.map(() => -1);
+        return timestamps.map((timestamp) => {
+            let total = 0;
+            series.forEach((points, index) => {
+                while (
+                    cursors[index] + 1 < points.length &&
+                    points[cursors[index] + 1].timestamp <= timestamp
+                ) {
+                    cursors[index]++;
+                }
+                if (cursors[index] >= 0) {
+                    total += points[cursors[index]].balance;
+                }
+            });
+            return { timestamp, balance: total };
+        });
+    }
+
+    static subscribe(listener: BalanceHistoryListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    private static async read(
+        accountKey: string,
+    ): Promise<BalanceSnapshotRecord[]> {
+        await StorageProvider.init();
+        const adapter = StorageProvider.getAdapter();
+        if (!adapter) return [];
+        try {
+            return await adapter.getBalanceSnapshots(accountKey);
+        } catch (error) {
+            console.error("[BalanceHistory] IDB read failed:", error);
+            return [];
+        }
+    }
+
+    private static async getLatest(
+        accountKey: string,
+    ): Promise<BalanceSnapshotRecord | null> {
+        if (!this.latest.has(accountKey)) {
+            const snapshots = await this.read(accountKey);
+            this.latest.set(
+                accountKey,
+                snapshots[snapshots.length - 1] ?? null,
+            );
+        }
+        return this.latest.get(accountKey) ?? null;
+    }
+
+    private static async compactIfDue(
+        accountKey: string,
+        now: number,
+    ): Promise<void> {
+        const lastRun = this.lastCompactedAt.get(accountKey) ?? 0;
+        if (now - lastRun < COMPACTION_INTERVAL_MS) return;
+        this.lastCompactedAt.set(accountKey, now);
+
+        const adapter = StorageProvider.getAdapter();
+        if (!adapter) return;
+        const dropped = timestampsToDrop(await this.read(accountKey), now);
+        if (dropped.length > 0) {
+            await adapter.deleteBalanceSnapshots(accountKey, dropped);
+        }
+    }
+
+    private static notify(accountKeys: string[]): void {
+        this.listeners.forEach((listener) => listener(accountKeys));
+    }
+}
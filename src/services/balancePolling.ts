@@ -1,9 +1,10 @@
 // Balance Polling Service - Automatic background balance checking
 
 import { store } from 'store';
-import { fetchBalance } from 'store/walletSlice';
+import { fetchBalances } from 'store/walletSlice';
 import { getTokenDisplayName } from '../constants/token';
 import TransactionHistoryService from './transactionHistory';
+import { Amount } from 'utils/amount';
 
 interface PollingConfig {
   enabled: boolean;
@@ -117,36 +118,29 @@ class BalancePollingService {
         previousBalances.set(account.id, prevBalance);
       });
 
-      // Fetch balance for each account
-      for (const account of accounts) {
-        try {
-          
-          // Dispatch the fetchBalance action
-          const result = await store.dispatch(fetchBalance({ account, network: selectedNetwork }));
-          
-          if (result.payload) {
-            const newBalance = (result.payload as any).balance;
-            const oldBalance = previousBalances.get(account.id) || '0';
-            
-            // Detect received transactions if balance increased
-            if (parseFloat(newBalance) > parseFloat(oldBalance)) {
-              try {
-                TransactionHistoryService.detectReceivedTransaction(
-                  account.revAddress,
-                  oldBalance,
-                  newBalance,
-                  selectedNetwork.name
-                );
-              } catch (error) {
-              }
+      // Fetch every account's balance in one batched query
+      const result = await store.dispatch(fetchBalances({ accounts, network: selectedNetwork }));
+
+      if (fetchBalances.fulfilled.match(result)) {
+        for (const { accountId, balance: newBalance } of result.payload) {
+          const account = accounts.find(a => a.id === accountId);
+          const oldBalance = previousBalances.get(accountId) || '0';
+
+          // Detect received transactions if balance increased
+          if (account && Amount.from(newBalance).gt(oldBalance)) {
+            try {
+              TransactionHistoryService.detectReceivedTransaction(
+                account.revAddress,
+                oldBalance,
+                newBalance,
+                selectedNetwork.name
+              );
+            } catch (error) {
             }
           }
-          
-          // Small delay between requests to avoid overwhelming the node
-          await new Promise(resolve => setTimeout(resolve, 1000));
-        } catch (error) {
-          console.error(`[Balance Polling] Failed for account ${account.name}:`, error);
         }
+      } else {
+        console.error('[Balance Polling] Failed to fetch balances:', result.error);
       }
 
       // Update last poll time
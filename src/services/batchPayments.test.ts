@@ -0,0 +1,187 @@
+import {
+    BatchPaymentError,
+    MAX_BATCH_ROWS,
+    batchTotal,
+    buildBatchTransferTerm,
+    estimateBatchFee,
+    exportBatchCsv,
+    parseBatchCsv,
+    parseBatchResults,
+} from "./batchPayments";
+import type { FeeEstimate, RChainService } from "services/rchain";
+import { RhoValue } from "utils/rhoExpr";
+
+const FROM = "11112bzn6GGsF398VUBX7zFpyaZxSCWXv3TDsRPJ4BhyZD2jtyocze";
+const TO = "1111CYQuvDAxnzuTmVRcgwSGZAWL7bDRmcGAVEsy1zzNn9Yg2aK3e";
+
+const bool = (value: boolean): RhoValue => ({ type: "bool", value });
+const str = (value: string): RhoValue => ({ type: "string", value });
+const nil: RhoValue = { type: "nil" };
+const tuple = (...value: RhoValue[]): RhoValue => ({ type: "tuple", value });
+const list = (...value: RhoValue[]): RhoValue => ({ type: "list", value });
+
+describe("parseBatchCsv", () => {
+    it("reads rows, skipping the header, blank lines and comments", () => {
+        const rows = parseBatchCsv(
+            `address,amount,note\n\n# payroll\n${TO},1.5,"Rent, May"\r\n${TO},2\n`,
+            FROM,
+        );
+        expect(rows).toEqual([
+            { line: 4, address: TO, amount: "1.5", note: "Rent, May" },
+            { line: 5, address: TO, amount: "2", note: "" },
+        ]);
+        expect(batchTotal(rows).toString()).toBe("3.5");
+    });
+
+    it("unescapes doubled quotes and keeps extra columns in the note", () => {
+        const [row] = parseBatchCsv(`${TO},1,"say ""hi""",extra`, FROM);
+        expect(row.note).toBe('say "hi", extra');
+    });
+
+    it("marks invalid rows instead of dropping them", () => {
+        const rows = parseBatchCsv(
+            [
+                `${TO},0`,
+                `${TO},1.123456789`,
+                `${TO},abc`,
+                `${FROM},1`,
+                "0x7145a6e3e89106e2b98d3e4f0996670ee0cc6f7d,1",
+                "1111notanaddress,1",
+            ].join("\n"),
+            FROM,
+        );
+        expect(rows).toHaveLength(6);
+        rows.forEach((row) => expect(row.error).toBeTruthy());
+        expect(rows[3].error).toBe("Cannot send to the sending account");
+        expect(rows[4].error).toMatch(/Ethereum/);
+    });
+
+    it("rejects an empty file", () => {
+        expect(() => parseBatchCsv("address,amount\n\n", FROM)).toThrow(
+            BatchPaymentError,
+        );
+    });
+
+    it("rejects more rows than one deploy can carry", () => {
+        const text = Array.from(
+            { length: MAX_BATCH_ROWS + 1 },
+            () => `${TO},1`,
+        ).join("\n");
+        expect(() => parseBatchCsv(text, FROM)).toThrow(
+            `at most ${MAX_BATCH_ROWS} rows`,
+        );
+    });
+});
+
+describe("buildBatchTransferTerm", () => {
+    it("embeds every payment in atomic units", () => {
+        const rows = parseBatchCsv(`${TO},1.5\n${TO},0.00000001`, FROM);
+        expect(buildBatchTransferTerm(FROM, rows)).toContain(
+            `loop!([("${TO}", 150000000), ("${TO}", 1)], [])`,
+        );
+    });
+
+    it("refuses a batch with invalid rows", () => {
+        const rows = parseBatchCsv(`${TO},1\n${TO},-1`, FROM);
+        expect(() => buildBatchTransferTerm(FROM, rows)).toThrow(
+            "Line 2: Amount must be a positive number",
+        );
+    });
+});
+
+describe("estimateBatchFee", () => {
+    const nodeEstimating = (estimate: Partial<FeeEstimate>) => {
+        const estimateDeployFee = jest.fn().mockResolvedValue({
+            phloPrice: 1,
+            fee: "0",
+            ...estimate,
+        });
+        return {
+            rchain: { estimateDeployFee } as unknown as RChainService,
+            estimateDeployFee,
+        };
+    };
+
+    it("dry-runs the batch term instead of scaling one transfer", async () => {
+        const rows = parseBatchCsv(`${TO},1\n${TO},2\n${TO},3`, FROM);
+        const { rchain, estimateDeployFee } = nodeEstimating({
+            phloUsed: 1000,
+            source: "explore-deploy",
+        });
+
+        const estimate = await estimateBatchFee(rchain, FROM, rows);
+
+        expect(estimateDeployFee).toHaveBeenCalledWith(
+            buildBatchTransferTerm(FROM, rows),
+        );
+        expect(estimate.fee.toAtomicString()).toBe("1200");
+        expect(estimate.phloLimit).toBe(500000);
+    });
+
+    it("charges the default fee per row when the dry-run fails", async () => {
+        const rows = parseBatchCsv(`${TO},1\n${TO},2`, FROM);
+        const { rchain } = nodeEstimating({
+            phloUsed: 250000,
+            source: "default",
+        });
+
+        const estimate = await estimateBatchFee(rchain, FROM, rows);
+
+        expect(estimate.fee.toAtomicString()).toBe("600000");
+        expect(estimate.phloLimit).toBe(600000);
+    });
+});
+
+describe("parseBatchResults", () => {
+    it("maps each result to its row", () => {
+        const outcomes = parseBatchResults(
+            [
+                tuple(
+                    bool(true),
+                    list(
+                        tuple(bool(true), nil),
+                        tuple(bool(false), str("Insufficient funds")),
+                    ),
+                ),
+            ],
+            2,
+        );
+        expect(outcomes).toEqual([
+            { status: "success" },
+            { status: "failed", reason: "Insufficient funds" },
+        ]);
+    });
+
+    it("fails every row when the batch failed before transferring", () => {
+        expect(
+            parseBatchResults([tuple(bool(false), str("No vault"))], 3),
+        ).toEqual(
+            Array.from({ length: 3 }, () => ({
+                status: "failed",
+                reason: "No vault",
+            })),
+        );
+    });
+
+    it("returns undefined for results it does not recognise", () => {
+        expect(parseBatchResults([], 1)).toBeUndefined();
+        expect(parseBatchResults([str("done")], 1)).toBeUndefined();
+        expect(parseBatchResults([tuple(bool(true), nil)], 1)).toBeUndefined();
+    });
+});
+
+describe("exportBatchCsv", () => {
+    it("quotes fields and appends outcomes", () => {
+        const rows = parseBatchCsv(`${TO},1,"a, ""b"""`, FROM);
+        expect(exportBatchCsv(rows, [{ status: "failed", reason: "x" }])).toBe(
+            `address,amount,note,status,reason\n${TO},1,"a, ""b""",failed,x`,
+        );
+    });
+
+    it("round-trips through parseBatchCsv", () => {
+        const rows = parseBatchCsv(`${TO},1.5,"note, with comma"`, FROM);
+        expect(parseBatchCsv(exportBatchCsv(rows), FROM)).toEqual(
+            rows.map((row) => ({ ...row, line: 2 })),
+        );
+    });
+});
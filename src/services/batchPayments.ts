@@ -0,0 +1,327 @@
+/**
+ * Batch payments: many vault transfers from one account in a single deploy.
+ * Rows come from a CSV of `address,amount[,note]`. The term transfers them in
+ * order and reports `(true, [(ok, reason), ...])` on the deployId channel, one
+ * entry per row, so partial failures can be shown row by row.
+ */
+import { GAS_FEE, phloToFee } from "constants/gas";
+import { RChainService } from "services/rchain";
+import addressValidation from "utils/AddressValidation";
+import { Amount } from "utils/amount";
+import { formatRhoValue, RhoValue } from "utils/rhoExpr";
+import { rhoAddress, rhoInt, rhoList, rholang, rhoTuple } from "utils/rholang";
+
+// Keeps the term, and the phlo it needs, within what a single deploy can carry
+export const MAX_BATCH_ROWS = 200;
+
+export interface BatchPaymentRow {
+    // 1-based line in the imported file
+    line: number;
+    address: string;
+    amount: string;
+    note: string;
+    // Set when the row cannot be sent
+    error?: string;
+}
+
+export type BatchRowStatus = "success" | "failed";
+
+export interface BatchRowOutcome {
+    status: BatchRowStatus;
+    reason?: string;
+}
+
+export interface BatchFeeEstimate {
+    fee: Amount;
+    phloLimit: number;
+}
+
+export class BatchPaymentError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "BatchPaymentError";
+    }
+}
+
+// Fields of one CSV line; double quotes group commas and "" is a literal quote
+const parseCsvLine = (line: string): string[] => {
+    const fields: string[] = [];
+    let field = "";
+    let quoted = false;
+
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (quoted) {
+            if (char === '"' && line[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ",") {
+            fields.push(field);
+            field = "";
+        } else {
+            field += char;
+        }
+    }
+    fields.push(field);
+    return fields.map((value) => value.trim());
+};
+
+const validateRow = (row: BatchPaymentRow, fromAddress: string): string => {
+    if (row.address.toLowerCase().startsWith("0x")) {
+        return "Sending to Ethereum addresses is not supported";
+    }
+    const { isValid, validationMessages } = addressValidation(row.address);
+    if (!isValid) {
+        return validationMessages[0] || "Invalid address";
+    }
+    if (row.address === fromAddress) {
+        return "Cannot send to the sending account";
+    }
+    const amount = Amount.tryParse(row.amount);
+    if (!amount?.isPositive()) {
+        return "Amount must be a positive number with at most 8 decimals";
+    }
+    return "";
+};
+
+// Rows of a CSV file, each checked against the sender; a header line is skipped
+export const parseBatchCsv = (
+    text: string,
+    fromAddress: string,
+): BatchPaymentRow[] => {
+    const rows: BatchPaymentRow[] = [];
+
+    text.split(/\r?\n/).forEach((rawLine, index) => {
+        if (!rawLine.trim() || rawLine.trim().startsWith("#")) {
+            return;
+        }
+        const [address = "", amount = "", ...noteParts] = parseCsvLine(rawLine);
+        if (rows.length === 0 && /^address$/i.test(address)) {
+            return;
+        }
+
+        const row: BatchPaymentRow = {
+            line: index + 1,
+            address,
+            amount,
+            note: noteParts.join(", "),
+        };
+        const error = validateRow(row, fromAddress);
+        rows.push(error ? { ...row, error } : row);
+    });
+
+    if (rows.length === 0) {
+        throw new BatchPaymentError(
+            "The file has no payment rows. Expected address,amount[,note] per line.",
+        );
+    }
+    if (rows.length > MAX_BATCH_ROWS) {
+        throw new BatchPaymentError(
+            `A batch can have at most ${MAX_BATCH_ROWS} rows; the file has ${rows.length}`,
+        );
+    }
+    return rows;
+};
+
+export const batchTotal = (rows: BatchPaymentRow[]): Amount =>
+    rows.reduce(
+        (total, row) => total.add(Amount.from(row.amount)),
+        Amount.zero,
+    );
+
+export const buildBatchTransferTerm = (
+    fromAddress: string,
+    rows: BatchPaymentRow[],
+): string => {
+    if (rows.length === 0) {
+        throw new BatchPaymentError("The batch has no rows");
+    }
+    const invalid = rows.find((row) => row.error);
+    if (invalid) {
+        throw new BatchPaymentError(`Line ${invalid.line}: ${invalid.error}`);
+    }
+
+    const payments = rhoList(
+        rows.map((row) =>
+            rhoTuple([
+                rhoAddress(row.address),
+                rhoInt(Amount.parse(row.amount).toAtomicString()),
+            ]),
+        ),
+    );
+
+    // Transfers run one after another so results line up with the rows
+    return rholang`
+      new
+        deployId(\`rho:rchain:deployId\`),
+        deployerId(\`rho:rchain:deployerId\`),
+        rl(\`rho:registry:lookup\`),
+        ASIVaultCh,
+        vaultCh,
+        keyCh,
+        loop
+      in {
+        rl!(\`rho:rchain:asiVault\`, *ASIVaultCh) |
+        for (@(_, ASIVault) <- ASIVaultCh) {
+          @ASIVault!("findOrCreate", ${rhoAddress(fromAddress)}, *vaultCh) |
+          @ASIVault!("deployerAuthKey", *deployerId, *keyCh) |
+          for (@vaultResult <- vaultCh; key <- keyCh) {
+            match vaultResult {
+              (true, vault) => {
+                contract loop(@remaining, @results) = {
+                  match remaining {
+                    [] => deployId!((true, results))
+                    [(to, amount) ...rest] => {
+                      new toVaultCh, resultCh in {
+                        @ASIVault!("findOrCreate", to, *toVaultCh) |
+                        for (@toVaultResult <- toVaultCh) {
+                          match toVaultResult {
+                            (true, _) => {
+                              @vault!("transfer", to, amount, *key, *resultCh) |
+                              for (@result <- resultCh) {
+                                match result {
+                                  (true, _) => loop!(rest, results ++ [(true, Nil)])
+                                  (false, reason) => loop!(rest, results ++ [(false, reason)])
+                                }
+                              }
+                            }
+                            (false, reason) => loop!(rest, results ++ [(false, reason)])
+                          }
+                        }
+                      }
+                    }
+                  }
+                } |
+                loop!(${payments}, [])
+              }
+              (false, reason) => deployId!((false, reason))
+            }
+          }
+        }
+      }
+    `;
+};
+
+// Dry-runs the batch term itself; when that fails the static per-transfer fee
+// is charged for every row. The phlo limit is raised to cover large batches.
+export const estimateBatchFee = async (
+    rchain: RChainService,
+    fromAddress: string,
+    rows: BatchPaymentRow[],
+): Promise<BatchFeeEstimate> => {
+    const estimate = await rchain.estimateDeployFee(
+        buildBatchTransferTerm(fromAddress, rows),
+    );
+    const phloUsed =
+        estimate.source === "default"
+            ? estimate.phloUsed * rows.length
+            : estimate.phloUsed;
+    const phlo = Math.ceil(phloUsed * GAS_FEE.SAFETY_MARGIN);
+    return {
+        fee: Amount.parse(phloToFee(phlo, estimate.phloPrice)),
+        phloLimit: Math.max(GAS_FEE.PHLO_LIMIT, phlo),
+    };
+};
+
+// Per-row outcomes from the deployId channel, or undefined when nothing
+// usable was reported; a failure before the first transfer fails every row
+export const parseBatchResults = (
+    values: RhoValue[],
+    rowCount: number,
+): BatchRowOutcome[] | undefined => {
+    const [first] = values;
+    if (first?.type !== "tuple" || first.value[0]?.type !== "bool") {
+        return undefined;
+    }
+
+    const [success, detail] = first.value;
+    if (!success.value) {
+        const reason =
+            detail?.type === "string"
+                ? detail.value
+                : detail
+                  ? formatRhoValue(detail)
+                  : "Batch failed";
+        return Array.from({ length: rowCount }, () => ({
+            status: "failed" as const,
+            reason,
+        }));
+    }
+    if (detail?.type !== "list") {
+        return undefined;
+    }
+
+    return detail.value.map((entry): BatchRowOutcome => {
+        if (entry.type !== "tuple" || entry.value[0]?.type !== "bool") {
+            return { status: "failed", reason: formatRhoValue(entry) };
+        }
+        const [ok, reason] = entry.value;
+        if (ok.value) {
+            return { status: "success" };
+        }
+        return {
+            status: "failed",
+            reason:
+                reason?.type === "string"
+                    ? reason.value
+                    : reason
+                      ? formatRhoValue(reason)
+                      : "Transfer failed",
+        };
+    });
+};
+
+const csvField = (value: string): string =>
+    /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// Rows back to CSV, with status columns once outcomes are known
+export const exportBatchCsv = (
+    rows: BatchPaymentRow[],
+    outcomes?: BatchRowOutcome[],
+): string => {
+    const header = outcomes
+        ? ["address", "amount", "note", "status", "reason"]
+        : ["address", "amount", "note"];
+    const lines = rows.map((row, index) => {
+        const fields = [row.address, row.amount, row.note];
+        if (outcomes) {
+            const outcome = outcomes[index];
+            fields.push(outcome?.status ?? "unknown", outcome?.reason ?? "");
+        }
+        return fields.map(csvField).join(",");
+    });
+    return [header.join(","), ...lines].join("\n");
+};
+
+export const downloadBatchCsv = (
+    rows: BatchPaymentRow[],
+    outcomes?: BatchRowOutcome[],
+): void => {
+    const blob = new Blob([exportBatchCsv(rows, outcomes)], {
+        type: "text/csv",
+    });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `asi-batch-${outcomes ? "results" : "payments"}-${Date.now()}.csv`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+};
+
+export const readBatchCsvFile = (file: File): Promise<string> =>
+    new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(String(reader.result ?? ""));
+        reader.onerror = () =>
+            reject(new BatchPaymentError(`Could not read ${file.name}`));
+        reader.readAsText(file);
+    });
@@ -0,0 +1,246 @@
+import { Contact } from "types/wallet";
+import addressValidation from "utils/AddressValidation";
+import { StorageProvider } from "./storage";
+
+export type ContactInput = Pick<
+    Contact,
+    "name" | "revAddress" | "ethAddress" | "notes" | "tags"
+>;
+
+type ContactsListener = (contacts: Contact[]) => void;
+
+// Used only when IndexedDB is unavailable
+const LS_STORAGE_KEY = "asi_wallet_contacts";
+const MAX_TAG_LENGTH = 24;
+
+export class ContactValidationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "ContactValidationError";
+    }
+}
+
+const normalizeTags = (tags: string[]): string[] =>
+    Array.from(
+        new Set(
+            tags
+                .map((tag) => tag.trim().toLowerCase())
+                .filter(Boolean)
+                .map((tag) => tag.slice(0, MAX_TAG_LENGTH)),
+        ),
+    );
+
+const byName = (a: Contact, b: Contact): number => a.name.localeCompare(b.name);
+
+// Unique even when several contacts are created in the same millisecond
+const newContactId = (): string =>
+    `contact_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+// Address book: IndexedDB-backed contacts cached in memory for synchronous lookups
+export class ContactsService {
+    private static contacts: Contact[] = [];
+    private static loadPromise: Promise<Contact[]> | null = null;
+    private static listeners: Set<ContactsListener> = new Set();
+
+    static load(): Promise<Contact[]> {
+        if (!this.loadPromise) {
+            this.loadPromise = this.read().then((contacts) => {
+                this.contacts = contacts.sort(byName);
+                this.notify();
+                return this.contacts;
+            });
+        }
+        return this.loadPromise;
+    }
+
+    static getAll(): Contact[] {
+        return this.contacts;
+    }
+
+    static findByAddress(address: string): Contact | undefined {
+        const value = address?.trim();
+        if (!value) return undefined;
+        const lower = value.toLowerCase();
+        return this.contacts.find(
+            (contact) =>
+                contact.revAddress === value ||
+                contact.ethAddress?.toLowerCase() === lower,
+        );
+    }
+
+    static subscribe(listener: ContactsListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    // Normalizes a contact; throws ContactValidationError with a user-facing message
+    static validate(input: ContactInput, id?: string): ContactInput {
+        const contact: ContactInput = {
+            name: input.name.trim(),
+            revAddress: input.revAddress.trim(),
+            ethAddress: input.ethAddress?.trim() || undefined,
+            notes: input.notes?.trim() || undefined,
+            tags: normalizeTags(input.tags),
+        };
+
+        if (!contact.name) {
+            throw new ContactValidationError("Name is required");
+        }
+        if (contact.revAddress.toLowerCase().startsWith("0x")) {
+            throw new ContactValidationError(
+                "Enter the ASI address; the Ethereum address has its own field",
+            );
+        }
+        const revValidation = addressValidation(contact.revAddress);
+        if (!revValidation.isValid) {
+            throw new ContactValidationError(
+                `Invalid ASI address: ${revValidation.validationMessages.join(", ")}`,
+            );
+        }
+        if (contact.ethAddress) {
+            const ethValidation = addressValidation(contact.ethAddress);
+            if (
+                !contact.ethAddress.toLowerCase().startsWith("0x") ||
+                !ethValidation.isValid
+            ) {
+                throw new ContactValidationError("Invalid Ethereum address");
+            }
+        }
+
+        const duplicate = this.contacts.find(
+            (other) =>
+                other.id !== id && other.revAddress === contact.revAddress,
+        );
+        if (duplicate) {
+            throw new ContactValidationError(
+                `This address is already saved as ${duplicate.name}`,
+            );
+        }
+        return contact;
+    }
+
+    // Creates a contact, or updates the one with `id`
+    static async save(input: ContactInput, id?: string): Promise<Contact> {
+        await this.load();
+        const validated = this.validate(input, id);
+        const now = new Date().toISOString();
+        const existing = id
+            ? this.contacts.find((contact) => contact.id === id)
+            : undefined;
+
+        const contact: Contact = {
+            ...validated,
+            id: existing?.id ?? newContactId(),
+            createdAt: existing?.createdAt ?? now,
+            updatedAt: now,
+        };
+
+        this.contacts = [
+            ...this.contacts.filter((other) => other.id !== contact.id),
+            contact,
+        ].sort(byName);
+        await this.persist([contact]);
+        this.notify();
+        return contact;
+    }
+
+    static async remove(id: string): Promise<void> {
+        await this.load();
+        this.contacts = this.contacts.filter((contact) => contact.id !== id);
+
+        const adapter = StorageProvider.getAdapter();
+        if (adapter) {
+            await adapter.deleteContact(id);
+        } else {
+            this.persistToLocalStorage();
+        }
+        this.notify();
+    }
+
+    /**
+     * Merges restored contacts by ASI address, keeping the first of any
+     * repeated address; returns how many were added. Each one is normalized
+     * like a saved contact and skipped if it fails validation. Imported
+     * contacts get new ids so they cannot overwrite unrelated stored ones.
+     */
+    static async importContacts(contacts: Contact[]): Promise<number> {
+        await this.load();
+        const known = new Set(this.contacts.map((c) => c.revAddress));
+        const added: Contact[] = [];
+        const now = new Date().toISOString();
+        for (const contact of contacts) {
+            if (known.has(contact.revAddress?.trim())) {
+                continue;
+            }
+            let validated: ContactInput;
+            try {
+                validated = this.validate({
+                    ...contact,
+                    tags: contact.tags ?? [],
+                });
+            } catch (error) {
+                console.warn("[Contacts] Skipping imported contact:", error);
+                continue;
+            }
+            known.add(validated.revAddress);
+            added.push({
+                ...validated,
+                id: newContactId(),
+                createdAt: contact.createdAt || now,
+                updatedAt: contact.updatedAt || now,
+            });
+        }
+        if (added.length === 0) {
+            return 0;
+        }
+
+        this.contacts = [...this.contacts, ...added].sort(byName);
+        await this.persist(added);
+        this.notify();
+        return added.length;
+    }
+
+    private static async read(): Promise<Contact[]> {
+        await StorageProvider.init();
+        const adapter = StorageProvider.getAdapter();
+        if (adapter) {
+            try {
+                return await adapter.getAllContacts();
+            } catch (error) {
+                console.error(
+                    "[Contacts] IDB read failed, using localStorage fallback:",
+                    error,
+                );
+            }
+        }
+        try {
+            const raw = localStorage.getItem(LS_STORAGE_KEY);
+            return raw ? (JSON.parse(raw) as Contact[]) : [];
+        } catch {
+            return [];
+        }
+    }
+
+    private static async persist(changed: Contact[]): Promise<void> {
+        const adapter = StorageProvider.getAdapter();
+        if (adapter) {
+            await adapter.putContacts(changed);
+            return;
+        }
+        this.persistToLocalStorage();
+    }
+
+    private static persistToLocalStorage(): void {
+        try {
+            localStorage.setItem(LS_STORAGE_KEY, JSON.stringify(this.contacts));
+        } catch {
+            /* quota — non-critical */
+        }
+    }
+
+    private static notify(): void {
+        this.listeners.forEach((listener) => listener(this.contacts));
+    }
+}
@@ -0,0 +1,158 @@
+import DeployLifecycleService from "./deployLifecycle";
+import type { RChainService } from "./rchain";
+import { DeployLifecycle } from "types/wallet";
+
+const DEPLOY_ID = "3045022100abcdef";
+const HOUR_MS = 60 * 60 * 1000;
+
+// localStorage is a bare jest.fn() mock; back it with a map
+const store = new Map<string, string>();
+
+beforeEach(() => {
+    store.clear();
+    (localStorage.getItem as jest.Mock).mockImplementation(
+        (key: string) => store.get(key) ?? null,
+    );
+    (localStorage.setItem as jest.Mock).mockImplementation(
+        (key: string, value: string) => store.set(key, value),
+    );
+    jest.spyOn(console, "info").mockImplementation(() => undefined);
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+});
+
+const seed = (lifecycle: Partial<DeployLifecycle>, ageMs = 0) => {
+    const timestamp = new Date(Date.now() - ageMs).toISOString();
+    const record: DeployLifecycle = {
+        deployId: DEPLOY_ID,
+        state: "included",
+        networkId: "testnet",
+        steps: [
+            { state: "submitted", timestamp },
+            { state: "included", timestamp },
+        ],
+        ...lifecycle,
+    };
+    store.set(
+        "asi_wallet_deploy_lifecycle",
+        JSON.stringify({ [DEPLOY_ID]: record }),
+    );
+};
+
+const fakeNode = (overrides: Partial<Record<keyof RChainService, unknown>>) =>
+    ({
+        getNetworkId: () => "testnet",
+        waitForDeployResult: jest.fn().mockResolvedValue({ status: "pending" }),
+        getDeployOutcome: jest.fn().mockResolvedValue(undefined),
+        getLatestBlockNumber: jest.fn().mockResolvedValue(0),
+        isBlockFinalized: jest.fn().mockResolvedValue(false),
+        ...overrides,
+    }) as unknown as RChainService;
+
+describe("DeployLifecycleService.refresh", () => {
+    it("finalizes only when the node says the block is finalized", async () => {
+        seed({ blockHash: "abc", blockNumber: 10 });
+        const node = fakeNode({
+            isBlockFinalized: jest.fn().mockResolvedValue(true),
+        });
+        const lifecycle = await DeployLifecycleService.refresh(DEPLOY_ID, node);
+        expect(lifecycle.state).toBe("finalized");
+        expect(node.isBlockFinalized).toHaveBeenCalledWith("abc", 10);
+    });
+
+    it("keeps a blockless inclusion active for a day", async () => {
+        seed({}, HOUR_MS);
+        const lifecycle = await DeployLifecycleService.refresh(
+            DEPLOY_ID,
+            fakeNode({}),
+        );
+        expect(lifecycle.state).toBe("included");
+        expect(DeployLifecycleService.getActive("testnet")).toHaveLength(1);
+    });
+
+    it("marks a blockless inclusion unknown, not finalized, after a day", async () => {
+        seed({}, 25 * HOUR_MS);
+        const node = fakeNode({});
+        const lifecycle = await DeployLifecycleService.refresh(DEPLOY_ID, node);
+        expect(lifecycle.state).toBe("unknown");
+        expect(lifecycle.error).toMatch(/unknown/);
+        expect(node.isBlockFinalized).not.toHaveBeenCalled();
+        expect(DeployLifecycleService.getActive("testnet")).toHaveLength(0);
+    });
+
+    it("leaves deploys sent to another network alone", async () => {
+        seed({ networkId: "mainnet" }, 25 * HOUR_MS);
+        const lifecycle = await DeployLifecycleService.refresh(
+            DEPLOY_ID,
+            fakeNode({}),
+        );
+        expect(lifecycle.state).toBe("included");
+        expect(DeployLifecycleService.getActive("testnet")).toHaveLength(0);
+    });
+});
+
+describe("DeployLifecycleService.refresh outcome", () => {
+    const failed = { success: false, reason: "Insufficient funds" };
+
+    it("keeps reading an outcome that came back empty", async () => {
+        seed({ blockHash: "abc", blockNumber: 10 });
+        await DeployLifecycleService.refresh(DEPLOY_ID, fakeNode({}));
+
+        const lifecycle = await DeployLifecycleService.refresh(
+            DEPLOY_ID,
+            fakeNode({
+                getDeployOutcome: jest.fn().mockResolvedValue(failed),
+                isBlockFinalized: jest.fn().mockResolvedValue(true),
+            }),
+        );
+        expect(lifecycle.state).toBe("errored");
+        expect(lifecycle.error).toBe("Insufficient funds");
+    });
+
+    it("reads the outcome again before finalizing", async () => {
+        seed({ blockHash: "abc", blockNumber: 10 });
+        const node = fakeNode({
+            getDeployOutcome: jest
+                .fn()
+                .mockResolvedValueOnce(undefined)
+                .mockResolvedValueOnce(failed),
+            isBlockFinalized: jest.fn().mockResolvedValue(true),
+        });
+        const lifecycle = await DeployLifecycleService.refresh(DEPLOY_ID, node);
+        expect(lifecycle.state).toBe("errored");
+        expect(node.getDeployOutcome).toHaveBeenCalledTimes(2);
+    });
+
+    it("does not finalize while the outcome cannot be read", async () => {
+        seed({ blockHash: "abc", blockNumber: 10 });
+        const lifecycle = await DeployLifecycleService.refresh(
+            DEPLOY_ID,
+            fakeNode({
+                getDeployOutcome: jest
+                    .fn()
+                    .mockRejectedValue(new Error("Network Error")),
+                isBlockFinalized: jest.fn().mockResolvedValue(true),
+            }),
+        );
+        expect(lifecycle.state).toBe("included");
+    });
+
+    it("stops reading once an outcome was returned", async () => {
+        seed({ blockHash: "abc", blockNumber: 10 });
+        const getDeployOutcome = jest.fn().mockResolvedValue({ success: true });
+        await DeployLifecycleService.refresh(
+            DEPLOY_ID,
+            fakeNode({ getDeployOutcome }),
+        );
+
+        const lifecycle = await DeployLifecycleService.refresh(
+            DEPLOY_ID,
+            fakeNode({
+                getDeployOutcome,
+                isBlockFinalized: jest.fn().mockResolvedValue(true),
+            }),
+        );
+        expect(lifecycle.state).toBe("finalized");
+        expect(lifecycle.outcomeChecked).toBe(true);
+        expect(getDeployOutcome).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,263 @@
+// Deploy Lifecycle Service - tracks submitted -> included -> finalized per deploy
+import type { RChainService } from './rchain';
+import { DEPLOY_LIFESPAN_BLOCKS } from 'constants/deploy';
+import {
+  DeployLifecycle,
+  DeployLifecycleState,
+} from 'types/wallet';
+
+type LifecycleDetails = Partial<
+  Pick<
+    DeployLifecycle,
+    | 'blockHash'
+    | 'blockNumber'
+    | 'cost'
+    | 'error'
+    | 'validAfterBlockNumber'
+    | 'networkId'
+    | 'outcomeChecked'
+  >
+>;
+type LifecycleListener = (lifecycle: DeployLifecycle) => void;
+type DeployOutcome = { success: boolean; reason?: string } | undefined;
+
+// No longer polled; only 'finalized' means the deploy is final
+const TERMINAL_STATES: DeployLifecycleState[] = ['finalized', 'errored', 'expired', 'unknown'];
+
+class DeployLifecycleService {
+  private static readonly STORAGE_KEY = 'asi_wallet_deploy_lifecycle';
+  private static readonly MAX_ENTRIES = 200;
+  // Expiry for deploys whose validAfterBlockNumber is unknown
+  private static readonly MAX_UNTRACKED_AGE_MS = 24 * 60 * 60 * 1000;
+  private static listeners: Set<LifecycleListener> = new Set();
+
+  static isTerminal(state: DeployLifecycleState): boolean {
+    return TERMINAL_STATES.includes(state);
+  }
+
+  static getAll(): Record<string, DeployLifecycle> {
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.error('[Deploy Lifecycle] Error loading lifecycle state:', error);
+      return {};
+    }
+  }
+
+  static get(deployId: string): DeployLifecycle | undefined {
+    return this.getAll()[deployId];
+  }
+
+  // Deploys that have not reached a terminal state yet, optionally only those sent to one network
+  static getActive(networkId?: string): DeployLifecycle[] {
+    return Object.values(this.getAll()).filter(
+      lifecycle =>
+        !this.isTerminal(lifecycle.state) &&
+        (!networkId || this.belongsTo(lifecycle, networkId))
+    );
+  }
+
+  // Records from before networks were stored are checked against any network
+  static belongsTo(lifecycle: DeployLifecycle, networkId: string): boolean {
+    return !lifecycle.networkId || lifecycle.networkId === networkId;
+  }
+
+  static subscribe(listener: LifecycleListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  static recordSubmitted(
+    deployId: string,
+    validAfterBlockNumber?: number,
+    networkId?: string
+  ): DeployLifecycle {
+    const existing = this.get(deployId);
+    if (existing) {
+      return existing;
+    }
+    return this.transition(deployId, 'submitted', { validAfterBlockNumber, networkId });
+  }
+
+  /**
+   * Advance a deploy using the indexer (inclusion) and the node (outcome,
+   * finalization, expiry). A deploy sent to another network than `rchain`
+   * talks to is returned unchanged: that chain's blocks say nothing about it.
+   */
+  static async refresh(deployId: string, rchain: RChainService): Promise<DeployLifecycle> {
+    const networkId = rchain.getNetworkId();
+    let lifecycle = this.get(deployId) || this.recordSubmitted(deployId, undefined, networkId);
+    if (networkId && !this.belongsTo(lifecycle, networkId)) {
+      return lifecycle;
+    }
+
+    if (lifecycle.state === 'submitted') {
+      const result = await rchain.waitForDeployResult(deployId, 1);
+
+      if (result.status === 'errored') {
+        return this.transition(deployId, 'errored', {
+          blockHash: result.blockHash,
+          blockNumber: result.blockNumber,
+          cost: result.cost,
+          error: result.error,
+        });
+      }
+
+      if (result.status === 'completed') {
+        lifecycle = this.transition(deployId, 'included', {
+          blockHash: result.blockHash,
+          blockNumber: result.blockNumber,
+          cost: result.cost,
+        });
+      } else if (lifecycle.validAfterBlockNumber !== undefined) {
+        const latestBlock = await rchain.getLatestBlockNumber();
+        if (latestBlock > lifecycle.validAfterBlockNumber + DEPLOY_LIFESPAN_BLOCKS) {
+          return this.transition(deployId, 'expired', {
+            error: `Deploy was not included within ${DEPLOY_LIFESPAN_BLOCKS} blocks of block ${lifecycle.validAfterBlockNumber}`,
+          });
+        }
+      } else if (Date.now() - this.firstStepTime(lifecycle) > this.MAX_UNTRACKED_AGE_MS) {
+        return this.transition(deployId, 'expired', {
+          error: 'Deploy was not found in any block within 24 hours',
+        });
+      }
+    }
+
+    // Template deploys (e.g. transfers) report (success, reason) on their
+    // deployId channel; it is read on every refresh until it turns up
+    if (lifecycle.state === 'included' && !lifecycle.outcomeChecked) {
+      const outcome = await this.readOutcome(deployId, rchain);
+      if (outcome && !outcome.success) {
+        return this.transition(deployId, 'errored', { error: outcome.reason });
+      }
+      if (outcome) {
+        lifecycle = this.transition(deployId, 'included', { outcomeChecked: true });
+      }
+    }
+
+    // The indexer can report inclusion before it knows the block; ask again
+    if (
+      lifecycle.state === 'included' &&
+      !lifecycle.blockHash &&
+      lifecycle.blockNumber === undefined
+    ) {
+      const result = await rchain.waitForDeployResult(deployId, 1);
+      if (result.status === 'completed') {
+        lifecycle = this.transition(deployId, 'included', {
+          blockHash: result.blockHash,
+          blockNumber: result.blockNumber,
+        });
+      }
+    }
+
+    if (lifecycle.state === 'included') {
+      const blockKnown = !!lifecycle.blockHash || lifecycle.blockNumber !== undefined;
+      if (blockKnown) {
+        if (await rchain.isBlockFinalized(lifecycle.blockHash, lifecycle.blockNumber)) {
+          // A finalized block's outcome is readable, so an empty answer now
+          // means the deploy reports none; an unreadable one waits for the next refresh
+          const outcome = lifecycle.outcomeChecked
+            ? undefined
+            : await this.readOutcome(deployId, rchain);
+          if (outcome && !outcome.success) {
+            return this.transition(deployId, 'errored', { error: outcome.reason });
+          }
+          if (outcome !== null) {
+            lifecycle = this.transition(deployId, 'finalized', {
+              outcomeChecked: lifecycle.outcomeChecked || !!outcome,
+            });
+          }
+        }
+      } else if (Date.now() - this.stepTime(lifecycle, 'included') > this.MAX_UNTRACKED_AGE_MS) {
+        // Blocks finalize within minutes; stop following one still unknown a day later
+        return this.transition(deployId, 'unknown', {
+          error: 'The block containing this deploy was not reported within 24 hours, so whether it was finalized is unknown',
+        });
+      }
+    }
+
+    return lifecycle;
+  }
+
+  // null when the node could not be asked, undefined when the deploy reported nothing
+  private static async readOutcome(
+    deployId: string,
+    rchain: RChainService
+  ): Promise<DeployOutcome | null> {
+    try {
+      return await rchain.getDeployOutcome(deployId);
+    } catch (error: any) {
+      console.warn(`[Deploy Lifecycle] Could not read outcome of ${deployId}:`, error.message);
+      return null;
+    }
+  }
+
+  private static transition(
+    deployId: string,
+    state: DeployLifecycleState,
+    details: LifecycleDetails = {}
+  ): DeployLifecycle {
+    const all = this.getAll();
+    const previous = all[deployId];
+
+    const definedDetails = Object.fromEntries(
+      Object.entries(details).filter(([, value]) => value !== undefined)
+    ) as LifecycleDetails;
+
+    const lifecycle: DeployLifecycle = {
+      ...previous,
+      ...definedDetails,
+      deployId,
+      state,
+      steps: previous?.state === state
+        ? previous.steps
+        : [...(previous?.steps || []), { state, timestamp: new Date().toISOString() }],
+    };
+
+    all[deployId] = lifecycle;
+    this.save(all);
+
+    if (previous?.state !== state) {
+      console.info(`[Deploy Lifecycle] ${deployId}: ${previous?.state || 'new'} -> ${state}`);
+      this.listeners.forEach(listener => listener(lifecycle));
+    }
+
+    return lifecycle;
+  }
+
+  private static save(all: Record<string, DeployLifecycle>): void {
+    try {
+      // Keep the most recently updated entries only
+      const entries = Object.values(all)
+        .sort((a, b) => this.lastStepTime(b) - this.lastStepTime(a))
+        .slice(0, this.MAX_ENTRIES);
+      const trimmed: Record<string, DeployLifecycle> = {};
+      entries.forEach(entry => {
+        trimmed[entry.deployId] = entry;
+      });
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(trimmed));
+    } catch (error) {
+      console.error('[Deploy Lifecycle] Error saving lifecycle state:', error);
+    }
+  }
+
+  private static firstStepTime(lifecycle: DeployLifecycle): number {
+    const first = lifecycle.steps[0];
+    return first ? new Date(first.timestamp).getTime() : Date.now();
+  }
+
+  private static stepTime(lifecycle: DeployLifecycle, state: DeployLifecycleState): number {
+    const step = lifecycle.steps.find(candidate => candidate.state === state);
+    return step ? new Date(step.timestamp).getTime() : Date.now();
+  }
+
+  private static lastStepTime(lifecycle: DeployLifecycle): number {
+    const last = lifecycle.steps[lifecycle.steps.length - 1];
+    return last ? new Date(last.timestamp).getTime() : 0;
+  }
+}
+
+export default DeployLifecycleService;
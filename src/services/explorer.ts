@@ -0,0 +1,290 @@
+import { RChainService } from "./rchain";
+import { GAS_FEE, phloToFee } from "constants/gas";
+import addressValidation from "utils/AddressValidation";
+
+export type ExplorerQueryKind = "block" | "deploy" | "address";
+
+export interface ExplorerQuery {
+    kind: ExplorerQueryKind;
+    // Block hash or number, deploy ID, or ASI address
+    value: string;
+}
+
+export interface ExplorerBlock {
+    blockHash: string;
+    blockNumber: number;
+    proposer: string;
+    timestamp: number;
+    deployCount: number;
+    parents: string[];
+    shardId?: string;
+    faultTolerance?: number;
+}
+
+export interface ExplorerDeploy {
+    deployId: string;
+    deployer: string;
+    term?: string;
+    timestamp?: number;
+    phloLimit?: number;
+    phloPrice?: number;
+    phloCost?: number;
+    // phloCost * phloPrice in ASI
+    fee?: string;
+    errored: boolean;
+    error?: string;
+    validAfterBlockNumber?: number;
+    blockHash?: string;
+    blockNumber?: number;
+}
+
+export interface ExplorerBlockDetails {
+    block: ExplorerBlock;
+    deploys: ExplorerDeploy[];
+    finalized: boolean;
+}
+
+export interface ExplorerDeployDetails {
+    deploy: ExplorerDeploy;
+    block?: ExplorerBlock;
+    finalized?: boolean;
+}
+
+export interface ExplorerTransfer {
+    deployId: string;
+    blockNumber?: number;
+    from: string;
+    to: string;
+    amount: string;
+    status?: string;
+    timestamp?: number;
+}
+
+export class ExplorerNotFoundError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "ExplorerNotFoundError";
+    }
+}
+
+const BLOCK_HASH_PATTERN = /^[0-9a-f]{64}$/;
+// Deploy IDs are DER-encoded secp256k1 signatures, longer than a block hash
+const DEPLOY_ID_PATTERN = /^[0-9a-f]{100,160}$/;
+
+// Work out what a search box entry refers to; null if it matches nothing
+export const classifyExplorerQuery = (input: string): ExplorerQuery | null => {
+    const value = input.trim();
+    if (!value) {
+        return null;
+    }
+    if (/^\d+$/.test(value)) {
+        return { kind: "block", value: String(parseInt(value, 10)) };
+    }
+
+    const hex = value.toLowerCase().replace(/^0x/, "");
+    if (BLOCK_HASH_PATTERN.test(hex)) {
+        return { kind: "block", value: hex };
+    }
+    if (DEPLOY_ID_PATTERN.test(hex)) {
+        return { kind: "deploy", value: hex };
+    }
+    if (value.startsWith("1111") && addressValidation(value).isValid) {
+        return { kind: "address", value };
+    }
+    return null;
+};
+
+const optionalNumber = (value: unknown): number | undefined => {
+    if (value === null || value === undefined || value === "") {
+        return undefined;
+    }
+    const num = Number(value);
+    return isFinite(num) ? num : undefined;
+};
+
+const feeFor = (
+    phloCost: number | undefined,
+    phloPrice: number | undefined,
+): string | undefined =>
+    phloCost !== undefined
+        ? phloToFee(phloCost, phloPrice || GAS_FEE.PHLO_PRICE)
+        : undefined;
+
+export const normalizeBlock = (raw: any): ExplorerBlock => ({
+    blockHash: raw?.blockHash ?? "",
+    blockNumber: Number(raw?.blockNumber ?? 0),
+    proposer: raw?.sender ?? "",
+    timestamp: Number(raw?.timestamp ?? 0),
+    deployCount: Number(raw?.deployCount ?? 0),
+    parents: Array.isArray(raw?.parentsHashList) ? raw.parentsHashList : [],
+    shardId: raw?.shardId || undefined,
+    faultTolerance: optionalNumber(raw?.faultTolerance),
+});
+
+// DeployInfo as returned inside a node block
+const normalizeNodeDeploy = (
+    raw: any,
+    block?: ExplorerBlock,
+): ExplorerDeploy => {
+    const phloCost = optionalNumber(raw?.cost);
+    const phloPrice = optionalNumber(raw?.phloPrice);
+    return {
+        deployId: String(raw?.sig ?? "").toLowerCase(),
+        deployer: raw?.deployer ?? "",
+        term: raw?.term,
+        timestamp: optionalNumber(raw?.timestamp),
+        phloLimit: optionalNumber(raw?.phloLimit),
+        phloPrice,
+        phloCost,
+        fee: feeFor(phloCost, phloPrice),
+        errored: !!raw?.errored,
+        error: raw?.systemDeployError || undefined,
+        validAfterBlockNumber: optionalNumber(raw?.validAfterBlockNumber),
+        blockHash: block?.blockHash,
+        blockNumber: block?.blockNumber,
+    };
+};
+
+// Indexer deployments row
+const normalizeIndexedDeploy = (raw: any): ExplorerDeploy => {
+    const phloCost = optionalNumber(raw?.phlo_cost);
+    const phloPrice = optionalNumber(raw?.phlo_price);
+    return {
+        deployId: String(raw?.deploy_id ?? "").toLowerCase(),
+        deployer: raw?.deployer ?? "",
+        timestamp: optionalNumber(raw?.timestamp),
+        phloPrice,
+        phloCost,
+        fee: feeFor(phloCost, phloPrice),
+        errored: !!raw?.errored,
+        error: raw?.error_message || undefined,
+        blockHash: raw?.block_hash || undefined,
+        blockNumber: optionalNumber(raw?.block_number),
+    };
+};
+
+export const loadRecentBlocks = async (
+    rchain: RChainService,
+    count: number = 20,
+): Promise<ExplorerBlock[]> => {
+    const blocks = await rchain.getRecentBlocks(count);
+    return blocks
+        .map(normalizeBlock)
+        .sort((a, b) => b.blockNumber - a.blockNumber);
+};
+
+const loadBlockByHash = async (
+    rchain: RChainService,
+    blockHash: string,
+): Promise<ExplorerBlockDetails> => {
+    let result;
+    try {
+        result = await rchain.getBlock(blockHash);
+    } catch (error: any) {
+        if (error.message?.startsWith("RNode API Error")) {
+            throw new ExplorerNotFoundError(`Block ${blockHash} not found`);
+        }
+        throw error;
+    }
+    if (!result?.blockInfo) {
+        throw new ExplorerNotFoundError(`Block ${blockHash} not found`);
+    }
+
+    const block = normalizeBlock(result.blockInfo);
+    const deploys = (Array.isArray(result.deploys) ? result.deploys : []).map(
+        (deploy: any) => normalizeNodeDeploy(deploy, block),
+    );
+    const finalized = await rchain.isBlockFinalized(
+        block.blockHash,
+        block.blockNumber,
+    );
+    return { block, deploys, finalized };
+};
+
+// A block by hash, or by number when the reference is all digits
+export const loadBlock = async (
+    rchain: RChainService,
+    reference: string,
+): Promise<ExplorerBlockDetails> => {
+    if (!/^\d+$/.test(reference)) {
+        return loadBlockByHash(rchain, reference.toLowerCase());
+    }
+
+    const height = parseInt(reference, 10);
+    const [block] = await rchain.getBlocksByHeights(height, height);
+    if (!block?.blockHash) {
+        throw new ExplorerNotFoundError(`Block #${height} not found`);
+    }
+    return loadBlockByHash(rchain, block.blockHash);
+};
+
+/**
+ * A deploy as the node sees it (term, cost, system error) filled in with the
+ * indexer's record, which keeps the user-facing error message. Falls back to
+ * the indexer alone when the node no longer serves the block.
+ */
+export const loadDeploy = async (
+    rchain: RChainService,
+    deployId: string,
+): Promise<ExplorerDeployDetails> => {
+    const id = deployId.toLowerCase();
+    const [lightBlock, indexed] = await Promise.all([
+        rchain.findDeployBlock(id),
+        rchain.getIndexedDeploy(id).catch((error) => {
+            console.warn(
+                `[Explorer] Indexer lookup for ${id} failed:`,
+                error.message,
+            );
+            return null;
+        }),
+    ]);
+    const indexedDeploy = indexed ? normalizeIndexedDeploy(indexed) : null;
+
+    if (lightBlock?.blockHash) {
+        const details = await loadBlockByHash(rchain, lightBlock.blockHash);
+        const nodeDeploy = details.deploys.find(
+            (deploy) => deploy.deployId === id,
+        );
+        if (nodeDeploy) {
+            return {
+                deploy: {
+                    ...nodeDeploy,
+                    error: nodeDeploy.error || indexedDeploy?.error,
+                },
+                block: details.block,
+                finalized: details.finalized,
+            };
+        }
+    }
+
+    if (indexedDeploy) {
+        const finalized = indexedDeploy.blockHash
+            ? await rchain.isBlockFinalized(
+                  indexedDeploy.blockHash,
+                  indexedDeploy.blockNumber,
+              )
+            : undefined;
+        return { deploy: indexedDeploy, finalized };
+    }
+
+    throw new ExplorerNotFoundError(
+        `Deploy ${id} is not in any block yet. It may still be pending or may have expired.`,
+    );
+};
+
+export const loadAddressTransfers = async (
+    rchain: RChainService,
+    address: string,
+    limit: number = 50,
+): Promise<ExplorerTransfer[]> => {
+    const transfers = await rchain.getAddressTransfers(address, limit);
+    return transfers.map((transfer: any) => ({
+        deployId: String(transfer.deploy_id ?? "").toLowerCase(),
+        blockNumber: optionalNumber(transfer.block_number),
+        from: transfer.from_address ?? "",
+        to: transfer.to_address ?? "",
+        amount: String(transfer.amount_asi ?? "0"),
+        status: transfer.status || undefined,
+        timestamp: optionalNumber(transfer.timestamp),
+    }));
+};
@@ -0,0 +1,206 @@
+/**
+ * BIP39 recovery phrases and BIP32/BIP44 account derivation. Accounts use the
+ * Ethereum path m/44'/60'/0'/0/<index>, so the same phrase yields the same
+ * addresses as MetaMask and hardware wallets. The phrase is sealed with the
+ * same V2 envelope as private keys and kept in the general KV store, one per
+ * user like the accounts themselves.
+ */
+import { ethers } from "ethers";
+import { importPrivateKey, KeyPair } from "utils/crypto";
+import { sealV2, openV2 } from "utils/encryptedPayload";
+import { GeneralKVStore } from "./generalKVStore";
+
+export const HD_BASE_PATH = "m/44'/60'/0'/0";
+
+const SEED_STORAGE_KEY = "hd_wallet_seed";
+const seedStorageKey = (userId: string): string =>
+    `${SEED_STORAGE_KEY}_${userId}`;
+const VALID_WORD_COUNTS = [12, 15, 18, 21, 24];
+
+export interface DerivedKeyPair extends KeyPair {
+    derivationPath: string;
+    index: number;
+}
+
+// What is persisted; also carried as-is in wallet backups
+export interface StoredSeed {
+    encryptedMnemonic: string;
+    // Index of the next account to derive
+    nextIndex: number;
+    createdAt: string;
+}
+
+export class MnemonicError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "MnemonicError";
+    }
+}
+
+export const derivationPathFor = (index: number): string =>
+    `${HD_BASE_PATH}/${index}`;
+
+export const normalizeMnemonic = (phrase: string): string =>
+    phrase.trim().toLowerCase().split(/\s+/).join(" ");
+
+// 128 bits of entropy gives the usual 12 words
+export const generateMnemonic = (strengthBits = 128): string =>
+    ethers.utils.entropyToMnemonic(ethers.utils.randomBytes(strengthBits / 8));
+
+export const validateMnemonic = (
+    phrase: string,
+): { valid: boolean; error?: string } => {
+    const normalized = normalizeMnemonic(phrase);
+    const wordCount = normalized ? normalized.split(" ").length : 0;
+    if (!VALID_WORD_COUNTS.includes(wordCount)) {
+        return {
+            valid: false,
+            error: `Recovery phrase must have 12, 15, 18, 21 or 24 words (got ${wordCount})`,
+        };
+    }
+    if (!ethers.utils.isValidMnemonic(normalized)) {
+        return {
+            valid: false,
+            error: "Recovery phrase has an unknown word or a bad checksum",
+        };
+    }
+    return { valid: true };
+};
+
+const rootNode = (mnemonic: string): ethers.utils.HDNode => {
+    const normalized = normalizeMnemonic(mnemonic);
+    const { valid, error } = validateMnemonic(normalized);
+    if (!valid) {
+        throw new MnemonicError(error!);
+    }
+    return ethers.utils.HDNode.fromMnemonic(normalized);
+};
+
+const keyPairAt = (
+    root: ethers.utils.HDNode,
+    index: number,
+): DerivedKeyPair => {
+    const derivationPath = derivationPathFor(index);
+    const node = root.derivePath(derivationPath);
+    return {
+        ...importPrivateKey(node.privateKey.replace(/^0x/, "")),
+        derivationPath,
+        index,
+    };
+};
+
+export const deriveKeyPair = (
+    mnemonic: string,
+    index: number,
+): DerivedKeyPair => keyPairAt(rootNode(mnemonic), index);
+
+// Each user's HD seed; accounts keep their own sealed private keys
+export class SeedVault {
+    static async getStoredSeed(userId: string): Promise<StoredSeed | null> {
+        const raw = await GeneralKVStore.get(seedStorageKey(userId));
+        if (!raw) return null;
+        try {
+            return JSON.parse(raw) as StoredSeed;
+        } catch {
+            return null;
+        }
+    }
+
+    static async hasSeed(userId: string): Promise<boolean> {
+        return (await this.getStoredSeed(userId)) !== null;
+    }
+
+    // Seals and stores `mnemonic`; the first account derived from it is index 0
+    static async storeSeed(
+        userId: string,
+        mnemonic: string,
+        password: string,
+    ): Promise<void> {
+        if (await this.hasSeed(userId)) {
+            throw new MnemonicError(
+                "This wallet already has a recovery phrase",
+            );
+        }
+        const normalized = normalizeMnemonic(mnemonic);
+        const { valid, error } = validateMnemonic(normalized);
+        if (!valid) {
+            throw new MnemonicError(error!);
+        }
+        await this.putStoredSeed(userId, {
+            encryptedMnemonic: await sealV2(normalized, password),
+            nextIndex: 0,
+            createdAt: new Date().toISOString(),
+        });
+    }
+
+    static async openSeed(userId: string, password: string): Promise<string> {
+        const stored = await this.getStoredSeed(userId);
+        if (!stored) {
+            throw new MnemonicError("This wallet has no recovery phrase");
+        }
+        return this.openStoredSeed(stored, password);
+    }
+
+    /**
+     * Derives the next unused account. `isTaken` lets the caller skip addresses
+     * that are already in the wallet, e.g. after importing the same phrase.
+     */
+    static async deriveNext(
+        userId: string,
+        password: string,
+        isTaken: (keyPair: DerivedKeyPair) => boolean = () => false,
+    ): Promise<DerivedKeyPair> {
+        const root = rootNode(await this.openSeed(userId, password));
+        const stored = (await this.getStoredSeed(userId))!;
+
+        let keyPair = keyPairAt(root, stored.nextIndex);
+        while (isTaken(keyPair)) {
+            keyPair = keyPairAt(root, keyPair.index + 1);
+        }
+        await this.putStoredSeed(userId, {
+            ...stored,
+            nextIndex: keyPair.index + 1,
+        });
+        return keyPair;
+    }
+
+    /**
+     * Used by backup restore; an existing seed is never overwritten. The
+     * backed-up phrase is opened with `sealedWith` and sealed again with
+     * `password`, so it unlocks with the same password as the user's accounts.
+     */
+    static async restoreStoredSeed(
+        userId: string,
+        seed: StoredSeed,
+        password: string,
+        sealedWith: string = password,
+    ): Promise<boolean> {
+        if (await this.hasSeed(userId)) return false;
+        const mnemonic = await this.openStoredSeed(seed, sealedWith);
+        await this.putStoredSeed(userId, {
+            ...seed,
+            encryptedMnemonic: await sealV2(mnemonic, password),
+        });
+        return true;
+    }
+
+    private static async openStoredSeed(
+        stored: StoredSeed,
+        password: string,
+    ): Promise<string> {
+        try {
+            return await openV2(stored.encryptedMnemonic, password);
+        } catch {
+            throw new MnemonicError(
+                "Incorrect password for the recovery phrase",
+            );
+        }
+    }
+
+    private static async putStoredSeed(
+        userId: string,
+        seed: StoredSeed,
+    ): Promise<void> {
+        await GeneralKVStore.set(seedStorageKey(userId), JSON.stringify(seed));
+    }
+}
@@ -0,0 +1,149 @@
+import {
+    MessageSignatureError,
+    createSignedMessage,
+    parseSignature,
+    serializeSignedMessage,
+    verifySignedMessage,
+} from "./messageSigning";
+import {
+    importPrivateKey,
+    recoverMessagePublicKey,
+    signDeploy,
+    signMessage,
+    verifyDeploySignature,
+} from "utils/crypto";
+
+const PRIVATE_KEY =
+    "4f3edf983ac636a65a842ce7c78d9aa706d3b113bce9c46f30d7d21715b23b1d";
+const OTHER_KEY =
+    "6cbed15c793ce57650b9877cf6fa156fbef513c4e6134f022a85b1ffdd59b2a1";
+const account = importPrivateKey(PRIVATE_KEY);
+const other = importPrivateKey(OTHER_KEY);
+
+describe("signMessage", () => {
+    it("produces a 65-byte signature that recovers the signing key", () => {
+        const signature = signMessage("héllo ✓", PRIVATE_KEY);
+        expect(signature).toMatch(/^[0-9a-f]{130}$/);
+        expect(recoverMessagePublicKey("héllo ✓", signature)).toBe(
+            account.publicKey,
+        );
+    });
+
+    it("does not recover the same key for another message", () => {
+        const signature = signMessage("pay 1 ASI", PRIVATE_KEY);
+        let recovered: string | undefined;
+        try {
+            recovered = recoverMessagePublicKey("pay 100 ASI", signature);
+        } catch {
+            recovered = undefined;
+        }
+        expect(recovered).not.toBe(account.publicKey);
+    });
+
+    it("rejects malformed signatures", () => {
+        expect(() => recoverMessagePublicKey("m", "abcd")).toThrow("65 bytes");
+        const badRecoveryId = `${signMessage("m", PRIVATE_KEY).slice(0, 128)}07`;
+        expect(() => recoverMessagePublicKey("m", badRecoveryId)).toThrow(
+            "recovery id",
+        );
+    });
+
+    it("cannot be replayed as a deploy signature", () => {
+        const deploy = signDeploy(
+            {
+                term: "Nil",
+                phloLimit: 1,
+                phloPrice: 1,
+                validAfterBlockNumber: 0,
+                timestamp: 1,
+            },
+            PRIVATE_KEY,
+        );
+        const messageSignature = signMessage("Nil", PRIVATE_KEY);
+        expect(
+            verifyDeploySignature({
+                ...deploy,
+                sig: messageSignature.slice(0, 128),
+            }).valid,
+        ).toBe(false);
+    });
+});
+
+describe("verifySignedMessage", () => {
+    const message = "I control this address";
+    const blob = createSignedMessage(message, PRIVATE_KEY);
+    const blobText = serializeSignedMessage(blob);
+
+    it("verifies a blob against the address it names", () => {
+        expect(blob.address).toBe(account.revAddress);
+        expect(verifySignedMessage(message, blobText)).toEqual({
+            valid: true,
+            signer: account.revAddress,
+        });
+    });
+
+    it("accepts the expected address as ASI or ETH", () => {
+        expect(
+            verifySignedMessage(message, blobText, account.ethAddress).valid,
+        ).toBe(true);
+        expect(
+            verifySignedMessage(
+                message,
+                blobText,
+                account.ethAddress.toUpperCase().replace(/^0X/, "0x"),
+            ).valid,
+        ).toBe(true);
+    });
+
+    it("reports the real signer when the address does not match", () => {
+        expect(
+            verifySignedMessage(message, blobText, other.revAddress),
+        ).toEqual({
+            valid: false,
+            signer: account.revAddress,
+            error: `Signed by ${account.revAddress}, not ${other.revAddress}`,
+        });
+    });
+
+    it("rejects a blob whose named address did not sign", () => {
+        const forged = serializeSignedMessage({
+            ...blob,
+            address: other.revAddress,
+        });
+        expect(verifySignedMessage(message, forged).valid).toBe(false);
+    });
+
+    it("rejects a changed message", () => {
+        expect(verifySignedMessage(`${message}!`, blobText).valid).toBe(false);
+    });
+
+    it("recovers the signer of a bare hex signature", () => {
+        expect(verifySignedMessage(message, `0x${blob.signature}`)).toEqual({
+            valid: true,
+            signer: account.revAddress,
+        });
+    });
+});
+
+describe("parseSignature", () => {
+    it.each([
+        ["text that is neither JSON nor hex", "not a signature"],
+        ["another format", '{"format":"other"}'],
+        [
+            "an unknown version",
+            '{"format":"asi-signed-message","version":2,"algorithm":"secp256k1"}',
+        ],
+        [
+            "a short signature",
+            '{"format":"asi-signed-message","version":1,"algorithm":"secp256k1","signature":"ab"}',
+        ],
+    ])("rejects %s", (_, text) => {
+        expect(() => parseSignature(text)).toThrow(MessageSignatureError);
+    });
+
+    it("refuses to sign an empty message", () => {
+        expect(() => createSignedMessage("", PRIVATE_KEY)).toThrow(
+            MessageSignatureError,
+        );
+    });
+});
@@ -0,0 +1,147 @@
+/**
+ * Signed messages prove control of an address without a deploy. The signature
+ * is exchanged as a small JSON blob naming the signer; a bare 65-byte hex
+ * signature is accepted too, in which case the signer is only recovered.
+ */
+import {
+    deriveEthAddress,
+    deriveRevAddress,
+    importPrivateKey,
+    recoverMessagePublicKey,
+    signMessage,
+} from "utils/crypto";
+
+const BLOB_FORMAT = "asi-signed-message";
+const BLOB_VERSION = 1;
+
+export interface SignedMessageBlob {
+    format: typeof BLOB_FORMAT;
+    version: number;
+    algorithm: "secp256k1";
+    address: string;
+    publicKey: string;
+    signature: string;
+}
+
+export interface MessageVerification {
+    valid: boolean;
+    // Address recovered from the signature, when it could be recovered
+    signer?: string;
+    error?: string;
+}
+
+export class MessageSignatureError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "MessageSignatureError";
+    }
+}
+
+const RAW_SIGNATURE_PATTERN = /^(0x)?[0-9a-fA-F]{130}$/;
+
+export const createSignedMessage = (
+    message: string,
+    privateKey: string,
+): SignedMessageBlob => {
+    if (!message) {
+        throw new MessageSignatureError("Enter a message to sign");
+    }
+    const { publicKey, revAddress } = importPrivateKey(privateKey);
+    return {
+        format: BLOB_FORMAT,
+        version: BLOB_VERSION,
+        algorithm: "secp256k1",
+        address: revAddress,
+        publicKey,
+        signature: signMessage(message, privateKey),
+    };
+};
+
+export const serializeSignedMessage = (blob: SignedMessageBlob): string =>
+    JSON.stringify(blob, null, 2);
+
+// Accepts a signature blob or a bare hex signature
+export const parseSignature = (
+    text: string,
+): Pick<SignedMessageBlob, "signature"> & { address?: string } => {
+    const value = text.trim();
+    if (RAW_SIGNATURE_PATTERN.test(value)) {
+        return { signature: value.replace(/^0x/, "") };
+    }
+
+    let parsed: any;
+    try {
+        parsed = JSON.parse(value);
+    } catch {
+        throw new MessageSignatureError(
+            "Paste a signature blob or a 65-byte hex signature",
+        );
+    }
+    if (parsed?.format !== BLOB_FORMAT) {
+        throw new MessageSignatureError("Not an ASI signed message");
+    }
+    if (parsed.version !== BLOB_VERSION) {
+        throw new MessageSignatureError(
+            `Unsupported signature version: ${String(parsed.version)}`,
+        );
+    }
+    if (parsed.algorithm !== "secp256k1") {
+        throw new MessageSignatureError(
+            `Unsupported signature algorithm: ${String(parsed.algorithm)}`,
+        );
+    }
+    if (
+        typeof parsed.signature !== "string" ||
+        !RAW_SIGNATURE_PATTERN.test(parsed.signature)
+    ) {
+        throw new MessageSignatureError("Signature must be 65 bytes of hex");
+    }
+    return {
+        signature: parsed.signature.replace(/^0x/, ""),
+        address:
+            typeof parsed.address === "string" ? parsed.address : undefined,
+    };
+};
+
+/**
+ * Recovers the signer of `message` and checks it against `expectedAddress`,
+ * falling back to the address named in the blob. Without either, a signature
+ * that recovers to any key is reported valid along with its signer.
+ */
+export const verifySignedMessage = (
+    message: string,
+    signatureText: string,
+    expectedAddress?: string,
+): MessageVerification => {
+    let signature: string;
+    let blobAddress: string | undefined;
+    try {
+        ({ signature, address: blobAddress } = parseSignature(signatureText));
+    } catch (error) {
+        return { valid: false, error: (error as Error).message };
+    }
+
+    let signer: string;
+    let ethSigner: string;
+    try {
+        const publicKey = recoverMessagePublicKey(message, signature);
+        ethSigner = deriveEthAddress(publicKey);
+        signer = deriveRevAddress(ethSigner);
+    } catch (error) {
+        return { valid: false, error: (error as Error).message };
+    }
+
+    const expected = expectedAddress?.trim() || blobAddress;
+    if (
+        expected &&
+        expected !== signer &&
+        expected.toLowerCase() !== ethSigner.toLowerCase()
+    ) {
+        return {
+            valid: false,
+            signer,
+            error: `Signed by ${signer}, not ${expected}`,
+        };
+    }
+    return { valid: true, signer };
+};
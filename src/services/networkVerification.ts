@@ -0,0 +1,237 @@
+import axios from "axios";
+import { normalizeEndpoints } from "./nodePool";
+
+const STATUS_TIMEOUT = 5000;
+
+export type NetworkEndpointRole = "validator" | "readOnly" | "indexer";
+
+// Fields reported by a node's /api/status
+export interface NodeStatus {
+    version?: string;
+    shardId?: string;
+    networkId?: string;
+    peers?: number;
+    nodes?: number;
+    minPhloPrice?: number;
+}
+
+export interface EndpointVerification {
+    role: NetworkEndpointRole;
+    url: string;
+    reachable: boolean;
+    status?: NodeStatus;
+    error?: string;
+}
+
+export interface NetworkVerification {
+    endpoints: EndpointVerification[];
+    // Shard the wallet should sign deploys for, undefined if no source reported one
+    shardId?: string;
+    warnings: string[];
+    checkedAt: number;
+}
+
+export interface NetworkVerificationTarget {
+    validatorUrl: string;
+    readOnlyUrl?: string;
+    graphqlUrl?: string;
+}
+
+const ROLE_LABELS: Record<NetworkEndpointRole, string> = {
+    validator: "Validator",
+    readOnly: "Read-only node",
+    indexer: "Indexer",
+};
+
+export const getEndpointRoleLabel = (role: NetworkEndpointRole): string =>
+    ROLE_LABELS[role];
+
+const optionalString = (value: unknown): string | undefined =>
+    typeof value === "string" && value.trim() ? value.trim() : undefined;
+
+const optionalNumber = (value: unknown): number | undefined =>
+    typeof value === "number" && isFinite(value) ? value : undefined;
+
+// Older nodes report version as a string, newer ones as { api, node }
+const parseVersion = (version: unknown): string | undefined => {
+    if (typeof version === "string") {
+        return optionalString(version);
+    }
+    if (version && typeof version === "object") {
+        const { node, api } = version as { node?: unknown; api?: unknown };
+        const nodeVersion = optionalString(node);
+        const apiVersion =
+            typeof api === "number" ? String(api) : optionalString(api);
+        if (nodeVersion && apiVersion) {
+            return `${nodeVersion} (API ${apiVersion})`;
+        }
+        return nodeVersion || apiVersion;
+    }
+    return undefined;
+};
+
+export const parseNodeStatus = (data: any): NodeStatus => ({
+    version: parseVersion(data?.version),
+    shardId: optionalString(data?.shardId),
+    networkId: optionalString(data?.networkId),
+    peers: optionalNumber(data?.peers),
+    nodes: optionalNumber(data?.nodes),
+    minPhloPrice: optionalNumber(data?.minPhloPrice),
+});
+
+const describeError = (error: any): string => {
+    if (axios.isAxiosError(error)) {
+        if (error.response) {
+            return `HTTP ${error.response.status}`;
+        }
+        if (error.code === "ECONNABORTED") {
+            return "Timed out";
+        }
+        return "Unreachable";
+    }
+    return error?.message || "Unknown error";
+};
+
+export const fetchNodeStatus = async (url: string): Promise<NodeStatus> => {
+    const [baseUrl] = normalizeEndpoints([url]);
+    const response = await axios.get(`${baseUrl}/api/status`, {
+        timeout: STATUS_TIMEOUT,
+    });
+    return parseNodeStatus(response.data);
+};
+
+// Shard ID of the most recent deploy the indexer has seen
+export const fetchIndexerShardId = async (
+    graphqlUrl: string,
+): Promise<string | undefined> => {
+    const response = await axios.post(
+        graphqlUrl,
+        {
+            query: `query GetIndexedShard {
+                deployments(order_by: { block_number: desc }, limit: 1) {
+                    shard_id
+                }
+            }`,
+        },
+        {
+            headers: { "Content-Type": "application/json" },
+            timeout: STATUS_TIMEOUT,
+        },
+    );
+
+    if (response.data?.errors?.length) {
+        throw new Error(
+            response.data.errors
+                .map((err: { message: string }) => err.message)
+                .join(", "),
+        );
+    }
+
+    return optionalString(response.data?.data?.deployments?.[0]?.shard_id);
+};
+
+const verifyEndpoint = async (
+    role: NetworkEndpointRole,
+    url: string,
+): Promise<EndpointVerification> => {
+    try {
+        const status =
+            role === "indexer"
+                ? { shardId: await fetchIndexerShardId(url) }
+                : await fetchNodeStatus(url);
+        return { role, url, reachable: true, status };
+    } catch (error: any) {
+        return { role, url, reachable: false, error: describeError(error) };
+    }
+};
+
+const distinctValues = (
+    endpoints: EndpointVerification[],
+    field: "shardId" | "networkId",
+): string[] =>
+    endpoints
+        .map((endpoint) => endpoint.status?.[field])
+        .filter(
+            (value, index, all): value is string =>
+                !!value && all.indexOf(value) === index,
+        );
+
+/**
+ * Query the validator, read-only node and indexer of a network and compare
+ * what they report. The validator's shard wins because it is the node that
+ * checks deploy signatures; the others only fill in when it is unreachable.
+ */
+export const verifyNetwork = async (
+    target: NetworkVerificationTarget,
+): Promise<NetworkVerification> => {
+    const targets: [NetworkEndpointRole, string | undefined][] = [
+        ["validator", target.validatorUrl],
+        ["readOnly", target.readOnlyUrl],
+        ["indexer", target.graphqlUrl],
+    ];
+
+    const endpoints = await Promise.all(
+        targets
+            .filter((entry): entry is [NetworkEndpointRole, string] =>
+                Boolean(entry[1]?.trim()),
+            )
+            .map(([role, url]) => verifyEndpoint(role, url.trim())),
+    );
+
+    const warnings: string[] = [];
+
+    endpoints
+        .filter((endpoint) => !endpoint.reachable)
+        .forEach((endpoint) => {
+            warnings.push(
+                `${getEndpointRoleLabel(endpoint.role)} at ${endpoint.url} could not be reached (${endpoint.error}).`,
+            );
+        });
+
+    const reporting = endpoints.filter((endpoint) => endpoint.status?.shardId);
+    if (distinctValues(reporting, "shardId").length > 1) {
+        const details = reporting
+            .map(
+                (endpoint) =>
+                    `${getEndpointRoleLabel(endpoint.role)}: "${endpoint.status?.shardId}"`,
+            )
+            .join(", ");
+        warnings.push(`Endpoints disagree about the shard ID (${details}).`);
+    }
+
+    const networkIds = distinctValues(endpoints, "networkId");
+    if (networkIds.length > 1) {
+        warnings.push(
+            `Validator and read-only node report different network IDs (${networkIds.join(", ")}).`,
+        );
+    }
+
+    const validator = endpoints.find(
+        (endpoint) => endpoint.role === "validator",
+    );
+    const shardId = validator?.status?.shardId ?? reporting[0]?.status?.shardId;
+
+    if (endpoints.some((endpoint) => endpoint.reachable) && !shardId) {
+        warnings.push("No endpoint reported a shard ID.");
+    }
+
+    return { endpoints, shardId, warnings, checkedAt: Date.now() };
+};
+
+// Whether a verification result still describes the given endpoints
+export const isVerificationFor = (
+    verification: NetworkVerification | null,
+    target: NetworkVerificationTarget,
+): verification is NetworkVerification => {
+    if (!verification) {
+        return false;
+    }
+    const urlFor = (role: NetworkEndpointRole) =>
+        verification.endpoints.find((endpoint) => endpoint.role === role)
+            ?.url || "";
+    return (
+        urlFor("validator") === target.validatorUrl.trim() &&
+        urlFor("readOnly") === (target.readOnlyUrl?.trim() || "") &&
+        urlFor("indexer") === (target.graphqlUrl?.trim() || "")
+    );
+};
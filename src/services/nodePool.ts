@@ -0,0 +1,273 @@
+import axios, { AxiosError, AxiosInstance } from "axios";
+
+// How long a /status probe result is trusted before nodes are re-probed
+const PROBE_TTL = 30000;
+const PROBE_TIMEOUT = 5000;
+// Number of recent request outcomes used to compute a node's error rate
+const OUTCOME_WINDOW = 20;
+// Weight of the newest latency sample in the moving average
+const LATENCY_SMOOTHING = 0.3;
+// Latency assumed for nodes that have not answered yet
+const UNKNOWN_LATENCY_MS = 1000;
+
+export interface NodeHealth {
+    url: string;
+    latencyMs: number | null;
+    errorRate: number;
+    healthy: boolean;
+    lastCheckedAt?: number;
+    lastError?: string;
+}
+
+interface PoolNode {
+    url: string;
+    client: AxiosInstance;
+    latencyMs: number | null;
+    outcomes: boolean[];
+    healthy: boolean;
+    lastCheckedAt?: number;
+    lastError?: string;
+}
+
+export interface NodePoolRequestOptions {
+    // Try the next node when the chosen one is unreachable (default true)
+    failover?: boolean;
+    // Only fail over when the request provably never reached the node; the
+    // node's /api/status is checked first so this also holds in a browser
+    failoverOnlyIfNotSent?: boolean;
+}
+
+// Pools are shared by endpoint list so health survives short-lived RChainService instances
+const pools: Map<string, NodePool> = new Map();
+
+export const normalizeEndpoints = (
+    urls: (string | undefined)[],
+): string[] => {
+    const seen = new Set<string>();
+    const result: string[] = [];
+
+    urls.forEach((url) => {
+        const trimmed = url?.trim().replace(/\/+$/, "");
+        if (trimmed && !seen.has(trimmed)) {
+            seen.add(trimmed);
+            result.push(trimmed);
+        }
+    });
+
+    return result;
+};
+
+// No response at all means the node is unreachable; 5xx means it is unhealthy
+const isNodeFailure = (error: AxiosError): boolean =>
+    !error.response || error.response.status >= 500;
+
+// Set on a failed /api/status check made before a request that must not be
+// sent twice: the request itself never went out
+const PREFLIGHT_FAILED = "ERR_PREFLIGHT_FAILED";
+
+// Connection refused / DNS failures happen before the request body is sent.
+// Anything else without a response (timeouts, a browser's ERR_NETWORK) may
+// have reached the node, so its outcome is unknown. Browsers report a refused
+// connection as ERR_NETWORK too, hence the pre-flight check.
+const NOT_SENT_CODES = [
+    "ECONNREFUSED",
+    "ENOTFOUND",
+    "EAI_AGAIN",
+    PREFLIGHT_FAILED,
+];
+
+export const isNotSentError = (error: { code?: string }): boolean =>
+    !!error.code && NOT_SENT_CODES.includes(error.code);
+
+export class NodePool {
+    private nodes: PoolNode[];
+    private lastProbeAt = 0;
+    private probing: Promise<void> | null = null;
+
+    private constructor(urls: string[]) {
+        this.nodes = urls.map((url) => ({
+            url,
+            client: axios.create({
+                baseURL: url,
+                timeout: 30000,
+                headers: {
+                    "Content-Type": "application/json",
+                },
+            }),
+            latencyMs: null,
+            outcomes: [],
+            healthy: true,
+        }));
+    }
+
+    static forUrls(urls: (string | undefined)[]): NodePool {
+        const endpoints = normalizeEndpoints(urls);
+        const key = endpoints.join("|");
+
+        let pool = pools.get(key);
+        if (!pool) {
+            pool = new NodePool(
+                endpoints.length > 0 ? endpoints : ["http://localhost"],
+            );
+            pools.set(key, pool);
+        }
+        return pool;
+    }
+
+    get urls(): string[] {
+        return this.nodes.map((node) => node.url);
+    }
+
+    get primaryUrl(): string {
+        return this.nodes[0].url;
+    }
+
+    getHealth(): NodeHealth[] {
+        return this.nodes.map((node) => ({
+            url: node.url,
+            latencyMs: node.latencyMs,
+            errorRate: this.errorRate(node),
+            healthy: node.healthy,
+            lastCheckedAt: node.lastCheckedAt,
+            lastError: node.lastError,
+        }));
+    }
+
+    // Probe every node's /status endpoint; concurrent callers share one probe
+    async probe(force: boolean = false): Promise<NodeHealth[]> {
+        const isFresh = Date.now() - this.lastProbeAt < PROBE_TTL;
+        if (!force && isFresh) {
+            return this.getHealth();
+        }
+
+        if (!this.probing) {
+            this.probing = Promise.all(
+                this.nodes.map((node) => this.probeNode(node)),
+            ).then(() => {
+                this.lastProbeAt = Date.now();
+                this.probing = null;
+            });
+        }
+
+        await this.probing;
+        return this.getHealth();
+    }
+
+    // Run a request against the healthiest node, failing over to the next on node failure
+    async request<T>(
+        send: (client: AxiosInstance, url: string) => Promise<T>,
+        options: NodePoolRequestOptions = {},
+    ): Promise<T> {
+        const { failover = true, failoverOnlyIfNotSent = false } = options;
+
+        if (this.nodes.length > 1) {
+            await this.probe().catch(() => undefined);
+        }
+
+        const candidates = failover
+            ? this.getOrderedNodes()
+            : this.getOrderedNodes().slice(0, 1);
+        let lastError: unknown;
+
+        for (const node of candidates) {
+            const startedAt = Date.now();
+            try {
+                if (failoverOnlyIfNotSent) {
+                    await this.preflight(node);
+                }
+                const result = await send(node.client, node.url);
+                this.recordSuccess(node, Date.now() - startedAt);
+                return result;
+            } catch (error: any) {
+                lastError = error;
+
+                if (!axios.isAxiosError(error) || !isNodeFailure(error)) {
+                    // The node answered; the request itself was rejected
+                    throw error;
+                }
+
+                this.recordFailure(node, error.message);
+
+                if (failoverOnlyIfNotSent && !isNotSentError(error)) {
+                    throw error;
+                }
+
+                if (candidates.length > 1) {
+                    console.warn(
+                        `[NodePool] Request to ${node.url} failed (${error.message}), trying next node`,
+                    );
+                }
+            }
+        }
+
+        throw lastError;
+    }
+
+    // Fails with PREFLIGHT_FAILED unless the node answers its status endpoint
+    private async preflight(node: PoolNode): Promise<void> {
+        try {
+            await node.client.get("/api/status", { timeout: PROBE_TIMEOUT });
+        } catch (error: any) {
+            if (axios.isAxiosError(error) && isNodeFailure(error)) {
+                throw Object.assign(error, { code: PREFLIGHT_FAILED });
+            }
+        }
+    }
+
+    private getOrderedNodes(): PoolNode[] {
+        return [...this.nodes].sort((a, b) => this.score(a) - this.score(b));
+    }
+
+    // Lower is better: latency inflated by the recent error rate, unhealthy nodes last
+    private score(node: PoolNode): number {
+        const latency = node.latencyMs ?? UNKNOWN_LATENCY_MS;
+        const penalty = node.healthy ? 0 : Number.MAX_SAFE_INTEGER / 2;
+        return latency * (1 + 4 * this.errorRate(node)) + penalty;
+    }
+
+    private errorRate(node: PoolNode): number {
+        if (node.outcomes.length === 0) {
+            return 0;
+        }
+        const failures = node.outcomes.filter((ok) => !ok).length;
+        return failures / node.outcomes.length;
+    }
+
+    private async probeNode(node: PoolNode): Promise<void> {
+        const startedAt = Date.now();
+        try {
+            await node.client.get("/api/status", { timeout: PROBE_TIMEOUT });
+            this.recordSuccess(node, Date.now() - startedAt);
+        } catch (error: any) {
+            this.recordFailure(node, error.message);
+        }
+    }
+
+    private recordSuccess(node: PoolNode, latencyMs: number): void {
+        node.latencyMs =
+            node.latencyMs === null
+                ? latencyMs
+                : Math.round(
+                      LATENCY_SMOOTHING * latencyMs +
+                          (1 - LATENCY_SMOOTHING) * node.latencyMs,
+                  );
+        node.healthy = true;
+        node.lastCheckedAt = Date.now();
+        node.lastError = undefined;
+        this.pushOutcome(node, true);
+    }
+
+    private recordFailure(node: PoolNode, message?: string): void {
+        node.healthy = false;
+        node.lastCheckedAt = Date.now();
+        node.lastError = message;
+        this.pushOutcome(node, false);
+    }
+
+    private pushOutcome(node: PoolNode, ok: boolean): void {
+        node.outcomes.push(ok);
+        if (node.outcomes.length > OUTCOME_WINDOW) {
+            node.outcomes.shift();
+        }
+    }
+}
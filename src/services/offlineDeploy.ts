@@ -0,0 +1,446 @@
+/**
+ * Air-gapped deploy signing. The online wallet builds an unsigned deploy and
+ * hands it over as a file or an animated QR code; the offline wallet signs it
+ * and hands back the signed deploy, which the online wallet broadcasts.
+ */
+import { blake2bHex } from "blakejs";
+import { buildTransferTerm, Deploy, SignedDeploy } from "services/rchain";
+import { DEPLOY_LIFESPAN_BLOCKS } from "constants/deploy";
+import { phloToFee } from "constants/gas";
+import {
+    deriveEthAddress,
+    deriveRevAddress,
+    verifyDeploySignature,
+} from "utils/crypto";
+import { Amount } from "utils/amount";
+
+const FILE_FORMAT = "asi-offline-deploy";
+const FILE_VERSION = 1;
+
+const QR_FRAME_PREFIX = "ASIDEPLOY";
+const QR_FRAME_PATTERN = /^ASIDEPLOY:([0-9a-f]{8}):(\d+)\/(\d+):([\s\S]*)$/;
+const DEFAULT_QR_CHUNK_SIZE = 300;
+
+// Timestamps further ahead than this point to a wrong clock on the preparing device
+const MAX_CLOCK_SKEW_MS = 10 * 60 * 1000;
+const STALE_DEPLOY_AGE_MS = 24 * 60 * 60 * 1000;
+const EXPIRY_WARNING_BLOCKS = 10;
+
+// Only locate candidate values; a term counts as a transfer once rebuilt exactly
+const TRANSFER_PATTERN =
+    /@vault!\("transfer",\s*"([1-9A-HJ-NP-Za-km-z]+)",\s*(\d+),/;
+const TRANSFER_SOURCE_PATTERN =
+    /@ASIVault!\("findOrCreate",\s*"([1-9A-HJ-NP-Za-km-z]+)",\s*\*vaultCh\)/;
+
+export type OfflineDeployKind = "unsigned" | "signed";
+
+export interface UnsignedDeployFile {
+    format: typeof FILE_FORMAT;
+    version: number;
+    kind: "unsigned";
+    network?: string;
+    deploy: Deploy;
+}
+
+export interface SignedDeployFile {
+    format: typeof FILE_FORMAT;
+    version: number;
+    kind: "signed";
+    network?: string;
+    deploy: SignedDeploy;
+}
+
+export type OfflineDeployFile = UnsignedDeployFile | SignedDeployFile;
+
+export interface DeploySummary {
+    shardId?: string;
+    phloLimit: number;
+    phloPrice: number;
+    maxFee: string;
+    validAfterBlockNumber: number;
+    lastValidBlockNumber: number;
+    createdAt: Date;
+    // Set only when the term is exactly the wallet's own transfer term
+    transfer?: { from: string; to: string; amount: string };
+    signer?: string;
+    // RNode identifies a deploy by its signature, so this is the lowercased sig
+    deployId?: string;
+}
+
+export interface DeployCheckIssue {
+    level: "error" | "warning";
+    message: string;
+}
+
+export class OfflineDeployError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "OfflineDeployError";
+    }
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isNonNegativeInteger = (value: unknown): value is number =>
+    typeof value === "number" && Number.isSafeInteger(value) && value >= 0;
+
+const isHex = (value: unknown): value is string =>
+    typeof value === "string" && /^([0-9a-fA-F]{2})+$/.test(value);
+
+const validateDeploy = (deploy: unknown): Deploy => {
+    if (!isObject(deploy)) {
+        throw new OfflineDeployError("Deploy data is missing");
+    }
+    if (typeof deploy.term !== "string" || deploy.term.trim() === "") {
+        throw new OfflineDeployError("Deploy term is missing");
+    }
+    if (!isNonNegativeInteger(deploy.phloLimit) || deploy.phloLimit === 0) {
+        throw new OfflineDeployError("Phlo limit must be a positive integer");
+    }
+    if (!isNonNegativeInteger(deploy.phloPrice) || deploy.phloPrice === 0) {
+        throw new OfflineDeployError("Phlo price must be a positive integer");
+    }
+    if (!isNonNegativeInteger(deploy.validAfterBlockNumber)) {
+        throw new OfflineDeployError(
+            "validAfterBlockNumber must be a non-negative integer",
+        );
+    }
+    if (!isNonNegativeInteger(deploy.timestamp)) {
+        throw new OfflineDeployError("Timestamp must be a non-negative integer");
+    }
+    if (deploy.shardId !== undefined && typeof deploy.shardId !== "string") {
+        throw new OfflineDeployError("Shard ID must be a string");
+    }
+
+    return {
+        term: deploy.term,
+        phloLimit: deploy.phloLimit,
+        phloPrice: deploy.phloPrice,
+        validAfterBlockNumber: deploy.validAfterBlockNumber,
+        timestamp: deploy.timestamp,
+        shardId: deploy.shardId,
+    };
+};
+
+const validateSignedDeploy = (deploy: unknown): SignedDeploy => {
+    const data = validateDeploy(deploy);
+    const { deployer, sig, sigAlgorithm } = deploy as Record<string, any>;
+    if (!isHex(deployer)) {
+        throw new OfflineDeployError("Deployer public key must be hex");
+    }
+    if (!isHex(sig)) {
+        throw new OfflineDeployError("Signature must be hex");
+    }
+    if (sigAlgorithm !== "secp256k1") {
+        throw new OfflineDeployError(
+            `Unsupported signature algorithm: ${String(sigAlgorithm)}`,
+        );
+    }
+    return { ...data, deployer, sig, sigAlgorithm };
+};
+
+export const createUnsignedDeployFile = (
+    deploy: Deploy,
+    network?: string,
+): UnsignedDeployFile => ({
+    format: FILE_FORMAT,
+    version: FILE_VERSION,
+    kind: "unsigned",
+    network,
+    deploy,
+});
+
+export const createSignedDeployFile = (
+    deploy: SignedDeploy,
+    network?: string,
+): SignedDeployFile => ({
+    format: FILE_FORMAT,
+    version: FILE_VERSION,
+    kind: "signed",
+    network,
+    deploy,
+});
+
+export const serializeOfflineDeploy = (
+    file: OfflineDeployFile,
+    pretty: boolean = true,
+): string => JSON.stringify(file, null, pretty ? 2 : undefined);
+
+/**
+ * Parse and validate a deploy file. When `expectedKind` is given, a file of
+ * the other kind is rejected, e.g. an unsigned deploy on the broadcast side.
+ */
+export const parseOfflineDeploy = (
+    text: string,
+    expectedKind?: OfflineDeployKind,
+): OfflineDeployFile => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        throw new OfflineDeployError("Deploy file is not valid JSON");
+    }
+
+    if (!isObject(parsed) || parsed.format !== FILE_FORMAT) {
+        throw new OfflineDeployError("Not an ASI offline deploy file");
+    }
+    if (parsed.version !== FILE_VERSION) {
+        throw new OfflineDeployError(
+            `Unsupported deploy file version: ${String(parsed.version)}`,
+        );
+    }
+    if (parsed.kind !== "unsigned" && parsed.kind !== "signed") {
+        throw new OfflineDeployError(
+            `Unknown deploy file kind: ${String(parsed.kind)}`,
+        );
+    }
+    if (expectedKind && parsed.kind !== expectedKind) {
+        throw new OfflineDeployError(
+            `Expected a ${expectedKind} deploy, got a ${parsed.kind} one`,
+        );
+    }
+    const network =
+        typeof parsed.network === "string" ? parsed.network : undefined;
+
+    return parsed.kind === "signed"
+        ? createSignedDeployFile(validateSignedDeploy(parsed.deploy), network)
+        : createUnsignedDeployFile(validateDeploy(parsed.deploy), network);
+};
+
+export const downloadOfflineDeploy = (file: OfflineDeployFile): void => {
+    const blob = new Blob([serializeOfflineDeploy(file)], {
+        type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `asi-deploy-${file.kind}-${file.deploy.timestamp}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+};
+
+export const readOfflineDeployFile = (
+    file: File,
+    expectedKind?: OfflineDeployKind,
+): Promise<OfflineDeployFile> =>
+    new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = (e) => {
+            try {
+                resolve(
+                    parseOfflineDeploy(
+                        e.target?.result as string,
+                        expectedKind,
+                    ),
+                );
+            } catch (error) {
+                reject(error);
+            }
+        };
+        reader.onerror = reject;
+        reader.readAsText(file);
+    });
+
+// Same deploy data, ignoring the signature fields
+export const isSameDeployData = (a: Deploy, b: Deploy): boolean =>
+    a.term === b.term &&
+    a.phloLimit === b.phloLimit &&
+    a.phloPrice === b.phloPrice &&
+    a.validAfterBlockNumber === b.validAfterBlockNumber &&
+    a.timestamp === b.timestamp &&
+    (a.shardId || "") === (b.shardId || "");
+
+const signerAddress = (deployer: string): string | undefined => {
+    try {
+        return deriveRevAddress(deriveEthAddress(deployer));
+    } catch {
+        return undefined;
+    }
+};
+
+/**
+ * The transfer a term performs, if it is the standard transfer term. Values
+ * found by pattern are only candidates: a decoy call could sit in a branch
+ * that never runs, so the term must match the one rebuilt from them.
+ */
+const parseTransfer = (term: string): DeploySummary["transfer"] => {
+    const transferMatch = term.match(TRANSFER_PATTERN);
+    const sourceMatch = term.match(TRANSFER_SOURCE_PATTERN);
+    if (!transferMatch || !sourceMatch) {
+        return undefined;
+    }
+    const [, to, atomicAmount] = transferMatch;
+    const from = sourceMatch[1];
+    try {
+        if (buildTransferTerm(from, to, atomicAmount) !== term) {
+            return undefined;
+        }
+    } catch {
+        return undefined;
+    }
+    return { from, to, amount: Amount.fromAtomic(atomicAmount).toString() };
+};
+
+// Human-readable facts about a deploy, shown on both sides before signing or broadcasting
+export const summarizeDeploy = (deploy: Deploy | SignedDeploy): DeploySummary => {
+    return {
+        shardId: deploy.shardId,
+        phloLimit: deploy.phloLimit,
+        phloPrice: deploy.phloPrice,
+        maxFee: phloToFee(deploy.phloLimit, deploy.phloPrice),
+        validAfterBlockNumber: deploy.validAfterBlockNumber,
+        lastValidBlockNumber:
+            deploy.validAfterBlockNumber + DEPLOY_LIFESPAN_BLOCKS,
+        createdAt: new Date(deploy.timestamp),
+        transfer: parseTransfer(deploy.term),
+        signer:
+            "deployer" in deploy ? signerAddress(deploy.deployer) : undefined,
+        deployId: "sig" in deploy ? deploy.sig.toLowerCase() : undefined,
+    };
+};
+
+// A signed deploy must verify locally before it is broadcast
+export const checkDeploySignature = (
+    deploy: SignedDeploy,
+): DeployCheckIssue[] => {
+    const check = verifyDeploySignature(deploy);
+    return check.valid
+        ? []
+        : [{ level: "error", message: `Invalid signature: ${check.error}` }];
+};
+
+/**
+ * Check a deploy against the network it is about to be signed for or sent
+ * to. The block window can only be checked when the latest block is known,
+ * which is never the case on the air-gapped side.
+ */
+export const checkDeployWindow = (
+    deploy: Deploy,
+    context: { shardId: string; latestBlockNumber?: number; now?: number },
+): DeployCheckIssue[] => {
+    const issues: DeployCheckIssue[] = [];
+    const now = context.now ?? Date.now();
+
+    if ((deploy.shardId || "") !== context.shardId) {
+        issues.push({
+            level: "error",
+            message: `Deploy is for shard "${deploy.shardId || "(none)"}" but the selected network uses "${context.shardId}"`,
+        });
+    }
+
+    const { latestBlockNumber } = context;
+    if (latestBlockNumber !== undefined) {
+        const lastValidBlock =
+            deploy.validAfterBlockNumber + DEPLOY_LIFESPAN_BLOCKS;
+        if (deploy.validAfterBlockNumber > latestBlockNumber) {
+            issues.push({
+                level: "error",
+                message: `Deploy is valid after block ${deploy.validAfterBlockNumber}, but the network is only at block ${latestBlockNumber}. It was probably prepared on another network.`,
+            });
+        } else if (latestBlockNumber >= lastValidBlock) {
+            issues.push({
+                level: "error",
+                message: `Deploy expired at block ${lastValidBlock} (network is at block ${latestBlockNumber}). Prepare and sign a new one.`,
+            });
+        } else if (lastValidBlock - latestBlockNumber <= EXPIRY_WARNING_BLOCKS) {
+            issues.push({
+                level: "warning",
+                message: `Deploy expires in ${lastValidBlock - latestBlockNumber} blocks`,
+            });
+        }
+    }
+
+    if (deploy.timestamp - now > MAX_CLOCK_SKEW_MS) {
+        issues.push({
+            level: "warning",
+            message: "Deploy timestamp is in the future; check the clock of the preparing device",
+        });
+    } else if (now - deploy.timestamp > STALE_DEPLOY_AGE_MS) {
+        issues.push({
+            level: "warning",
+            message: "Deploy was prepared more than 24 hours ago",
+        });
+    }
+
+    return issues;
+};
+
+const payloadId = (payload: string): string => blake2bHex(payload, undefined, 4);
+
+/**
+ * Split a serialized deploy into QR frames shown one after another, e.g.
+ * `ASIDEPLOY:1a2b3c4d:2/5:<chunk>`. The id ties frames of one payload
+ * together so a scanner never mixes two deploys.
+ */
+export const encodeQrFrames = (
+    payload: string,
+    chunkSize: number = DEFAULT_QR_CHUNK_SIZE,
+): string[] => {
+    const id = payloadId(payload);
+    const total = Math.max(1, Math.ceil(payload.length / chunkSize));
+    return Array.from({ length: total }, (_, index) => {
+        const chunk = payload.slice(index * chunkSize, (index + 1) * chunkSize);
+        return `${QR_FRAME_PREFIX}:${id}:${index + 1}/${total}:${chunk}`;
+    });
+};
+
+export const isQrFrame = (text: string): boolean => QR_FRAME_PATTERN.test(text);
+
+// Collects animated QR frames in any order until the whole payload is present
+export class QrFrameCollector {
+    private id?: string;
+    private total = 0;
+    private chunks = new Map<number, string>();
+
+    add(frame: string): { received: number; total: number } {
+        const match = frame.match(QR_FRAME_PATTERN);
+        if (!match) {
+            throw new OfflineDeployError("Not an ASI deploy QR code");
+        }
+        const [, id, indexText, totalText, chunk] = match;
+        const index = Number(indexText);
+        const total = Number(totalText);
+        if (total < 1 || index < 1 || index > total) {
+            throw new OfflineDeployError("Malformed deploy QR frame");
+        }
+
+        // A different deploy started playing: start over
+        if (id !== this.id || total !== this.total) {
+            this.id = id;
+            this.total = total;
+            this.chunks.clear();
+        }
+        this.chunks.set(index, chunk);
+        return { received: this.chunks.size, total };
+    }
+
+    isComplete(): boolean {
+        return this.total > 0 && this.chunks.size === this.total;
+    }
+
+    // The reassembled payload, verified against the frame id
+    getPayload(): string {
+        if (!this.isComplete()) {
+            throw new OfflineDeployError("Not all QR frames have been scanned");
+        }
+        const payload = Array.from({ length: this.total }, (_, index) =>
+            this.chunks.get(index + 1),
+        ).join("");
+        if (payloadId(payload) !== this.id) {
+            this.reset();
+            throw new OfflineDeployError(
+                "Scanned QR frames do not match; scan again",
+            );
+        }
+        return payload;
+    }
+
+    reset(): void {
+        this.id = undefined;
+        this.total = 0;
+        this.chunks.clear();
+    }
+}
@@ -0,0 +1,173 @@
+import {
+    DEFAULT_PRICE_FEED_CONFIG,
+    FiatCurrency,
+    PriceFeedError,
+    PriceFeedService,
+    StaticPriceProvider,
+} from "./priceFeed";
+import TransactionHistoryService from "./transactionHistory";
+import { TokenSwapService } from "./tokenSwap";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ASI_TOKEN = "0xA0b86a33E6417ac7C1b3b0C29218E2d2FE73fD0D";
+const ADDRESS = "1111CYQuvDAxnzuTmVRcgwSGZAWL7bDRmcGAVEsy1zzNn9Yg2aK3e";
+
+// localStorage is a bare jest.fn() mock; back it with a map
+const store = new Map<string, string>();
+
+beforeEach(() => {
+    store.clear();
+    (localStorage.getItem as jest.Mock).mockImplementation(
+        (key: string) => store.get(key) ?? null,
+    );
+    (localStorage.setItem as jest.Mock).mockImplementation(
+        (key: string, value: string) => store.set(key, value),
+    );
+    (localStorage.removeItem as jest.Mock).mockImplementation((key: string) =>
+        store.delete(key),
+    );
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+    PriceFeedService.saveConfig({
+        ...DEFAULT_PRICE_FEED_CONFIG,
+        currency: "EUR",
+    });
+});
+
+afterEach(() => {
+    PriceFeedService.setProvider(null);
+});
+
+const useProvider = (prices: Partial<Record<FiatCurrency, number>>) => {
+    const provider = new StaticPriceProvider(prices);
+    PriceFeedService.setProvider(provider);
+    return {
+        getPrice: jest.spyOn(provider, "getPrice"),
+        getHistoricalPrice: jest.spyOn(provider, "getHistoricalPrice"),
+    };
+};
+
+describe("StaticPriceProvider", () => {
+    it("quotes the configured price at any time", async () => {
+        const provider = new StaticPriceProvider({ USD: 1.25 });
+        await expect(provider.getPrice("USD")).resolves.toMatchObject({
+            currency: "USD",
+            price: 1.25,
+            source: "Static",
+        });
+        await expect(
+            provider.getHistoricalPrice("USD", 1000),
+        ).resolves.toMatchObject({ price: 1.25, timestamp: 1000 });
+    });
+
+    it("rejects a currency without a price", async () => {
+        await expect(
+            new StaticPriceProvider({ USD: 1 }).getPrice("EUR"),
+        ).rejects.toThrow(PriceFeedError);
+    });
+});
+
+describe("PriceFeedService.getPrice", () => {
+    it("caches the latest quote", async () => {
+        const spies = useProvider({ EUR: 0.5 });
+        await PriceFeedService.getPrice("EUR");
+        const quote = await PriceFeedService.getPrice("EUR");
+        expect(quote?.price).toBe(0.5);
+        expect(spies.getPrice).toHaveBeenCalledTimes(1);
+    });
+
+    it("returns null when the provider fails and nothing is cached", async () => {
+        useProvider({});
+        await expect(PriceFeedService.getPrice("EUR")).resolves.toBeNull();
+    });
+});
+
+describe("PriceFeedService.getHistoricalPrice", () => {
+    const lastWeek = Date.now() - 7 * DAY_MS;
+
+    it("asks the provider once per day", async () => {
+        const spies = useProvider({ EUR: 0.5 });
+        await PriceFeedService.getHistoricalPrice("EUR", lastWeek);
+        const quote = await PriceFeedService.getHistoricalPrice(
+            "EUR",
+            lastWeek + 1,
+        );
+        expect(quote?.price).toBe(0.5);
+        expect(spies.getHistoricalPrice).toHaveBeenCalledTimes(1);
+    });
+
+    it("does not ask again for a day it could not price", async () => {
+        const spies = useProvider({});
+        await expect(
+            PriceFeedService.getHistoricalPrice("EUR", lastWeek),
+        ).resolves.toBeNull();
+        await PriceFeedService.getHistoricalPrice("EUR", lastWeek);
+        expect(spies.getHistoricalPrice).toHaveBeenCalledTimes(1);
+    });
+
+    it("asks again once the provider changes", async () => {
+        useProvider({});
+        await PriceFeedService.getHistoricalPrice("EUR", lastWeek);
+        useProvider({ EUR: 2 });
+        const quote = await PriceFeedService.getHistoricalPrice(
+            "EUR",
+            lastWeek,
+        );
+        expect(quote?.price).toBe(2);
+    });
+});
+
+describe("transaction export", () => {
+    const pendingSend = (deployId: string, timestamp: number) => ({
+        deployId,
+        type: "send",
+        from: ADDRESS,
+        to: "11112bzn6GGsF398VUBX7zFpyaZxSCWXv3TDsRPJ4BhyZD2jtyocze",
+        amount: "2",
+        timestamp,
+    });
+
+    it("prices each distinct day once", async () => {
+        const day = Date.UTC(2025, 0, 10, 12);
+        store.set(
+            "asi_wallet_pending_transactions",
+            JSON.stringify([
+                pendingSend("a", day),
+                pendingSend("b", day + 60 * 60 * 1000),
+                pendingSend("c", day - DAY_MS),
+            ]),
+        );
+        const spies = useProvider({ EUR: 0.5 });
+
+        const exported = JSON.parse(
+            await TransactionHistoryService.exportTransactions(
+                "json",
+                ADDRESS,
+                "04ab",
+                "Mainnet",
+                "",
+            ),
+        );
+
+        expect(spies.getHistoricalPrice).toHaveBeenCalledTimes(2);
+        expect(
+            exported.map((tx: { fiat: { value: string } }) => tx.fiat.value),
+        ).toEqual(["1.00", "1.00", "1.00"]);
+    });
+});
+
+describe("TokenSwapService.getTokenPrices", () => {
+    it("prices the native token in the Settings currency", async () => {
+        useProvider({ EUR: 0.5, USD: 0.6 });
+        const prices = await new TokenSwapService().getTokenPrices([ASI_TOKEN]);
+        const price = prices.get(ASI_TOKEN);
+        expect(price).toMatchObject({ price: 0.5, currency: "EUR" });
+        expect(price?.marketCap).toBeUndefined();
+    });
+
+    it("has no price while fiat prices are off", async () => {
+        PriceFeedService.saveConfig(DEFAULT_PRICE_FEED_CONFIG);
+        useProvider({ USD: 0.6 });
+        const prices = await new TokenSwapService().getTokenPrices([ASI_TOKEN]);
+        expect(prices.size).toBe(0);
+    });
+});
@@ -0,0 +1,358 @@
+/**
+ * Fiat prices for the native token. A PriceProvider answers "what was one
+ * token worth in this currency at this time"; PriceFeedService uses the
+ * configured provider and caches its quotes with timestamps, so a failed
+ * request falls back to the last known price. No request is made until a
+ * fiat display currency is chosen in Settings.
+ */
+
+export const FIAT_CURRENCIES = ["USD", "EUR"] as const;
+export type FiatCurrency = (typeof FIAT_CURRENCIES)[number];
+
+export interface PriceQuote {
+    currency: FiatCurrency;
+    price: number;
+    // When the price applied, not when it was fetched
+    timestamp: number;
+    source: string;
+}
+
+export interface PriceProvider {
+    readonly name: string;
+    getPrice(currency: FiatCurrency): Promise<PriceQuote>;
+    // Price on the day of `timestamp`; null when the provider has no history
+    getHistoricalPrice(
+        currency: FiatCurrency,
+        timestamp: number,
+    ): Promise<PriceQuote | null>;
+}
+
+export class PriceFeedError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "PriceFeedError";
+    }
+}
+
+/**
+ * URLs and paths may use {currency} (usd) and {CURRENCY} (USD); history URLs
+ * also {unix} (seconds), {yyyy}, {mm} and {dd}. Paths are dot-separated keys
+ * into the JSON response, e.g. "fetch-ai.{currency}".
+ */
+export interface HttpPriceFeedConfig {
+    url: string;
+    pricePath: string;
+    historyUrl?: string;
+    historyPricePath?: string;
+}
+
+export interface PriceFeedConfig {
+    // null turns fiat display and all price requests off
+    currency: FiatCurrency | null;
+    provider: "http" | "static";
+    http: HttpPriceFeedConfig;
+    staticPrices: Partial<Record<FiatCurrency, number>>;
+}
+
+type PriceFeedListener = () => void;
+
+interface PriceCache {
+    latest: Partial<Record<FiatCurrency, PriceQuote>>;
+    // Keyed by `${currency}:${yyyy-mm-dd}`; past prices never change
+    daily: Record<string, PriceQuote>;
+}
+
+const CONFIG_STORAGE_KEY = "asi_wallet_price_feed";
+const CACHE_STORAGE_KEY = "asi_wallet_price_cache";
+const PRICE_TTL_MS = 5 * 60 * 1000;
+
+// CoinGecko lists the ASI Alliance token under its original FET id
+export const DEFAULT_PRICE_FEED_CONFIG: PriceFeedConfig = {
+    currency: null,
+    provider: "http",
+    http: {
+        url: "https://api.coingecko.com/api/v3/simple/price?ids=fetch-ai&vs_currencies={currency}",
+        pricePath: "fetch-ai.{currency}",
+        historyUrl:
+            "https://api.coingecko.com/api/v3/coins/fetch-ai/history?date={dd}-{mm}-{yyyy}&localization=false",
+        historyPricePath: "market_data.current_price.{currency}",
+    },
+    staticPrices: {},
+};
+
+const pad = (value: number): string => String(value).padStart(2, "0");
+
+const dayKey = (currency: FiatCurrency, timestamp: number): string => {
+    const date = new Date(timestamp);
+    return `${currency}:${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+};
+
+const fillTemplate = (
+    template: string,
+    currency: FiatCurrency,
+    timestamp?: number,
+): string => {
+    let filled = template
+        .replace(/\{currency\}/g, currency.toLowerCase())
+        .replace(/\{CURRENCY\}/g, currency);
+    if (timestamp !== undefined) {
+        const date = new Date(timestamp);
+        filled = filled
+            .replace(/\{unix\}/g, String(Math.floor(timestamp / 1000)))
+            .replace(/\{yyyy\}/g, String(date.getUTCFullYear()))
+            .replace(/\{mm\}/g, pad(date.getUTCMonth() + 1))
+            .replace(/\{dd\}/g, pad(date.getUTCDate()));
+    }
+    return filled;
+};
+
+const readPath = (data: unknown, path: string): unknown =>
+    path
+        .split(".")
+        .filter(Boolean)
+        .reduce<unknown>(
+            (value, key) =>
+                value === null || typeof value !== "object"
+                    ? undefined
+                    : (value as Record<string, unknown>)[key],
+            data,
+        );
+
+// Any HTTP endpoint that returns the price somewhere in a JSON body
+export class HttpJsonPriceProvider implements PriceProvider {
+    readonly name = "HTTP JSON";
+
+    constructor(private readonly config: HttpPriceFeedConfig) {}
+
+    async getPrice(currency: FiatCurrency): Promise<PriceQuote> {
+        const price = await this.fetchPrice(
+            fillTemplate(this.config.url, currency),
+            fillTemplate(this.config.pricePath, currency),
+        );
+        return { currency, price, timestamp: Date.now(), source: this.name };
+    }
+
+    async getHistoricalPrice(
+        currency: FiatCurrency,
+        timestamp: number,
+    ): Promise<PriceQuote | null> {
+        if (!this.config.historyUrl) return null;
+        const price = await this.fetchPrice(
+            fillTemplate(this.config.historyUrl, currency, timestamp),
+            fillTemplate(
+                this.config.historyPricePath || this.config.pricePath,
+                currency,
+            ),
+        );
+        return { currency, price, timestamp, source: this.name };
+    }
+
+    private async fetchPrice(url: string, path: string): Promise<number> {
+        const response = await fetch(url, {
+            headers: { Accept: "application/json" },
+        });
+        if (!response.ok) {
+            throw new PriceFeedError(
+                `Price feed returned HTTP ${response.status}`,
+            );
+        }
+        const value = Number(readPath(await response.json(), path));
+        if (!isFinite(value) || value < 0) {
+            throw new PriceFeedError(
+                `No price at "${path}" in the price feed response`,
+            );
+        }
+        return value;
+    }
+}
+
+// Fixed prices, for tests and offline use; the same price applies at any time
+export class StaticPriceProvider implements PriceProvider {
+    readonly name = "Static";
+
+    constructor(
+        private readonly prices: Partial<Record<FiatCurrency, number>>,
+    ) {}
+
+    async getPrice(currency: FiatCurrency): Promise<PriceQuote> {
+        const price = this.prices[currency];
+        if (price === undefined) {
+            throw new PriceFeedError(`No static ${currency} price configured`);
+        }
+        return { currency, price, timestamp: Date.now(), source: this.name };
+    }
+
+    async getHistoricalPrice(
+        currency: FiatCurrency,
+        timestamp: number,
+    ): Promise<PriceQuote | null> {
+        return { ...(await this.getPrice(currency)), timestamp };
+    }
+}
+
+export class PriceFeedService {
+    private static listeners: Set<PriceFeedListener> = new Set();
+    private static inFlight = new Map<
+        FiatCurrency,
+        Promise<PriceQuote | null>
+    >();
+    private static providerOverride: PriceProvider | null = null;
+    // Days the provider could not price; not asked again until the source changes
+    private static unpricedDays = new Set<string>();
+
+    static getConfig(): PriceFeedConfig {
+        try {
+            const stored = localStorage.getItem(CONFIG_STORAGE_KEY);
+            if (stored) {
+                const parsed = JSON.parse(stored) as Partial<PriceFeedConfig>;
+                return {
+                    ...DEFAULT_PRICE_FEED_CONFIG,
+                    ...parsed,
+                    http: {
+                        ...DEFAULT_PRICE_FEED_CONFIG.http,
+                        ...parsed.http,
+                    },
+                };
+            }
+        } catch (error) {
+            console.error("[PriceFeed] Error loading config:", error);
+        }
+        return DEFAULT_PRICE_FEED_CONFIG;
+    }
+
+    // Cached quotes came from the old source, so they are dropped
+    static saveConfig(config: PriceFeedConfig): void {
+        try {
+            localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify(config));
+            localStorage.removeItem(CACHE_STORAGE_KEY);
+        } catch (error) {
+            console.error("[PriceFeed] Error saving config:", error);
+        }
+        this.unpricedDays.clear();
+        this.notify();
+    }
+
+    // Replaces the configured provider, e.g. with a StaticPriceProvider in tests
+    static setProvider(provider: PriceProvider | null): void {
+        this.providerOverride = provider;
+        localStorage.removeItem(CACHE_STORAGE_KEY);
+        this.unpricedDays.clear();
+        this.notify();
+    }
+
+    static getProvider(): PriceProvider {
+        if (this.providerOverride) return this.providerOverride;
+        const config = this.getConfig();
+        return config.provider === "static"
+            ? new StaticPriceProvider(config.staticPrices)
+            : new HttpJsonPriceProvider(config.http);
+    }
+
+    static getCachedPrice(currency: FiatCurrency): PriceQuote | null {
+        return this.loadCache().latest[currency] ?? null;
+    }
+
+    /**
+     * Latest price, fetched at most every few minutes. When the provider
+     * fails the last cached quote is returned, however old; check its
+     * timestamp before presenting it as current.
+     */
+    static getPrice(currency: FiatCurrency): Promise<PriceQuote | null> {
+        const cached = this.getCachedPrice(currency);
+        if (cached && Date.now() - cached.timestamp < PRICE_TTL_MS) {
+            return Promise.resolve(cached);
+        }
+
+        const pending = this.inFlight.get(currency);
+        if (pending) return pending;
+
+        const request = this.getProvider()
+            .getPrice(currency)
+            .then((quote) => {
+                const cache = this.loadCache();
+                cache.latest[currency] = quote;
+                this.saveCache(cache);
+                this.notify();
+                return quote;
+            })
+            .catch((error) => {
+                console.error("[PriceFeed] Failed to fetch price:", error);
+                return cached;
+            })
+            .finally(() => this.inFlight.delete(currency));
+        this.inFlight.set(currency, request);
+        return request;
+    }
+
+    // Daily price for a past moment; null when the provider has no history
+    static async getHistoricalPrice(
+        currency: FiatCurrency,
+        timestamp: number,
+    ): Promise<PriceQuote | null> {
+        const key = dayKey(currency, timestamp);
+        if (key === dayKey(currency, Date.now())) {
+            return this.getPrice(currency);
+        }
+
+        const cached = this.loadCache().daily[key];
+        if (cached) return cached;
+        if (this.unpricedDays.has(key)) return null;
+
+        try {
+            const quote = await this.getProvider().getHistoricalPrice(
+                currency,
+                timestamp,
+            );
+            if (quote) {
+                const cache = this.loadCache();
+                cache.daily[key] = quote;
+                this.saveCache(cache);
+            } else {
+                this.unpricedDays.add(key);
+            }
+            return quote;
+        } catch (error) {
+            console.error(
+                "[PriceFeed] Failed to fetch historical price:",
+                error,
+            );
+            this.unpricedDays.add(key);
+            return null;
+        }
+    }
+
+    static subscribe(listener: PriceFeedListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    private static loadCache(): PriceCache {
+        try {
+            const stored = localStorage.getItem(CACHE_STORAGE_KEY);
+            if (stored) return JSON.parse(stored) as PriceCache;
+        } catch {
+            /* corrupt cache — refetch */
+        }
+        return { latest: {}, daily: {} };
+    }
+
+    private static saveCache(cache: PriceCache): void {
+        try {
+            localStorage.setItem(CACHE_STORAGE_KEY, JSON.stringify(cache));
+        } catch {
+            /* quota — non-critical */
+        }
+    }
+
+    private static notify(): void {
+        this.listeners.forEach((listener) => listener());
+    }
+}
+
+export const formatFiat = (value: number, currency: FiatCurrency): string =>
+    new Intl.NumberFormat(undefined, {
+        style: "currency",
+        currency,
+    }).format(value);
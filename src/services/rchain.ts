@@ -1,11 +1,30 @@
 import axios, { AxiosInstance } from "axios";
-import { signDeploy } from "utils/crypto";
+import { signDeploy, verifyDeploySignature } from "utils/crypto";
+import { GAS_FEE, getDefaultPhloCost, phloToFee } from "constants/gas";
+import { Network } from "types/wallet";
+import { NodeHealth, NodePool, isNotSentError } from "services/nodePool";
+import {
+    decodeRhoExprs,
+    formatRhoValue,
+    parseRhoJson,
+    RhoValue,
+} from "utils/rhoExpr";
+import { rhoAddress, rhoInt, rhoList, rholang } from "utils/rholang";
+import DeployLifecycleService from "services/deployLifecycle";
 
 // Global balance cache to prevent excessive API calls
 const globalBalanceCache: Map<string, { balance: string; timestamp: number }> =
     new Map();
 const BALANCE_CACHE_TTL = 15000; // 15 seconds cache
 
+// Signatures of deploys already handed to a validator (or possibly handed, after a timeout)
+const submittedDeploySignatures: Set<string> = new Set();
+
+// Pending propose per admin URL; a node rejects a propose while another is running
+const proposeQueues: Map<string, Promise<unknown>> = new Map();
+// Lifecycle refreshes after a propose before a deploy is left to regular polling
+const PROPOSE_TRACK_ATTEMPTS = 5;
+
 export interface Deploy {
     term: string;
     phloLimit: number;
@@ -21,15 +40,92 @@ export interface SignedDeploy extends Deploy {
     sigAlgorithm: string;
 }
 
+// Extra endpoints per role, tried after the primary URLs passed to the constructor
+// The network id, when given, is stored with every deploy sent through the service
+export type NodeEndpoints = Pick<
+    Network,
+    "validatorUrls" | "readOnlyUrls" | "devnet"
+> &
+    Partial<Pick<Network, "id">>;
+
+export type FeeEstimateSource = "explore-deploy" | "indexer" | "default";
+
+export interface FeeEstimate {
+    // Phlo measured (or assumed) for the deploy, before the safety margin
+    phloUsed: number;
+    phloPrice: number;
+    // Fee in ASI: phloUsed * phloPrice with GAS_FEE.SAFETY_MARGIN applied
+    fee: string;
+    source: FeeEstimateSource;
+}
+
+// Transfer term between two vaults; also used to recognise transfers before signing
+export const buildTransferTerm = (
+    fromAddress: string,
+    toAddress: string,
+    amount: string,
+): string => {
+    const from = rhoAddress(fromAddress);
+    const to = rhoAddress(toAddress);
+    const value = rhoInt(amount);
+
+    // The outcome goes to the deployId channel so it can be read back with data-at-name
+    return rholang`
+      new 
+        deployId(\`rho:rchain:deployId\`),
+        deployerId(\`rho:rchain:deployerId\`),
+        stdout(\`rho:io:stdout\`),
+        rl(\`rho:registry:lookup\`),
+        ASIVaultCh,
+        vaultCh,
+        toVaultCh,
+        asiVaultkeyCh,
+        resultCh
+      in {
+        rl!(\`rho:rchain:asiVault\`, *ASIVaultCh) |
+        for (@(_, ASIVault) <- ASIVaultCh) {
+          @ASIVault!("findOrCreate", ${from}, *vaultCh) |
+          @ASIVault!("findOrCreate", ${to}, *toVaultCh) |
+          @ASIVault!("deployerAuthKey", *deployerId, *asiVaultkeyCh) |
+          for (@(true, vault) <- vaultCh; key <- asiVaultkeyCh; @(true, toVault) <- toVaultCh) {
+            @vault!("transfer", ${to}, ${value}, *key, *resultCh) |
+            for (@result <- resultCh) {
+              match result {
+                (true, Nil) => {
+                  deployId!((true, Nil)) |
+                  stdout!(("Transfer successful:", ${value}, "ASI"))
+                }
+                (false, reason) => {
+                  deployId!((false, reason)) |
+                  stdout!(("Transfer failed:", reason))
+                }
+              }
+            }
+          } |
+          for (@(false, errorMsg) <- vaultCh) {
+            deployId!((false, errorMsg)) |
+            stdout!(("Sender vault error:", errorMsg))
+          } |
+          for (@(false, errorMsg) <- toVaultCh) {
+            deployId!((false, errorMsg)) |
+            stdout!(("Destination vault error:", errorMsg))
+          }
+        }
+      }
+    `;
+};
+
 export class RChainService {
-    private validatorClient: AxiosInstance;
-    private readOnlyClient: AxiosInstance;
+    private validatorPool: NodePool;
+    private readOnlyPool: NodePool;
     private adminClient?: AxiosInstance;
     private nodeUrl: string;
     private readOnlyUrl: string;
     private adminUrl?: string;
     private graphqlUrl: string;
     private shardId: string;
+    private networkId?: string;
+    private autoPropose: boolean;
 
     constructor(
         nodeUrl: string,
@@ -37,6 +133,7 @@ export class RChainService {
         adminUrl?: string,
         shardId: string = "root",
         graphqlUrl?: string,
+        endpoints?: NodeEndpoints,
     ) {
         if (!nodeUrl || !nodeUrl.trim()) {
             if (!graphqlUrl || !graphqlUrl.trim()) {
@@ -55,24 +152,20 @@ export class RChainService {
             (graphqlUrl && graphqlUrl.trim()) ||
             "http://18.142.221.192:8080/v1/graphql";
         this.shardId = shardId;
+        this.networkId = endpoints?.id;
+        this.autoPropose = !!endpoints?.devnet && !!adminUrl;
 
-        // Validator client for state-changing operations (only if nodeUrl is provided)
-        this.validatorClient = axios.create({
-            baseURL: this.nodeUrl || "http://localhost",
-            timeout: 30000,
-            headers: {
-                "Content-Type": "application/json",
-            },
-        });
+        // Validator pool for state-changing operations (only if nodeUrl is provided)
+        this.validatorPool = NodePool.forUrls([
+            this.nodeUrl || "http://localhost",
+            ...(endpoints?.validatorUrls || []),
+        ]);
 
-        // Read-only client for queries
-        this.readOnlyClient = axios.create({
-            baseURL: this.readOnlyUrl,
-            timeout: 30000,
-            headers: {
-                "Content-Type": "application/json",
-            },
-        });
+        // Read-only pool for queries
+        this.readOnlyPool = NodePool.forUrls([
+            this.readOnlyUrl,
+            ...(endpoints?.readOnlyUrls || []),
+        ]);
 
         // Admin client for propose operations (local networks)
         if (adminUrl) {
@@ -99,33 +192,14 @@ export class RChainService {
         const method = isPost ? "POST" : "GET";
         const url = `/api/${apiMethod}`;
 
-        // Determine which client to use based on operation type
-        let client: AxiosInstance;
-        let nodeDescription: string;
-
-        if (apiMethod === "propose" && this.adminClient) {
-            // Propose operations use admin client (for local networks)
-            client = this.adminClient;
-            nodeDescription = `Admin Node at ${this.adminUrl}`;
-        } else if (
-            apiMethod === "explore-deploy" ||
-            (this.isReadOnlyOperation(apiMethod) && !isPost)
-        ) {
-            // explore-deploy ALWAYS goes to read-only node, even though it's a POST
-            // Other read operations use read-only client only for GET requests
-            client = this.readOnlyClient;
-            nodeDescription = `Read-Only Node at ${this.readOnlyUrl}`;
-        } else {
-            // Write operations use validator client
-            client = this.validatorClient;
-            nodeDescription = `Validator Node at ${this.nodeUrl}`;
-        }
-
-        try {
-            // F1R3wallet sends explore-deploy as plain text, not JSON
-            const isExploreDeployString =
-                apiMethod === "explore-deploy" && typeof data === "string";
+        // F1R3wallet sends explore-deploy as plain text, not JSON
+        const isExploreDeployString =
+            apiMethod === "explore-deploy" && typeof data === "string";
+        // Their results carry Rholang integers, which may exceed 2^53
+        const returnsRhoExprs =
+            apiMethod === "explore-deploy" || apiMethod === "data-at-name";
 
+        const send = async (client: AxiosInstance) => {
             const response = await client.request({
                 method,
                 url,
@@ -135,28 +209,95 @@ export class RChainService {
                           "Content-Type": "text/plain",
                       }
                     : undefined,
+                transformResponse: returnsRhoExprs
+                    ? (raw: unknown) =>
+                          typeof raw === "string" ? parseRhoJson(raw) : raw
+                    : undefined,
             });
             return response.data;
+        };
+
+        if (apiMethod === "propose" && this.adminClient) {
+            // Propose operations use admin client (for local networks)
+            const adminClient = this.adminClient;
+            return this.withRnodeErrors(
+                () => send(adminClient),
+                `Admin Node at ${this.adminUrl}`,
+            );
+        }
+
+        if (
+            apiMethod === "explore-deploy" ||
+            apiMethod === "data-at-name" ||
+            (this.isReadOnlyOperation(apiMethod) && !isPost)
+        ) {
+            // explore-deploy and data-at-name ALWAYS go to read-only node, even though they're POSTs
+            // Other read operations use read-only pool only for GET requests
+            return this.withRnodeErrors(
+                () => this.readOnlyPool.request(send),
+                `Read-Only Node at ${this.readOnlyPool.urls.join(", ")}`,
+            );
+        }
+
+        // Write operations use the validator pool. A deploy is only retried on
+        // another validator when it provably never reached the first one.
+        return this.withRnodeErrors(
+            () =>
+                this.validatorPool.request(send, {
+                    failoverOnlyIfNotSent: apiMethod === "deploy",
+                }),
+            `Validator Node at ${this.validatorPool.urls.join(", ")}`,
+        );
+    }
+
+    private async withRnodeErrors<T>(
+        request: () => Promise<T>,
+        nodeDescription: string,
+    ): Promise<T> {
+        try {
+            return await request();
         } catch (error: any) {
+            // Keep the axios code so callers can tell why the request failed
+            const withCode = (message: string) =>
+                Object.assign(new Error(message), { code: error.code });
             if (error.response) {
-                throw new Error(
+                throw withCode(
                     `RNode API Error: ${error.response.status} - ${JSON.stringify(error.response.data)}`,
                 );
+            } else if (
+                error.code === "ECONNABORTED" ||
+                error.message?.includes("timeout")
+            ) {
+                throw withCode(
+                    `Network Error: timeout waiting for ${nodeDescription}`,
+                );
             } else if (error.request) {
-                throw new Error(
+                throw withCode(
                     `Network Error: Unable to connect to ${nodeDescription}`,
                 );
             } else {
-                throw new Error(`Request Error: ${error.message}`);
+                throw withCode(`Request Error: ${error.message}`);
             }
         }
     }
 
+    // Health of every configured validator and read-only node
+    async getNodeHealth(
+        force: boolean = false,
+    ): Promise<{ validator: NodeHealth[]; readOnly: NodeHealth[] }> {
+        const [validator, readOnly] = await Promise.all([
+            this.validatorPool.probe(force),
+            this.readOnlyPool.probe(force),
+        ]);
+        return { validator, readOnly };
+    }
+
     // Helper method to determine if an operation is read-only
     private isReadOnlyOperation(apiMethod: string): boolean {
         const readOnlyMethods = [
             "explore-deploy", // For balance checks and exploratory deploys
             "blocks", // Block information
+            "block", // Single block with its deploys
             "status", // Node status
             "deploy", // GET only - to check deploy status
             "light-blocks-by-heights",
@@ -164,13 +305,29 @@ export class RChainService {
             "data-at-name",
         ];
 
-        return readOnlyMethods.includes(apiMethod);
+        // The latest block anchors new deploys (validAfterBlockNumber) and
+        // expiry checks, so it comes from a validator rather than a lagging observer
+        if (apiMethod === "blocks/1") {
+            return false;
+        }
+
+        // Methods may carry path arguments, e.g. "blocks/10" or "deploy/<id>"
+        return readOnlyMethods.includes(apiMethod.split(/[/?]/)[0]);
     }
 
+    // Atomic balance, or "0" when the lookup fails; see getBalances to tell the two apart
     async getBalance(
         revAddress: string,
         forceRefresh: boolean = false,
     ): Promise<string> {
+        return (await this.lookupBalance(revAddress, forceRefresh)) ?? "0";
+    }
+
+    // Atomic balance, or undefined when the node or the vault gave no balance
+    private async lookupBalance(
+        revAddress: string,
+        forceRefresh: boolean,
+    ): Promise<string | undefined> {
         const cacheKey = `${revAddress}_${this.readOnlyUrl}`;
         const cached = globalBalanceCache.get(cacheKey);
         const now = Date.now();
@@ -183,11 +340,12 @@ export class RChainService {
             return cached.balance;
         }
 
-        const checkBalanceRho = `
+        try {
+            const checkBalanceRho = rholang`
       new return, rl(\`rho:registry:lookup\`), ASIVaultCh, vaultCh in {
         rl!(\`rho:rchain:asiVault\`, *ASIVaultCh) |
         for (@(_, ASIVault) <- ASIVaultCh) {
-          @ASIVault!("findOrCreate", "${revAddress}", *vaultCh) |
+          @ASIVault!("findOrCreate", ${rhoAddress(revAddress)}, *vaultCh) |
           for (@maybeVault <- vaultCh) {
             match maybeVault {
               (true, vault) => @vault!("balance", *return)
@@ -198,192 +356,468 @@ export class RChainService {
       }
     `;
 
-        try {
             const result = await this.exploreDeployData(checkBalanceRho);
+            const [value] = decodeRhoExprs(result);
+
+            // The vault replies with its balance, or with an error string
+            if (value?.type === "int") {
+                const balance = value.value.toString();
+                globalBalanceCache.set(cacheKey, {
+                    balance,
+                    timestamp: now,
+                });
+                return balance;
+            }
 
-            if (result && result.length > 0) {
-                // F1R3wallet expects the balance to be directly in expr[0].ExprInt.data
-                const firstExpr = result[0];
+            if (value?.type === "string") {
+                console.error("Balance check error:", value.value);
+            }
+            // Failures are not cached, so the next refresh retries
+            return undefined;
+        } catch (error) {
+            console.error("Error getting balance:", error);
+            return undefined;
+        }
+    }
 
-                // Check if it's a direct integer (balance)
-                if (firstExpr?.ExprInt?.data !== undefined) {
-                    const balance = firstExpr.ExprInt.data.toString();
-                    globalBalanceCache.set(cacheKey, {
-                        balance,
-                        timestamp: now,
-                    });
-                    return balance;
-                }
+    /**
+     * Look up several vaults in one explore-deploy; returns address -> atomic
+     * balance. Addresses whose lookup failed are left out rather than set to "0".
+     */
+    async getBalances(
+        revAddresses: string[],
+        forceRefresh: boolean = false,
+    ): Promise<Record<string, string>> {
+        const now = Date.now();
+        const balances: Record<string, string> = {};
+        const missing: string[] = [];
 
-                // Check if it's an error string
-                if (firstExpr?.ExprString?.data !== undefined) {
-                    console.error(
-                        "Balance check error:",
-                        firstExpr.ExprString.data,
-                    );
-                    // Cache zero balance for error case
-                    globalBalanceCache.set(cacheKey, {
-                        balance: "0",
-                        timestamp: now,
-                    });
-                    return "0";
+        Array.from(new Set(revAddresses)).forEach((revAddress) => {
+            const cached = globalBalanceCache.get(
+                `${revAddress}_${this.readOnlyUrl}`,
+            );
+            if (
+                !forceRefresh &&
+                cached &&
+                now - cached.timestamp < BALANCE_CACHE_TTL
+            ) {
+                balances[revAddress] = cached.balance;
+            } else {
+                missing.push(revAddress);
+            }
+        });
+
+        if (missing.length === 0) {
+            return balances;
+        }
+
+        const lookupEach = async () => {
+            for (const revAddress of missing) {
+                const balance = await this.lookupBalance(revAddress, true);
+                if (balance !== undefined) {
+                    balances[revAddress] = balance;
                 }
             }
+        };
 
-            // Cache zero balance for no result case
-            globalBalanceCache.set(cacheKey, { balance: "0", timestamp: now });
-            return "0";
+        if (missing.length === 1) {
+            await lookupEach();
+            return balances;
+        }
+
+        try {
+            const fetched = await this.fetchBalancesBatch(missing);
+            missing.forEach((revAddress) => {
+                const balance = fetched[revAddress];
+                if (balance === undefined) return;
+                globalBalanceCache.set(`${revAddress}_${this.readOnlyUrl}`, {
+                    balance,
+                    timestamp: now,
+                });
+                balances[revAddress] = balance;
+            });
         } catch (error) {
-            console.error("Error getting balance:", error);
-            // Don't cache errors to allow retry
-            return "0";
+            console.warn(
+                "Batched balance query failed, falling back to per-address queries:",
+                error,
+            );
+            await lookupEach();
         }
+
+        return balances;
     }
 
-    async transfer(
-        fromAddress: string,
-        toAddress: string,
-        amount: string,
-        privateKey: string,
-    ): Promise<string> {
-        const transferRho = `
-      new 
-        deployerId(\`rho:rchain:deployerId\`),
-        stdout(\`rho:io:stdout\`),
-        rl(\`rho:registry:lookup\`),
-        ASIVaultCh,
-        vaultCh,
-        toVaultCh,
-        asiVaultkeyCh,
-        resultCh
-      in {
+    // Vault errors leave the address out of the result
+    private async fetchBalancesBatch(
+        revAddresses: string[],
+    ): Promise<Record<string, string>> {
+        const addresses = rhoList(revAddresses.map(rhoAddress));
+
+        // Walk the address list, collecting (address, balance | error) pairs
+        const checkBalancesRho = rholang`
+      new return, rl(\`rho:registry:lookup\`), ASIVaultCh, loop in {
         rl!(\`rho:rchain:asiVault\`, *ASIVaultCh) |
         for (@(_, ASIVault) <- ASIVaultCh) {
-          @ASIVault!("findOrCreate", "${fromAddress}", *vaultCh) |
-          @ASIVault!("findOrCreate", "${toAddress}", *toVaultCh) |
-          @ASIVault!("deployerAuthKey", *deployerId, *asiVaultkeyCh) |
-          for (@(true, vault) <- vaultCh; key <- asiVaultkeyCh; @(true, toVault) <- toVaultCh) {
-            @vault!("transfer", "${toAddress}", ${amount}, *key, *resultCh) |
-            for (@result <- resultCh) {
-              match result {
-                (true, Nil) => {
-                  stdout!(("Transfer successful:", ${amount}, "ASI"))
-                }
-                (false, reason) => {
-                  stdout!(("Transfer failed:", reason))
+          contract loop(@remaining, @acc) = {
+            match remaining {
+              [] => return!(acc)
+              [address ...rest] => {
+                new vaultCh, balanceCh in {
+                  @ASIVault!("findOrCreate", address, *vaultCh) |
+                  for (@maybeVault <- vaultCh) {
+                    match maybeVault {
+                      (true, vault) => {
+                        @vault!("balance", *balanceCh) |
+                        for (@balance <- balanceCh) {
+                          loop!(rest, acc ++ [(address, balance)])
+                        }
+                      }
+                      (false, err) => loop!(rest, acc ++ [(address, err)])
+                    }
+                  }
                 }
               }
             }
           } |
-          for (@(false, errorMsg) <- vaultCh) {
-            stdout!(("Sender vault error:", errorMsg))
-          } |
-          for (@(false, errorMsg) <- toVaultCh) {
-            stdout!(("Destination vault error:", errorMsg))
-          }
+          loop!(${addresses}, [])
         }
       }
     `;
 
+        const [value] = decodeRhoExprs(
+            await this.exploreDeployData(checkBalancesRho),
+        );
+        if (value?.type !== "list") {
+            throw new Error(
+                `Unexpected batched balance result: ${value?.type ?? "empty"}`,
+            );
+        }
+
+        const balances: Record<string, string> = {};
+        const answered = new Set<string>();
+        value.value.forEach((entry) => {
+            if (entry.type !== "tuple" || entry.value.length !== 2) {
+                throw new Error(
+                    `Unexpected batched balance entry: ${entry.type}`,
+                );
+            }
+            const [address, balance] = entry.value;
+            if (address.type !== "string") {
+                throw new Error("Batched balance entry has no address");
+            }
+            answered.add(address.value);
+            if (balance.type === "int") {
+                balances[address.value] = balance.value.toString();
+            } else {
+                console.error(
+                    `Balance check error for ${address.value}:`,
+                    balance.type === "string" ? balance.value : balance.type,
+                );
+            }
+        });
+
+        if (revAddresses.some((revAddress) => !answered.has(revAddress))) {
+            throw new Error("Batched balance result is missing addresses");
+        }
+        return balances;
+    }
+
+    async transfer(
+        fromAddress: string,
+        toAddress: string,
+        amount: string,
+        privateKey: string,
+    ): Promise<string> {
+        const transferRho = this.buildTransferTerm(
+            fromAddress,
+            toAddress,
+            amount,
+        );
+
         return await this.sendDeploy(transferRho, privateKey);
     }
 
+    buildTransferTerm(
+        fromAddress: string,
+        toAddress: string,
+        amount: string,
+    ): string {
+        return buildTransferTerm(fromAddress, toAddress, amount);
+    }
+
+    // Estimate the fee of a transfer. Explore-deploy runs without a deployer
+    // identity, so a dry-run transfer stops at the auth check; the indexer's
+    // record of recent single transfers is the better measurement when
+    // available, with a dry-run of this transfer's term as the fallback.
+    async estimateTransferFee(
+        fromAddress: string,
+        toAddress: string,
+        amount: string,
+        phloPrice: number = GAS_FEE.PHLO_PRICE,
+    ): Promise<FeeEstimate> {
+        const indexedCost = await this.fetchIndexedTransferPhloCost();
+        if (indexedCost) {
+            return this.toFeeEstimate(indexedCost, phloPrice, "indexer");
+        }
+
+        return this.estimateDeployFee(
+            this.buildTransferTerm(fromAddress, toAddress, amount),
+            phloPrice,
+        );
+    }
+
+    // Estimate the fee of an arbitrary term by dry-running it on the read-only node
+    async estimateDeployFee(
+        rholangCode: string,
+        phloPrice: number = GAS_FEE.PHLO_PRICE,
+    ): Promise<FeeEstimate> {
+        try {
+            const result = await this.rnodeHttp("explore-deploy", rholangCode);
+            const cost = Number(result?.cost);
+
+            if (Number.isFinite(cost) && cost > 0) {
+                return this.toFeeEstimate(cost, phloPrice, "explore-deploy");
+            }
+        } catch (error) {
+            console.warn("[FeeEstimate] Dry-run failed:", error);
+        }
+
+        return this.toFeeEstimate(
+            getDefaultPhloCost(phloPrice),
+            phloPrice,
+            "default",
+        );
+    }
+
+    private toFeeEstimate(
+        phloUsed: number,
+        phloPrice: number,
+        source: FeeEstimateSource,
+    ): FeeEstimate {
+        return {
+            phloUsed,
+            phloPrice,
+            fee: phloToFee(
+                Math.ceil(phloUsed * GAS_FEE.SAFETY_MARGIN),
+                phloPrice,
+            ),
+            source,
+        };
+    }
+
+    // Median phlo cost of the most recent successful deploys that made exactly
+    // one transfer; batch, multisig and contract deploys cost more and are skipped
+    private async fetchIndexedTransferPhloCost(): Promise<number | null> {
+        if (!this.graphqlUrl) {
+            return null;
+        }
+
+        try {
+            const data = await this.queryIndexer(
+                `query GetTransferPhloCosts($limit: Int!) {
+  deployments(
+    where: {errored: {_eq: false}, phlo_cost: {_gt: 0}, transfers: {}},
+    order_by: {block_number: desc},
+    limit: $limit
+  ) {
+    phlo_cost
+    transfers {
+      id
+    }
+  }
+}`,
+                { limit: 50 },
+            );
+
+            const deployments: {
+                phlo_cost?: number | string;
+                transfers?: unknown[];
+            }[] = data?.deployments || [];
+            const costs = deployments
+                .filter((deploy) => deploy.transfers?.length === 1)
+                .map((deploy) => Number(deploy.phlo_cost))
+                .filter((cost) => Number.isFinite(cost) && cost > 0)
+                .sort((a, b) => a - b);
+
+            if (costs.length === 0) {
+                return null;
+            }
+            const middle = Math.floor(costs.length / 2);
+            return costs.length % 2 === 1
+                ? costs[middle]
+                : Math.ceil((costs[middle - 1] + costs[middle]) / 2);
+        } catch (error: any) {
+            console.warn(
+                "[FeeEstimate] Indexer phlo cost lookup failed:",
+                error.message,
+            );
+            return null;
+        }
+    }
+
     // Send deploy (like F1R3FLY wallet)
     async sendDeploy(
         rholangCode: string,
         privateKey: string,
-        phloLimit: number = 500000,
+        phloLimit: number = GAS_FEE.PHLO_LIMIT,
     ): Promise<string> {
         try {
-            // Get latest block number
-            const blocks = await this.rnodeHttp("blocks/1");
-            const blockNumber =
-                blocks && blocks.length > 0 ? blocks[0].blockNumber : 0;
-
-            // Create deploy data
-            const deployData: Deploy = {
-                term: rholangCode,
-                phloLimit,
-                phloPrice: 1,
-                validAfterBlockNumber: blockNumber,
-                timestamp: Date.now(),
-                shardId: this.shardId,
-            };
+            const deployData = await this.buildDeploy(rholangCode, phloLimit);
 
             // Sign the deploy
-            const signedDeploy = signDeploy(deployData, privateKey);
-
-            // Format for Web API (like f1r3wallet)
-            const webDeploy = {
-                data: {
-                    term: deployData.term,
-                    timestamp: deployData.timestamp,
-                    phloPrice: deployData.phloPrice,
-                    phloLimit: deployData.phloLimit,
-                    validAfterBlockNumber: deployData.validAfterBlockNumber,
-                    shardId: deployData.shardId,
-                },
-                sigAlgorithm: signedDeploy.sigAlgorithm,
-                signature: signedDeploy.sig,
-                deployer: signedDeploy.deployer,
-            };
+            const signedDeploy: SignedDeploy = signDeploy(
+                deployData,
+                privateKey,
+            );
 
-            let result;
-            try {
-                result = await this.rnodeHttp("deploy", webDeploy);
-            } catch (error: any) {
-                console.error("Deploy failed to send:", error);
+            return await this.broadcastSignedDeploy(signedDeploy);
+        } catch (error: any) {
+            console.error("Deploy failed:", error);
+            // Re-throw the error (it's already formatted above)
+            throw error;
+        }
+    }
 
-                // Check if it's a network/server error (deploy didn't reach server)
-                if (
-                    error.code === "ERR_NETWORK" ||
-                    error.code === "ECONNREFUSED" ||
-                    error.code === "ETIMEDOUT" ||
-                    error.code === "ENOTFOUND" ||
-                    error.message.includes("Network Error") ||
-                    error.message.includes("timeout")
-                ) {
-                    throw new Error(
-                        `Deploy failed: Server is unreachable. The deploy was NOT sent to the network. Please check your connection and try again.`,
-                    );
-                }
+    // Unsigned deploy data anchored at the latest block; signed here or offline
+    async buildDeploy(
+        rholangCode: string,
+        phloLimit: number = GAS_FEE.PHLO_LIMIT,
+        phloPrice: number = GAS_FEE.PHLO_PRICE,
+    ): Promise<Deploy> {
+        const blocks = await this.rnodeHttp("blocks/1");
+        const blockNumber =
+            blocks && blocks.length > 0 ? blocks[0].blockNumber : 0;
+
+        return {
+            term: rholangCode,
+            phloLimit,
+            phloPrice,
+            validAfterBlockNumber: blockNumber,
+            timestamp: Date.now(),
+            shardId: this.shardId,
+        };
+    }
 
-                // For other errors, rethrow with original message
-                throw new Error(`Deploy failed: ${error.message}`);
-            }
+    getShardId(): string {
+        return this.shardId;
+    }
 
-            // The deploy result should contain a signature which is the deploy ID
-            // The Web API returns the signature string, sometimes with a prefix
-            if (typeof result === "string") {
-                // Extract just the deploy ID if it has the "Success! DeployId is: " prefix
-                const deployIdMatch = result.match(
-                    /DeployId is:\s*([a-fA-F0-9]+)/,
-                );
-                if (deployIdMatch) {
-                    return deployIdMatch[1];
-                }
-                // If no prefix, assume the whole string is the deploy ID
-                return result;
-            }
+    getNetworkId(): string | undefined {
+        return this.networkId;
+    }
+
+    // Submit an already signed deploy to the validator pool
+    async broadcastSignedDeploy(signedDeploy: SignedDeploy): Promise<string> {
+        // The node would reject a bad signature anyway; checking first also gives the expected ID
+        const signatureCheck = verifyDeploySignature(signedDeploy);
+        if (!signatureCheck.valid) {
+            throw new Error(
+                `Deploy failed: invalid signature (${signatureCheck.error}). The deploy was NOT sent to the network.`,
+            );
+        }
 
-            const deployId = result.signature || result.deployId || result;
+        // Format for Web API (like f1r3wallet)
+        const webDeploy = {
+            data: {
+                term: signedDeploy.term,
+                timestamp: signedDeploy.timestamp,
+                phloPrice: signedDeploy.phloPrice,
+                phloLimit: signedDeploy.phloLimit,
+                validAfterBlockNumber: signedDeploy.validAfterBlockNumber,
+                shardId: signedDeploy.shardId,
+            },
+            sigAlgorithm: signedDeploy.sigAlgorithm,
+            signature: signedDeploy.sig,
+            deployer: signedDeploy.deployer,
+        };
 
-            // Validate that we got a valid deployId
-            if (
-                !deployId ||
-                (typeof deployId === "string" && deployId.trim().length === 0)
-            ) {
+        if (submittedDeploySignatures.has(signedDeploy.sig)) {
+            throw new Error(
+                "Deploy failed: this signed deploy has already been submitted.",
+            );
+        }
+        // Claimed before sending so a second call cannot race this one
+        submittedDeploySignatures.add(signedDeploy.sig);
+
+        let result;
+        try {
+            result = await this.rnodeHttp("deploy", webDeploy);
+        } catch (error: any) {
+            console.error("Deploy failed to send:", error);
+
+            // Only an unreachable node proves nothing was sent
+            if (isNotSentError(error)) {
+                submittedDeploySignatures.delete(signedDeploy.sig);
                 throw new Error(
-                    "Deploy failed: Server did not return a valid deploy ID. The deploy may not have been sent.",
+                    `Deploy failed: Server is unreachable. The deploy was NOT sent to the network. Please check your connection and try again.`,
                 );
             }
 
-            return deployId;
-        } catch (error: any) {
-            console.error("Deploy failed:", error);
-            // Re-throw the error (it's already formatted above)
-            throw error;
+            // Timeouts, dropped connections and node errors may all follow an
+            // accepted deploy; keep the signature and let lifecycle polling
+            // find out what happened
+            DeployLifecycleService.recordSubmitted(
+                signatureCheck.deployId,
+                signedDeploy.validAfterBlockNumber,
+                this.networkId,
+            );
+            throw new Error(
+                `Deploy status unknown: ${error.message}. The deploy may still be processed, so check History for ${signatureCheck.deployId} before sending it again.`,
+            );
+        }
+
+        // Track the deploy under its own ID, which is what the node indexes it by
+        const { deployId } = signatureCheck;
+        DeployLifecycleService.recordSubmitted(
+            deployId,
+            signedDeploy.validAfterBlockNumber,
+            this.networkId,
+        );
+
+        const returnedId = String(this.parseDeployId(result)).toLowerCase();
+        if (returnedId !== deployId) {
+            throw new Error(
+                `Deploy ID mismatch: the node returned ${returnedId}, but the signed deploy's ID is ${deployId}. Check History for ${deployId} before sending again.`,
+            );
         }
+
+        if (this.autoPropose) {
+            this.proposeAndTrack([deployId]).catch((error) =>
+                console.warn(
+                    `[Devnet] Auto-propose after deploy ${deployId} failed:`,
+                    error.message,
+                ),
+            );
+        }
+        return deployId;
+    }
+
+    private parseDeployId(result: any): string {
+        // The deploy result should contain a signature which is the deploy ID
+        // The Web API returns the signature string, sometimes with a prefix
+        if (typeof result === "string") {
+            // Extract just the deploy ID if it has the "Success! DeployId is: " prefix
+            const deployIdMatch = result.match(/DeployId is:\s*([a-fA-F0-9]+)/);
+            if (deployIdMatch) {
+                return deployIdMatch[1];
+            }
+            // If no prefix, assume the whole string is the deploy ID
+            return result;
+        }
+
+        const deployId = result.signature || result.deployId || result;
+
+        // Validate that we got a valid deployId
+        if (
+            !deployId ||
+            (typeof deployId === "string" && deployId.trim().length === 0)
+        ) {
+            throw new Error(
+                "Deploy failed: Server did not return a valid deploy ID. The deploy may not have been sent.",
+            );
+        }
+
+        return deployId;
     }
 
     // Explore deploy (read-only, like F1R3FLY wallet)
@@ -405,6 +839,90 @@ export class RChainService {
         }
     }
 
+    // Values a deploy sent on its rho:rchain:deployId channel, decoded
+    async getDeployChannelData(deployId: string): Promise<RhoValue[]> {
+        const response = await this.rnodeHttp("data-at-name", {
+            depth: 1,
+            name: { UnforgDeploy: { data: deployId } },
+        });
+
+        return decodeRhoExprs(
+            (response?.exprs || []).map((item: any) => item.expr ?? item),
+        );
+    }
+
+    // Outcome a deploy reported on its rho:rchain:deployId channel as (success, reason).
+    // Undefined when nothing was sent there, e.g. for deploys not built from a template.
+    async getDeployOutcome(
+        deployId: string,
+    ): Promise<{ success: boolean; reason?: string } | undefined> {
+        const [first] = await this.getDeployChannelData(deployId);
+        if (first?.type !== "tuple" || first.value[0]?.type !== "bool") {
+            return undefined;
+        }
+
+        const [success, reason] = first.value;
+        if (success.type !== "bool") {
+            return undefined;
+        }
+        if (success.value) {
+            return { success: true };
+        }
+        return {
+            success: false,
+            reason:
+                reason?.type === "string"
+                    ? reason.value
+                    : reason
+                      ? formatRhoValue(reason)
+                      : "Deploy reported failure",
+        };
+    }
+
+    // Whether a block is finalized, per the read-only node's finalizer
+    // Either identifier is enough; the hash is asked about directly when known
+    async isBlockFinalized(
+        blockHash: string | undefined,
+        blockNumber?: number,
+    ): Promise<boolean> {
+        if (!blockHash && blockNumber === undefined) {
+            return false;
+        }
+        try {
+            if (!blockHash) {
+                throw new Error("Block hash unknown");
+            }
+            const finalized = await this.readOnlyPool.request((client) =>
+                client.get(`/api/is-finalized/${blockHash}`, {
+                    timeout: 10000,
+                }),
+            );
+            return finalized.data === true;
+        } catch (error) {
+            if (blockNumber === undefined) {
+                console.warn("Error checking block finalization:", error);
+                return false;
+            }
+        }
+
+        // Older nodes: compare against the last finalized block height
+        try {
+            const lastFinalized = await this.readOnlyPool.request((client) =>
+                client.get("/api/last-finalized-block", { timeout: 10000 }),
+            );
+            const finalizedNumber =
+                lastFinalized.data?.blockInfo?.blockNumber ??
+                lastFinalized.data?.blockNumber;
+            return (
+                typeof finalizedNumber === "number" &&
+                finalizedNumber >= blockNumber
+            );
+        } catch (error) {
+            console.warn("Error checking last finalized block:", error);
+            return false;
+        }
+    }
+
     // Get latest block number
     async getLatestBlockNumber(): Promise<number> {
         try {
@@ -416,6 +934,115 @@ export class RChainService {
         }
     }
 
+    // Latest light blocks, newest first
+    async getRecentBlocks(depth: number = 10): Promise<any[]> {
+        const blocks = await this.rnodeHttp(`blocks/${depth}`);
+        return Array.isArray(blocks) ? blocks : [];
+    }
+
+    // Light blocks by height range, inclusive
+    async getBlocksByHeights(start: number, end: number): Promise<any[]> {
+        const blocks = await this.rnodeHttp(`blocks/${start}/${end}`);
+        return Array.isArray(blocks) ? blocks : [];
+    }
+
+    // Block header plus the deploys it contains: { blockInfo, deploys }
+    async getBlock(blockHash: string): Promise<any> {
+        return this.rnodeHttp(`block/${blockHash}`);
+    }
+
+    // Light block that includes a deploy, or null while it is in no block
+    async findDeployBlock(deployId: string): Promise<any | null> {
+        try {
+            return await this.rnodeHttp(`deploy/${deployId}`);
+        } catch (error: any) {
+            // The node answers with an error status when it knows no such block
+            if (error.message?.startsWith("RNode API Error")) {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    // Indexer record of a deploy, or null if it has not been indexed
+    async getIndexedDeploy(deployId: string): Promise<any | null> {
+        const data = await this.queryIndexer(
+            `query GetExplorerDeploy($deployId: String!) {
+  deployments(where: {deploy_id: {_eq: $deployId}}) {
+    deploy_id
+    deployer
+    timestamp
+    errored
+    error_message
+    phlo_cost
+    phlo_price
+    block_number
+    block_hash
+    shard_id
+  }
+}`,
+            { deployId },
+        );
+        return data?.deployments?.[0] ?? null;
+    }
+
+    // Indexed transfers from or to an address, newest first
+    async getAddressTransfers(
+        address: string,
+        limit: number = 50,
+    ): Promise<any[]> {
+        const data = await this.queryIndexer(
+            `query GetAddressTransfers($address: String!, $limit: Int!) {
+  transfers(
+    where: {_or: [{from_address: {_eq: $address}}, {to_address: {_eq: $address}}]},
+    order_by: {block_number: desc},
+    limit: $limit
+  ) {
+    deploy_id
+    block_number
+    from_address
+    to_address
+    amount_asi
+    status
+    timestamp
+  }
+}`,
+            { address, limit },
+        );
+        return data?.transfers ?? [];
+    }
+
+    private async queryIndexer(
+        query: string,
+        variables: Record<string, unknown>,
+    ): Promise<any> {
+        let graphqlEndpoint = this.graphqlUrl;
+        if (
+            typeof window !== "undefined" &&
+            window.location.protocol === "https:" &&
+            graphqlEndpoint.startsWith("http://")
+        ) {
+            graphqlEndpoint = graphqlEndpoint.replace("http://", "https://");
+        }
+
+        const response = await axios.post(
+            graphqlEndpoint,
+            { query, variables },
+            {
+                headers: { "Content-Type": "application/json" },
+                timeout: 10000,
+            },
+        );
+
+        if (response.data?.errors) {
+            const errorMessages = response.data.errors
+                .map((err: any) => err.message || JSON.stringify(err))
+                .join("; ");
+            throw new Error(`GraphQL query error: ${errorMessages}`);
+        }
+        return response.data?.data;
+    }
+
     async waitForDeployResult(
         deployId: string,
         maxAttempts: number = 20,
@@ -462,6 +1089,8 @@ export class RChainService {
     timestamp
     errored
     error_message
+    phlo_cost
+    phlo_price
     block_number
     block_hash
     seq_num
@@ -575,6 +1204,15 @@ export class RChainService {
                     response.data.data.deployments.length > 0
                 ) {
                     const deploy = response.data.data.deployments[0];
+                    const cost =
+                        deploy.phlo_cost !== undefined &&
+                        deploy.phlo_cost !== null
+                            ? phloToFee(
+                                  Number(deploy.phlo_cost),
+                                  Number(deploy.phlo_price) ||
+                                      GAS_FEE.PHLO_PRICE,
+                              )
+                            : undefined;
 
                     if (deploy.errored) {
                         return {
@@ -585,6 +1223,7 @@ export class RChainService {
                             blockHash: deploy.block?.block_hash,
                             blockNumber: deploy.block_number,
                             deployId: deployId,
+                            cost,
                         };
                     }
 
@@ -596,6 +1235,7 @@ export class RChainService {
                         deployId: deployId,
                         timestamp: deploy.timestamp,
                         transfers: deploy.transfers,
+                        cost,
                     };
                 }
 
@@ -625,11 +1265,10 @@ export class RChainService {
     private async waitForDeployResultFallback(deployId: string): Promise<any> {
 
         try {
-            const blocksResult = await this.readOnlyClient.get(
-                "/api/blocks/10",
-                {
+            const blocksResult = await this.readOnlyPool.request((client) =>
+                client.get("/api/blocks/10", {
                     timeout: 10000,
-                },
+                }),
             );
 
             if (blocksResult.data && Array.isArray(blocksResult.data)) {
@@ -648,8 +1287,16 @@ export class RChainService {
                                 message:
                                     "Deploy successfully included in block",
                                 blockHash: block.blockHash,
+                                blockNumber: block.blockNumber,
                                 deployId: deployId,
-                                cost: foundDeploy.cost,
+                                cost:
+                                    foundDeploy.cost !== undefined
+                                        ? phloToFee(
+                                              Number(foundDeploy.cost),
+                                              Number(foundDeploy.phloPrice) ||
+                                                  GAS_FEE.PHLO_PRICE,
+                                          )
+                                        : undefined,
                                 timestamp: block.timestamp,
                             };
                         }
@@ -736,6 +1383,8 @@ export class RChainService {
               block_number
               deployer
               timestamp
+              phlo_cost
+              phlo_price
               block {
                 block_hash
               }
@@ -803,8 +1452,21 @@ export class RChainService {
             const deployments = response.data?.data?.deployments || [];
 
             const deployTimestampMap = new Map();
+            const deployGasCostMap = new Map<string, string>();
             deployments.forEach((deploy: any) => {
                 deployTimestampMap.set(deploy.deploy_id, deploy.timestamp);
+                if (
+                    deploy.phlo_cost !== undefined &&
+                    deploy.phlo_cost !== null
+                ) {
+                    deployGasCostMap.set(
+                        deploy.deploy_id,
+                        phloToFee(
+                            Number(deploy.phlo_cost),
+                            Number(deploy.phlo_price) || GAS_FEE.PHLO_PRICE,
+                        ),
+                    );
+                }
             });
 
             const transferTxs = transfers.map((tx: any) => {
@@ -849,6 +1511,7 @@ export class RChainService {
                     status: "confirmed",
                     timestamp: timestamp,
                     blockHash: undefined,
+                    gasCost: deployGasCostMap.get(tx.deploy_id),
                     type: type,
                 };
             });
@@ -871,6 +1534,7 @@ export class RChainService {
                     status: "confirmed",
                     timestamp: timestamp,
                     blockHash: tx.block?.block_hash,
+                    gasCost: deployGasCostMap.get(tx.deploy_id),
                     type: "deploy" as const,
                 };
             });
@@ -925,27 +1589,26 @@ export class RChainService {
         }
     }
 
-    // Check if node is accessible (checks validator node by default)
+    // Check if any node of a role is accessible (checks validator nodes by default)
     async isNodeAccessible(
         nodeType: "validator" | "readOnly" | "admin" = "validator",
     ): Promise<boolean> {
         try {
-            let client: AxiosInstance;
-
             switch (nodeType) {
                 case "readOnly":
-                    client = this.readOnlyClient;
-                    break;
-                case "admin":
+                    return (await this.readOnlyPool.probe(true)).some(
+                        (node) => node.healthy,
+                    );
+                case "admin": {
                     if (!this.adminClient) return false;
-                    client = this.adminClient;
-                    break;
+                    const response = await this.adminClient.get("/api/status");
+                    return !!response.data;
+                }
                 default:
-                    client = this.validatorClient;
+                    return (await this.validatorPool.probe(true)).some(
+                        (node) => node.healthy,
+                    );
             }
-
-            const response = await client.get("/api/status");
-            return !!response.data;
         } catch {
             return false;
         }
@@ -959,10 +1622,53 @@ export class RChainService {
             );
         }
 
+        const queueKey = this.adminUrl || "";
+        const previous = proposeQueues.get(queueKey) || Promise.resolve();
+        const current = previous
+            .catch(() => undefined)
+            .then(() => this.rnodeHttp("propose", {}));
+        proposeQueues.set(queueKey, current);
+
         try {
-            return await this.rnodeHttp("propose", {});
+            return await current;
         } catch (error: any) {
             throw new Error(`Propose failed: ${error.message}`);
+        } finally {
+            if (proposeQueues.get(queueKey) === current) {
+                proposeQueues.delete(queueKey);
+            }
+        }
+    }
+
+    /**
+     * Propose a block, then move the given deploys on from "submitted" in the
+     * background. Resolves with the node's propose response as soon as the
+     * block exists; lifecycle listeners see the status updates.
+     */
+    async proposeAndTrack(deployIds: string[]): Promise<any> {
+        const result = await this.propose();
+
+        deployIds.forEach((deployId) => {
+            this.trackProposedDeploy(deployId).catch((error) =>
+                console.warn(
+                    `[Devnet] Could not update status of ${deployId}:`,
+                    error.message,
+                ),
+            );
+        });
+
+        return result;
+    }
+
+    private async trackProposedDeploy(deployId: string): Promise<void> {
+        for (let attempt = 0; attempt < PROPOSE_TRACK_ATTEMPTS; attempt++) {
+            const lifecycle = await DeployLifecycleService.refresh(
+                deployId,
+                this,
+            );
+            if (lifecycle.state !== "submitted") {
+                return;
+            }
         }
     }
 }
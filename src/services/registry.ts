@@ -0,0 +1,122 @@
+/**
+ * Registry lookups and inserts. Contracts are published with
+ * `rho:registry:insertArbitrary`, which answers with a `rho:id:` URI; lookups
+ * run `rho:registry:lookup` through explore-deploy and decode what is bound.
+ */
+import { RChainService } from "services/rchain";
+import { decodeRhoExprs, RhoDecodeError, RhoValue } from "utils/rhoExpr";
+import { rholang, rhoUri } from "utils/rholang";
+
+// rho:id: followed by 54 z-base-32 characters (32-byte hash plus CRC)
+const REGISTRY_URI_PATTERN = /^rho:id:[ybndrfg8ejkmcpqxot1uwisza345h769]{54}$/;
+
+export class RegistryError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "RegistryError";
+    }
+}
+
+export interface RegistryLookupResult {
+    uri: string;
+    // Decoded values, or undefined when the node's encoding is not understood
+    values?: RhoValue[];
+    decodeError?: string;
+    raw: unknown;
+}
+
+export const isRegistryUri = (value: string): boolean =>
+    REGISTRY_URI_PATTERN.test(value);
+
+// Accepts the URI with or without surrounding backticks, as copied from Rholang
+export const normalizeRegistryUri = (input: string): string => {
+    const uri = input.trim().replace(/^`|`$/g, "");
+    if (!isRegistryUri(uri)) {
+        throw new RegistryError(
+            "Enter a registry URI of the form rho:id:… (54 z-base-32 characters)",
+        );
+    }
+    return uri;
+};
+
+export const buildRegistryLookupTerm = (uri: string): string =>
+    rholang`
+      new return, rl(\`rho:registry:lookup\`) in {
+        rl!(${rhoUri(normalizeRegistryUri(uri))}, *return)
+      }
+    `;
+
+export const lookupRegistryUri = async (
+    rchain: RChainService,
+    input: string,
+): Promise<RegistryLookupResult> => {
+    const uri = normalizeRegistryUri(input);
+    const raw = await rchain.exploreDeployData(buildRegistryLookupTerm(uri));
+    try {
+        return { uri, values: decodeRhoExprs(raw), raw };
+    } catch (error: any) {
+        if (error instanceof RhoDecodeError) {
+            return { uri, decodeError: error.message, raw };
+        }
+        throw error;
+    }
+};
+
+// Whether a lookup found anything bound at the URI
+export const isUnbound = (result: RegistryLookupResult): boolean =>
+    !!result.values &&
+    result.values.every(
+        (value) =>
+            value.type === "nil" ||
+            (value.type === "par" && value.value.length === 0),
+    );
+
+// Starting point for the IDE's "Insert into registry" file
+export const REGISTRY_INSERT_TEMPLATE = `new
+  deployId(\`rho:rchain:deployId\`),
+  insertArbitrary(\`rho:registry:insertArbitrary\`),
+  uriCh,
+  myContract
+in {
+  // Replace with the contract to publish
+  contract myContract(@message, return) = {
+    return!(message)
+  } |
+
+  // The registry answers with the rho:id: URI of the bundle
+  insertArbitrary!(bundle+{*myContract}, *uriCh) |
+  for (@uri <- uriCh) {
+    deployId!(uri)
+  }
+}
+`;
+
+// First registry URI in a list of values, looking inside tuples and lists
+export const findRegistryUri = (values: RhoValue[]): string | undefined => {
+    for (const value of values) {
+        if (value.type === "uri" && isRegistryUri(value.value)) {
+            return value.value;
+        }
+        if (value.type === "string" && isRegistryUri(value.value)) {
+            return value.value;
+        }
+        if (
+            value.type === "tuple" ||
+            value.type === "list" ||
+            value.type === "par"
+        ) {
+            const nested = findRegistryUri(value.value);
+            if (nested) {
+                return nested;
+            }
+        }
+    }
+    return undefined;
+};
+
+// URI an insert deploy reported on its deployId channel, if any
+export const readInsertedUri = async (
+    rchain: RChainService,
+    deployId: string,
+): Promise<string | undefined> =>
+    findRegistryUri(await rchain.getDeployChannelData(deployId));
@@ -0,0 +1,65 @@
+// Registry Bookmarks Service - named rho:id URIs, saved per network
+import { isRegistryUri } from './registry';
+
+export interface RegistryBookmark {
+  name: string;
+  uri: string;
+  createdAt: string;
+}
+
+type BookmarksByNetwork = Record<string, RegistryBookmark[]>;
+
+class RegistryBookmarkService {
+  private static readonly STORAGE_KEY = 'asi_wallet_registry_bookmarks';
+
+  static getAll(networkId: string): RegistryBookmark[] {
+    return this.load()[networkId] || [];
+  }
+
+  // Adds a bookmark, or renames the existing one for the same URI
+  static save(networkId: string, name: string, uri: string): RegistryBookmark[] {
+    if (!isRegistryUri(uri)) {
+      throw new Error(`Invalid registry URI: ${uri}`);
+    }
+    const all = this.load();
+    const bookmarks = all[networkId] || [];
+    const existing = bookmarks.find(bookmark => bookmark.uri === uri);
+    const label = name.trim() || uri;
+
+    all[networkId] = existing
+      ? bookmarks.map(bookmark => (bookmark.uri === uri ? { ...bookmark, name: label } : bookmark))
+      : [...bookmarks, { name: label, uri, createdAt: new Date().toISOString() }];
+    this.persist(all);
+    return all[networkId];
+  }
+
+  static remove(networkId: string, uri: string): RegistryBookmark[] {
+    const all = this.load();
+    all[networkId] = (all[networkId] || []).filter(bookmark => bookmark.uri !== uri);
+    if (all[networkId].length === 0) {
+      delete all[networkId];
+    }
+    this.persist(all);
+    return all[networkId] || [];
+  }
+
+  private static load(): BookmarksByNetwork {
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.error('[Registry Bookmarks] Error loading bookmarks:', error);
+      return {};
+    }
+  }
+
+  private static persist(all: BookmarksByNetwork): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(all));
+    } catch (error) {
+      console.error('[Registry Bookmarks] Error saving bookmarks:', error);
+    }
+  }
+}
+
+export default RegistryBookmarkService;
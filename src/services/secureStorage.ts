@@ -120,6 +120,10 @@ export class SecureStorage {
         return AccountsVault.saveAccount(account, password, uid);
     }
 
+    static async saveWatchOnlyAccount(account: Account, userId: string) {
+        return AccountsVault.saveWatchOnlyAccount(account, userId);
+    }
+
     static async unlockAccount(
         accountId: string,
         password: string,
@@ -0,0 +1,169 @@
+/**
+ * Proof-of-stake queries and deploy terms. Reads go through explore-deploy;
+ * bond and withdraw are ordinary deploys signed by the account that stakes,
+ * because the PoS contract identifies the validator by its deployerId.
+ */
+import { RChainService } from "services/rchain";
+import { Amount } from "utils/amount";
+import { decodeRhoExprs, formatRhoValue, RhoValue } from "utils/rhoExpr";
+import { rhoInt, rholang, rhoUri } from "utils/rholang";
+
+export const POS_REGISTRY_URI = "rho:rchain:pos";
+
+export type StakingAction = "bond" | "withdraw";
+
+export interface ValidatorBond {
+    // Uncompressed secp256k1 public key, lowercase hex
+    publicKey: string;
+    // Bonded stake as a decimal ASI string
+    stake: string;
+    active: boolean;
+}
+
+export class StakingError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "StakingError";
+    }
+}
+
+const bytesToHex = (bytes: Uint8Array): string =>
+    Array.from(bytes)
+        .map((byte) => byte.toString(16).padStart(2, "0"))
+        .join("");
+
+// Map keys and list items are byte arrays, or hex strings on some node versions
+const toPublicKey = (value: RhoValue): string | null => {
+    if (value.type === "bytes") {
+        return bytesToHex(value.value);
+    }
+    if (value.type === "string" && /^[0-9a-fA-F]+$/.test(value.value)) {
+        return value.value.toLowerCase();
+    }
+    return null;
+};
+
+export const buildValidatorQueryTerm = (): string => {
+    const pos = rhoUri(POS_REGISTRY_URI);
+    return rholang`
+      new return, rl(\`rho:registry:lookup\`), posCh, bondsCh, activeCh in {
+        rl!(${pos}, *posCh) |
+        for (@(_, PoS) <- posCh) {
+          @PoS!("getBonds", *bondsCh) |
+          @PoS!("getActiveValidators", *activeCh) |
+          for (@bonds <- bondsCh; @active <- activeCh) {
+            return!((bonds, active))
+          }
+        }
+      }
+    `;
+};
+
+// Parse the (bonds, activeValidators) tuple returned by the validator query
+export const parseValidatorSet = (exprs: unknown): ValidatorBond[] => {
+    const [result] = decodeRhoExprs(exprs);
+    if (
+        !result ||
+        result.type !== "tuple" ||
+        result.value.length !== 2 ||
+        result.value[0].type !== "map"
+    ) {
+        throw new StakingError(
+            `Unexpected PoS response: ${result ? formatRhoValue(result) : "empty"}`,
+        );
+    }
+
+    const [bonds, activeList] = result.value;
+    const active = new Set(
+        activeList.type === "list" || activeList.type === "set"
+            ? activeList.value
+                  .map(toPublicKey)
+                  .filter((key): key is string => !!key)
+            : [],
+    );
+
+    return (bonds.type === "map" ? bonds.value : [])
+        .map(([key, stake]): ValidatorBond | null => {
+            const publicKey = toPublicKey(key);
+            if (!publicKey || stake.type !== "int") {
+                return null;
+            }
+            return {
+                publicKey,
+                stake: Amount.fromAtomic(stake.value).toString(),
+                active: active.has(publicKey),
+            };
+        })
+        .filter((bond): bond is ValidatorBond => !!bond)
+        .sort((a, b) => Amount.from(b.stake).compare(a.stake));
+};
+
+export const fetchValidatorSet = async (
+    rchain: RChainService,
+): Promise<ValidatorBond[]> =>
+    parseValidatorSet(
+        await rchain.exploreDeployData(buildValidatorQueryTerm()),
+    );
+
+export const findBond = (
+    validators: ValidatorBond[],
+    publicKey: string,
+): ValidatorBond | undefined => {
+    const key = publicKey.toLowerCase().replace(/^0x/, "");
+    return validators.find((validator) => validator.publicKey === key);
+};
+
+// Bond `amount` ASI from the deployer's vault. PoS replies (true, _) or
+// (false, reason); the outcome goes to the deployId channel like a transfer's.
+export const buildBondTerm = (amount: Amount): string => {
+    if (!amount.isPositive()) {
+        throw new StakingError("Bond amount must be greater than zero");
+    }
+    const pos = rhoUri(POS_REGISTRY_URI);
+    const value = rhoInt(amount.toAtomic());
+    return rholang`
+      new
+        deployId(\`rho:rchain:deployId\`),
+        deployerId(\`rho:rchain:deployerId\`),
+        rl(\`rho:registry:lookup\`),
+        posCh,
+        resultCh
+      in {
+        rl!(${pos}, *posCh) |
+        for (@(_, PoS) <- posCh) {
+          @PoS!("bond", *deployerId, ${value}, *resultCh) |
+          for (@result <- resultCh) {
+            match result {
+              (true, _) => deployId!((true, Nil))
+              (false, reason) => deployId!((false, reason))
+            }
+          }
+        }
+      }
+    `;
+};
+
+// Withdraw the deployer's whole bond back to its vault
+export const buildWithdrawTerm = (): string => {
+    const pos = rhoUri(POS_REGISTRY_URI);
+    return rholang`
+      new
+        deployId(\`rho:rchain:deployId\`),
+        deployerId(\`rho:rchain:deployerId\`),
+        rl(\`rho:registry:lookup\`),
+        posCh,
+        resultCh
+      in {
+        rl!(${pos}, *posCh) |
+        for (@(_, PoS) <- posCh) {
+          @PoS!("withdraw", *deployerId, *resultCh) |
+          for (@result <- resultCh) {
+            match result {
+              (true, _) => deployId!((true, Nil))
+              (false, reason) => deployId!((false, reason))
+            }
+          }
+        }
+      }
+    `;
+};
@@ -3,13 +3,15 @@ import {
     StoredAccountRecord,
     SettingsRecord,
     SessionRecord,
+    ContactRecord,
+    BalanceSnapshotRecord,
     StoreName,
     TransactionMode,
     StorageError,
 } from "./types";
 
 const DB_NAME = "asi_wallet_db";
-const DB_VERSION = 3;
+const DB_VERSION = 5;
 const DEFAULT_SETTINGS_ID = "default";
 
 function toError(
@@ -90,6 +92,21 @@ function createStores(
             });
         }
     }
+
+    if (!db.objectStoreNames.contains(StoreName.Contacts)) {
+        const contactStore = db.createObjectStore(StoreName.Contacts, {
+            keyPath: "id",
+        });
+        contactStore.createIndex("revAddress", "revAddress", {
+            unique: true,
+        });
+    }
+
+    if (!db.objectStoreNames.contains(StoreName.BalanceSnapshots)) {
+        db.createObjectStore(StoreName.BalanceSnapshots, {
+            keyPath: ["accountKey", "timestamp"],
+        });
+    }
 }
 
 export class IndexedDBAdapter implements StorageAdapter {
@@ -279,12 +296,93 @@ export class IndexedDBAdapter implements StorageAdapter {
         return staleRecords.length;
     }
 
+    async getAllContacts(): Promise<ContactRecord[]> {
+        const { store } = await this.getStore(
+            StoreName.Contacts,
+            TransactionMode.ReadOnly,
+        );
+        return promisifyRequest<ContactRecord[]>(store.getAll());
+    }
+
+    async putContact(contact: ContactRecord): Promise<void> {
+        const { store, tx } = await this.getStore(
+            StoreName.Contacts,
+            TransactionMode.ReadWrite,
+        );
+        store.put(contact);
+        await commitTransaction(tx);
+    }
+
+    async putContacts(contacts: ContactRecord[]): Promise<void> {
+        const { store, tx } = await this.getStore(
+            StoreName.Contacts,
+            TransactionMode.ReadWrite,
+        );
+        for (const contact of contacts) {
+            store.put(contact);
+        }
+        await commitTransaction(tx);
+    }
+
+    async deleteContact(id: string): Promise<void> {
+        const { store, tx } = await this.getStore(
+            StoreName.Contacts,
+            TransactionMode.ReadWrite,
+        );
+        store.delete(id);
+        await commitTransaction(tx);
+    }
+
+    // Oldest first, as the compound key sorts by timestamp within an account
+    async getBalanceSnapshots(
+        accountKey: string,
+    ): Promise<BalanceSnapshotRecord[]> {
+        const { store } = await this.getStore(
+            StoreName.BalanceSnapshots,
+            TransactionMode.ReadOnly,
+        );
+        const range = IDBKeyRange.bound(
+            [accountKey, -Infinity],
+            [accountKey, Infinity],
+        );
+        return promisifyRequest<BalanceSnapshotRecord[]>(store.getAll(range));
+    }
+
+    async putBalanceSnapshots(
+        snapshots: BalanceSnapshotRecord[],
+    ): Promise<void> {
+        const { store, tx } = await this.getStore(
+            StoreName.BalanceSnapshots,
+            TransactionMode.ReadWrite,
+        );
+        for (const snapshot of snapshots) {
+            store.put(snapshot);
+        }
+        await commitTransaction(tx);
+    }
+
+    async deleteBalanceSnapshots(
+        accountKey: string,
+        timestamps: number[],
+    ): Promise<void> {
+        const { store, tx } = await this.getStore(
+            StoreName.BalanceSnapshots,
+            TransactionMode.ReadWrite,
+        );
+        for (const timestamp of timestamps) {
+            store.delete([accountKey, timestamp]);
+        }
+        await commitTransaction(tx);
+    }
+
     async clear(): Promise<void> {
         const allStores: StoreName[] = [
             StoreName.Accounts,
             StoreName.Settings,
             StoreName.General,
             StoreName.Sessions,
+            StoreName.Contacts,
+            StoreName.BalanceSnapshots,
         ];
         const { stores, tx } = await this.getMultiStore(
             allStores,
@@ -11,6 +11,8 @@ export type {
   SettingsRecord,
   SessionRecord,
   GeneralRecord,
+  ContactRecord,
+  BalanceSnapshotRecord,
 } from './types';
 
 export { IndexedDBAdapter } from './IndexedDBAdapter';
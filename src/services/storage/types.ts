@@ -3,6 +3,8 @@ export enum StoreName {
   Settings = 'settings',
   General = 'general',
   Sessions = 'sessions',
+  Contacts = 'contacts',
+  BalanceSnapshots = 'balanceSnapshots',
 }
 
 export enum TransactionMode {
@@ -58,9 +60,30 @@ export interface StoredAccountRecord {
   userId?: string;
   derivationPath?: string;
   isHardwareWallet?: boolean;
+  isWatchOnly?: boolean;
   createdAt: string;
 }
 
+export interface ContactRecord {
+  id: string;
+  name: string;
+  revAddress: string;
+  ethAddress?: string;
+  notes?: string;
+  tags: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Keyed by [accountKey, timestamp]; accountKey is `${networkId}:${revAddress}`
+export interface BalanceSnapshotRecord {
+  accountKey: string;
+  networkId: string;
+  revAddress: string;
+  timestamp: number;
+  balance: string;
+}
+
 export interface StorageAdapter {
   ready(): Promise<void>;
   close(): Promise<void>;
@@ -82,4 +105,13 @@ export interface StorageAdapter {
   putSession(session: SessionRecord): Promise<void>;
   deleteSession(token: string): Promise<void>;
   deleteSessionsOlderThan(maxAgeMs: number): Promise<number>;
+
+  getAllContacts(): Promise<ContactRecord[]>;
+  putContact(contact: ContactRecord): Promise<void>;
+  putContacts(contacts: ContactRecord[]): Promise<void>;
+  deleteContact(id: string): Promise<void>;
+
+  getBalanceSnapshots(accountKey: string): Promise<BalanceSnapshotRecord[]>;
+  putBalanceSnapshots(snapshots: BalanceSnapshotRecord[]): Promise<void>;
+  deleteBalanceSnapshots(accountKey: string, timestamps: number[]): Promise<void>;
 }
\ No newline at end of file
@@ -0,0 +1,89 @@
+// Token Registry Service - custom Rholang tokens configured per network
+import { CustomToken } from 'types/wallet';
+import { isRegistryUri } from './registry';
+import { MAX_TOKEN_DECIMALS } from './tokens';
+
+export type NewCustomToken = Omit<CustomToken, 'id'>;
+
+const SYMBOL_PATTERN = /^[A-Za-z0-9]{1,12}$/;
+
+class TokenRegistryService {
+  private static readonly STORAGE_KEY = 'asi_wallet_custom_tokens';
+
+  static getAll(networkId: string): CustomToken[] {
+    return this.load().filter(token => token.networkId === networkId);
+  }
+
+  static get(networkId: string, tokenId: string): CustomToken | undefined {
+    return this.getAll(networkId).find(token => token.id === tokenId);
+  }
+
+  // Normalizes a token definition; throws with a user-facing message
+  static validate(input: NewCustomToken): NewCustomToken {
+    const token: NewCustomToken = {
+      ...input,
+      name: input.name.trim(),
+      symbol: input.symbol.trim().toUpperCase(),
+      registryUri: input.registryUri.trim(),
+    };
+
+    if (!token.name) {
+      throw new Error('Token name is required');
+    }
+    if (!SYMBOL_PATTERN.test(token.symbol)) {
+      throw new Error('Symbol must be 1-12 letters or digits');
+    }
+    if (
+      !Number.isInteger(token.decimals) ||
+      token.decimals < 0 ||
+      token.decimals > MAX_TOKEN_DECIMALS
+    ) {
+      throw new Error(`Decimals must be a whole number from 0 to ${MAX_TOKEN_DECIMALS}`);
+    }
+    if (!isRegistryUri(token.registryUri)) {
+      throw new Error('Registry URI must be a rho:id: URI');
+    }
+
+    const existing = this.getAll(token.networkId);
+    if (existing.some(other => other.symbol === token.symbol)) {
+      throw new Error(`A token with symbol ${token.symbol} is already configured`);
+    }
+    if (existing.some(other => other.registryUri === token.registryUri)) {
+      throw new Error('This registry URI is already configured');
+    }
+    return token;
+  }
+
+  static add(input: NewCustomToken): CustomToken {
+    const token: CustomToken = {
+      ...this.validate(input),
+      id: `${input.networkId}:${Date.now()}`,
+    };
+    this.persist([...this.load(), token]);
+    return token;
+  }
+
+  static remove(tokenId: string): void {
+    this.persist(this.load().filter(token => token.id !== tokenId));
+  }
+
+  private static load(): CustomToken[] {
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('[Token Registry] Error loading tokens:', error);
+      return [];
+    }
+  }
+
+  private static persist(tokens: CustomToken[]): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(tokens));
+    } catch (error) {
+      console.error('[Token Registry] Error saving tokens:', error);
+    }
+  }
+}
+
+export default TokenRegistryService;
@@ -1,4 +1,5 @@
 import { ethers } from 'ethers';
+import { FiatCurrency, PriceFeedService } from './priceFeed';
 
 export interface SwapToken {
   address: string;
@@ -67,10 +68,13 @@ export interface DEXInfo {
 }
 
 export interface PriceData {
+  // In the fiat currency chosen in Settings
   price: number;
-  priceChange24h: number;
-  volume24h: number;
-  marketCap: number;
+  currency: FiatCurrency;
+  // Only set by sources that track market stats
+  priceChange24h?: number;
+  volume24h?: number;
+  marketCap?: number;
   lastUpdated: Date;
 }
 
@@ -275,9 +279,13 @@ export class TokenSwapService {
     const prices = new Map<string, PriceData>();
     
     for (const address of tokenAddresses) {
-      // Check cache first
+      // Check cache first; a change of currency in Settings invalidates it
       const cached = this.priceCache.get(address);
-      if (cached && Date.now() - cached.lastUpdated.getTime() < this.cacheExpiry) {
+      if (
+        cached &&
+        cached.currency === PriceFeedService.getConfig().currency &&
+        Date.now() - cached.lastUpdated.getTime() < this.cacheExpiry
+      ) {
         prices.set(address, cached);
         continue;
       }
@@ -589,14 +597,25 @@ export class TokenSwapService {
     return quote.toAmount;
   }
 
-  private async fetchTokenPrice(_address: string): Promise<PriceData> {
-    // Mock price data - in production, integrate with price API
+  // Only the native token has a price feed; market stats are not tracked
+  private async fetchTokenPrice(address: string): Promise<PriceData> {
+    const token = this.tokenList.find(t => t.address === address);
+    if (token?.symbol !== 'ASI') {
+      throw new Error(`No price feed for ${token?.symbol ?? address}`);
+    }
+    const { currency } = PriceFeedService.getConfig();
+    if (!currency) {
+      throw new Error('Fiat prices are turned off in Settings');
+    }
+
+    const quote = await PriceFeedService.getPrice(currency);
+    if (!quote) {
+      throw new Error('Price feed unavailable');
+    }
     return {
-      price: Math.random() * 1000,
-      priceChange24h: (Math.random() - 0.5) * 20,
-      volume24h: Math.random() * 1000000,
-      marketCap: Math.random() * 1000000000,
-      lastUpdated: new Date()
+      price: quote.price,
+      currency: quote.currency,
+      lastUpdated: new Date(quote.timestamp)
     };
   }
 
@@ -0,0 +1,25 @@
+import { TokenError, formatTokenAmount, parseTokenAmount } from "./tokens";
+
+describe("parseTokenAmount", () => {
+    it("converts a decimal amount to smallest units", () => {
+        expect(parseTokenAmount("1.5", 18).toString()).toBe(
+            "1500000000000000000",
+        );
+        expect(formatTokenAmount(BigInt("1500000000000000000"), 18)).toBe(
+            "1.5",
+        );
+    });
+
+    it("rejects more precision than the token has", () => {
+        expect(() => parseTokenAmount("0.001", 2)).toThrow(TokenError);
+    });
+
+    it("rejects amounts beyond a 64-bit Rholang integer", () => {
+        expect(parseTokenAmount("9.223372036854775807", 18).toString()).toBe(
+            "9223372036854775807",
+        );
+        expect(() => parseTokenAmount("9.3", 18)).toThrow(
+            "Amount is too large: at most 9.223372036854775807 can be sent in one transfer",
+        );
+    });
+});
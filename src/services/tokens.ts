@@ -0,0 +1,174 @@
+/**
+ * Custom Rholang tokens. A token is a contract inserted into the registry
+ * with `insertArbitrary` that answers the balanceOf-style interface:
+ *
+ *   @Token!("balanceOf", address, *ret)                 -> Int
+ *   @Token!("transfer", *deployerId, to, amount, *ret)  -> (true, _) | (false, reason)
+ *
+ * Amounts on chain are integers in the token's smallest unit, i.e. the
+ * displayed amount times 10^decimals.
+ */
+import { RChainService } from "services/rchain";
+import { CustomToken } from "types/wallet";
+import { decodeRhoExprs } from "utils/rhoExpr";
+import {
+    RHO_INT_MAX,
+    rhoAddress,
+    rhoInt,
+    rhoList,
+    rholang,
+    rhoUri,
+} from "utils/rholang";
+
+export const MAX_TOKEN_DECIMALS = 18;
+
+export interface TokenBalance {
+    token: CustomToken;
+    // Smallest-unit balance; undefined until loaded
+    balance?: string;
+}
+
+export class TokenError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "TokenError";
+    }
+}
+
+const pow10 = (exponent: number): bigint => BigInt(`1${"0".repeat(exponent)}`);
+
+// Decimal string to smallest units, rejecting more precision than the token
+// has and more units than a 64-bit Rholang integer holds
+export const parseTokenAmount = (value: string, decimals: number): bigint => {
+    const match = /^(\d*)(?:\.(\d*))?$/.exec(value.trim());
+    if (!match || (!match[1] && !match[2])) {
+        throw new TokenError("Enter a valid amount");
+    }
+    const [, whole, fraction = ""] = match;
+    if (fraction.length > decimals) {
+        throw new TokenError(
+            `Enter a number with at most ${decimals} decimal places`,
+        );
+    }
+    const units =
+        BigInt(whole || "0") * pow10(decimals) +
+        BigInt(fraction.padEnd(decimals, "0") || "0");
+    if (units > RHO_INT_MAX) {
+        throw new TokenError(
+            `Amount is too large: at most ${formatTokenAmount(RHO_INT_MAX, decimals)} can be sent in one transfer`,
+        );
+    }
+    return units;
+};
+
+export const formatTokenAmount = (
+    units: bigint | string,
+    decimals: number,
+): string => {
+    const value = typeof units === "bigint" ? units : BigInt(units);
+    const negative = value < BigInt(0);
+    const digits = (negative ? -value : value)
+        .toString()
+        .padStart(decimals + 1, "0");
+    const whole = digits.slice(0, digits.length - decimals);
+    const fraction = digits.slice(digits.length - decimals).replace(/0+$/, "");
+    return `${negative ? "-" : ""}${whole}${fraction ? `.${fraction}` : ""}`;
+};
+
+export const buildTokenBalancesTerm = (
+    token: CustomToken,
+    addresses: string[],
+): string => rholang`
+      new return, rl(\`rho:registry:lookup\`), tokenCh, loop in {
+        rl!(${rhoUri(token.registryUri)}, *tokenCh) |
+        for (@Token <- tokenCh) {
+          contract loop(@remaining, @acc) = {
+            match remaining {
+              [] => return!(acc)
+              [address ...rest] => {
+                new balanceCh in {
+                  @Token!("balanceOf", address, *balanceCh) |
+                  for (@balance <- balanceCh) {
+                    loop!(rest, acc ++ [(address, balance)])
+                  }
+                }
+              }
+            }
+          } |
+          loop!(${rhoList(addresses.map(rhoAddress))}, [])
+        }
+      }
+    `;
+
+// Balances of several addresses in one explore-deploy; address -> smallest units
+export const fetchTokenBalances = async (
+    rchain: RChainService,
+    token: CustomToken,
+    addresses: string[],
+): Promise<Record<string, string>> => {
+    if (addresses.length === 0) {
+        return {};
+    }
+
+    const [value] = decodeRhoExprs(
+        await rchain.exploreDeployData(
+            buildTokenBalancesTerm(token, addresses),
+        ),
+    );
+    if (value?.type !== "list") {
+        throw new TokenError(
+            `${token.symbol} at ${token.registryUri} returned ${value?.type ?? "nothing"} instead of balances`,
+        );
+    }
+
+    const balances: Record<string, string> = {};
+    value.value.forEach((entry) => {
+        if (entry.type !== "tuple" || entry.value.length !== 2) {
+            return;
+        }
+        const [address, balance] = entry.value;
+        if (address.type !== "string") {
+            return;
+        }
+        if (balance.type === "int") {
+            balances[address.value] = balance.value.toString();
+        } else {
+            console.warn(
+                `[Tokens] ${token.symbol} balanceOf ${address.value} returned ${balance.type}`,
+            );
+            balances[address.value] = "0";
+        }
+    });
+    return balances;
+};
+
+// Transfer signed by the sender; the outcome goes to the deployId channel
+export const buildTokenTransferTerm = (
+    token: CustomToken,
+    toAddress: string,
+    units: bigint,
+): string => {
+    if (units <= BigInt(0)) {
+        throw new TokenError("Amount must be greater than zero");
+    }
+    return rholang`
+      new
+        deployId(\`rho:rchain:deployId\`),
+        deployerId(\`rho:rchain:deployerId\`),
+        rl(\`rho:registry:lookup\`),
+        tokenCh,
+        resultCh
+      in {
+        rl!(${rhoUri(token.registryUri)}, *tokenCh) |
+        for (@Token <- tokenCh) {
+          @Token!("transfer", *deployerId, ${rhoAddress(toAddress)}, ${rhoInt(units)}, *resultCh) |
+          for (@result <- resultCh) {
+            match result {
+              (true, _) => deployId!((true, Nil))
+              (false, reason) => deployId!((false, reason))
+            }
+          }
+        }
+      }
+    `;
+};
@@ -1,6 +1,8 @@
 
-import { utils } from 'ethers';
-import { generateRandomGasFee } from '../constants/gas';
+import { Amount } from 'utils/amount';
+import { DeployLifecycle } from 'types/wallet';
+import DeployLifecycleService from './deployLifecycle';
+import { FiatCurrency, PriceFeedService, PriceQuote } from './priceFeed';
 
 export interface Transaction {
   id: string;
@@ -13,6 +15,7 @@ export interface Transaction {
   blockHash?: string;
   gasCost?: string;
   status: 'pending' | 'confirmed' | 'failed';
+  lifecycle?: DeployLifecycle;
   contractCode?: string;
   note?: string;
   network: string;
@@ -29,7 +32,12 @@ export interface TransactionFilter {
   network?: string;
 }
 
+// A receive seen only as a balance increase is shown until the indexer lists it
+const DETECTED_RECEIVE_TTL_MS = 60 * 60 * 1000;
+
 class TransactionHistoryService {
+  private static detectedReceives: Transaction[] = [];
+
   static async getTransactions(
     address: string,
     publicKey: string,
@@ -68,7 +76,7 @@ class TransactionHistoryService {
                 amount: undefined,
                 timestamp: new Date(p.timestamp),
                 status: 'pending',
-                gasCost: generateRandomGasFee(),
+                lifecycle: DeployLifecycleService.get(p.deployId),
                 type: 'deploy',
                 network,
                 detectedBy: 'manual'
@@ -86,7 +94,7 @@ class TransactionHistoryService {
               amount: p.amount,
               timestamp: new Date(p.timestamp),
               status: 'pending',
-              gasCost: generateRandomGasFee(),
+              lifecycle: DeployLifecycleService.get(p.deployId),
               type,
               network,
               detectedBy: 'manual'
@@ -95,6 +103,8 @@ class TransactionHistoryService {
         }
       } catch {}
 
+      transactions.push(...this.getDetectedReceives(address, network));
+
       if (!graphqlUrl || !graphqlUrl.trim()) {
         return transactions;
       }
@@ -132,8 +142,9 @@ class TransactionHistoryService {
           amount: bcTx.amount,
           deployId: bcTx.deployId,
           blockHash: bcTx.blockHash,
-          gasCost: generateRandomGasFee(),
+          gasCost: bcTx.gasCost,
           status: bcTx.status,
+          lifecycle: bcTx.deployId ? DeployLifecycleService.get(bcTx.deployId) : undefined,
           network: network,
           detectedBy: 'auto'
         };
@@ -141,10 +152,17 @@ class TransactionHistoryService {
         transactions.push(transaction);
       }
 
+      const stillDetected = this.pruneDetectedReceives(
+        transactions.filter(t => t.type === 'receive' && t.detectedBy === 'auto')
+      );
+      const current = transactions.filter(
+        t => t.detectedBy !== 'balance_change' || stillDetected.includes(t)
+      );
+
       try {
         const knownIds = new Set(blockchainTxs.map((t: any) => t.deployId));
-        const pendingOnly = transactions.filter(t => t.status === 'pending' && !knownIds.has(t.deployId));
-        const confirmed = transactions.filter(t => t.status !== 'pending');
+        const pendingOnly = current.filter(t => t.status === 'pending' && !knownIds.has(t.deployId));
+        const confirmed = current.filter(t => t.status !== 'pending');
         if (typeof window !== 'undefined' && window.localStorage) {
           const raw = localStorage.getItem('asi_wallet_pending_transactions');
           const pending: any[] = raw ? JSON.parse(raw) : [];
@@ -156,7 +174,7 @@ class TransactionHistoryService {
         return [...pendingOnly, ...confirmed];
       } catch {}
 
-      return transactions;
+      return current;
     } catch (error: any) {
       return [];
     }
@@ -207,6 +225,10 @@ class TransactionHistoryService {
       totalGas: '0'
     };
 
+    let totalSent = Amount.zero;
+    let totalReceived = Amount.zero;
+    let totalGas = Amount.zero;
+
     transactions.forEach(tx => {
       if (tx.type === 'send') stats.sent++;
       else if (tx.type === 'receive') stats.received++;
@@ -218,19 +240,21 @@ class TransactionHistoryService {
 
       if (tx.status === 'confirmed' && tx.amount) {
         if (tx.type === 'send') {
-          stats.totalSent = (BigInt(stats.totalSent) + BigInt(tx.amount)).toString();
+          totalSent = totalSent.add(tx.amount);
         } else if (tx.type === 'receive') {
-          const txAmount = utils.parseEther(tx.amount);
-          const totalAmount = utils.parseEther(stats.totalReceived);
-          stats.totalReceived = (txAmount.add(totalAmount)).toString();
+          totalReceived = totalReceived.add(tx.amount);
         }
       }
 
       if (tx.gasCost) {
-        stats.totalGas = (BigInt(stats.totalGas) + BigInt(tx.gasCost)).toString();
+        totalGas = totalGas.add(tx.gasCost);
       }
     });
 
+    stats.totalSent = totalSent.toString();
+    stats.totalReceived = totalReceived.toString();
+    stats.totalGas = totalGas.toString();
+
     return stats;
   }
 
@@ -242,9 +266,38 @@ class TransactionHistoryService {
     graphqlUrl: string
   ): Promise<string> {
     const transactions = await this.getTransactions(address, publicKey, network, graphqlUrl);
+    const currency = PriceFeedService.getConfig().currency;
+    const prices = currency
+      ? await this.getHistoricalPrices(transactions, currency)
+      : null;
+    const fiatValue = (tx: Transaction, quote: PriceQuote | null | undefined) =>
+      quote && tx.amount
+        ? (Amount.from(tx.amount).toNumber() * quote.price).toFixed(2)
+        : '';
     
     if (format === 'json') {
-      return JSON.stringify(transactions, null, 2);
+      if (!currency || !prices) {
+        return JSON.stringify(transactions, null, 2);
+      }
+      return JSON.stringify(
+        transactions.map(tx => {
+          const quote = prices.get(tx.id);
+          return {
+            ...tx,
+            fiat: quote
+              ? {
+                  currency,
+                  price: quote.price,
+                  value: fiatValue(tx, quote) || null,
+                  priceTimestamp: new Date(quote.timestamp),
+                  source: quote.source
+                }
+              : null
+          };
+        }),
+        null,
+        2
+      );
     }
     
     const headers = [
@@ -259,7 +312,8 @@ class TransactionHistoryService {
       'Deploy ID',
       'Block Hash',
       'Network',
-      'Note'
+      'Note',
+      ...(currency ? [`Price (${currency})`, `Value (${currency})`] : [])
     ];
     
     const rows = transactions.map(tx => {
@@ -276,13 +330,35 @@ class TransactionHistoryService {
         tx.deployId || '',
         tx.blockHash || '',
         tx.network,
-        tx.note || ''
+        tx.note || '',
+        ...(currency && prices
+          ? [prices.get(tx.id)?.price ?? '', fiatValue(tx, prices.get(tx.id))]
+          : [])
       ].map(val => `"${val}"`).join(',');
     });
     
     return [headers.join(','), ...rows].join('\n');
   }
 
+  // Price on each transaction's day; one request per day thanks to the daily cache
+  // Daily prices, so each distinct UTC day is looked up once
+  private static async getHistoricalPrices(
+    transactions: Transaction[],
+    currency: FiatCurrency
+  ): Promise<Map<string, PriceQuote | null>> {
+    const byDay = new Map<string, PriceQuote | null>();
+    const prices = new Map<string, PriceQuote | null>();
+    for (const tx of transactions) {
+      const timestamp = new Date(tx.timestamp).getTime();
+      const day = isNaN(timestamp) ? '' : new Date(timestamp).toISOString().slice(0, 10);
+      if (!byDay.has(day)) {
+        byDay.set(day, await PriceFeedService.getHistoricalPrice(currency, timestamp));
+      }
+      prices.set(tx.id, byDay.get(day)!);
+    }
+    return prices;
+  }
+
   static async downloadTransactions(
     format: 'json' | 'csv' = 'json',
     address: string,
@@ -310,14 +386,13 @@ class TransactionHistoryService {
     newBalance: string,
     network: string
   ): Transaction | null {
-    const prevBalanceNum = BigInt(previousBalance);
-    const newBalanceNum = BigInt(newBalance);
+    const received = Amount.from(newBalance).subtract(previousBalance);
     
-    if (newBalanceNum <= prevBalanceNum) {
+    if (!received.isPositive()) {
       return null;
     }
     
-    const amount = (newBalanceNum - prevBalanceNum).toString();
+    const amount = received.toString();
     
     const transaction: Transaction = {
       id: `temp_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
@@ -332,9 +407,37 @@ class TransactionHistoryService {
       note: 'Detected from balance increase (temporary)'
     };
     
+    this.detectedReceives.push(transaction);
     return transaction;
   }
 
+  private static getDetectedReceives(address: string, network: string): Transaction[] {
+    const cutoff = Date.now() - DETECTED_RECEIVE_TTL_MS;
+    this.detectedReceives = this.detectedReceives.filter(t => t.timestamp.getTime() > cutoff);
+    const normalizedAddress = address.toLowerCase().trim();
+    return this.detectedReceives.filter(
+      t => t.network === network && t.to?.toLowerCase().trim() === normalizedAddress
+    );
+  }
+
+  // Drops detected receives the indexer now lists with the same amount around that time; returns the rest
+  private static pruneDetectedReceives(indexedReceives: Transaction[]): Transaction[] {
+    const unmatched = [...indexedReceives];
+    this.detectedReceives = this.detectedReceives.filter(detected => {
+      const match = unmatched.findIndex(
+        t =>
+          t.to?.toLowerCase().trim() === detected.to?.toLowerCase().trim() &&
+          t.timestamp.getTime() > detected.timestamp.getTime() - DETECTED_RECEIVE_TTL_MS &&
+          !!t.amount &&
+          Amount.from(t.amount).eq(detected.amount!)
+      );
+      if (match === -1) return true;
+      unmatched.splice(match, 1);
+      return false;
+    });
+    return this.detectedReceives;
+  }
+
   static async syncFromBlockchain(
     address: string,
     publicKey: string,
@@ -1,8 +1,10 @@
 // Centralized Polling Service for Transaction Status Updates
 import { store } from '../store';
-import { fetchBalance } from '../store/walletSlice';
+import { fetchBalance, updateTransactionStatus } from '../store/walletSlice';
 import { RChainService } from './rchain';
 import TransactionHistoryService from './transactionHistory';
+import DeployLifecycleService from './deployLifecycle';
+import { Amount } from 'utils/amount';
 
 class TransactionPollingService {
   private static isPolling = false;
@@ -121,7 +123,7 @@ class TransactionPollingService {
         if (fetchBalance.fulfilled.match(balanceResult)) {
           const newBalance = balanceResult.payload.balance;
           
-          if (parseFloat(newBalance) > parseFloat(oldBalance)) {
+          if (Amount.from(newBalance).gt(oldBalance)) {
             console.info(`[Transaction Polling] Balance increased for ${account.name}, checking for received transactions...`);
             try {
               TransactionHistoryService.detectReceivedTransaction(
@@ -150,12 +152,9 @@ class TransactionPollingService {
   private static async checkPendingDeploys(network: any): Promise<void> {
     try {
       const pendingTxsJson = localStorage.getItem('asi_wallet_pending_transactions');
-      if (!pendingTxsJson) {
-        return;
-      }
-
-      const pendingTxs = JSON.parse(pendingTxsJson);
-      if (!Array.isArray(pendingTxs) || pendingTxs.length === 0) {
+      const parsedTxs = pendingTxsJson ? JSON.parse(pendingTxsJson) : [];
+      const pendingTxs: any[] = Array.isArray(parsedTxs) ? parsedTxs : [];
+      if (pendingTxs.length === 0 && DeployLifecycleService.getActive(network.id).length === 0) {
         return;
       }
 
@@ -165,10 +164,12 @@ class TransactionPollingService {
         network.readOnlyUrl,
         network.adminUrl,
         network.shardId,
-        network.graphqlUrl
+        network.graphqlUrl,
+        network
       );
 
       const updatedTxs: any[] = [];
+      const refreshedIds = new Set<string>();
       let hasUpdates = false;
       const MAX_PENDING_AGE_HOURS = 24;
       const now = Date.now();
@@ -189,14 +190,29 @@ class TransactionPollingService {
         }
 
         try {
-          const result = await rchain.waitForDeployResult(tx.deployId, 1);
-          
-          if (result.status === 'completed') {
-            console.info(`[Transaction Polling] ✅ Deploy ${tx.deployId} completed!`);
+          const lifecycle = await DeployLifecycleService.refresh(tx.deployId, rchain);
+          refreshedIds.add(tx.deployId);
+
+          if (lifecycle.state === 'included' || lifecycle.state === 'finalized') {
+            console.info(`[Transaction Polling] ✅ Deploy ${tx.deployId} ${lifecycle.state} in block ${lifecycle.blockNumber ?? lifecycle.blockHash ?? '?'}`);
+            store.dispatch(updateTransactionStatus({
+              deployId: tx.deployId,
+              status: 'completed',
+              lifecycle: lifecycle.state,
+              blockNumber: lifecycle.blockNumber,
+              gasCost: lifecycle.cost,
+            }));
             hasUpdates = true;
             continue;
-          } else if (result.status === 'errored') {
-            console.error(`[Transaction Polling] ❌ Deploy ${tx.deployId} errored: ${result.error}`);
+          } else if (lifecycle.state === 'errored' || lifecycle.state === 'expired') {
+            console.error(`[Transaction Polling] ❌ Deploy ${tx.deployId} ${lifecycle.state}: ${lifecycle.error}`);
+            store.dispatch(updateTransactionStatus({
+              deployId: tx.deployId,
+              status: 'failed',
+              lifecycle: lifecycle.state,
+              error: lifecycle.error,
+              gasCost: lifecycle.cost,
+            }));
             hasUpdates = true;
             continue;
           } else {
@@ -208,6 +224,29 @@ class TransactionPollingService {
         }
       }
 
+      // Deploys leave the pending list once included, but are followed until finalized
+      for (const lifecycle of DeployLifecycleService.getActive(network.id)) {
+        if (refreshedIds.has(lifecycle.deployId)) {
+          continue;
+        }
+        try {
+          const updated = await DeployLifecycleService.refresh(lifecycle.deployId, rchain);
+          if (updated.state !== lifecycle.state) {
+            console.info(`[Transaction Polling] Deploy ${lifecycle.deployId} is now ${updated.state}`);
+            store.dispatch(updateTransactionStatus({
+              deployId: lifecycle.deployId,
+              status: updated.state === 'errored' || updated.state === 'expired' ? 'failed' : 'completed',
+              lifecycle: updated.state,
+              blockNumber: updated.blockNumber,
+              error: updated.error,
+              gasCost: updated.cost,
+            }));
+          }
+        } catch (error: any) {
+          console.warn(`[Transaction Polling] Error checking deploy ${lifecycle.deployId}:`, error.message);
+        }
+      }
+
       if (hasUpdates) {
         localStorage.setItem('asi_wallet_pending_transactions', JSON.stringify(updatedTxs));
         console.info(`[Transaction Polling] Updated pending transactions. Remaining: ${updatedTxs.length}`);
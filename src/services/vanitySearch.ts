@@ -0,0 +1,110 @@
+/**
+ * Runs a vanity address search across a pool of Web Workers and merges their
+ * progress. The first match stops every worker; so does cancel().
+ */
+import { KeyPair } from "utils/crypto";
+import { VanityCriteria } from "utils/vanityAddress";
+import type {
+    VanityWorkerMessage,
+    VanityWorkerRequest,
+} from "./vanitySearch.worker";
+
+export interface VanitySearchProgress {
+    attempts: number;
+    attemptsPerSecond: number;
+    elapsedMs: number;
+}
+
+export interface VanitySearchCallbacks {
+    onProgress: (progress: VanitySearchProgress) => void;
+    onFound: (keyPair: KeyPair, progress: VanitySearchProgress) => void;
+    onError: (message: string) => void;
+}
+
+const PROGRESS_INTERVAL_MS = 500;
+
+// Leaves one core for the page itself
+export const defaultVanityWorkerCount = (): number =>
+    Math.max(1, Math.min((navigator.hardwareConcurrency || 2) - 1, 8));
+
+export class VanitySearch {
+    private workers: Worker[] = [];
+    private attempts = 0;
+    private startedAt = 0;
+    private lastReportAt = 0;
+
+    constructor(
+        private readonly criteria: VanityCriteria,
+        private readonly callbacks: VanitySearchCallbacks,
+        private readonly workerCount = defaultVanityWorkerCount(),
+    ) {}
+
+    get isRunning(): boolean {
+        return this.workers.length > 0;
+    }
+
+    start(): void {
+        if (this.isRunning) return;
+        this.attempts = 0;
+        this.startedAt = Date.now();
+        this.lastReportAt = this.startedAt;
+
+        for (let i = 0; i < this.workerCount; i++) {
+            const worker = new Worker(
+                new URL("./vanitySearch.worker.ts", import.meta.url),
+            );
+            worker.onmessage = (event: MessageEvent<VanityWorkerMessage>) =>
+                this.handleMessage(event.data);
+            worker.onerror = (event) => {
+                this.cancel();
+                this.callbacks.onError(
+                    event.message || "Vanity search worker failed",
+                );
+            };
+            const request: VanityWorkerRequest = { criteria: this.criteria };
+            worker.postMessage(request);
+            this.workers.push(worker);
+        }
+    }
+
+    cancel(): void {
+        this.workers.forEach((worker) => worker.terminate());
+        this.workers = [];
+    }
+
+    private handleMessage(message: VanityWorkerMessage): void {
+        // Messages already queued when the search stopped
+        if (!this.isRunning) return;
+
+        switch (message.type) {
+            case "progress": {
+                this.attempts += message.attempts;
+                const now = Date.now();
+                if (now - this.lastReportAt >= PROGRESS_INTERVAL_MS) {
+                    this.lastReportAt = now;
+                    this.callbacks.onProgress(this.progress());
+                }
+                break;
+            }
+            case "found":
+                this.attempts += message.attempts;
+                this.cancel();
+                this.callbacks.onFound(message.keyPair, this.progress());
+                break;
+            case "error":
+                this.cancel();
+                this.callbacks.onError(message.message);
+                break;
+        }
+    }
+
+    private progress(): VanitySearchProgress {
+        const elapsedMs = Date.now() - this.startedAt;
+        return {
+            attempts: this.attempts,
+            attemptsPerSecond:
+                elapsedMs > 0 ? (this.attempts * 1000) / elapsedMs : 0,
+            elapsedMs,
+        };
+    }
+}
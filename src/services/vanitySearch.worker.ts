@@ -0,0 +1,49 @@
+/**
+ * One vanity search thread. Generates keys until one matches, reporting how
+ * many it has tried after every batch. The pool stops it by terminating the
+ * worker, so the loop never has to yield.
+ */
+import { generateKeyPair, KeyPair } from "utils/crypto";
+import { matchesVanity, VanityCriteria } from "utils/vanityAddress";
+
+export interface VanityWorkerRequest {
+    criteria: VanityCriteria;
+}
+
+export type VanityWorkerMessage =
+    | { type: "progress"; attempts: number }
+    | { type: "found"; attempts: number; keyPair: KeyPair }
+    | { type: "error"; message: string };
+
+const BATCH_SIZE = 100;
+
+// `self` is typed as Window under the DOM lib
+const scope = globalThis as unknown as {
+    onmessage: ((event: MessageEvent<VanityWorkerRequest>) => void) | null;
+    postMessage: (message: VanityWorkerMessage) => void;
+};
+
+const search = (criteria: VanityCriteria): void => {
+    for (;;) {
+        for (let attempts = 1; attempts <= BATCH_SIZE; attempts++) {
+            const keyPair = generateKeyPair();
+            if (matchesVanity(keyPair, criteria)) {
+                scope.postMessage({ type: "found", attempts, keyPair });
+                return;
+            }
+        }
+        scope.postMessage({ type: "progress", attempts: BATCH_SIZE });
+    }
+};
+
+scope.onmessage = (event) => {
+    try {
+        search(event.data.criteria);
+    } catch (error) {
+        scope.postMessage({
+            type: "error",
+            message:
+                error instanceof Error ? error.message : "Vanity search failed",
+        });
+    }
+};
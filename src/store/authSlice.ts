@@ -7,6 +7,7 @@ import {
     importEthAddress,
     importRevAddress,
 } from "utils/crypto";
+import { DerivedKeyPair, SeedVault } from "services/hdWallet";
 import { withLoginLock } from "services/loginLock";
 import {
     broadcastSessionLogin,
@@ -197,6 +198,7 @@ export const importAccountWithPassword = createAsyncThunk(
             publicKey: accountData.publicKey || "",
             privateKey: accountData.privateKey,
             balance: "0",
+            ...(accountData.privateKey ? {} : { isWatchOnly: true }),
             ...(selectedNetworkId ? { networkId: selectedNetworkId } : {}),
             createdAt: new Date(),
         };
@@ -208,8 +210,72 @@ export const importAccountWithPassword = createAsyncThunk(
         if (account.privateKey) {
             await SecureStorage.saveAccount(account, password, userId, name);
             await SecureStorage.unlockAccount(account.id, password, userId);
+        } else {
+            await SecureStorage.saveWatchOnlyAccount(
+                account,
+                SecureStorage.getCurrentUserId() ?? userId,
+            );
+        }
+
+        if (!hadAccountsBefore) {
+            SecureStorage.setAuthenticated(true);
         }
 
+        SecureStorage.setCurrentUserId(userId);
+        const sessionToken = SecureStorage.generateSessionToken();
+        SecureStorage.setSessionToken(sessionToken);
+        broadcastSessionLogin(sessionToken);
+
+        return { account, isFirstAccount: !hadAccountsBefore };
+    },
+);
+
+type CreateSeedAccountPayload = CreateAccountPayload & {
+    // New or imported recovery phrase to store first; omit to use the stored one
+    mnemonic?: string;
+};
+
+// Derives the next BIP44 account from the wallet's recovery phrase
+export const createSeedAccount = createAsyncThunk(
+    "auth/createSeedAccount",
+    async (
+        { name, password, networkId, mnemonic }: CreateSeedAccountPayload,
+        { getState },
+    ) => {
+        const state = getState() as { wallet: { selectedNetwork?: Network } };
+        const selectedNetworkId =
+            networkId || state.wallet?.selectedNetwork?.id;
+
+        const userId = SecureStorage.generateUserIdFromPassword(password, name);
+        const hadAccountsBefore = SecureStorage.hasAccounts(userId);
+        // The phrase belongs to the signed-in user, or to this account's user on first setup
+        const seedUserId = SecureStorage.getCurrentUserId() ?? userId;
+
+        if (mnemonic) {
+            await SeedVault.storeSeed(seedUserId, mnemonic, password);
+        }
+        const toAccount = (keyPair: DerivedKeyPair): Account => ({
+            id: Date.now().toString(),
+            name,
+            address: keyPair.revAddress,
+            revAddress: keyPair.revAddress,
+            ethAddress: keyPair.ethAddress,
+            publicKey: keyPair.publicKey,
+            privateKey: keyPair.privateKey,
+            balance: "0",
+            derivationPath: keyPair.derivationPath,
+            ...(selectedNetworkId ? { networkId: selectedNetworkId } : {}),
+            createdAt: new Date(),
+        });
+        const account = toAccount(
+            await SeedVault.deriveNext(seedUserId, password, (keyPair) =>
+                checkAccountExists(toAccount(keyPair)),
+            ),
+        );
+
+        await SecureStorage.saveAccount(account, password, userId, name);
+        await SecureStorage.unlockAccount(account.id, password, userId);
+
         if (!hadAccountsBefore) {
             SecureStorage.setAuthenticated(true);
         }
@@ -664,13 +730,33 @@ const authSlice = createSlice({
                 if (action.payload.isFirstAccount) {
                     state.isAuthenticated = true;
                 }
-                state.unlockedAccounts.push(action.payload.account);
+                // Watch-only accounts have no key to unlock
+                if (!action.payload.account.isWatchOnly) {
+                    state.unlockedAccounts.push(action.payload.account);
+                }
             })
             .addCase(importAccountWithPassword.rejected, (state, action) => {
                 state.isLoading = false;
                 state.error =
                     action.error.message || "Failed to import account";
             })
+            .addCase(createSeedAccount.pending, (state) => {
+                state.isLoading = true;
+                state.error = null;
+            })
+            .addCase(createSeedAccount.fulfilled, (state, action) => {
+                state.isLoading = false;
+                state.hasAccounts = true;
+                if (action.payload.isFirstAccount) {
+                    state.isAuthenticated = true;
+                }
+                state.unlockedAccounts.push(action.payload.account);
+            })
+            .addCase(createSeedAccount.rejected, (state, action) => {
+                state.isLoading = false;
+                state.error =
+                    action.error.message || "Failed to create account";
+            })
             .addCase(importFromKeyfile.pending, (state) => {
                 state.isLoading = true;
                 state.error = null;
@@ -7,7 +7,12 @@ import {
     MultisigBalance,
     DeployMultisigRequest,
 } from "../types/multisig";
+import { Account } from "../types/wallet";
 import { multisigWalletService } from "../services/multisigWallet";
+import {
+    WATCH_ONLY_SIGNING_ERROR,
+    isWatchOnlyAccount,
+} from "../utils/watchOnly";
 
 export interface MultisigState {
     wallets: MultisigWalletConfig[];
@@ -39,6 +44,13 @@ const initialState: MultisigState = {
     lastUpdated: null,
 };
 
+// Watch-only accounts cannot deploy, sign or execute on behalf of a wallet
+const isSelectedAccountWatchOnly = (state: unknown): boolean =>
+    isWatchOnlyAccount(
+        (state as { wallet: { selectedAccount: Account | null } }).wallet
+            .selectedAccount,
+    );
+
 // Async thunks
 export const loadMultisigWallets = createAsyncThunk(
     "multisig/loadWallets",
@@ -80,8 +92,11 @@ export const deployMultisigWallet = createAsyncThunk(
             walletId,
             deployRequest,
         }: { walletId: string; deployRequest?: DeployMultisigRequest },
-        { rejectWithValue },
+        { getState, rejectWithValue },
     ) => {
+        if (isSelectedAccountWatchOnly(getState())) {
+            return rejectWithValue(WATCH_ONLY_SIGNING_ERROR);
+        }
         try {
             const contractAddress =
                 await multisigWalletService.deployMultisigWallet(
@@ -175,7 +190,10 @@ export const createMultisigTransaction = createAsyncThunk(
 
 export const signMultisigTransaction = createAsyncThunk(
     "multisig/signTransaction",
-    async (transactionId: string, { rejectWithValue }) => {
+    async (transactionId: string, { getState, rejectWithValue }) => {
+        if (isSelectedAccountWatchOnly(getState())) {
+            return rejectWithValue(WATCH_ONLY_SIGNING_ERROR);
+        }
         try {
             const signature =
                 await multisigWalletService.signTransaction(transactionId);
@@ -197,7 +215,10 @@ export const signMultisigTransaction = createAsyncThunk(
 
 export const executeMultisigTransaction = createAsyncThunk(
     "multisig/executeTransaction",
-    async (transactionId: string, { rejectWithValue }) => {
+    async (transactionId: string, { getState, rejectWithValue }) => {
+        if (isSelectedAccountWatchOnly(getState())) {
+            return rejectWithValue(WATCH_ONLY_SIGNING_ERROR);
+        }
         try {
             const txHash =
                 await multisigWalletService.executeTransaction(transactionId);
@@ -1,9 +1,26 @@
 import { createSlice, createAsyncThunk, PayloadAction } from "@reduxjs/toolkit";
-import { Account, Transaction, Network, WalletState } from "types/wallet";
+import {
+    Account,
+    CustomToken,
+    DeployLifecycleState,
+    Transaction,
+    Network,
+    WalletState,
+} from "types/wallet";
 import { AuthState, loginWithPassword } from "./authSlice";
 import { SecureStorage } from "services/secureStorage";
 import { RChainService } from "services/rchain";
-import { generateRandomGasFee, getGasFeeAsNumber } from "../constants/gas";
+import { buildTokenTransferTerm, parseTokenAmount } from "services/tokens";
+import {
+    BatchPaymentRow,
+    batchTotal,
+    buildBatchTransferTerm,
+} from "services/batchPayments";
+import { createSignedMessage } from "services/messageSigning";
+import { BalanceHistoryService } from "services/balanceHistory";
+import { getGasFeeAmount } from "../constants/gas";
+import { Amount } from "utils/amount";
+import { WATCH_ONLY_SIGNING_ERROR } from "utils/watchOnly";
 import { RootState } from "store";
 
 interface NetworkConfig {
@@ -11,8 +28,20 @@ interface NetworkConfig {
     ValidatorURL: string;
     ReadOnlyURL?: string;
     IndexerURL?: string;
+    ValidatorURLs?: string[];
+    ReadOnlyURLs?: string[];
+    ShardID?: string;
+    AdminURL?: string;
+    Devnet?: boolean;
 }
 
+const parseUrlList = (urls?: string[]): string[] | undefined => {
+    const list = (Array.isArray(urls) ? urls : [])
+        .map((url) => url?.trim())
+        .filter((url): url is string => !!url);
+    return list.length > 0 ? list : undefined;
+};
+
 const parseNetworksFromEnv = (): Network[] => {
     const networks: Network[] = [];
 
@@ -47,6 +76,7 @@ const parseNetworksFromEnv = (): Network[] => {
             }
 
             const graphqlUrl = networkConfig.IndexerURL?.trim() || undefined;
+            const adminUrl = networkConfig.AdminURL?.trim() || undefined;
 
             networks.push({
                 id,
@@ -54,7 +84,11 @@ const parseNetworksFromEnv = (): Network[] => {
                 url: validatorUrl,
                 readOnlyUrl: networkConfig.ReadOnlyURL?.trim() || undefined,
                 graphqlUrl,
-                shardId: "root",
+                shardId: networkConfig.ShardID?.trim() || "root",
+                adminUrl,
+                devnet: !!adminUrl && networkConfig.Devnet === true,
+                validatorUrls: parseUrlList(networkConfig.ValidatorURLs),
+                readOnlyUrls: parseUrlList(networkConfig.ReadOnlyURLs),
             });
         });
     } catch (error) {
@@ -101,6 +135,8 @@ const sanitizeAccounts = (
             balance: acc.balance,
             isMetamask: acc.isMetamask,
             networkId: acc.networkId,
+            derivationPath: acc.derivationPath,
+            isWatchOnly: acc.isWatchOnly,
             createdAt: acc.createdAt,
             privateKey: undefined,
         };
@@ -191,6 +227,7 @@ interface RChainTx {
     amount?: string;
     status: string;
     timestamp: string;
+    gasCost?: string;
     type: "send" | "receive" | "deploy";
 }
 
@@ -402,7 +439,7 @@ const createInitialState = (): WalletState => {
 const initialState: WalletState = createInitialState();
 
 const calculateBalanceWithPending = (
-    baseBalance: string,
+    baseBalance: Amount,
     accountId: string,
     revAddress: string,
     publicKey: string,
@@ -410,9 +447,8 @@ const calculateBalanceWithPending = (
     const pendingTxs = loadPendingTransactions();
     const normalizedRevAddress = revAddress?.toLowerCase().trim();
     const normalizedPublicKey = publicKey?.toLowerCase().trim();
-    const chainBalance = parseFloat(baseBalance || "0");
-
-    let balance = chainBalance;
+    let balance = baseBalance;
+    const gasFee = getGasFeeAmount();
 
     for (const tx of pendingTxs) {
         if (tx.accountId !== accountId) {
@@ -428,14 +464,12 @@ const calculateBalanceWithPending = (
             continue;
         }
 
-        const amount = tx.type === "send" ? parseFloat(tx.amount || "0") : 0;
-
-        const gasFee = getGasFeeAsNumber();
+        const amount = tx.type === "send" ? Amount.from(tx.amount) : Amount.zero;
 
-        balance -= amount + gasFee;
+        balance = balance.subtract(amount.add(gasFee));
     }
 
-    return Math.max(0, balance).toFixed(8);
+    return Amount.max(Amount.zero, balance).toFixed();
 };
 
 // const RECONCILE_STALE_MS = 5 * 60 * 1000;
@@ -494,6 +528,61 @@ const reconcilePendingForAccount = async (
     return removedAny;
 };
 
+// Apply locally pending transactions on top of a freshly fetched chain balance
+const resolveAccountBalance = async (
+    account: Account,
+    atomicBalance: string,
+    rchain: RChainService,
+): Promise<{ accountId: string; balance: string }> => {
+    const isPendingTransactionsExist = loadPendingTransactions().some(
+        (tx) => tx.accountId === account.id,
+    );
+
+    if (!isPendingTransactionsExist) {
+        const chainBalance = Amount.fromAtomic(atomicBalance);
+
+        return {
+            accountId: account.id,
+            balance: Amount.max(Amount.zero, chainBalance).toFixed(),
+        };
+    }
+
+    const removedPending = await reconcilePendingForAccount(account, rchain);
+
+    if (removedPending) {
+        atomicBalance = await rchain.getBalance(account.revAddress, true);
+    }
+
+    const balanceWithPending = calculateBalanceWithPending(
+        Amount.fromAtomic(atomicBalance),
+        account.id,
+        account.revAddress,
+        account.publicKey,
+    );
+
+    return { accountId: account.id, balance: balanceWithPending };
+};
+
+// Best effort: a failed history write must not fail the balance fetch.
+// History follows the chain, so pending sends are not subtracted, and an
+// address whose lookup failed gets no snapshot rather than a zero.
+const recordBalanceHistory = (
+    network: Network,
+    revAddresses: string[],
+    atomicBalances: Record<string, string>,
+): void => {
+    const balances = revAddresses
+        .filter((revAddress) => atomicBalances[revAddress] !== undefined)
+        .map((revAddress) => ({
+            revAddress,
+            balance: Amount.fromAtomic(atomicBalances[revAddress]).toFixed(),
+        }));
+    if (balances.length === 0) return;
+    BalanceHistoryService.record(network.id, balances).catch((error) =>
+        console.error("[BalanceHistory] Failed to record snapshots:", error),
+    );
+};
+
 export const fetchBalance = createAsyncThunk(
     "wallet/fetchBalance",
     async (
@@ -522,43 +611,80 @@ export const fetchBalance = createAsyncThunk(
             network.adminUrl,
             network.shardId,
             network.graphqlUrl,
+            network,
         );
-        let atomicBalance = await rchain.getBalance(
-            account.revAddress,
+        const balances = await rchain.getBalances(
+            [account.revAddress],
             forceRefresh,
         );
 
-        const isPendingTransactionsExist = loadPendingTransactions().some(
-            (tx) => tx.accountId === account.id,
+        const result = await resolveAccountBalance(
+            account,
+            balances[account.revAddress] ?? "0",
+            rchain,
         );
+        recordBalanceHistory(network, [account.revAddress], balances);
+        return result;
+    },
+);
 
-        if (!isPendingTransactionsExist) {
-            const chainBalance = parseInt(atomicBalance) / 100000000;
+// Fetch balances for several accounts with a single batched explore-deploy
+export const fetchBalances = createAsyncThunk(
+    "wallet/fetchBalances",
+    async (
+        {
+            accounts,
+            network,
+            forceRefresh = false,
+        }: { accounts: Account[]; network: Network; forceRefresh?: boolean },
+        { getState },
+    ) => {
+        const unchanged = accounts.map((account) => ({
+            accountId: account.id,
+            balance: account.balance ?? "0",
+        }));
 
-            return {
-                accountId: account.id,
-                balance: Math.max(0, chainBalance).toFixed(8),
-            };
+        const state = getState() as { auth: AuthState };
+        if (
+            !state.auth.isAuthenticated ||
+            state.auth.unlockedAccounts.length === 0
+        ) {
+            return unchanged;
         }
 
-        const removedPending = await reconcilePendingForAccount(
-            account,
-            rchain,
-        );
-
-        if (removedPending) {
-            atomicBalance = await rchain.getBalance(account.revAddress, true);
+        if (!network.readOnlyUrl || !network.readOnlyUrl.trim()) {
+            return unchanged;
         }
 
-        const baseBalance = (parseInt(atomicBalance) / 100000000).toString();
-        const balanceWithPending = calculateBalanceWithPending(
-            baseBalance,
-            account.id,
-            account.revAddress,
-            account.publicKey,
+        const rchain = new RChainService(
+            network.url,
+            network.readOnlyUrl,
+            network.adminUrl,
+            network.shardId,
+            network.graphqlUrl,
+            network,
+        );
+        const balances = await rchain.getBalances(
+            accounts.map((account) => account.revAddress),
+            forceRefresh,
         );
 
-        return { accountId: account.id, balance: balanceWithPending };
+        const results: { accountId: string; balance: string }[] = [];
+        for (const account of accounts) {
+            results.push(
+                await resolveAccountBalance(
+                    account,
+                    balances[account.revAddress] ?? "0",
+                    rchain,
+                ),
+            );
+        }
+        recordBalanceHistory(
+            network,
+            accounts.map((account) => account.revAddress),
+            balances,
+        );
+        return results;
     },
 );
 
@@ -592,6 +718,7 @@ export const fetchTransactionHistory = createAsyncThunk(
             selectedNetwork.adminUrl,
             selectedNetwork.shardId,
             selectedNetwork.graphqlUrl,
+            selectedNetwork,
         );
         const transactions = await rchain.fetchTransactionHistory(
             address,
@@ -628,6 +755,52 @@ export const fetchTransactionHistory = createAsyncThunk(
     },
 );
 
+// Private key of `from` for signing, unlocking it with `password` if needed
+const resolveSigningKey = async (
+    from: Account,
+    password?: string,
+): Promise<string> => {
+    if (from.isWatchOnly) {
+        throw new Error(WATCH_ONLY_SIGNING_ERROR);
+    }
+    if (!SecureStorage.hasSessionToken()) {
+        throw new Error("Session expired. Please login again.");
+    }
+
+    const unlockedAccount = SecureStorage.getUnlockedAccount(from.id);
+    if (unlockedAccount?.privateKey) {
+        return unlockedAccount.privateKey;
+    }
+    if (password) {
+        const unlocked = await SecureStorage.unlockAccount(from.id, password);
+        if (unlocked?.privateKey) {
+            return unlocked.privateKey;
+        }
+    }
+
+    throw new Error(
+        "Account is locked. Please provide password or unlock account first.",
+    );
+};
+
+const createSigningService = (network: Network): RChainService => {
+    const validatorUrl = network.url?.trim();
+    if (!validatorUrl) {
+        throw new Error(
+            `Network "${network.name}" has no validator URL configured`,
+        );
+    }
+
+    return new RChainService(
+        validatorUrl,
+        network.readOnlyUrl,
+        network.adminUrl,
+        network.shardId,
+        network.graphqlUrl,
+        network,
+    );
+};
+
 export const sendTransaction = createAsyncThunk(
     "wallet/sendTransaction",
     async ({
@@ -643,48 +816,10 @@ export const sendTransaction = createAsyncThunk(
         password?: string;
         network: Network;
     }) => {
-        if (!SecureStorage.hasSessionToken()) {
-            throw new Error("Session expired. Please login again.");
-        }
-
-        let privateKey: string | undefined;
-
-        const unlockedAccount = SecureStorage.getUnlockedAccount(from.id);
-        if (unlockedAccount?.privateKey) {
-            privateKey = unlockedAccount.privateKey;
-        } else if (password) {
-            const unlocked = await SecureStorage.unlockAccount(
-                from.id,
-                password,
-            );
-            if (unlocked?.privateKey) {
-                privateKey = unlocked.privateKey;
-            }
-        }
-
-        if (!privateKey) {
-            throw new Error(
-                "Account is locked. Please provide password or unlock account first.",
-            );
-        }
-
-        const validatorUrl = network.url?.trim();
-        if (!validatorUrl) {
-            throw new Error(
-                `Network "${network.name}" has no validator URL configured`,
-            );
-        }
-
-        const rchain = new RChainService(
-            validatorUrl,
-            network.readOnlyUrl,
-            network.adminUrl,
-            network.shardId,
-            network.graphqlUrl,
-        );
+        const privateKey = await resolveSigningKey(from, password);
+        const rchain = createSigningService(network);
 
-        const amountNum = parseFloat(amount);
-        const atomicAmount = Math.floor(amountNum * 100000000 + 0.5).toString();
+        const sendAmount = Amount.parse(amount);
 
         if (to.trim().toLowerCase().startsWith("0x")) {
             throw new Error("Sending to Ethereum addresses is not supported");
@@ -693,7 +828,7 @@ export const sendTransaction = createAsyncThunk(
         const deployId = await rchain.transfer(
             from.revAddress,
             to,
-            atomicAmount,
+            sendAmount.toAtomicString(),
             privateKey,
         );
 
@@ -702,17 +837,16 @@ export const sendTransaction = createAsyncThunk(
             deployId,
             from: from.revAddress,
             to,
-            amount,
+            amount: sendAmount.toString(),
             timestamp: new Date().toString(),
             status: "pending",
-            gasCost: generateRandomGasFee(),
         };
 
         savePendingTransaction({
             deployId,
             from: from.revAddress,
             to,
-            amount,
+            amount: sendAmount.toString(),
             timestamp: new Date().toISOString(),
             accountId: from.id,
             type: "send",
@@ -722,6 +856,103 @@ export const sendTransaction = createAsyncThunk(
     },
 );
 
+// Transfer of a custom Rholang token; the ASI balance only pays the fee
+export const sendTokenTransfer = createAsyncThunk(
+    "wallet/sendTokenTransfer",
+    async ({
+        from,
+        to,
+        token,
+        amount,
+        password,
+        network,
+    }: {
+        from: Account;
+        to: string;
+        token: CustomToken;
+        amount: string;
+        password?: string;
+        network: Network;
+    }) => {
+        const privateKey = await resolveSigningKey(from, password);
+        const rchain = createSigningService(network);
+
+        const term = buildTokenTransferTerm(
+            token,
+            to,
+            parseTokenAmount(amount, token.decimals),
+        );
+        const deployId = await rchain.sendDeploy(term, privateKey);
+
+        // Tracked as a deploy: the ASI balance change is only the fee
+        savePendingTransaction({
+            deployId,
+            from: from.revAddress,
+            to,
+            timestamp: new Date().toISOString(),
+            accountId: from.id,
+            type: "deploy",
+        });
+
+        return { deployId };
+    },
+);
+
+// Several vault transfers in one deploy; per-row outcomes are read back later
+export const sendBatchPayment = createAsyncThunk(
+    "wallet/sendBatchPayment",
+    async ({
+        from,
+        rows,
+        phloLimit,
+        password,
+        network,
+    }: {
+        from: Account;
+        rows: BatchPaymentRow[];
+        phloLimit: number;
+        password?: string;
+        network: Network;
+    }) => {
+        const privateKey = await resolveSigningKey(from, password);
+        const rchain = createSigningService(network);
+
+        const term = buildBatchTransferTerm(from.revAddress, rows);
+        const deployId = await rchain.sendDeploy(term, privateKey, phloLimit);
+
+        savePendingTransaction({
+            deployId,
+            from: from.revAddress,
+            amount: batchTotal(rows).toString(),
+            timestamp: new Date().toISOString(),
+            accountId: from.id,
+            type: "send",
+        });
+
+        return { deployId };
+    },
+);
+
+// Off-chain proof of address ownership; nothing is broadcast
+export const signAccountMessage = createAsyncThunk(
+    "wallet/signAccountMessage",
+    async ({
+        from,
+        message,
+        password,
+    }: {
+        from: Account;
+        message: string;
+        password?: string;
+    }) => {
+        if (from.isMetamask) {
+            throw new Error("MetaMask accounts cannot sign messages here");
+        }
+        const privateKey = await resolveSigningKey(from, password);
+        return createSignedMessage(message, privateKey);
+    },
+);
+
 const walletSlice = createSlice({
     name: "wallet",
     initialState,
@@ -792,7 +1023,6 @@ const walletSlice = createSlice({
                     sanitized,
                     network.id,
                 );
-
             } catch (error) {
                 console.error(
                     "Failed to reload accounts for selected network:",
@@ -988,7 +1218,10 @@ const walletSlice = createSlice({
             action: PayloadAction<{
                 deployId: string;
                 status: "pending" | "completed" | "failed";
+                lifecycle?: DeployLifecycleState;
+                blockNumber?: number;
                 error?: string;
+                gasCost?: string;
             }>,
         ) => {
             const transaction = state.transactions.find(
@@ -999,6 +1232,15 @@ const walletSlice = createSlice({
                 if (action.payload.error) {
                     transaction.error = action.payload.error;
                 }
+                if (action.payload.gasCost) {
+                    transaction.gasCost = action.payload.gasCost;
+                }
+                if (action.payload.lifecycle) {
+                    transaction.lifecycle = action.payload.lifecycle;
+                }
+                if (action.payload.blockNumber !== undefined) {
+                    transaction.blockNumber = action.payload.blockNumber;
+                }
 
                 if (
                     action.payload.status === "completed" ||
@@ -1041,6 +1283,28 @@ const walletSlice = createSlice({
                 state.error = action.error.message || "Failed to fetch balance";
                 state.isLoading = false;
             })
+            .addCase(fetchBalances.pending, (state) => {
+                state.isLoading = true;
+            })
+            .addCase(fetchBalances.fulfilled, (state, action) => {
+                action.payload.forEach(({ accountId, balance }) => {
+                    const account = state.accounts.find(
+                        (a) => a.id === accountId,
+                    );
+                    if (account) {
+                        account.balance = balance;
+                    }
+                    if (state.selectedAccount?.id === accountId) {
+                        state.selectedAccount.balance = balance;
+                    }
+                });
+                state.isLoading = false;
+            })
+            .addCase(fetchBalances.rejected, (state, action) => {
+                state.error =
+                    action.error.message || "Failed to fetch balances";
+                state.isLoading = false;
+            })
             .addCase(sendTransaction.pending, (state) => {
                 state.isLoading = true;
             })
@@ -1053,6 +1317,28 @@ const walletSlice = createSlice({
                     action.error.message || "Failed to send transaction";
                 state.isLoading = false;
             })
+            .addCase(sendTokenTransfer.pending, (state) => {
+                state.isLoading = true;
+            })
+            .addCase(sendTokenTransfer.fulfilled, (state) => {
+                state.isLoading = false;
+            })
+            .addCase(sendTokenTransfer.rejected, (state, action) => {
+                state.error =
+                    action.error.message || "Failed to send token transfer";
+                state.isLoading = false;
+            })
+            .addCase(sendBatchPayment.pending, (state) => {
+                state.isLoading = true;
+            })
+            .addCase(sendBatchPayment.fulfilled, (state) => {
+                state.isLoading = false;
+            })
+            .addCase(sendBatchPayment.rejected, (state, action) => {
+                state.error =
+                    action.error.message || "Failed to send batch payment";
+                state.isLoading = false;
+            })
             .addCase(fetchTransactionHistory.fulfilled, (state, action) => {
                 const pendingTxs = loadPendingTransactions();
                 const pendingDeployIds = new Set(
@@ -1087,10 +1373,7 @@ const walletSlice = createSlice({
                                 ? "completed"
                                 : tx.status) as Transaction["status"],
                             blockNumber: tx.blockNumber,
-                            gasCost:
-                                tx.type === "send"
-                                    ? generateRandomGasFee()
-                                    : undefined,
+                            gasCost: tx.gasCost,
                         };
                     },
                 );
@@ -1098,6 +1381,19 @@ const walletSlice = createSlice({
                 const existingIds = new Set(
                     state.transactions.map((tx) => tx.id),
                 );
+
+                // Deploys we submitted ourselves only learn their real cost once indexed
+                newTransactions.forEach((tx) => {
+                    if (!tx.gasCost || !existingIds.has(tx.id)) {
+                        return;
+                    }
+                    const existing = state.transactions.find(
+                        (t) => t.id === tx.id,
+                    );
+                    if (existing) {
+                        existing.gasCost = tx.gasCost;
+                    }
+                });
                 const uniqueNewTransactions = newTransactions.filter(
                     (tx) => !existingIds.has(tx.id),
                 );
@@ -1,3 +1,6 @@
+// Exact decimal ASI amount as written by Amount#toString/toFixed; read it back with Amount.from
+export type AmountString = string;
+
 export interface Account {
   id: string;
   name: string;
@@ -6,9 +9,13 @@ export interface Account {
   ethAddress: string;
   publicKey: string;
   privateKey?: string;
-  balance: string;
+  balance: AmountString;
   isMetamask?: boolean;
   networkId?: string;
+  // BIP44 path when the account was derived from the wallet's recovery phrase
+  derivationPath?: string;
+  // Imported from an address alone: balance and history only, never signs
+  isWatchOnly?: boolean;
   createdAt: Date;
 }
 
@@ -17,14 +24,45 @@ export interface Transaction {
   deployId: string;
   from: string;
   to: string;
-  amount: string;
+  amount: AmountString;
   timestamp: string;
   status: 'pending' | 'completed' | 'failed';
+  lifecycle?: DeployLifecycleState;
   blockNumber?: number;
   error?: string;
   gasCost?: string;
 }
 
+// submitted -> included (in a block) -> finalized, or errored / expired.
+// unknown: included, but no block was ever reported, so finality was not seen
+export type DeployLifecycleState =
+  | 'submitted'
+  | 'included'
+  | 'finalized'
+  | 'errored'
+  | 'expired'
+  | 'unknown';
+
+export interface DeployLifecycleStep {
+  state: DeployLifecycleState;
+  timestamp: string;
+}
+
+export interface DeployLifecycle {
+  deployId: string;
+  state: DeployLifecycleState;
+  // Network the deploy was sent to; missing on records from older versions
+  networkId?: string;
+  validAfterBlockNumber?: number;
+  blockHash?: string;
+  blockNumber?: number;
+  cost?: string;
+  error?: string;
+  // Set once the deploy's (success, reason) outcome has been read back
+  outcomeChecked?: boolean;
+  steps: DeployLifecycleStep[];
+}
+
 export interface Deploy {
   term: string;
   phloLimit: number;
@@ -41,6 +79,33 @@ export interface Network {
   adminUrl?: string;
   graphqlUrl?: string;
   shardId?: string;
+  // Additional endpoints per role, used for failover after url/readOnlyUrl
+  validatorUrls?: string[];
+  readOnlyUrls?: string[];
+  // Local devnet: propose a block on adminUrl after every accepted deploy
+  devnet?: boolean;
+}
+
+// Rholang token contract published at a registry URI, configured per network
+export interface CustomToken {
+  id: string;
+  networkId: string;
+  name: string;
+  symbol: string;
+  decimals: number;
+  registryUri: string;
+}
+
+// Saved counterparty; the ASI address is the contact's identity
+export interface Contact {
+  id: string;
+  name: string;
+  revAddress: string;
+  ethAddress?: string;
+  notes?: string;
+  tags: string[];
+  createdAt: string;
+  updatedAt: string;
 }
 
 export interface WalletState {
@@ -0,0 +1,106 @@
+import { Amount, AmountParseError } from "./amount";
+import { getTokenDisplayName } from "../constants/token";
+
+describe("Amount.parse", () => {
+    it("converts decimals to atomic units exactly", () => {
+        expect(Amount.parse("12.5").toAtomicString()).toBe("1250000000");
+        expect(Amount.parse("0.00000001").toAtomicString()).toBe("1");
+        expect(Amount.parse(".5").toAtomicString()).toBe("50000000");
+        expect(Amount.parse("-3").toAtomicString()).toBe("-300000000");
+    });
+
+    it("adds without floating point error", () => {
+        expect(Amount.parse("0.1").add("0.2").toString()).toBe("0.3");
+        expect(
+            Amount.parse("90000000.00000001").add("0.00000001").toString(),
+        ).toBe("90000000.00000002");
+    });
+
+    it("rejects more decimal places than the token has", () => {
+        expect(() => Amount.parse("0.000000001")).toThrow(AmountParseError);
+    });
+
+    it.each(["", ".", "abc", "1.2.3", "1e5", "1,5", "--1"])(
+        "rejects %p",
+        (value) => {
+            expect(() => Amount.parse(value)).toThrow(AmountParseError);
+            expect(Amount.tryParse(value)).toBeNull();
+        },
+    );
+});
+
+describe("Amount.from", () => {
+    it("treats empty values as zero", () => {
+        expect(Amount.from(null).isZero()).toBe(true);
+        expect(Amount.from(undefined).isZero()).toBe(true);
+        expect(Amount.from("").isZero()).toBe(true);
+    });
+
+    it("rounds legacy float strings to the token precision", () => {
+        expect(Amount.from("1e-8").toAtomicString()).toBe("1");
+        expect(Amount.from(0.1 + 0.2).toString()).toBe("0.3");
+    });
+
+    it("rejects non-finite values", () => {
+        expect(() => Amount.from("not a number")).toThrow(AmountParseError);
+        expect(() => Amount.from(Infinity)).toThrow(AmountParseError);
+    });
+});
+
+describe("Amount.fromAtomic", () => {
+    it("keeps balances beyond 2^53 exact", () => {
+        const atomic = "123456789012345678901";
+        expect(Amount.fromAtomic(atomic).toAtomicString()).toBe(atomic);
+        expect(Amount.fromAtomic(BigInt(atomic)).toString()).toBe(
+            "1234567890123.45678901",
+        );
+    });
+
+    it("rejects unsafe numbers and decimals", () => {
+        expect(() => Amount.fromAtomic(2 ** 53 + 2)).toThrow(AmountParseError);
+        expect(() => Amount.fromAtomic("1.5")).toThrow(AmountParseError);
+    });
+});
+
+describe("comparison", () => {
+    it("compares across representations", () => {
+        const amount = Amount.parse("1.5");
+        expect(amount.eq("1.50")).toBe(true);
+        expect(amount.gt(1)).toBe(true);
+        expect(amount.lt(Amount.parse("1.50000001"))).toBe(true);
+        expect(Amount.max(amount, Amount.zero)).toBe(amount);
+        expect(Amount.parse("-2").abs().toString()).toBe("2");
+    });
+});
+
+describe("display", () => {
+    it("truncates instead of rounding", () => {
+        const amount = Amount.parse("1.99999999");
+        expect(amount.toFixed(2)).toBe("1.99");
+        expect(amount.truncate(4).toString()).toBe("1.9999");
+        expect(amount.format({ maxDecimals: 0 })).toBe("1");
+    });
+
+    it("does not show a sign for a negative value truncated to zero", () => {
+        expect(Amount.parse("-0.001").toFixed(2)).toBe("0.00");
+        expect(Amount.parse("-0.001").format({ maxDecimals: 2 })).toBe("0");
+    });
+
+    it("formats for the locale", () => {
+        const amount = Amount.parse("1234.5");
+        expect(amount.format({ locale: "en-US" })).toBe("1,234.5");
+        expect(amount.format({ locale: "de-DE" })).toBe("1.234,5");
+        expect(amount.format({ locale: "en-US", minDecimals: 2 })).toBe(
+            "1,234.50",
+        );
+        expect(amount.format({ locale: "en-US", showCurrency: true })).toBe(
+            `1,234.5 ${getTokenDisplayName()}`,
+        );
+    });
+
+    it("serializes to a plain decimal string", () => {
+        expect(JSON.stringify({ amount: Amount.parse("2.10") })).toBe(
+            '{"amount":"2.1"}',
+        );
+    });
+});
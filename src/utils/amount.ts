@@ -0,0 +1,263 @@
+/**
+ * Exact token amounts. An Amount holds bigint atomic units
+ * (1 ASI = 10^TOKEN_CONFIG.DECIMALS atomic units), so parsing, arithmetic and
+ * comparison never go through floating point. Values that are stored or kept
+ * in Redux stay plain decimal strings (see `toString`) and are turned back
+ * into an Amount with `Amount.from`.
+ */
+import { getTokenDisplayName, TOKEN_CONFIG } from "../constants/token";
+
+// An Amount, or a decimal ASI value as a string or number
+export type AmountLike = Amount | string | number;
+
+export interface AmountFormatOptions {
+    maxDecimals?: number;
+    minDecimals?: number;
+    locale?: string | string[];
+    showCurrency?: boolean;
+}
+
+export class AmountParseError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "AmountParseError";
+    }
+}
+
+const DECIMALS = TOKEN_CONFIG.DECIMALS;
+const SCALE = BigInt(TOKEN_CONFIG.ATOMIC_MULTIPLIER);
+const ZERO = BigInt(0);
+const DECIMAL_PATTERN = /^([+-])?(\d*)(?:\.(\d*))?$/;
+
+const pow10 = (exponent: number): bigint => BigInt(`1${"0".repeat(exponent)}`);
+
+const decimalSeparator = (locale?: string | string[]): string =>
+    new Intl.NumberFormat(locale)
+        .formatToParts(1.1)
+        .find((part) => part.type === "decimal")?.value ?? ".";
+
+export class Amount {
+    static readonly zero = new Amount(ZERO);
+
+    private readonly atomic: bigint;
+
+    private constructor(atomic: bigint) {
+        this.atomic = atomic;
+    }
+
+    // Atomic units, e.g. a balance returned by the node
+    static fromAtomic(value: bigint | string | number): Amount {
+        if (typeof value === "bigint") {
+            return new Amount(value);
+        }
+        if (typeof value === "number" && Number.isSafeInteger(value)) {
+            return new Amount(BigInt(value));
+        }
+        if (typeof value === "string" && /^-?\d+$/.test(value.trim())) {
+            return new Amount(BigInt(value.trim()));
+        }
+        throw new AmountParseError(`Invalid atomic amount: ${String(value)}`);
+    }
+
+    /**
+     * Parse a decimal ASI string such as "12.5". Rejects more decimal places
+     * than the token supports instead of rounding them away.
+     */
+    static parse(value: string): Amount {
+        const match = value.trim().match(DECIMAL_PATTERN);
+        if (!match || (!match[2] && !match[3])) {
+            throw new AmountParseError(`Invalid amount: ${value}`);
+        }
+        const [, sign, whole, fraction = ""] = match;
+        if (fraction.length > DECIMALS) {
+            throw new AmountParseError(
+                `Amount has more than ${DECIMALS} decimal places`,
+            );
+        }
+        const atomic =
+            BigInt(whole || "0") * SCALE +
+            BigInt(fraction.padEnd(DECIMALS, "0") || "0");
+        return new Amount(sign === "-" ? -atomic : atomic);
+    }
+
+    static tryParse(value: string): Amount | null {
+        try {
+            return Amount.parse(value);
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Lenient conversion for values already in the app: stored strings may
+     * come from older float arithmetic ("1e-8", extra digits), so anything
+     * that is not a plain decimal is rounded to the token's precision.
+     */
+    static from(value: AmountLike | null | undefined): Amount {
+        if (value instanceof Amount) {
+            return value;
+        }
+        if (value === null || value === undefined || value === "") {
+            return Amount.zero;
+        }
+        if (typeof value === "string") {
+            const parsed = Amount.tryParse(value);
+            if (parsed) {
+                return parsed;
+            }
+        }
+        const num = typeof value === "number" ? value : Number(value);
+        if (!isFinite(num)) {
+            throw new AmountParseError(`Invalid amount: ${String(value)}`);
+        }
+        return Amount.parse(num.toFixed(DECIMALS));
+    }
+
+    static max(a: Amount, b: Amount): Amount {
+        return a.gte(b) ? a : b;
+    }
+
+    static min(a: Amount, b: Amount): Amount {
+        return a.lte(b) ? a : b;
+    }
+
+    add(other: AmountLike): Amount {
+        return new Amount(this.atomic + Amount.from(other).atomic);
+    }
+
+    subtract(other: AmountLike): Amount {
+        return new Amount(this.atomic - Amount.from(other).atomic);
+    }
+
+    compare(other: AmountLike): -1 | 0 | 1 {
+        const otherAtomic = Amount.from(other).atomic;
+        if (this.atomic === otherAtomic) return 0;
+        return this.atomic < otherAtomic ? -1 : 1;
+    }
+
+    eq(other: AmountLike): boolean {
+        return this.compare(other) === 0;
+    }
+
+    lt(other: AmountLike): boolean {
+        return this.compare(other) < 0;
+    }
+
+    lte(other: AmountLike): boolean {
+        return this.compare(other) <= 0;
+    }
+
+    gt(other: AmountLike): boolean {
+        return this.compare(other) > 0;
+    }
+
+    gte(other: AmountLike): boolean {
+        return this.compare(other) >= 0;
+    }
+
+    isZero(): boolean {
+        return this.atomic === ZERO;
+    }
+
+    isNegative(): boolean {
+        return this.atomic < ZERO;
+    }
+
+    isPositive(): boolean {
+        return this.atomic > ZERO;
+    }
+
+    abs(): Amount {
+        return this.isNegative() ? new Amount(-this.atomic) : this;
+    }
+
+    toAtomic(): bigint {
+        return this.atomic;
+    }
+
+    toAtomicString(): string {
+        return this.atomic.toString();
+    }
+
+    // Approximate value, for charts and ratios only
+    toNumber(): number {
+        return Number(this.toString());
+    }
+
+    // Drop digits beyond `decimals` places, towards zero
+    truncate(decimals: number): Amount {
+        if (decimals >= DECIMALS) {
+            return this;
+        }
+        const step = pow10(DECIMALS - Math.max(0, decimals));
+        return new Amount((this.atomic / step) * step);
+    }
+
+    /**
+     * Fixed number of decimal places, truncated rather than rounded so a
+     * displayed balance is never more than what is actually held.
+     */
+    toFixed(decimals: number = DECIMALS): string {
+        const places = Math.min(Math.max(0, decimals), DECIMALS);
+        const { whole, fraction } = this.parts();
+        const digits = fraction.slice(0, places);
+        const sign =
+            this.isNegative() && (whole !== ZERO || /[1-9]/.test(digits))
+                ? "-"
+                : "";
+        return places > 0
+            ? `${sign}${whole.toString()}.${digits}`
+            : `${sign}${whole.toString()}`;
+    }
+
+    // Exact decimal value with trailing zeros removed, e.g. "12.5"
+    toString(): string {
+        const { whole, fraction } = this.parts();
+        const trimmed = fraction.replace(/0+$/, "");
+        const sign = this.isNegative() ? "-" : "";
+        return trimmed
+            ? `${sign}${whole.toString()}.${trimmed}`
+            : `${sign}${whole.toString()}`;
+    }
+
+    toJSON(): string {
+        return this.toString();
+    }
+
+    // Locale-aware display, e.g. "1,234.5 ASI" in en-US or "1.234,5 ASI" in de-DE
+    format(options: AmountFormatOptions = {}): string {
+        const {
+            maxDecimals = DECIMALS,
+            minDecimals = 0,
+            locale,
+            showCurrency = false,
+        } = options;
+        const places = Math.min(Math.max(0, maxDecimals), DECIMALS);
+        const { whole, fraction } = this.truncate(places).parts();
+
+        let digits = fraction.slice(0, places).replace(/0+$/, "");
+        digits = digits.padEnd(Math.min(minDecimals, places), "0");
+
+        const sign =
+            this.isNegative() && (whole !== ZERO || digits) ? "-" : "";
+        const grouped = new Intl.NumberFormat(locale, {
+            maximumFractionDigits: 0,
+        }).format(whole);
+        const formatted = digits
+            ? `${sign}${grouped}${decimalSeparator(locale)}${digits}`
+            : `${sign}${grouped}`;
+
+        return showCurrency
+            ? `${formatted} ${getTokenDisplayName()}`
+            : formatted;
+    }
+
+    // Unsigned whole part and zero-padded fraction digits
+    private parts(): { whole: bigint; fraction: string } {
+        const absolute = this.isNegative() ? -this.atomic : this.atomic;
+        return {
+            whole: absolute / SCALE,
+            fraction: (absolute % SCALE).toString().padStart(DECIMALS, "0"),
+        };
+    }
+}
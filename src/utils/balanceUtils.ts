@@ -1,32 +1,44 @@
 import { getTokenDisplayName } from "../constants/token";
+import { Amount, AmountLike } from "./amount";
+
+// Unparseable balances are shown as zero rather than breaking the view
+const toAmount = (balance: AmountLike): Amount => {
+    try {
+        return Amount.from(balance);
+    } catch {
+        return Amount.zero;
+    }
+};
 
 /**
  * Formats a balance value for display with appropriate precision
- * @param balance - The balance value as string or number
+ * @param balance - The balance as an Amount or decimal string/number
  * @param options - Formatting options
  * @returns Formatted balance string
  */
 export const formatBalance = (
-    balance: string | number,
+    balance: AmountLike,
     options: {
         showCurrency?: boolean;
         maxDecimals?: number;
         minDecimals?: number;
+        locale?: string;
     } = {},
 ): string => {
-    const { showCurrency = true, maxDecimals = 8, minDecimals = 0 } = options;
+    const {
+        showCurrency = true,
+        maxDecimals = 8,
+        minDecimals = 0,
+        locale,
+    } = options;
 
-    const num = typeof balance === "string" ? parseFloat(balance) : balance;
-
-    if (isNaN(num) || !isFinite(num)) {
-        return showCurrency ? `0 ${getTokenDisplayName()}` : "0";
-    }
+    const amount = toAmount(balance);
 
-    if (num === 0) {
+    if (!amount.isPositive()) {
         return showCurrency ? `0 ${getTokenDisplayName()}` : "0";
     }
 
-    if (num < 0.000001) {
+    if (amount.lt("0.000001")) {
         return showCurrency
             ? `<0.000001 ${getTokenDisplayName()}`
             : "<0.000001";
@@ -34,121 +46,96 @@ export const formatBalance = (
 
     let decimals = minDecimals;
 
-    if (num >= 1) {
+    if (amount.gte(1)) {
         decimals = Math.min(maxDecimals, 2);
-    } else if (num >= 0.01) {
+    } else if (amount.gte("0.01")) {
         decimals = Math.min(maxDecimals, 4);
-    } else if (num >= 0.0001) {
+    } else if (amount.gte("0.0001")) {
         decimals = Math.min(maxDecimals, 6);
     } else {
         decimals = Math.min(maxDecimals, 8);
     }
 
-    const formatted = num.toFixed(decimals);
-
-    const trimmed = parseFloat(formatted).toString();
-
-    return showCurrency ? `${trimmed} ${getTokenDisplayName()}` : trimmed;
+    return amount.format({ maxDecimals: decimals, locale, showCurrency });
 };
 
 /**
  * Formats balance for display in account switcher (compact format)
- * @param balance - The balance value as string or number
+ * @param balance - The balance as an Amount or decimal string/number
  * @returns Formatted balance string
  */
-export const formatBalanceCompact = (balance: string | number): string => {
-    const num = typeof balance === "string" ? parseFloat(balance) : balance;
-
-    if (isNaN(num) || !isFinite(num)) {
-        return `0 ${getTokenDisplayName()}`;
-    }
+export const formatBalanceCompact = (balance: AmountLike): string => {
+    const amount = toAmount(balance);
 
-    if (num === 0) {
+    if (!amount.isPositive()) {
         return `0 ${getTokenDisplayName()}`;
     }
 
-    if (num < 0.0001) {
+    if (amount.lt("0.0001")) {
         return `<0.0001 ${getTokenDisplayName()}`;
     }
 
-    if (num >= 1) {
-        const formatted = num.toFixed(4);
-        const trimmed = parseFloat(formatted).toString();
-        return `${trimmed} ${getTokenDisplayName()}`;
-    } else if (num >= 0.01) {
-        return `${num.toFixed(4)} ${getTokenDisplayName()}`;
+    if (amount.gte(1)) {
+        return amount.format({ maxDecimals: 4, showCurrency: true });
+    } else if (amount.gte("0.01")) {
+        return amount.format({
+            maxDecimals: 4,
+            minDecimals: 4,
+            showCurrency: true,
+        });
     } else {
-        return `${num.toFixed(6)} ${getTokenDisplayName()}`;
+        return amount.format({
+            maxDecimals: 6,
+            minDecimals: 6,
+            showCurrency: true,
+        });
     }
 };
 
 /**
  * Formats balance for display in account cards (medium precision)
- * @param balance - The balance value as string or number
+ * @param balance - The balance as an Amount or decimal string/number
  * @returns Formatted balance string
  */
 export const formatBalanceCard = (
-    balance: string | number,
+    balance: AmountLike,
 ): { amount: string; currency: string } => {
-    const num = typeof balance === "string" ? parseFloat(balance) : balance;
+    const value = toAmount(balance);
     const currency = getTokenDisplayName();
 
-    if (isNaN(num) || !isFinite(num)) {
+    if (!value.isPositive()) {
         return { amount: "0", currency };
     }
 
-    if (num === 0) {
-        return { amount: "0", currency };
-    }
-
-    if (num < 0.000001) {
+    if (value.lt("0.000001")) {
         return { amount: "<0.000001", currency };
     }
 
-    let amount: string;
-
-    if (num >= 1) {
-        const truncated = Math.floor(num * 10000) / 10000;
-        amount = truncated.toFixed(4);
-    } else if (num >= 0.001) {
-        const truncated = Math.floor(num * 1000000) / 1000000;
-        amount = truncated.toFixed(6);
-    } else {
-        const truncated = Math.floor(num * 100000000) / 100000000;
-        amount = truncated.toFixed(8);
-    }
+    const decimals = value.gte(1) ? 4 : value.gte("0.001") ? 6 : 8;
 
-    return { amount, currency };
+    return {
+        amount: value.format({ maxDecimals: decimals, minDecimals: decimals }),
+        currency,
+    };
 };
 
 /**
  * Formats balance for display on dashboard (high precision)
- * @param balance - The balance value as string or number
+ * @param balance - The balance as an Amount or decimal string/number
  * @returns Formatted balance string
  */
-export const formatBalanceDashboard = (balance: string | number): string => {
-    const num = typeof balance === "string" ? parseFloat(balance) : balance;
+export const formatBalanceDashboard = (balance: AmountLike): string => {
+    const amount = toAmount(balance);
 
-    if (isNaN(num) || !isFinite(num)) {
+    if (!amount.isPositive()) {
         return `0 ${getTokenDisplayName()}`;
     }
 
-    if (num === 0) {
-        return `0 ${getTokenDisplayName()}`;
-    }
-
-    if (num < 0.00000001) {
-        return `<0.00000001 ${getTokenDisplayName()}`;
-    }
+    const decimals = amount.gte(1) ? 4 : amount.gte("0.01") ? 6 : 8;
 
-    if (num >= 1) {
-        const truncated = Math.floor(num * 10000) / 10000;
-        return `${truncated.toFixed(4)} ${getTokenDisplayName()}`;
-    } else if (num >= 0.01) {
-        const truncated = Math.floor(num * 1000000) / 1000000;
-        return `${truncated.toFixed(6)} ${getTokenDisplayName()}`;
-    } else {
-        const truncated = Math.floor(num * 100000000) / 100000000;
-        return `${truncated.toFixed(8)} ${getTokenDisplayName()}`;
-    }
+    return amount.format({
+        maxDecimals: decimals,
+        minDecimals: decimals,
+        showCurrency: true,
+    });
 };
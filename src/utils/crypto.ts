@@ -209,16 +209,17 @@ const deployDataProtobufSerialize = (deployData: any): Uint8Array => {
   return writer.getResultBuffer();
 };
 
+// Blake2b-256 hash of the protobuf-serialized deploy data; this is what gets signed
+const hashDeployData = (deployData: any): Uint8Array => {
+  const deploySerialized = deployDataProtobufSerialize(deployData);
+  return decodeBase16(blake2bHex(deploySerialized, undefined, 32));
+};
+
 // Sign deploy data (like F1R3FLY wallet)
 export const signDeploy = (deployData: any, privateKey: string): any => {
   const keyPair = secp256k1.keyFromPrivate(privateKey, 'hex');
   
-  // Serialize deploy data using protobuf format
-  const deploySerialized = deployDataProtobufSerialize(deployData);
-  
-  // Hash with Blake2b-256 (32 bytes)
-  const hashed = blake2bHex(deploySerialized, undefined, 32);
-  const hashBytes = decodeBase16(hashed);
+  const hashBytes = hashDeployData(deployData);
   
   // Sign with canonical DER format
   const sig = keyPair.sign(Array.from(hashBytes), { canonical: true });
@@ -234,4 +235,85 @@ export const signDeploy = (deployData: any, privateKey: string): any => {
     sig: encodeBase16(new Uint8Array(sigDER)),
     sigAlgorithm: 'secp256k1'
   };
-};
\ No newline at end of file
+};
+
+export interface DeploySignatureCheck {
+  valid: boolean;
+  // Expected deploy ID, known even when the signature does not verify.
+  // RNode identifies a deploy by its signature, so this is the lowercased sig.
+  deployId: string;
+  error?: string;
+}
+
+const HEX_PATTERN = /^([0-9a-fA-F]{2})+$/;
+
+// Check a signed deploy the way the node will: re-serialize, hash and verify against the deployer key
+export const verifyDeploySignature = (signedDeploy: any): DeploySignatureCheck => {
+  const { deployer, sig, sigAlgorithm } = signedDeploy || {};
+  const deployId = typeof sig === 'string' ? sig.toLowerCase() : '';
+  const invalid = (error: string): DeploySignatureCheck => ({ valid: false, deployId, error });
+
+  if (sigAlgorithm !== 'secp256k1') {
+    return invalid(`Unsupported signature algorithm: ${String(sigAlgorithm)}`);
+  }
+  if (typeof deployer !== 'string' || !HEX_PATTERN.test(deployer)) {
+    return invalid('Deployer public key is not hex');
+  }
+  if (typeof sig !== 'string' || !HEX_PATTERN.test(sig)) {
+    return invalid('Signature is not hex');
+  }
+
+  try {
+    const publicKey = secp256k1.keyFromPublic(deployer, 'hex');
+    const hashBytes = hashDeployData(signedDeploy);
+    if (!publicKey.verify(Array.from(hashBytes), sig)) {
+      return invalid('Signature does not match the deploy data and deployer key');
+    }
+  } catch (error) {
+    return invalid(`Malformed signature or public key: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  return { valid: true, deployId };
+};
+
+// Messages are signed under this prefix so a signature can never double as a deploy signature
+export const MESSAGE_SIGNATURE_PREFIX = '\x19ASI Signed Message:\n';
+
+// Blake2b-256 of prefix + UTF-8 byte length + message, in the style of Ethereum's personal_sign
+export const hashMessage = (message: string): Uint8Array => {
+  const messageBytes = new TextEncoder().encode(message);
+  const prefixBytes = new TextEncoder().encode(`${MESSAGE_SIGNATURE_PREFIX}${messageBytes.length}`);
+  const payload = new Uint8Array(prefixBytes.length + messageBytes.length);
+  payload.set(prefixBytes);
+  payload.set(messageBytes, prefixBytes.length);
+  return decodeBase16(blake2bHex(payload, undefined, 32));
+};
+
+// 65-byte recoverable signature as hex: r (32) || s (32) || recovery id (1)
+export const signMessage = (message: string, privateKey: string): string => {
+  const keyPair = secp256k1.keyFromPrivate(privateKey, 'hex');
+  const sig = keyPair.sign(Array.from(hashMessage(message)), { canonical: true });
+  const r = sig.r.toArray('be', 32);
+  const s = sig.s.toArray('be', 32);
+  return encodeBase16(new Uint8Array([...r, ...s, sig.recoveryParam ?? 0]));
+};
+
+// Public key (uncompressed hex) that produced a signMessage signature; throws when malformed
+export const recoverMessagePublicKey = (message: string, signature: string): string => {
+  const sigHex = signature.trim().replace(/^0x/, '');
+  if (!/^[0-9a-fA-F]{130}$/.test(sigHex)) {
+    throw new Error('Signature must be 65 bytes of hex');
+  }
+  const recoveryParam = parseInt(sigHex.slice(128), 16);
+  if (recoveryParam > 3) {
+    throw new Error('Invalid signature recovery id');
+  }
+
+  const hash = Array.from(hashMessage(message));
+  const sig = { r: sigHex.slice(0, 64), s: sigHex.slice(64, 128) };
+  const publicKey = secp256k1.recoverPubKey(hash, sig, recoveryParam);
+  if (!secp256k1.verify(hash, sig, publicKey)) {
+    throw new Error('Signature does not match the message');
+  }
+  return publicKey.encode('hex', false);
+};
@@ -0,0 +1,122 @@
+import {
+    PaymentUriError,
+    getPaymentRequestWarnings,
+    isPaymentRequestExpired,
+    isPaymentUri,
+    parsePaymentUri,
+    serializePaymentUri,
+} from "./paymentUri";
+import { Network } from "types/wallet";
+
+const ADDRESS = "1111CYQuvDAxnzuTmVRcgwSGZAWL7bDRmcGAVEsy1zzNn9Yg2aK3e";
+
+const network: Network = {
+    id: "mainnet",
+    name: "Mainnet",
+    url: "https://node.example",
+    shardId: "root",
+};
+
+describe("parsePaymentUri", () => {
+    it("reads every parameter", () => {
+        expect(
+            parsePaymentUri(
+                `asi:${ADDRESS}?amount=1.50&memo=Invoice%2042&label=Shop&shard=root&network=mainnet&exp=1767225600`,
+            ),
+        ).toEqual({
+            address: ADDRESS,
+            amount: "1.5",
+            memo: "Invoice 42",
+            label: "Shop",
+            shardId: "root",
+            networkId: "mainnet",
+            expiresAt: 1767225600000,
+        });
+    });
+
+    it("accepts a bare address, web+asi: and a // prefix", () => {
+        expect(parsePaymentUri(` asi:${ADDRESS} `)).toEqual({
+            address: ADDRESS,
+        });
+        expect(parsePaymentUri(`web+asi://${ADDRESS}`).address).toBe(ADDRESS);
+        expect(parsePaymentUri(`ASI:${ADDRESS}?message=hi`).memo).toBe("hi");
+    });
+
+    it("ignores unknown optional parameters", () => {
+        expect(parsePaymentUri(`asi:${ADDRESS}?foo=bar`)).toEqual({
+            address: ADDRESS,
+        });
+    });
+
+    it.each([
+        ["another scheme", `bitcoin:${ADDRESS}`],
+        [
+            "an Ethereum address",
+            "asi:0x7145a6e3e89106e2b98d3e4f0996670ee0cc6f7d",
+        ],
+        ["an invalid address", "asi:1111notanaddress"],
+        ["a zero amount", `asi:${ADDRESS}?amount=0`],
+        ["a negative amount", `asi:${ADDRESS}?amount=-1`],
+        ["too many decimals", `asi:${ADDRESS}?amount=0.000000001`],
+        ["a non-numeric expiry", `asi:${ADDRESS}?exp=tomorrow`],
+        ["an unknown required parameter", `asi:${ADDRESS}?req-escrow=1`],
+    ])("rejects %s", (_, uri) => {
+        expect(() => parsePaymentUri(uri)).toThrow(PaymentUriError);
+    });
+});
+
+describe("serializePaymentUri", () => {
+    it("round-trips through parsePaymentUri", () => {
+        const request = {
+            address: ADDRESS,
+            amount: "2.25",
+            memo: "Rent & bills",
+            label: "Flat 3",
+            shardId: "root",
+            networkId: "mainnet",
+            expiresAt: 1767225600000,
+        };
+        const uri = serializePaymentUri(request);
+        expect(isPaymentUri(uri)).toBe(true);
+        expect(uri).toContain("memo=Rent%20%26%20bills");
+        expect(parsePaymentUri(uri)).toEqual(request);
+    });
+
+    it("omits empty parameters", () => {
+        expect(serializePaymentUri({ address: ADDRESS })).toBe(
+            `asi:${ADDRESS}`,
+        );
+    });
+});
+
+describe("getPaymentRequestWarnings", () => {
+    const now = 1767225600000;
+
+    it("is empty for a matching, unexpired request", () => {
+        expect(
+            getPaymentRequestWarnings(
+                {
+                    address: ADDRESS,
+                    shardId: "root",
+                    networkId: "mainnet",
+                    expiresAt: now + 1,
+                },
+                network,
+                now,
+            ),
+        ).toEqual([]);
+    });
+
+    it("warns about the shard, the network and expiry", () => {
+        const request = {
+            address: ADDRESS,
+            shardId: "test",
+            networkId: "testnet",
+            expiresAt: now,
+        };
+        expect(isPaymentRequestExpired(request, now)).toBe(true);
+        expect(getPaymentRequestWarnings(request, network, now)).toHaveLength(
+            3,
+        );
+    });
+});
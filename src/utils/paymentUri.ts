@@ -0,0 +1,169 @@
+/**
+ * ASI payment request URIs, modelled on BIP 21:
+ *
+ *   asi:<address>?amount=1.5&memo=Invoice%2042&label=Shop&shard=root&network=mainnet&exp=1767225600
+ *
+ * Every parameter is optional. `amount` is in ASI, `exp` is a Unix time in
+ * seconds, and `shard`/`network` name where the request expects to be paid.
+ * Parameters starting with `req-` are required extensions: a wallet that does
+ * not understand one must reject the request. `web+asi:` is accepted as well,
+ * since browsers only register handlers for `web+` schemes.
+ */
+import { Network } from "types/wallet";
+import addressValidation from "utils/AddressValidation";
+import { Amount } from "utils/amount";
+
+export const PAYMENT_URI_SCHEME = "asi";
+
+const SCHEME_PATTERN = /^(?:web\+)?asi:/i;
+
+export interface PaymentRequest {
+    address: string;
+    // Decimal ASI amount
+    amount?: string;
+    memo?: string;
+    label?: string;
+    shardId?: string;
+    networkId?: string;
+    // Milliseconds since the epoch
+    expiresAt?: number;
+}
+
+export class PaymentUriError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "PaymentUriError";
+    }
+}
+
+export const isPaymentUri = (value: string): boolean =>
+    SCHEME_PATTERN.test(value.trim());
+
+export const parsePaymentUri = (uri: string): PaymentRequest => {
+    const value = uri.trim();
+    if (!isPaymentUri(value)) {
+        throw new PaymentUriError(
+            `Not a payment request: expected ${PAYMENT_URI_SCHEME}:<address>`,
+        );
+    }
+
+    const body = value.replace(SCHEME_PATTERN, "").replace(/^\/\//, "");
+    const queryStart = body.indexOf("?");
+    const address = decodeURIComponent(
+        queryStart >= 0 ? body.slice(0, queryStart) : body,
+    ).trim();
+    const params = new URLSearchParams(
+        queryStart >= 0 ? body.slice(queryStart + 1) : "",
+    );
+
+    if (address.toLowerCase().startsWith("0x")) {
+        throw new PaymentUriError(
+            "Payment requests must use an ASI address, not an Ethereum address",
+        );
+    }
+    const validation = addressValidation(address);
+    if (!validation.isValid) {
+        throw new PaymentUriError(
+            `Invalid address in payment request: ${validation.validationMessages.join(", ")}`,
+        );
+    }
+
+    const request: PaymentRequest = { address };
+
+    params.forEach((paramValue, key) => {
+        switch (key) {
+            case "amount": {
+                const amount = Amount.tryParse(paramValue);
+                if (!amount?.isPositive()) {
+                    throw new PaymentUriError(
+                        `Invalid amount in payment request: ${paramValue}`,
+                    );
+                }
+                request.amount = amount.toString();
+                break;
+            }
+            case "memo":
+            case "message":
+                request.memo = paramValue;
+                break;
+            case "label":
+                request.label = paramValue;
+                break;
+            case "shard":
+                request.shardId = paramValue;
+                break;
+            case "network":
+                request.networkId = paramValue;
+                break;
+            case "exp": {
+                const seconds = Number(paramValue);
+                if (!Number.isInteger(seconds) || seconds <= 0) {
+                    throw new PaymentUriError(
+                        `Invalid expiry in payment request: ${paramValue}`,
+                    );
+                }
+                request.expiresAt = seconds * 1000;
+                break;
+            }
+            default:
+                if (key.startsWith("req-")) {
+                    throw new PaymentUriError(
+                        `Payment request needs "${key}", which this wallet does not support`,
+                    );
+                }
+        }
+    });
+
+    return request;
+};
+
+export const serializePaymentUri = (request: PaymentRequest): string => {
+    const params = new URLSearchParams();
+    if (request.amount) {
+        params.set("amount", Amount.parse(request.amount).toString());
+    }
+    if (request.memo) params.set("memo", request.memo);
+    if (request.label) params.set("label", request.label);
+    if (request.shardId) params.set("shard", request.shardId);
+    if (request.networkId) params.set("network", request.networkId);
+    if (request.expiresAt) {
+        params.set("exp", String(Math.floor(request.expiresAt / 1000)));
+    }
+
+    const query = params.toString().replace(/\+/g, "%20");
+    return `${PAYMENT_URI_SCHEME}:${request.address}${query ? `?${query}` : ""}`;
+};
+
+export const isPaymentRequestExpired = (
+    request: PaymentRequest,
+    now: number = Date.now(),
+): boolean => !!request.expiresAt && request.expiresAt <= now;
+
+// Reasons not to pay the request on `network` as-is; empty when it matches
+export const getPaymentRequestWarnings = (
+    request: PaymentRequest,
+    network: Network,
+    now: number = Date.now(),
+): string[] => {
+    const warnings: string[] = [];
+    if (
+        request.shardId &&
+        network.shardId &&
+        request.shardId !== network.shardId
+    ) {
+        warnings.push(
+            `This request is for shard "${request.shardId}", but ${network.name} is on shard "${network.shardId}".`,
+        );
+    }
+    if (request.networkId && request.networkId !== network.id) {
+        warnings.push(
+            `This request is for network "${request.networkId}", but ${network.name} is selected.`,
+        );
+    }
+    if (isPaymentRequestExpired(request, now)) {
+        warnings.push(
+            `This request expired on ${new Date(request.expiresAt!).toLocaleString()}.`,
+        );
+    }
+    return warnings;
+};
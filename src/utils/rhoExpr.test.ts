@@ -0,0 +1,125 @@
+import {
+    RhoDecodeError,
+    decodeRhoExpr,
+    decodeRhoExprs,
+    formatRhoExprs,
+    formatRhoValue,
+    parseRhoJson,
+} from "./rhoExpr";
+
+describe("decodeRhoExpr", () => {
+    it("decodes scalars", () => {
+        expect(decodeRhoExpr({ ExprNil: {} })).toEqual({ type: "nil" });
+        expect(decodeRhoExpr({ ExprInt: { data: 42 } })).toEqual({
+            type: "int",
+            value: BigInt(42),
+        });
+        expect(decodeRhoExpr({ ExprString: { data: "hi" } })).toEqual({
+            type: "string",
+            value: "hi",
+        });
+        expect(decodeRhoExpr({ ExprBool: { data: false } })).toEqual({
+            type: "bool",
+            value: false,
+        });
+        expect(decodeRhoExpr({ ExprUri: { data: "rho:id:abc" } })).toEqual({
+            type: "uri",
+            value: "rho:id:abc",
+        });
+        expect(decodeRhoExpr({ ExprBytes: { data: "0aff" } })).toEqual({
+            type: "bytes",
+            value: new Uint8Array([10, 255]),
+        });
+    });
+
+    it("decodes nested collections", () => {
+        const value = decodeRhoExpr({
+            ExprTuple: {
+                data: [
+                    { ExprBool: { data: true } },
+                    {
+                        ExprMap: {
+                            data: { balance: { ExprInt: { data: 7 } } },
+                        },
+                    },
+                    {
+                        ExprList: {
+                            data: [
+                                {
+                                    ExprUnforg: {
+                                        data: { UnforgPrivate: { data: "ab" } },
+                                    },
+                                },
+                            ],
+                        },
+                    },
+                ],
+            },
+        });
+        expect(formatRhoValue(value)).toBe(
+            '(true, {"balance": 7}, [Unforgeable(private:0xab)])',
+        );
+    });
+
+    it("decodes integer digit strings exactly", () => {
+        expect(
+            decodeRhoExpr({ ExprInt: { data: "9223372036854775807" } }),
+        ).toEqual({ type: "int", value: BigInt("9223372036854775807") });
+    });
+
+    it("rejects integers that JSON.parse has already rounded", () => {
+        expect(() => decodeRhoExpr({ ExprInt: { data: 2 ** 53 + 2 } })).toThrow(
+            RhoDecodeError,
+        );
+    });
+
+    it("reports the path of a bad value", () => {
+        expect(() =>
+            decodeRhoExprs([
+                { ExprList: { data: [{ ExprInt: { data: "1.5" } }] } },
+            ]),
+        ).toThrow(
+            "Expected integer, got string at $[0].ExprList.data[0].ExprInt.data",
+        );
+        expect(() => decodeRhoExpr({ ExprFoo: { data: 1 } })).toThrow(
+            'Unknown expression type "ExprFoo" at $',
+        );
+        expect(() => decodeRhoExpr({ ExprBytes: { data: "abc" } })).toThrow(
+            RhoDecodeError,
+        );
+    });
+
+    it("treats a missing result as empty", () => {
+        expect(decodeRhoExprs(undefined)).toEqual([]);
+        expect(formatRhoExprs([])).toBe("(no result)");
+    });
+});
+
+describe("parseRhoJson", () => {
+    it("keeps integers beyond 2^53 exact through decoding", () => {
+        const parsed = parseRhoJson(
+            '{"expr":[{"ExprInt":{"data":123456789012345678901}}],"block":{"blockNumber":12}}',
+        ) as any;
+        expect(parsed.block.blockNumber).toBe(12);
+        expect(decodeRhoExprs(parsed.expr)).toEqual([
+            { type: "int", value: BigInt("123456789012345678901") },
+        ]);
+    });
+
+    it("leaves strings, decimals and exponents alone", () => {
+        expect(
+            parseRhoJson(
+                '["12345678901234567890", 0.12345678901234567890, 1e21, "a\\"99999999999999999"]',
+            ),
+        ).toEqual([
+            "12345678901234567890",
+            0.1234567890123456789,
+            1e21,
+            'a"99999999999999999',
+        ]);
+    });
+
+    it("returns text that is not JSON unchanged", () => {
+        expect(parseRhoJson("Error: term failed")).toBe("Error: term failed");
+    });
+});
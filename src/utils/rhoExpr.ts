@@ -0,0 +1,314 @@
+/**
+ * Decoder for the JSON Par/Expr encoding returned by RNode's HTTP API
+ * (`explore-deploy`, `data-at-name`). Each expression is an object with a
+ * single `Expr*` key, e.g. `{ "ExprInt": { "data": 42 } }`.
+ */
+
+export type UnforgeableKind = "private" | "deploy" | "deployer" | "sysAuthToken";
+
+export type RhoValue =
+    | { type: "nil" }
+    | { type: "int"; value: bigint }
+    | { type: "string"; value: string }
+    | { type: "bool"; value: boolean }
+    | { type: "uri"; value: string }
+    | { type: "bytes"; value: Uint8Array }
+    | { type: "tuple"; value: RhoValue[] }
+    | { type: "list"; value: RhoValue[] }
+    | { type: "set"; value: RhoValue[] }
+    | { type: "map"; value: [RhoValue, RhoValue][] }
+    | { type: "par"; value: RhoValue[] }
+    | { type: "unforgeable"; kind: UnforgeableKind; id: string };
+
+export type RhoValueType = RhoValue["type"];
+
+export class RhoDecodeError extends Error {
+    path: string;
+
+    constructor(message: string, path: string) {
+        super(`${message} at ${path}`);
+        this.name = "RhoDecodeError";
+        this.path = path;
+    }
+}
+
+const UNFORGEABLE_KINDS: Record<string, UnforgeableKind> = {
+    UnforgPrivate: "private",
+    UnforgDeploy: "deploy",
+    UnforgDeployer: "deployer",
+    UnforgSysAuthToken: "sysAuthToken",
+};
+
+const isObject = (value: unknown): value is Record<string, any> =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+
+const describe = (value: unknown): string => {
+    if (value === null) return "null";
+    if (Array.isArray(value)) return "array";
+    if (isObject(value)) {
+        const keys = Object.keys(value);
+        return keys.length > 0 ? `{${keys.join(", ")}}` : "{}";
+    }
+    return typeof value;
+};
+
+// Unsafe numbers were already rounded by JSON.parse; see parseRhoJson
+const decodeInt = (data: unknown, path: string): bigint => {
+    if (typeof data === "number" && Number.isInteger(data)) {
+        if (!Number.isSafeInteger(data)) {
+            throw new RhoDecodeError(
+                "Integer was rounded while parsing JSON",
+                path,
+            );
+        }
+        return BigInt(data);
+    }
+    if (typeof data === "string" && /^-?\d+$/.test(data.trim())) {
+        return BigInt(data.trim());
+    }
+    throw new RhoDecodeError(`Expected integer, got ${describe(data)}`, path);
+};
+
+const decodeHex = (data: unknown, path: string): Uint8Array => {
+    if (typeof data !== "string" || !/^([0-9a-fA-F]{2})*$/.test(data)) {
+        throw new RhoDecodeError(
+            `Expected hex-encoded bytes, got ${describe(data)}`,
+            path,
+        );
+    }
+    const bytes = new Uint8Array(data.length / 2);
+    for (let i = 0; i < bytes.length; i++) {
+        bytes[i] = parseInt(data.substr(i * 2, 2), 16);
+    }
+    return bytes;
+};
+
+const expectType = <T>(
+    data: unknown,
+    type: "string" | "boolean",
+    path: string,
+): T => {
+    if (typeof data !== type) {
+        throw new RhoDecodeError(
+            `Expected ${type}, got ${describe(data)}`,
+            path,
+        );
+    }
+    return data as T;
+};
+
+const decodeItems = (data: unknown, path: string): RhoValue[] => {
+    if (!Array.isArray(data)) {
+        throw new RhoDecodeError(`Expected array, got ${describe(data)}`, path);
+    }
+    return data.map((item, index) => decodeRhoExpr(item, `${path}[${index}]`));
+};
+
+// Map keys arrive either as a JSON object (keys stringified by the node) or as key/value pairs
+const decodeMap = (data: unknown, path: string): [RhoValue, RhoValue][] => {
+    if (Array.isArray(data)) {
+        return data.map((entry, index) => {
+            const entryPath = `${path}[${index}]`;
+            if (!isObject(entry) || !("key" in entry) || !("value" in entry)) {
+                throw new RhoDecodeError(
+                    `Expected {key, value} map entry, got ${describe(entry)}`,
+                    entryPath,
+                );
+            }
+            return [
+                decodeRhoExpr(entry.key, `${entryPath}.key`),
+                decodeRhoExpr(entry.value, `${entryPath}.value`),
+            ];
+        });
+    }
+    if (isObject(data)) {
+        return Object.keys(data).map((key) => [
+            { type: "string", value: key },
+            decodeRhoExpr(data[key], `${path}.${key}`),
+        ]);
+    }
+    throw new RhoDecodeError(`Expected map, got ${describe(data)}`, path);
+};
+
+const decodeUnforgeable = (data: unknown, path: string): RhoValue => {
+    if (isObject(data)) {
+        const [tag] = Object.keys(data);
+        const kind = UNFORGEABLE_KINDS[tag];
+        if (kind && Object.keys(data).length === 1) {
+            const id = expectType<string>(
+                data[tag]?.data,
+                "string",
+                `${path}.${tag}.data`,
+            );
+            return { type: "unforgeable", kind, id };
+        }
+    }
+    throw new RhoDecodeError(
+        `Unknown unforgeable name ${describe(data)}`,
+        path,
+    );
+};
+
+const JSON_TOKEN_PATTERN =
+    /"(?:[^"\\]|\\.)*"|-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/g;
+
+/**
+ * JSON.parse for node responses that keeps integers beyond 2^53 exact: they
+ * are quoted before parsing and reach the decoder as digit strings. Text that
+ * is not JSON is returned as is, like axios does.
+ */
+export const parseRhoJson = (text: string): unknown => {
+    const quoted = text.replace(JSON_TOKEN_PATTERN, (token) =>
+        /^-?\d+$/.test(token) && !Number.isSafeInteger(Number(token))
+            ? `"${token}"`
+            : token,
+    );
+    try {
+        return JSON.parse(quoted);
+    } catch {
+        return text;
+    }
+};
+
+/**
+ * Decode a single RhoExpr into a typed value. Throws RhoDecodeError with the
+ * offending path when the shape is not recognised.
+ */
+export const decodeRhoExpr = (expr: unknown, path: string = "$"): RhoValue => {
+    if (!isObject(expr)) {
+        throw new RhoDecodeError(
+            `Expected expression object, got ${describe(expr)}`,
+            path,
+        );
+    }
+
+    const keys = Object.keys(expr);
+    if (keys.length !== 1) {
+        throw new RhoDecodeError(
+            `Expected exactly one Expr* key, got ${describe(expr)}`,
+            path,
+        );
+    }
+
+    const [tag] = keys;
+    const data = expr[tag]?.data;
+    const dataPath = `${path}.${tag}.data`;
+
+    switch (tag) {
+        case "ExprNil":
+            return { type: "nil" };
+        case "ExprInt":
+        case "ExprBigInt":
+            return { type: "int", value: decodeInt(data, dataPath) };
+        case "ExprString":
+            return {
+                type: "string",
+                value: expectType<string>(data, "string", dataPath),
+            };
+        case "ExprBool":
+            return {
+                type: "bool",
+                value: expectType<boolean>(data, "boolean", dataPath),
+            };
+        case "ExprUri":
+            return {
+                type: "uri",
+                value: expectType<string>(data, "string", dataPath),
+            };
+        case "ExprBytes":
+            return { type: "bytes", value: decodeHex(data, dataPath) };
+        case "ExprTuple":
+            return { type: "tuple", value: decodeItems(data, dataPath) };
+        case "ExprList":
+            return { type: "list", value: decodeItems(data, dataPath) };
+        case "ExprSet":
+            return { type: "set", value: decodeItems(data, dataPath) };
+        case "ExprMap":
+            return { type: "map", value: decodeMap(data, dataPath) };
+        case "ExprPar":
+            return { type: "par", value: decodeItems(data, dataPath) };
+        case "ExprUnforg":
+            return decodeUnforgeable(data, dataPath);
+        default:
+            throw new RhoDecodeError(`Unknown expression type "${tag}"`, path);
+    }
+};
+
+// Decode the `expr` array returned by explore-deploy
+export const decodeRhoExprs = (exprs: unknown): RhoValue[] => {
+    if (exprs === undefined || exprs === null) {
+        return [];
+    }
+    if (!Array.isArray(exprs)) {
+        throw new RhoDecodeError(
+            `Expected expression list, got ${describe(exprs)}`,
+            "$",
+        );
+    }
+    return exprs.map((expr, index) => decodeRhoExpr(expr, `$[${index}]`));
+};
+
+const toHex = (bytes: Uint8Array): string =>
+    Array.from(bytes)
+        .map((byte) => byte.toString(16).padStart(2, "0"))
+        .join("");
+
+const joinItems = (items: RhoValue[]): string =>
+    items.map((item) => formatRhoValue(item)).join(", ");
+
+// Render a decoded value in Rholang syntax for display
+export const formatRhoValue = (value: RhoValue): string => {
+    switch (value.type) {
+        case "nil":
+            return "Nil";
+        case "int":
+            return value.value.toString();
+        case "string":
+            return JSON.stringify(value.value);
+        case "bool":
+            return value.value ? "true" : "false";
+        case "uri":
+            return `\`${value.value}\``;
+        case "bytes":
+            return `"${toHex(value.value)}".hexToBytes()`;
+        case "tuple":
+            return value.value.length === 1
+                ? `(${formatRhoValue(value.value[0])},)`
+                : `(${joinItems(value.value)})`;
+        case "list":
+            return `[${joinItems(value.value)}]`;
+        case "set":
+            return `Set(${joinItems(value.value)})`;
+        case "map":
+            return `{${value.value
+                .map(
+                    ([key, item]) =>
+                        `${formatRhoValue(key)}: ${formatRhoValue(item)}`,
+                )
+                .join(", ")}}`;
+        case "par":
+            return value.value.length === 0
+                ? "Nil"
+                : value.value.map((item) => formatRhoValue(item)).join(" | ");
+        case "unforgeable":
+            return `Unforgeable(${value.kind}:0x${value.id})`;
+    }
+};
+
+/**
+ * Decode and format an explore-deploy result. Unknown shapes are reported
+ * inline instead of throwing so the raw output is still visible.
+ */
+export const formatRhoExprs = (exprs: unknown): string => {
+    try {
+        const values = decodeRhoExprs(exprs);
+        return values.length === 0
+            ? "(no result)"
+            : values.map((value) => formatRhoValue(value)).join("\n");
+    } catch (error: any) {
+        if (error instanceof RhoDecodeError) {
+            return `Unable to decode result: ${error.message}\n${JSON.stringify(exprs, null, 2)}`;
+        }
+        throw error;
+    }
+};
@@ -0,0 +1,129 @@
+import {
+    RholangTemplateError,
+    rhoAddress,
+    rhoInt,
+    rhoList,
+    rhoString,
+    rhoTuple,
+    rhoUri,
+    rholang,
+} from "./rholang";
+
+const ADDRESS = "1111eAeTJE2XFZ6wDpNZtZwHMaoFNpUrEMT1sn4C2iUBBZFoZ9uJAa";
+
+describe("rhoString", () => {
+    it("escapes quotes so a value cannot close the literal", () => {
+        const injected = 'x") | @"evil"!("';
+        expect(rhoString(injected).source).toBe('"x\\") | @\\"evil\\"!(\\""');
+    });
+
+    it("escapes backslashes before quotes", () => {
+        expect(rhoString('a\\"b').source).toBe('"a\\\\\\"b"');
+        expect(rhoString("\\").source).toBe('"\\\\"');
+    });
+
+    it.each(["line\nbreak", "carriage\rreturn", "nul\u0000", "del\u007f"])(
+        "rejects control characters in %j",
+        (value) => {
+            expect(() => rhoString(value)).toThrow(RholangTemplateError);
+        },
+    );
+});
+
+describe("rhoUri", () => {
+    it("accepts a registry URI", () => {
+        expect(rhoUri("rho:rchain:asiVault").source).toBe(
+            "`rho:rchain:asiVault`",
+        );
+    });
+
+    it.each([
+        'rho:id:abc` | @"evil"!(1) | `rho:id:x',
+        "rho:id:a b",
+        "rho:id:a\nb",
+        "rho:id:a\\b",
+        "no-scheme",
+        "",
+    ])("rejects %j", (value) => {
+        expect(() => rhoUri(value)).toThrow(RholangTemplateError);
+    });
+});
+
+describe("rhoAddress", () => {
+    it("accepts a Base58 address", () => {
+        expect(rhoAddress(ADDRESS).source).toBe(`"${ADDRESS}"`);
+    });
+
+    it.each([
+        `${ADDRESS}"`,
+        `${ADDRESS.slice(0, -1)}0`,
+        `${ADDRESS.slice(0, -1)}O`,
+        `${ADDRESS.slice(0, -1)}l`,
+        `${ADDRESS.slice(0, -1)} `,
+        "1111short",
+    ])("rejects %j", (value) => {
+        expect(() => rhoAddress(value)).toThrow(RholangTemplateError);
+    });
+});
+
+describe("rhoInt", () => {
+    it("accepts the 64-bit range", () => {
+        expect(rhoInt("9223372036854775807").source).toBe(
+            "9223372036854775807",
+        );
+        expect(rhoInt(BigInt("-9223372036854775808")).source).toBe(
+            "(-9223372036854775808)",
+        );
+        expect(rhoInt(42).source).toBe("42");
+    });
+
+    it.each([
+        "9223372036854775808",
+        "-9223372036854775809",
+        BigInt("18446744073709551616"),
+    ])("rejects out-of-range %s", (value) => {
+        expect(() => rhoInt(value)).toThrow(RholangTemplateError);
+    });
+
+    it.each([
+        1.5,
+        NaN,
+        Infinity,
+        Number.MAX_SAFE_INTEGER + 1,
+        "1.5",
+        "1e3",
+        "",
+        "1 | 2",
+    ])("rejects non-integer %p", (value) => {
+        expect(() => rhoInt(value)).toThrow(RholangTemplateError);
+    });
+});
+
+describe("rholang", () => {
+    it("joins typed literals into the term", () => {
+        expect(
+            rholang`@x!(${rhoString("a")}, ${rhoInt(1)}, ${rhoList([rhoInt(2)])}, ${rhoTuple([rhoInt(3)])})`,
+        ).toBe('@x!("a", 1, [2], (3,))');
+    });
+
+    it("throws on a raw string", () => {
+        const raw: any = '") | @"evil"!("';
+        expect(() => rholang`@x!(${raw})`).toThrow(RholangTemplateError);
+    });
+
+    it("throws on a raw number", () => {
+        const raw: any = 1;
+        expect(() => rholang`@x!(${raw})`).toThrow(RholangTemplateError);
+    });
+
+    it("throws on a look-alike object", () => {
+        const fake: any = { kind: "string", source: '"x"' };
+        expect(() => rholang`@x!(${fake})`).toThrow(RholangTemplateError);
+    });
+
+    it("rejects raw values inside lists and tuples", () => {
+        const raw: any = "x";
+        expect(() => rhoList([raw])).toThrow(RholangTemplateError);
+        expect(() => rhoTuple([raw])).toThrow(RholangTemplateError);
+    });
+});
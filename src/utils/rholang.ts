@@ -0,0 +1,162 @@
+/**
+ * Typed templating for Rholang terms. Values are never pasted into a term as
+ * raw text: each argument is wrapped in a typed literal that is validated and
+ * escaped for its Rholang context, and `rholang` refuses anything else.
+ *
+ *   rholang`@vault!("transfer", ${rhoString(to)}, ${rhoInt(amount)}, *key, *ret)`
+ */
+
+const RHO_INT_MIN = BigInt("-9223372036854775808");
+export const RHO_INT_MAX = BigInt("9223372036854775807");
+
+// Rholang addresses are Base58 (no 0, O, I, l)
+const ADDRESS_PATTERN = /^[1-9A-HJ-NP-Za-km-z]{50,60}$/;
+const URI_PATTERN = /^[A-Za-z][A-Za-z0-9+.-]*:[^`\\\s]+$/;
+const HEX_PATTERN = /^([0-9a-fA-F]{2})*$/;
+
+export class RholangTemplateError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "RholangTemplateError";
+    }
+}
+
+const RHO_LITERAL = Symbol("RholangLiteral");
+
+export interface RhoLiteral {
+    readonly [RHO_LITERAL]: true;
+    readonly kind: "string" | "int" | "uri" | "bytes" | "list" | "tuple";
+    readonly source: string;
+}
+
+const literal = (kind: RhoLiteral["kind"], source: string): RhoLiteral => ({
+    [RHO_LITERAL]: true,
+    kind,
+    source,
+});
+
+const isRhoLiteral = (value: unknown): value is RhoLiteral =>
+    typeof value === "object" &&
+    value !== null &&
+    (value as RhoLiteral)[RHO_LITERAL] === true;
+
+// String literal with quotes and backslashes escaped; control characters are rejected
+export const rhoString = (value: string): RhoLiteral => {
+    if (typeof value !== "string") {
+        throw new RholangTemplateError("String argument must be a string");
+    }
+    // eslint-disable-next-line no-control-regex
+    if (/[\u0000-\u001f\u007f]/.test(value)) {
+        throw new RholangTemplateError(
+            "String argument must not contain control characters",
+        );
+    }
+    const escaped = value.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+    return literal("string", `"${escaped}"`);
+};
+
+// 64-bit signed integer, given as a bigint, safe integer or decimal string
+export const rhoInt = (value: bigint | number | string): RhoLiteral => {
+    let parsed: bigint;
+    if (typeof value === "bigint") {
+        parsed = value;
+    } else if (typeof value === "number" && Number.isSafeInteger(value)) {
+        parsed = BigInt(value);
+    } else if (typeof value === "string" && /^-?\d+$/.test(value)) {
+        parsed = BigInt(value);
+    } else {
+        throw new RholangTemplateError(
+            `Invalid integer argument: ${String(value)}`,
+        );
+    }
+
+    if (parsed < RHO_INT_MIN || parsed > RHO_INT_MAX) {
+        throw new RholangTemplateError(
+            `Integer argument out of 64-bit range: ${parsed.toString()}`,
+        );
+    }
+    const digits = parsed.toString();
+    return literal("int", parsed < BigInt(0) ? `(${digits})` : digits);
+};
+
+// Backtick URI literal, e.g. rho:rchain:asiVault
+export const rhoUri = (value: string): RhoLiteral => {
+    if (typeof value !== "string" || !URI_PATTERN.test(value)) {
+        throw new RholangTemplateError(`Invalid URI argument: ${value}`);
+    }
+    return literal("uri", `\`${value}\``);
+};
+
+// Byte array built from hex, e.g. "0aff".hexToBytes()
+export const rhoBytes = (value: Uint8Array | string): RhoLiteral => {
+    const hex =
+        typeof value === "string"
+            ? value.replace(/^0x/, "")
+            : Array.from(value)
+                  .map((byte) => byte.toString(16).padStart(2, "0"))
+                  .join("");
+    if (!HEX_PATTERN.test(hex)) {
+        throw new RholangTemplateError("Byte array argument must be hex");
+    }
+    return literal("bytes", `"${hex.toLowerCase()}".hexToBytes()`);
+};
+
+// Wallet address as a string literal; only Base58 addresses are accepted
+export const rhoAddress = (value: string): RhoLiteral => {
+    if (typeof value !== "string" || !ADDRESS_PATTERN.test(value)) {
+        throw new RholangTemplateError(`Invalid address argument: ${value}`);
+    }
+    return rhoString(value);
+};
+
+// List literal of already typed literals, e.g. ["a", "b"]
+export const rhoList = (items: RhoLiteral[]): RhoLiteral => {
+    items.forEach((item, index) => {
+        if (!isRhoLiteral(item)) {
+            throw new RholangTemplateError(
+                `List item ${index} is not a typed Rholang literal`,
+            );
+        }
+    });
+    return literal("list", `[${items.map((item) => item.source).join(", ")}]`);
+};
+
+// Tuple literal of already typed literals, e.g. ("a", 1); one item becomes ("a",)
+export const rhoTuple = (items: RhoLiteral[]): RhoLiteral => {
+    if (items.length === 0) {
+        throw new RholangTemplateError("Tuple must have at least one item");
+    }
+    items.forEach((item, index) => {
+        if (!isRhoLiteral(item)) {
+            throw new RholangTemplateError(
+                `Tuple item ${index} is not a typed Rholang literal`,
+            );
+        }
+    });
+    const sources = items.map((item) => item.source);
+    return literal(
+        "tuple",
+        items.length === 1 ? `(${sources[0]},)` : `(${sources.join(", ")})`,
+    );
+};
+
+/**
+ * Tagged template that only accepts typed literals as interpolations. Passing
+ * a plain string or number throws, so raw values cannot reach the term.
+ */
+export const rholang = (
+    strings: TemplateStringsArray,
+    ...args: RhoLiteral[]
+): string =>
+    strings.reduce((term, chunk, index) => {
+        if (index === 0) {
+            return chunk;
+        }
+        const arg: unknown = args[index - 1];
+        if (!isRhoLiteral(arg)) {
+            throw new RholangTemplateError(
+                `Argument ${index} is not a typed Rholang literal`,
+            );
+        }
+        return term + arg.source + chunk;
+    }, "");
@@ -0,0 +1,97 @@
+/**
+ * Pattern matching and odds for vanity addresses. Kept free of browser APIs so
+ * the search worker and the page share the same rules.
+ */
+import { KeyPair } from "utils/crypto";
+
+export type VanityAddressType = "asi" | "eth";
+export type VanityPosition = "prefix" | "suffix";
+
+export interface VanityCriteria {
+    pattern: string;
+    position: VanityPosition;
+    addressType: VanityAddressType;
+    caseSensitive: boolean;
+}
+
+const BASE58_ALPHABET =
+    "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+const HEX_ALPHABET = "0123456789abcdef";
+
+// Every ASI address starts with the same encoded coin id and version
+export const ASI_ADDRESS_HEADER = "1111";
+const ETH_ADDRESS_HEADER = "0x";
+
+// Longer patterns would take years on any machine
+export const MAX_VANITY_PATTERN_LENGTH = 8;
+
+// Part of the address a pattern is matched against, without the fixed header
+const searchableAddress = (keyPair: KeyPair, type: VanityAddressType) =>
+    type === "asi"
+        ? keyPair.revAddress.slice(ASI_ADDRESS_HEADER.length)
+        : keyPair.ethAddress.slice(ETH_ADDRESS_HEADER.length);
+
+export const validateVanityCriteria = (
+    criteria: VanityCriteria,
+): string | null => {
+    const { pattern, addressType } = criteria;
+    if (!pattern) {
+        return "Enter the characters to look for";
+    }
+    if (pattern.length > MAX_VANITY_PATTERN_LENGTH) {
+        return `Use at most ${MAX_VANITY_PATTERN_LENGTH} characters`;
+    }
+    if (addressType === "eth") {
+        return /^[0-9a-fA-F]+$/.test(pattern)
+            ? null
+            : "ETH addresses only contain 0-9 and a-f";
+    }
+    const invalid = pattern
+        .split("")
+        .filter((char) => !BASE58_ALPHABET.includes(char));
+    return invalid.length > 0
+        ? `ASI addresses cannot contain ${Array.from(new Set(invalid)).join(", ")}`
+        : null;
+};
+
+// ETH addresses are shown in lower case here, so their matching ignores case
+export const matchesVanity = (
+    keyPair: KeyPair,
+    criteria: VanityCriteria,
+): boolean => {
+    const ignoreCase =
+        !criteria.caseSensitive || criteria.addressType === "eth";
+    const address = searchableAddress(keyPair, criteria.addressType);
+    const candidate = ignoreCase ? address.toLowerCase() : address;
+    const pattern = ignoreCase
+        ? criteria.pattern.toLowerCase()
+        : criteria.pattern;
+    return criteria.position === "prefix"
+        ? candidate.startsWith(pattern)
+        : candidate.endsWith(pattern);
+};
+
+/**
+ * Mean number of keys to try before a match. Treats each character as uniform,
+ * which holds for suffixes; ASI prefixes can take up to about twice as long
+ * because the first character after the header is skewed.
+ */
+export const expectedVanityAttempts = (criteria: VanityCriteria): number => {
+    if (criteria.addressType === "eth") {
+        return Math.pow(HEX_ALPHABET.length, criteria.pattern.length);
+    }
+    return criteria.pattern.split("").reduce((attempts, char) => {
+        const matching = criteria.caseSensitive
+            ? 1
+            : BASE58_ALPHABET.split("").filter(
+                  (candidate) => candidate.toLowerCase() === char.toLowerCase(),
+              ).length;
+        return attempts * (BASE58_ALPHABET.length / matching);
+    }, 1);
+};
+
+// Chance that at least one of `attempts` keys has matched
+export const vanityMatchProbability = (
+    expectedAttempts: number,
+    attempts: number,
+): number => 1 - Math.pow(1 - 1 / expectedAttempts, attempts);
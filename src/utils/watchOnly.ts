@@ -0,0 +1,8 @@
+import { Account } from "types/wallet";
+
+export const WATCH_ONLY_SIGNING_ERROR =
+    "This is a watch-only account and cannot sign. Prepare the deploy under Offline Signing and sign it on the device that holds the key.";
+
+export const isWatchOnlyAccount = (
+    account?: Pick<Account, "isWatchOnly"> | null,
+): boolean => !!account?.isWatchOnly;